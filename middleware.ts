@@ -1,6 +1,9 @@
 // middleware.ts
 import { NextResponse, type NextRequest } from "next/server";
 import { createServerClient } from "@supabase/ssr";
+import { checkRateLimit, clientIp, memoryRateLimitStore, policyFor, rateLimitHeaders, rateLimitResponse } from "@/lib/ratelimit/policy";
+import { createPostgresStore } from "@/lib/ratelimit/postgresStore";
+import type { RateLimitStore } from "@/lib/ratelimit/tokenBucket";
 
 /**
  * Files + routes that should NEVER be auth-guarded.
@@ -47,6 +50,24 @@ function isPublicPath(pathname: string) {
   return false;
 }
 
+/**
+ * API routes that still serve signed-out callers (rate limited by IP only).
+ * /api/doc-open serves public docs anonymously and checks internal paths itself.
+ */
+const ANONYMOUS_API_PATHS = new Set(["/api/doc-open"]);
+
+/**
+ * Postgres buckets (shared across instances) unless RATE_LIMIT_STORE=memory or the service key is missing.
+ * supabaseAdmin is imported lazily so a missing key can't break the session check.
+ */
+async function rateLimitStore(): Promise<RateLimitStore> {
+  if (process.env.RATE_LIMIT_STORE === "memory" || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return memoryRateLimitStore();
+  }
+  const { supabaseAdmin } = await import("@/lib/supabaseAdmin");
+  return createPostgresStore(supabaseAdmin);
+}
+
 export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
 
@@ -77,13 +98,32 @@ export async function middleware(req: NextRequest) {
   const { data } = await supabase.auth.getUser();
   const user = data.user;
 
-  if (!user) {
+  const isApi = pathname.startsWith("/api/");
+
+  // ✅ APIs answer 401 JSON (the chat page redirects on it); pages redirect to login
+  if (!user && isApi && !ANONYMOUS_API_PATHS.has(pathname)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!user && !isApi) {
     const loginUrl = req.nextUrl.clone();
     loginUrl.pathname = "/";
     loginUrl.searchParams.set("next", pathname);
     return NextResponse.redirect(loginUrl);
   }
 
+  // ✅ Token-bucket rate limit per user + IP (see src/lib/ratelimit/policy)
+  const policy = policyFor(pathname, req.method);
+  if (policy && process.env.RATE_LIMIT_DISABLED !== "true") {
+    const decision = await checkRateLimit(await rateLimitStore(), policy, {
+      userId: user?.id ?? null,
+      ip: clientIp(req.headers),
+    });
+    if (!decision.allowed) return rateLimitResponse(decision);
+
+    for (const [name, value] of Object.entries(rateLimitHeaders(decision))) res.headers.set(name, value);
+  }
+
   return res;
 }
 
@@ -91,8 +131,17 @@ export async function middleware(req: NextRequest) {
  * Keep matchers tight:
  * - Protect /chat UI
  * - Protect /api/chat and /api/docs (since those require auth)
+ * - Rate limit /api/doc-open, /api/leads, /api/feedback and /api/voice (see RATE_LIMIT_POLICIES)
  * - Do NOT match /manifest.webmanifest or other public assets
  */
 export const config = {
-  matcher: ["/chat/:path*", "/api/chat/:path*", "/api/docs/:path*"],
+  matcher: [
+    "/chat/:path*",
+    "/api/chat/:path*",
+    "/api/docs/:path*",
+    "/api/doc-open",
+    "/api/leads/:path*",
+    "/api/feedback",
+    "/api/voice/:path*",
+  ],
 };
@@ -1,11 +1,53 @@
+const defaultRuntimeCaching = require("next-pwa/cache");
+
+/**
+ * Saved docs (see src/lib/offline/sync.ts): the client fills the "offline-docs" cache with the rep's
+ * favorite + recent docs; with no signal /api/doc-open is answered from it. The network still wins
+ * when there is one, and its responses (redirects to short-lived signed URLs) are never cached.
+ */
+const offlineDocs = {
+  urlPattern: ({ url }) => self.origin === url.origin && url.pathname === "/api/doc-open",
+  handler: "NetworkFirst",
+  method: "GET",
+  options: {
+    cacheName: "offline-docs",
+    networkTimeoutSeconds: 8,
+    plugins: [
+      {
+        // one entry per doc: token / download params don't change the bytes
+        cacheKeyWillBeUsed: async ({ request }) => {
+          const url = new URL(request.url);
+          return `${url.origin}/api/doc-open?path=${encodeURIComponent(url.searchParams.get("path") || "")}`;
+        },
+      },
+      {
+        cacheWillUpdate: async () => null,
+      },
+    ],
+  },
+};
+
+/** Writes go through the outbox (src/lib/offline/outbox.ts); the service worker never replays them. */
+const neverCached = {
+  urlPattern: ({ url }) =>
+    self.origin === url.origin && /^\/api\/(chat|voice|offline)(\/|$)/.test(url.pathname),
+  handler: "NetworkOnly",
+  options: { cacheName: "network-only" },
+};
+
 const withPWA = require("next-pwa")({
   dest: "public",
   disable: process.env.NODE_ENV === "development",
+  runtimeCaching: [offlineDocs, neverCached, ...defaultRuntimeCaching],
+  // pages that aren't cached yet fall back to the offline library
+  fallbacks: { document: "/offline" },
 });
 
 /** @type {import('next').NextConfig} */
 module.exports = withPWA({
   reactStrictMode: true,
+
+  // ✅ Tell Next "Turbopack is intentional"
   turbopack: {},
 
   async headers() {
@@ -22,11 +64,3 @@ module.exports = withPWA({
     ];
   },
 });
-
-/** @type {import('next').NextConfig} */
-module.exports = withPWA({
-  reactStrictMode: true,
-
-  // ✅ Tell Next "Turbopack is intentional"
-  turbopack: {},
-});
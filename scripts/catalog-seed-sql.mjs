@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+// scripts/catalog-seed-sql.mjs
+//
+// src/lib/solutions/catalogSeed.ts is the one source for the solutions seed: this renders it into the
+// generated block of supabase/migrations/20261019_000010_solutions_catalog.sql.
+//
+//   npm run catalog:seed-sql              # rewrite the block after editing catalogSeed.ts
+//   npm run catalog:seed-sql -- --check   # exit 1 when the migration has drifted from the TS seed
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": path.join(root, "src") } });
+
+const MIGRATION = path.join(root, "supabase/migrations/20261019_000010_solutions_catalog.sql");
+const BEGIN = "-- BEGIN GENERATED SEED";
+const END = "-- END GENERATED SEED";
+
+// table column order; `active` is left to its default
+const COLUMNS = [
+  "key",
+  "label",
+  "family",
+  "securing",
+  "storage_folder",
+  "summary",
+  "aliases",
+  "match_pattern",
+  "keywords",
+  "anchor_type",
+  "components",
+  "prompt_notes",
+  "doc_kinds",
+  "mount_surface",
+  "ask_steps",
+  "lead_label",
+  "lead_key",
+  "product_names",
+  "extra_prefixes",
+  "sort_order",
+];
+
+const text = (v) => `'${String(v).replace(/'/g, "''")}'`;
+
+function literal(value) {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return value.length ? `array[${value.map(text).join(", ")}]` : "'{}'";
+  if (typeof value === "number") return String(value);
+  return text(value);
+}
+
+function renderSeed(rows) {
+  const values = rows.map((row) => `  (\n${COLUMNS.map((c) => `    ${literal(row[c])}`).join(",\n")}\n  )`);
+  return [
+    BEGIN,
+    "-- from src/lib/solutions/catalogSeed.ts (npm run catalog:seed-sql); edit the TS seed, not this block.",
+    "insert into public.solutions (",
+    `  ${COLUMNS.join(", ")}`,
+    ")",
+    "values",
+    values.join(",\n"),
+    "on conflict (key) do nothing;",
+    END,
+  ].join("\n");
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const unknown = argv.find((a) => a !== "--check");
+  if (unknown) throw new Error(`Unknown argument: ${unknown}`);
+  const check = argv.includes("--check");
+
+  const { SOLUTION_SEED } = await jiti.import("@/lib/solutions/catalogSeed");
+  const sql = await readFile(MIGRATION, "utf8");
+
+  const start = sql.indexOf(BEGIN);
+  const end = sql.indexOf(END);
+  if (start < 0 || end < start) throw new Error(`${path.relative(root, MIGRATION)} has no ${BEGIN} … ${END} block`);
+
+  const next = `${sql.slice(0, start)}${renderSeed(SOLUTION_SEED)}${sql.slice(end + END.length)}`;
+  if (next === sql) {
+    console.log(`Seed up to date (${SOLUTION_SEED.length} rows)`);
+    return;
+  }
+
+  if (check) {
+    console.error(`${path.relative(root, MIGRATION)} differs from catalogSeed.ts; run npm run catalog:seed-sql`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await writeFile(MIGRATION, next);
+  console.log(`Wrote ${SOLUTION_SEED.length} seed rows to ${path.relative(root, MIGRATION)}`);
+}
+
+main().catch((e) => {
+  console.error("CATALOG_SEED_SQL_ERROR:", e?.message || e);
+  process.exitCode = 1;
+});
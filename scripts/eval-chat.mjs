@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+// scripts/eval-chat.mjs
+//
+// Offline regression eval for the chat prompt + guardrails.
+//
+//   npm run eval:chat                                   # mock client (no network)
+//   npm run eval:chat -- --client openai --record eval/recorded.json
+//   npm run eval:chat -- --client recorded --recordings eval/recorded.json
+//   npm run eval:chat -- --client chain                  # LLM_CHAIN, e.g. local:llama3.1:8b,openai:gpt-5-mini
+//   npm run eval:chat -- --case spacing-ask --verbose
+//
+// Exits 1 when any case fails.
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": path.join(root, "src") } });
+
+function parseArgs(argv) {
+  const args = { client: "mock", recordings: null, record: null, cases: [], json: false, verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split("=", 2);
+    const value = () => inline ?? argv[++i];
+    if (flag === "--client") args.client = value();
+    else if (flag === "--recordings") args.recordings = value();
+    else if (flag === "--record") args.record = value();
+    else if (flag === "--case") args.cases.push(value());
+    else if (flag === "--json") args.json = true;
+    else if (flag === "--verbose") args.verbose = true;
+    else throw new Error(`Unknown argument: ${argv[i]}`);
+  }
+  return args;
+}
+
+async function makeClient(args, clients) {
+  if (args.client === "mock") return clients.mockEvalClient();
+
+  if (args.client === "recorded") {
+    if (!args.recordings) throw new Error("--client recorded needs --recordings <file>");
+    return clients.recordedEvalClient(JSON.parse(await readFile(args.recordings, "utf8")));
+  }
+
+  if (args.client === "openai") {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
+    return clients.openaiEvalClient({ apiKey, model: process.env.OPENAI_MODEL });
+  }
+
+  if (args.client === "chain") {
+    const { llmChainFromEnv } = await jiti.import("@/lib/llm/chain");
+    return clients.llmEvalClient(llmChainFromEnv());
+  }
+
+  throw new Error(`Unknown client: ${args.client} (mock | recorded | openai | chain)`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const { GOLDEN_SET } = await jiti.import("@/lib/eval/goldenSet");
+  const clients = await jiti.import("@/lib/eval/clients");
+  const { runEval, formatEvalReport } = await jiti.import("@/lib/eval/runner");
+
+  const cases = args.cases.length ? GOLDEN_SET.filter((c) => args.cases.includes(c.id)) : GOLDEN_SET;
+  if (!cases.length) throw new Error(`No cases match: ${args.cases.join(", ")}`);
+
+  const recorded = {};
+  let client = await makeClient(args, clients);
+  if (args.record) client = clients.recordingEvalClient(client, recorded);
+
+  const report = await runEval(cases, client);
+
+  if (args.record) {
+    await writeFile(args.record, `${JSON.stringify(recorded, null, 2)}\n`);
+    console.error(`Recorded ${Object.keys(recorded).length} answers to ${args.record}`);
+  }
+
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatEvalReport(report, { verbose: args.verbose }));
+  process.exitCode = report.failed ? 1 : 0;
+}
+
+main().catch((e) => {
+  console.error("EVAL_CHAT_ERROR:", e?.message || e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+// scripts/eval-ratelimit.mjs
+//
+// Offline regression eval for rate limiting (src/lib/ratelimit/rateLimitCorpus.ts): burst, refill and
+// retry-after on the token bucket, checkRateLimit ordering, and route → policy mapping. In-memory store
+// with a fake clock, no Supabase.
+//
+//   npm run eval:ratelimit
+//   npm run eval:ratelimit -- --verbose     # list passing cases too
+//
+// Exits 1 when any case fails.
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": path.join(root, "src") } });
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const unknown = argv.find((a) => a !== "--verbose");
+  if (unknown) throw new Error(`Unknown argument: ${unknown}`);
+  const verbose = argv.includes("--verbose");
+
+  const { runRateLimitCorpus } = await jiti.import("@/lib/ratelimit/rateLimitCorpus");
+  const { results, passed, failed } = await runRateLimitCorpus();
+
+  for (const r of results) {
+    if (r.pass && !verbose) continue;
+    console.log(`${r.pass ? "PASS" : "FAIL"}  ${r.id}`);
+    for (const p of r.problems) console.log(`      ${p}`);
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed (${results.length} cases)`);
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((e) => {
+  console.error("EVAL_RATELIMIT_ERROR:", e?.message || e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+// scripts/eval-resolver.mjs
+//
+// Offline regression eval for the canonical solution resolver (src/lib/solutions/resolutionCorpus.ts),
+// run against the seed catalog. /admin/resolver shows the same corpus against the live table.
+//
+//   npm run eval:resolver
+//   npm run eval:resolver -- --verbose     # list passing cases too
+//
+// Exits 1 when any case fails.
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": path.join(root, "src") } });
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const unknown = argv.find((a) => a !== "--verbose");
+  if (unknown) throw new Error(`Unknown argument: ${unknown}`);
+  const verbose = argv.includes("--verbose");
+
+  const { runResolutionCorpus } = await jiti.import("@/lib/solutions/resolutionCorpus");
+  const { results, passed, failed } = runResolutionCorpus();
+
+  for (const r of results) {
+    if (r.pass && !verbose) continue;
+    const line = `${r.pass ? "PASS" : "FAIL"}  ${JSON.stringify(r.text)}`;
+    console.log(r.pass ? line : `${line}\n      expected ${r.expected ?? "(none)"}, got ${r.actual ?? "(none)"}`);
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed (${results.length} cases)`);
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((e) => {
+  console.error("EVAL_RESOLVER_ERROR:", e?.message || e);
+  process.exitCode = 1;
+});
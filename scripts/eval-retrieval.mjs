@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+// scripts/eval-retrieval.mjs
+//
+// Offline regression eval for knowledge retrieval filters and boosts (src/lib/knowledge/retrievalCorpus.ts):
+// local embeddings + the in-memory matcher, no Supabase or API key.
+//
+//   npm run eval:retrieval
+//   npm run eval:retrieval -- --verbose     # list passing cases too
+//
+// Exits 1 when any case fails.
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": path.join(root, "src") } });
+
+// retrieve.ts pulls in the admin client (embedding cache) at import; the harness never calls it
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= "http://localhost:54321";
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= "offline";
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const unknown = argv.find((a) => a !== "--verbose");
+  if (unknown) throw new Error(`Unknown argument: ${unknown}`);
+  const verbose = argv.includes("--verbose");
+
+  const { runRetrievalCorpus } = await jiti.import("@/lib/knowledge/retrievalCorpus");
+  const { results, passed, failed } = await runRetrievalCorpus();
+
+  for (const r of results) {
+    if (r.pass && !verbose) continue;
+    console.log(`${r.pass ? "PASS" : "FAIL"}  ${r.id}  ${JSON.stringify(r.query)}`);
+    if (!r.pass || verbose) console.log(`      got ${r.actual.join(", ") || "(none)"}`);
+    for (const p of r.problems) console.log(`      ${p}`);
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed (${results.length} cases)`);
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((e) => {
+  console.error("EVAL_RETRIEVAL_ERROR:", e?.message || e);
+  process.exitCode = 1;
+});
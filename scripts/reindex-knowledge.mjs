@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+// scripts/reindex-knowledge.mjs
+//
+// Index the "knowledge" storage bucket into knowledge_documents + knowledge_chunks
+// (same pipeline as /admin/ingest). Reads .env.local when present.
+//
+//   npm run knowledge:reindex                            # new, changed and failed files
+//   npm run knowledge:reindex -- --all --force           # re-extract everything
+//   npm run knowledge:reindex -- --prefix solutions/hvac/
+//   npm run knowledge:reindex -- --path anchor/u-anchors/u2400/epdm/install-manual.pdf
+//   npm run knowledge:reindex -- --status                # counts only, writes nothing
+//   npm run knowledge:reindex -- --reembed               # move chunks onto OPENAI_EMBED_MODEL after a swap
+//
+// Exits 1 when any file fails.
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const jiti = createJiti(import.meta.url, { alias: { "@": path.join(root, "src") } });
+
+const envFile = path.join(root, ".env.local");
+if (existsSync(envFile)) process.loadEnvFile(envFile);
+
+function parseArgs(argv) {
+  const args = { mode: "stale", force: false, prefix: null, paths: [], status: false, reembed: false };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split("=", 2);
+    const value = () => inline ?? argv[++i];
+    if (flag === "--all") args.mode = "all";
+    else if (flag === "--force") args.force = true;
+    else if (flag === "--prefix") args.prefix = value();
+    else if (flag === "--path") args.paths.push(value());
+    else if (flag === "--status") args.status = true;
+    else if (flag === "--reembed") args.reembed = true;
+    else throw new Error(`Unknown argument: ${argv[i]}`);
+  }
+  return args;
+}
+
+function formatCounts(counts) {
+  return Object.entries(counts)
+    .filter(([, n]) => n)
+    .map(([k, n]) => `${k} ${n}`)
+    .join(" · ");
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const { supabaseAdmin } = await jiti.import("@/lib/supabaseAdmin");
+  const { createLLMCallLog } = await jiti.import("@/lib/llm/telemetry");
+  const { ingestionStatus, reindexKnowledge } = await jiti.import("@/lib/knowledge/ingest");
+  const { reembedStatus, reembedUntilDone } = await jiti.import("@/lib/knowledge/reembed");
+
+  const before = await ingestionStatus(supabaseAdmin, args.prefix);
+  console.log(`Bucket${args.prefix ? ` (${args.prefix})` : ""}: ${formatCounts(before.counts) || "empty"}`);
+  const models = await reembedStatus(supabaseAdmin);
+  console.log(`Embeddings (${models.model}): ${models.current} current, ${models.stale} on another model`);
+  if (args.status) return;
+
+  const llmCalls = createLLMCallLog();
+  if (args.reembed) {
+    try {
+      const summary = await reembedUntilDone(supabaseAdmin, {
+        log: llmCalls,
+        onBatch: (r) => console.log(`re-embedded ${r.updated} chunks, ${r.remaining} left`),
+      });
+      console.log(`Done: ${summary.updated} chunks re-embedded with ${summary.model}.`);
+    } finally {
+      await llmCalls.flush(supabaseAdmin);
+    }
+    return;
+  }
+
+  let failed = 0;
+  try {
+    const summary = await reindexKnowledge(supabaseAdmin, {
+      mode: args.mode,
+      force: args.force,
+      prefix: args.prefix,
+      paths: args.paths,
+      log: llmCalls,
+      onResult: (r) => {
+        if (r.outcome === "failed") failed += 1;
+        const detail = r.outcome === "failed" ? r.error : `${r.chunks} chunks, ${r.embedded} embedded`;
+        console.log(`${r.outcome.padEnd(9)} ${r.path}${r.outcome === "removed" ? "" : ` (${detail})`}`);
+      },
+    });
+    console.log(`Done: ${summary.results.length} files, ${summary.removed} removed, ${failed} failed.`);
+  } finally {
+    await llmCalls.flush(supabaseAdmin);
+  }
+
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((e) => {
+  console.error("REINDEX_KNOWLEDGE_ERROR:", e?.message || e);
+  process.exitCode = 1;
+});
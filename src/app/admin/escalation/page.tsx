@@ -0,0 +1,428 @@
+// src/app/admin/escalation/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/app/components/ui/Button";
+import { Alert } from "@/app/components/ui/Alert";
+import { Card } from "@/app/components/ui/Card";
+import { Input, Select, Textarea } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import {
+  applyEscalationPolicy,
+  classifyQuestion,
+  compileEscalationRules,
+  type EscalationMatch,
+  type EscalationOutcome,
+  type EscalationRuleRow,
+} from "@/lib/chat/escalationPolicy";
+import { errorMessage } from "@/lib/errors";
+
+type EscalationEvent = {
+  id: string;
+  created_at: string;
+  user_id: string | null;
+  conversation_id: string | null;
+  outcome: EscalationOutcome;
+  rule_ids: string[];
+  matches: EscalationMatch[];
+  redacted_count: number;
+  question: string | null;
+  streamed: boolean;
+};
+
+const EMPTY_RULE: EscalationRuleRow = {
+  id: "pre.",
+  stage: "pre",
+  pattern: "",
+  requires_pattern: null,
+  action: "redact",
+  reason: "",
+  priority: 0,
+  active: true,
+};
+
+function fmtDate(s: string) {
+  try {
+    return new Date(s).toLocaleString();
+  } catch {
+    return s;
+  }
+}
+
+function outcomeTone(outcome: EscalationOutcome) {
+  if (outcome === "escalate") return "text-red-700";
+  if (outcome === "partial") return "text-amber-700";
+  return "text-green-700";
+}
+
+export default function AdminEscalationPage() {
+  const router = useRouter();
+
+  const [rules, setRules] = useState<EscalationRuleRow[]>([]);
+  const [events, setEvents] = useState<EscalationEvent[]>([]);
+  const [draft, setDraft] = useState<EscalationRuleRow | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [testQuestion, setTestQuestion] = useState("");
+  const [testAnswer, setTestAnswer] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await fetch("/api/admin/escalation", { cache: "no-store" });
+
+      if (res.status === 401) {
+        router.replace("/");
+        return;
+      }
+      if (res.status === 403) {
+        router.replace("/chat");
+        return;
+      }
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+      setRules((json?.rules || []) as EscalationRuleRow[]);
+      setEvents((json?.events || []) as EscalationEvent[]);
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to load escalation rules"));
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // the tester runs the same policy code as /api/chat, with the unsaved draft swapped in
+  const testResult = useMemo(() => {
+    if (!testQuestion.trim() && !testAnswer.trim()) return null;
+    const rows = draft ? [...rules.filter((r) => r.id !== draft.id), draft] : rules;
+    const compiled = compileEscalationRules(rows);
+    const pre = classifyQuestion(testQuestion, compiled);
+    return applyEscalationPolicy(testAnswer, pre, compiled);
+  }, [rules, draft, testQuestion, testAnswer]);
+
+  function update<K extends keyof EscalationRuleRow>(key: K, value: EscalationRuleRow[K]) {
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+  }
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    setErr(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/admin/escalation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+
+      setNotice(`Saved ${json?.rule?.id || draft.id}.`);
+      setDraft(null);
+      setIsNew(false);
+      await load();
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to save rule"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen anchor-app-bg text-white">
+      <Navbar className="anchor-topbar">
+        <NavbarInner>
+          <div className="leading-tight">
+            <div className="text-sm font-semibold tracking-wide">Escalation Policy</div>
+            <div className="text-[12px] text-white/60">Engineering pre/post checks • redaction • audit log</div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => router.push("/admin/solutions")} className="h-9 px-3" variant="ghost">
+              Solution catalog
+            </Button>
+            <Button onClick={() => router.push("/admin/usage")} className="h-9 px-3" variant="ghost">
+              Usage
+            </Button>
+            <Button onClick={() => router.push("/chat")} className="h-9 px-3" variant="ghost">
+              Back to chat
+            </Button>
+          </div>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-4 text-black">
+        {err && <Alert tone="error">{err}</Alert>}
+        {notice && <Alert tone="success">{notice}</Alert>}
+
+        {draft && (
+          <Card className="p-5">
+            <div className="text-sm font-semibold">{isNew ? "New rule" : `Edit ${draft.id}`}</div>
+            <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">
+              Pre rules test the user&apos;s message; post rules test each sentence or bullet of the answer. Escalate
+              replaces the whole answer with the review line; redact keeps the rest of the answer and adds a review note.
+            </div>
+
+            <div className="mt-4 grid gap-3 sm:grid-cols-2">
+              <label className="text-[12px] text-black/70">
+                Id
+                <Input
+                  className="mt-1 w-full px-3 py-2 font-mono text-[12px]"
+                  value={draft.id}
+                  disabled={!isNew}
+                  onChange={(e) => update("id", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Priority (lower runs first)
+                <Input
+                  type="number"
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={String(draft.priority)}
+                  onChange={(e) => update("priority", Number(e.target.value))}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Stage
+                <Select
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.stage}
+                  disabled={!isNew}
+                  onChange={(e) => update("stage", e.target.value as EscalationRuleRow["stage"])}
+                >
+                  <option value="pre">Pre (user message)</option>
+                  <option value="post">Post (answer sentences)</option>
+                </Select>
+              </label>
+              <label className="text-[12px] text-black/70">
+                Action
+                <Select
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.action}
+                  onChange={(e) => update("action", e.target.value as EscalationRuleRow["action"])}
+                >
+                  <option value="redact">Redact (partial answer)</option>
+                  <option value="escalate">Escalate (review line only)</option>
+                </Select>
+              </label>
+            </div>
+
+            <div className="mt-3 grid gap-3">
+              <label className="text-[12px] text-black/70">
+                Pattern (regex, case-insensitive)
+                <Input
+                  className="mt-1 w-full px-3 py-2 font-mono text-[12px]"
+                  value={draft.pattern}
+                  onChange={(e) => update("pattern", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Also requires (optional regex that must match the same text)
+                <Input
+                  className="mt-1 w-full px-3 py-2 font-mono text-[12px]"
+                  value={draft.requires_pattern ?? ""}
+                  onChange={(e) => update("requires_pattern", e.target.value || null)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Reason
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.reason}
+                  onChange={(e) => update("reason", e.target.value)}
+                />
+              </label>
+            </div>
+
+            <div className="mt-3 flex items-center gap-3 text-[12px] text-black/70">
+              <label className="flex items-center gap-1.5">
+                <input type="checkbox" checked={draft.active} onChange={(e) => update("active", e.target.checked)} />
+                Active
+              </label>
+            </div>
+
+            <div className="mt-4 flex gap-2">
+              <Button variant="primary" className="px-4 py-2 text-sm" disabled={saving} onClick={save}>
+                {saving ? "Saving…" : "Save"}
+              </Button>
+              <Button
+                variant="ghost"
+                className="px-4 py-2 text-sm"
+                disabled={saving}
+                onClick={() => {
+                  setDraft(null);
+                  setIsNew(false);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">Try the policy</div>
+          <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">
+            Runs the rules below{draft ? " (with your unsaved edit)" : ""} against a question and an optional model
+            answer.
+          </div>
+
+          <div className="mt-3 grid gap-3 sm:grid-cols-2">
+            <Textarea
+              className="w-full px-3 py-2 text-sm"
+              rows={4}
+              placeholder="Rep question (ex: what spacing for snow fence anchors?)"
+              value={testQuestion}
+              onChange={(e) => setTestQuestion(e.target.value)}
+            />
+            <Textarea
+              className="w-full px-3 py-2 text-sm"
+              rows={4}
+              placeholder="Model answer to post-check (optional)"
+              value={testAnswer}
+              onChange={(e) => setTestAnswer(e.target.value)}
+            />
+          </div>
+
+          {testResult && (
+            <div className="mt-3 space-y-2 text-sm">
+              <div>
+                Outcome:{" "}
+                <span className={["font-semibold", outcomeTone(testResult.decision.outcome)].join(" ")}>
+                  {testResult.decision.outcome}
+                </span>
+                {testResult.decision.redacted > 0 && (
+                  <span className="text-[var(--anchor-gray)]"> • {testResult.decision.redacted} redacted</span>
+                )}
+              </div>
+              {testResult.decision.matches.length > 0 && (
+                <ul className="space-y-1 text-[12px]">
+                  {testResult.decision.matches.map((m, i) => (
+                    <li key={`${m.ruleId}-${i}`}>
+                      <code>{m.ruleId}</code> ({m.action}) — {m.reason}: <span className="text-black/60">{m.excerpt}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {testAnswer.trim() && (
+                <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-xl bg-[var(--surface-soft)] p-3 text-[12px]">
+                  {testResult.answer}
+                </pre>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-5">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Rules</div>
+              <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                {loading ? "Loading…" : `${rules.length} rules • ${rules.filter((r) => r.active).length} active`}
+              </div>
+            </div>
+            <Button
+              variant="primary"
+              className="px-3 py-2 text-sm"
+              onClick={() => {
+                setDraft({ ...EMPTY_RULE, priority: (rules.at(-1)?.priority ?? 0) + 10 });
+                setIsNew(true);
+                setNotice(null);
+              }}
+            >
+              New rule
+            </Button>
+          </div>
+
+          {rules.length > 0 && (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Priority</th>
+                    <th>Id</th>
+                    <th>Action</th>
+                    <th>Reason</th>
+                    <th>Pattern</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((r) => (
+                    <tr
+                      key={r.id}
+                      className={["cursor-pointer", r.active ? "" : "text-black/40"].join(" ")}
+                      onClick={() => {
+                        setDraft({ ...r });
+                        setIsNew(false);
+                        setNotice(null);
+                      }}
+                    >
+                      <td>{r.priority}</td>
+                      <td>
+                        <code>{r.id}</code>
+                        {!r.active && <span className="ml-1 text-[11px]">(inactive)</span>}
+                      </td>
+                      <td>{r.action}</td>
+                      <td>{r.reason}</td>
+                      <td className="max-w-xs truncate font-mono text-[11px]">
+                        {r.pattern}
+                        {r.requires_pattern ? ` + ${r.requires_pattern}` : ""}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+        </Card>
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">Recent decisions</div>
+          <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+            {events.length ? `Last ${events.length} partial / escalated turns` : "No escalations logged yet."}
+          </div>
+
+          {events.length > 0 && (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>When</th>
+                    <th>Outcome</th>
+                    <th>Rules</th>
+                    <th>Question</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((ev) => (
+                    <tr key={ev.id}>
+                      <td className="whitespace-nowrap">{fmtDate(ev.created_at)}</td>
+                      <td className={outcomeTone(ev.outcome)}>
+                        {ev.outcome}
+                        {ev.redacted_count > 0 && <span className="text-black/50"> ({ev.redacted_count})</span>}
+                      </td>
+                      <td className="font-mono text-[11px]">{ev.rule_ids.join(", ")}</td>
+                      <td className="max-w-md truncate">{ev.question ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
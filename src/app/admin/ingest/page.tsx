@@ -0,0 +1,386 @@
+// src/app/admin/ingest/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/app/components/ui/Button";
+import { Alert } from "@/app/components/ui/Alert";
+import { Card } from "@/app/components/ui/Card";
+import { Input } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import { TabButton, Tabs } from "@/app/components/ui/Tabs";
+import type { FileStatus, IngestionStatus, ReindexSummary } from "@/lib/knowledge/ingest";
+import { errorMessage } from "@/lib/errors";
+
+type StatusResponse = IngestionStatus & { prefix: string | null };
+
+type Filter = FileStatus | "all" | "orphaned";
+
+const FILTERS: { key: Filter; label: string }[] = [
+  { key: "all", label: "All" },
+  { key: "indexed", label: "Indexed" },
+  { key: "stale", label: "Stale" },
+  { key: "new", label: "Not indexed" },
+  { key: "failed", label: "Failed" },
+  { key: "no_text", label: "No text" },
+  { key: "unsupported", label: "Unsupported" },
+  { key: "orphaned", label: "Orphaned" },
+];
+
+const STATUS_TONE: Record<FileStatus, string> = {
+  indexed: "bg-emerald-50 text-emerald-800 border-emerald-200",
+  stale: "bg-amber-50 text-amber-800 border-amber-200",
+  new: "bg-sky-50 text-sky-800 border-sky-200",
+  failed: "bg-red-50 text-red-800 border-red-200",
+  no_text: "bg-black/5 text-black/60 border-black/10",
+  unsupported: "bg-black/5 text-black/40 border-black/10",
+  excluded: "bg-black/5 text-black/40 border-black/10",
+};
+
+/** the table is for finding problems, not browsing the whole bucket */
+const MAX_ROWS = 300;
+
+function fmtDate(v: string | null | undefined) {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? "—" : d.toLocaleString();
+}
+
+function fmtSize(n: number) {
+  if (!n) return "—";
+  if (n < 1024 * 1024) return `${Math.max(1, Math.round(n / 1024))} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function AdminIngestPage() {
+  const router = useRouter();
+
+  const [prefix, setPrefix] = useState("");
+  const [appliedPrefix, setAppliedPrefix] = useState("");
+  const [filter, setFilter] = useState<Filter>("all");
+  const [data, setData] = useState<StatusResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState<"stale" | "all" | null>(null);
+  const [indexingPath, setIndexingPath] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const qs = appliedPrefix ? `?prefix=${encodeURIComponent(appliedPrefix)}` : "";
+      const res = await fetch(`/api/admin/ingest${qs}`, { cache: "no-store" });
+
+      if (res.status === 401) {
+        router.replace("/");
+        return;
+      }
+      if (res.status === 403) {
+        router.replace("/chat");
+        return;
+      }
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+      setData(json as StatusResponse);
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to load ingestion status"));
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedPrefix, router]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function postBatch(payload: Record<string, unknown>): Promise<ReindexSummary> {
+    const res = await fetch("/api/admin/ingest", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+    return json as ReindexSummary;
+  }
+
+  /** One POST per batch, following the cursor, until the server says it's done (or Stop). */
+  async function reindex(mode: "stale" | "all") {
+    setRunning(mode);
+    setErr(null);
+    setNotice(null);
+    stopRef.current = false;
+
+    let after: string | null = null;
+    let files = 0;
+    let failed = 0;
+    let removed = 0;
+    let embedded = 0;
+
+    try {
+      do {
+        const summary = await postBatch({ mode, force: mode === "all", prefix: appliedPrefix || null, after });
+        files += summary.results.length;
+        failed += summary.results.filter((r) => r.outcome === "failed").length;
+        embedded += summary.results.reduce((n, r) => n + r.embedded, 0);
+        removed += summary.removed;
+        after = summary.next;
+        setProgress(`${files} files processed${summary.remaining ? ` · ${summary.remaining} to go` : ""}`);
+      } while (after && !stopRef.current);
+
+      const parts = [`${files} file${files === 1 ? "" : "s"} processed`, `${embedded} chunks embedded`];
+      if (removed) parts.push(`${removed} removed`);
+      if (failed) parts.push(`${failed} failed`);
+      if (stopRef.current && after) parts.push("stopped early");
+      setNotice(parts.join(" · "));
+    } catch (e) {
+      setErr(errorMessage(e, "Re-index failed"));
+    } finally {
+      setRunning(null);
+      setProgress(null);
+      await load();
+    }
+  }
+
+  async function reindexOne(path: string) {
+    setIndexingPath(path);
+    setErr(null);
+    setNotice(null);
+    try {
+      const summary = await postBatch({ paths: [path], force: true });
+      const r = summary.results[0];
+      if (!r) setNotice(`${path} is no longer in the bucket.`);
+      else if (r.outcome === "failed") setErr(`${path}: ${r.error || "failed"}`);
+      else setNotice(`${path}: ${r.chunks} chunks (${r.embedded} embedded).`);
+    } catch (e) {
+      setErr(errorMessage(e, "Re-index failed"));
+    } finally {
+      setIndexingPath(null);
+      await load();
+    }
+  }
+
+  const busy = !!running || !!indexingPath;
+  const counts = data?.counts;
+  const pending = counts ? counts.new + counts.stale + counts.failed : 0;
+
+  const rows = useMemo(() => {
+    const files = data?.files ?? [];
+    if (filter === "all") return files.filter((f) => f.status !== "excluded");
+    if (filter === "orphaned") return [];
+    return files.filter((f) => f.status === filter);
+  }, [data, filter]);
+
+  return (
+    <main className="min-h-screen anchor-app-bg text-white">
+      <Navbar className="anchor-topbar">
+        <NavbarInner>
+          <div className="leading-tight">
+            <div className="text-sm font-semibold tracking-wide">Document Ingestion</div>
+            <div className="text-[12px] text-white/60">Knowledge bucket → knowledge chunks</div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => router.push("/admin/knowledge")} className="h-9 px-3" variant="ghost">
+              Knowledge admin
+            </Button>
+            <Button onClick={() => router.push("/chat")} className="h-9 px-3" variant="ghost">
+              Back to chat
+            </Button>
+          </div>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-4 text-black">
+        {err && <Alert tone="error">{err}</Alert>}
+        {notice && <Alert tone="success">{notice}</Alert>}
+
+        <Card className="p-5">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">
+                {appliedPrefix ? <code className="text-[13px]">{appliedPrefix}</code> : "Whole bucket"}
+              </div>
+              <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                {loading && !data
+                  ? "Loading…"
+                  : counts
+                    ? `${counts.indexed} indexed • ${counts.stale} stale • ${counts.new} not indexed • ${counts.failed} failed`
+                    : "—"}
+              </div>
+              {progress && <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">{progress}</div>}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {running ? (
+                <Button variant="secondary" className="px-3 py-2 text-sm" onClick={() => (stopRef.current = true)}>
+                  Stop after this batch
+                </Button>
+              ) : null}
+              <Button
+                variant="primary"
+                className="px-3 py-2 text-sm"
+                disabled={busy || !pending}
+                onClick={() => reindex("stale")}
+              >
+                {running === "stale" ? "Indexing…" : `Index stale & new${pending ? ` (${pending})` : ""}`}
+              </Button>
+              <Button
+                variant="ghost"
+                className="px-3 py-2 text-sm"
+                disabled={busy}
+                onClick={() => {
+                  if (!confirm("Re-extract and re-chunk every file? Unchanged passages keep their embeddings.")) return;
+                  reindex("all");
+                }}
+              >
+                {running === "all" ? "Re-indexing…" : "Re-index everything"}
+              </Button>
+            </div>
+          </div>
+
+          <form
+            className="mt-4 flex flex-wrap items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setAppliedPrefix(prefix.trim());
+            }}
+          >
+            <Input
+              className="w-80 px-3 py-2 text-sm"
+              placeholder="Folder prefix (ex: solutions/hvac/)"
+              value={prefix}
+              onChange={(e) => setPrefix(e.target.value)}
+            />
+            <Button type="submit" variant="secondary" className="px-3 py-2 text-sm" disabled={loading}>
+              Apply
+            </Button>
+            <Button type="button" variant="ghost" className="px-3 py-2 text-sm" disabled={loading} onClick={load}>
+              Refresh
+            </Button>
+          </form>
+
+          <div className="mt-2 text-[12px] text-[var(--anchor-gray)]">
+            Stale means the file changed after it was indexed. Uploads are indexed automatically when the storage
+            webhook is set up; this page catches up on anything it missed.
+          </div>
+        </Card>
+
+        <Card className="p-5">
+          <Tabs>
+            {FILTERS.map((f) => (
+              <TabButton key={f.key} active={filter === f.key} onClick={() => setFilter(f.key)}>
+                {f.label}
+                {counts && f.key !== "all" ? ` (${counts[f.key]})` : ""}
+              </TabButton>
+            ))}
+          </Tabs>
+
+          {filter === "orphaned" ? (
+            !data?.orphaned.length ? (
+              <div className="mt-3 text-sm text-[var(--anchor-gray)]">No orphaned documents.</div>
+            ) : (
+              <>
+                <div className="mt-3 text-[12px] text-[var(--anchor-gray)]">
+                  Indexed documents whose file was deleted from the bucket. The next re-index removes them.
+                </div>
+                <TableWrapper className="mt-3">
+                  <Table>
+                    <thead>
+                      <tr>
+                        <th>Path</th>
+                        <th>Chunks</th>
+                        <th>Indexed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.orphaned.map((d) => (
+                        <tr key={d.id}>
+                          <td className="break-all font-mono text-[12px]">{d.storage_path}</td>
+                          <td>{d.chunk_count ?? 0}</td>
+                          <td className="whitespace-nowrap">{fmtDate(d.indexed_at)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                </TableWrapper>
+              </>
+            )
+          ) : !rows.length ? (
+            <div className="mt-3 text-sm text-[var(--anchor-gray)]">{loading ? "Loading…" : "No files."}</div>
+          ) : (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Path</th>
+                    <th>Status</th>
+                    <th>Tags</th>
+                    <th>Chunks</th>
+                    <th>Modified</th>
+                    <th>Indexed</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, MAX_ROWS).map((f) => {
+                    const tags = [f.doc?.solution_slug, f.doc?.series, f.doc?.membrane, f.doc?.audience === "internal" ? "internal" : null]
+                      .filter(Boolean)
+                      .join(" · ");
+                    const canIndex = f.status !== "unsupported" && f.status !== "excluded";
+                    return (
+                      <tr key={f.path}>
+                        <td className="break-all font-mono text-[12px]">
+                          {f.path}
+                          <div className="font-sans text-[11px] text-black/40">{fmtSize(f.size)}</div>
+                        </td>
+                        <td>
+                          <span className={`rounded-full border px-2 py-0.5 text-[11px] ${STATUS_TONE[f.status]}`}>
+                            {FILTERS.find((x) => x.key === f.status)?.label ?? f.status}
+                          </span>
+                          {f.doc?.ingest_error && (
+                            <div className="mt-1 max-w-xs text-[11px] text-red-700">{f.doc.ingest_error}</div>
+                          )}
+                          {f.doc && f.doc.status !== "approved" && (
+                            <div className="mt-1 text-[11px] text-black/50">doc {f.doc.status}</div>
+                          )}
+                        </td>
+                        <td className="text-[12px]">{tags || "—"}</td>
+                        <td>{f.doc?.chunk_count ?? "—"}</td>
+                        <td className="whitespace-nowrap text-[12px]">{fmtDate(f.updated_at)}</td>
+                        <td className="whitespace-nowrap text-[12px]">{fmtDate(f.doc?.indexed_at)}</td>
+                        <td className="text-right">
+                          {canIndex && (
+                            <Button
+                              variant="ghost"
+                              className="px-3 py-1 text-sm"
+                              disabled={busy}
+                              onClick={() => reindexOne(f.path)}
+                            >
+                              {indexingPath === f.path ? "Indexing…" : "Re-index"}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+
+          {rows.length > MAX_ROWS && (
+            <div className="mt-2 text-[12px] text-[var(--anchor-gray)]">
+              Showing {MAX_ROWS} of {rows.length}. Narrow it down with a folder prefix.
+            </div>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -112,6 +112,12 @@ export default function AdminKnowledgePage() {
               {profile.role === "admin" ? "Admin" : "Anchor Rep"}
             </div>
 
+            {profile.role === "admin" && (
+              <Button onClick={() => router.push("/admin/ingest")} className="h-9 px-3" variant="ghost">
+                Ingestion
+              </Button>
+            )}
+
             <Button
               onClick={() => router.push("/chat")}
               className="h-9 px-3"
@@ -0,0 +1,266 @@
+// src/app/admin/rate-limits/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/app/components/ui/Button";
+import { Alert } from "@/app/components/ui/Alert";
+import { Card } from "@/app/components/ui/Card";
+import { Select } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import type { RateLimitPolicy } from "@/lib/ratelimit/policy";
+import type { BucketRule, RateLimitBucketRow } from "@/lib/ratelimit/tokenBucket";
+import { errorMessage } from "@/lib/errors";
+
+type PolicyTotals = {
+  policy: string;
+  buckets: number;
+  hits: number;
+  blocked: number;
+  last_blocked_at: string | null;
+};
+
+type RateLimitsResponse = {
+  store: "memory" | "postgres";
+  disabled: boolean;
+  policies: RateLimitPolicy[];
+  totals: PolicyTotals[];
+  buckets: (RateLimitBucketRow & { email: string | null })[];
+};
+
+function fmtDate(s: string | null) {
+  if (!s) return "—";
+  try {
+    return new Date(s).toLocaleString();
+  } catch {
+    return s;
+  }
+}
+
+/** "20 burst, 10/min" */
+function fmtRule(rule: BucketRule) {
+  const perMin = rule.refillPerSec * 60;
+  return `${rule.capacity} burst, ${perMin >= 1 ? Math.round(perMin) : perMin.toFixed(1)}/min`;
+}
+
+export default function AdminRateLimitsPage() {
+  const router = useRouter();
+
+  const [data, setData] = useState<RateLimitsResponse | null>(null);
+  const [policyFilter, setPolicyFilter] = useState("all");
+  const [blockedOnly, setBlockedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [resetting, setResetting] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await fetch("/api/admin/rate-limits", { cache: "no-store" });
+
+      if (res.status === 401) {
+        router.replace("/");
+        return;
+      }
+      if (res.status === 403) {
+        router.replace("/chat");
+        return;
+      }
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+      setData(json as RateLimitsResponse);
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to load rate limits"));
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function reset(key: string) {
+    setResetting(key);
+    setErr(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/rate-limits?key=${encodeURIComponent(key)}`, { method: "DELETE" });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+
+      setNotice(`Reset ${key}.`);
+      await load();
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to reset bucket"));
+    } finally {
+      setResetting(null);
+    }
+  }
+
+  const buckets = (data?.buckets ?? []).filter(
+    (b) => (policyFilter === "all" || b.policy === policyFilter) && (!blockedOnly || b.blocked > 0)
+  );
+
+  return (
+    <main className="min-h-screen anchor-app-bg text-white">
+      <Navbar className="anchor-topbar">
+        <NavbarInner>
+          <div className="leading-tight">
+            <div className="text-sm font-semibold tracking-wide">Rate Limits</div>
+            <div className="text-[12px] text-white/60">Token buckets per user + IP • 429 counters</div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => router.push("/admin/usage")} className="h-9 px-3" variant="ghost">
+              Usage
+            </Button>
+            <Button onClick={() => router.push("/chat")} className="h-9 px-3" variant="ghost">
+              Back to chat
+            </Button>
+          </div>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-4 text-black">
+        {err && <Alert tone="error">{err}</Alert>}
+        {notice && <Alert tone="success">{notice}</Alert>}
+        {data?.disabled && <Alert tone="neutral">Rate limiting is off (RATE_LIMIT_DISABLED=true).</Alert>}
+        {data?.store === "memory" && (
+          <Alert tone="neutral">
+            Buckets are in memory (RATE_LIMIT_STORE=memory or no service key): limits are per server instance and reset
+            on restart.
+          </Alert>
+        )}
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">Policies</div>
+          <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+            {loading ? "Loading…" : "Each request takes a token from the user bucket and the IP bucket; an empty bucket answers 429."}
+          </div>
+
+          {data && (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Policy</th>
+                    <th>Routes</th>
+                    <th>Per user</th>
+                    <th>Per IP</th>
+                    <th>Allowed</th>
+                    <th>Blocked (429)</th>
+                    <th>Last blocked</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.policies.map((p) => {
+                    const t = data.totals.find((x) => x.policy === p.name);
+                    return (
+                      <tr key={p.name}>
+                        <td>{p.label}</td>
+                        <td className="font-mono text-[11px]">{p.routes}</td>
+                        <td>{fmtRule(p.user)}</td>
+                        <td>{fmtRule(p.ip)}</td>
+                        <td>{(t?.hits ?? 0).toLocaleString()}</td>
+                        <td className={t?.blocked ? "font-semibold text-red-700" : ""}>
+                          {(t?.blocked ?? 0).toLocaleString()}
+                        </td>
+                        <td className="whitespace-nowrap">{fmtDate(t?.last_blocked_at ?? null)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+        </Card>
+
+        <Card className="p-5">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Recent buckets</div>
+              <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                {loading ? "Loading…" : `${buckets.length} shown • most recently active first`}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 text-[12px] text-black/70">
+              <Select
+                className="px-3 py-2 text-sm"
+                value={policyFilter}
+                onChange={(e) => setPolicyFilter(e.target.value)}
+              >
+                <option value="all">All policies</option>
+                {(data?.policies ?? []).map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.label}
+                  </option>
+                ))}
+              </Select>
+              <label className="flex items-center gap-1.5">
+                <input type="checkbox" checked={blockedOnly} onChange={(e) => setBlockedOnly(e.target.checked)} />
+                Blocked only
+              </label>
+              <Button variant="ghost" className="px-3 py-2 text-sm" disabled={loading} onClick={load}>
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {buckets.length > 0 && (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Policy</th>
+                    <th>Who</th>
+                    <th>Tokens</th>
+                    <th>Allowed</th>
+                    <th>Blocked</th>
+                    <th>Last blocked</th>
+                    <th>Last seen</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {buckets.map((b) => (
+                    <tr key={b.key}>
+                      <td>{b.policy}</td>
+                      <td>
+                        <span className="text-[11px] text-black/50">{b.scope}</span>{" "}
+                        {b.scope === "user" ? (b.email ?? <code className="text-[11px]">{b.subject}</code>) : b.subject}
+                      </td>
+                      <td>
+                        {Math.floor(b.tokens)} / {b.capacity}
+                      </td>
+                      <td>{Number(b.hits).toLocaleString()}</td>
+                      <td className={b.blocked ? "font-semibold text-red-700" : ""}>
+                        {Number(b.blocked).toLocaleString()}
+                      </td>
+                      <td className="whitespace-nowrap">{fmtDate(b.last_blocked_at)}</td>
+                      <td className="whitespace-nowrap">{fmtDate(b.updated_at)}</td>
+                      <td className="text-right">
+                        <Button
+                          variant="ghost"
+                          className="px-3 py-1 text-sm"
+                          disabled={resetting === b.key}
+                          onClick={() => reset(b.key)}
+                        >
+                          {resetting === b.key ? "Resetting…" : "Reset"}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
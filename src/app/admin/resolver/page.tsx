@@ -0,0 +1,236 @@
+// src/app/admin/resolver/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/app/components/ui/Button";
+import { Alert } from "@/app/components/ui/Alert";
+import { Card } from "@/app/components/ui/Card";
+import { Input } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import type { ResolutionExplanation } from "@/lib/solutions/resolveCanonicalSolution";
+import type { ResolutionCaseResult } from "@/lib/solutions/resolutionCorpus";
+import { errorMessage } from "@/lib/errors";
+
+type ResolverResponse = {
+  explanation: ResolutionExplanation | null;
+  corpus: { results: ResolutionCaseResult[]; passed: number; failed: number };
+  error?: string;
+};
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+export default function AdminResolverPage() {
+  const router = useRouter();
+
+  const [text, setText] = useState("");
+  const [data, setData] = useState<ResolverResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [onlyFailures, setOnlyFailures] = useState(true);
+
+  const load = useCallback(
+    async (phrase: string) => {
+      setLoading(true);
+      setErr(null);
+      try {
+        const qs = phrase.trim() ? `?text=${encodeURIComponent(phrase.trim())}` : "";
+        const res = await fetch(`/api/admin/resolver${qs}`, { cache: "no-store" });
+
+        if (res.status === 401) {
+          router.replace("/");
+          return;
+        }
+        if (res.status === 403) {
+          router.replace("/chat");
+          return;
+        }
+
+        const json = (await res.json().catch(() => null)) as ResolverResponse | null;
+        if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+        setData(json);
+      } catch (e) {
+        setErr(errorMessage(e, "Failed to run resolver"));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [router]
+  );
+
+  useEffect(() => {
+    load("");
+  }, [load]);
+
+  const explanation = data?.explanation ?? null;
+  const corpus = data?.corpus ?? null;
+  const corpusRows = (corpus?.results || []).filter((r) => !onlyFailures || !r.pass);
+
+  return (
+    <main className="min-h-screen anchor-app-bg text-white">
+      <Navbar className="anchor-topbar">
+        <NavbarInner>
+          <div className="leading-tight">
+            <div className="text-sm font-semibold tracking-wide">Solution Resolver</div>
+            <div className="text-[12px] text-white/60">
+              Why a phrase resolves to a folder • regression corpus
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => router.push("/admin/solutions")} className="h-9 px-3" variant="ghost">
+              Solution catalog
+            </Button>
+            <Button onClick={() => router.push("/admin/knowledge")} className="h-9 px-3" variant="ghost">
+              Knowledge admin
+            </Button>
+            <Button onClick={() => router.push("/chat")} className="h-9 px-3" variant="ghost">
+              Back to chat
+            </Button>
+          </div>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-4 text-black">
+        <Card className="p-5">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              load(text);
+            }}
+          >
+            <Input
+              className="min-w-0 flex-1 px-3 py-2 text-sm"
+              placeholder='Try a rep phrasing (ex: "existing mechanical tie down")'
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+            <Button type="submit" variant="primary" className="px-4 py-2 text-sm" disabled={loading}>
+              Explain
+            </Button>
+          </form>
+
+          {err && (
+            <Alert className="mt-3" tone="error">
+              {err}
+            </Alert>
+          )}
+
+          {explanation && (
+            <div className="mt-4 space-y-3 text-sm">
+              <div>
+                <span className="text-[var(--anchor-gray)]">Normalized:</span>{" "}
+                <code className="rounded bg-[var(--surface-soft)] px-1.5 py-0.5">{explanation.normalized || "—"}</code>
+              </div>
+              <div>
+                <span className="text-[var(--anchor-gray)]">Winner:</span>{" "}
+                <span className="font-semibold">{explanation.winner?.folder ?? "no match"}</span>
+              </div>
+              <div className="flex flex-wrap gap-1.5 text-[11px]">
+                {Object.entries(explanation.signals).map(([k, v]) => (
+                  <span
+                    key={k}
+                    className={[
+                      "rounded-full border px-2 py-0.5",
+                      v ? "border-[var(--anchor-green)] bg-[var(--anchor-mint)]" : "border-black/10 text-black/40",
+                    ].join(" ")}
+                  >
+                    {k}
+                  </span>
+                ))}
+              </div>
+
+              {explanation.candidates.length > 0 && (
+                <TableWrapper>
+                  <Table>
+                    <thead>
+                      <tr>
+                        <th>Folder</th>
+                        <th>Match</th>
+                        <th>Len</th>
+                        <th>Keywords</th>
+                        <th>Folder</th>
+                        <th>General</th>
+                        <th>Intent</th>
+                        <th>Score</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {explanation.candidates.map((c, i) => (
+                        <tr key={c.key} className={i === 0 ? "font-semibold" : ""}>
+                          <td>{c.folder}</td>
+                          <td>
+                            <code>{c.matchText}</code>
+                          </td>
+                          <td>{c.breakdown.matchLen}</td>
+                          <td title={c.breakdown.keywordHits.join(", ")}>{signed(c.breakdown.keywords)}</td>
+                          <td>{signed(c.breakdown.storageFolder)}</td>
+                          <td>{signed(c.breakdown.generalPenalty)}</td>
+                          <td title={c.breakdown.intentReasons.join("\n")}>{signed(c.breakdown.intent)}</td>
+                          <td>{c.score}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </Table>
+                </TableWrapper>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-5">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Regression corpus</div>
+              <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                {corpus ? `${corpus.passed} passing • ${corpus.failed} failing` : loading ? "Running…" : "—"}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-[12px] text-black/70">
+              <input type="checkbox" checked={onlyFailures} onChange={(e) => setOnlyFailures(e.target.checked)} />
+              Failures only
+            </label>
+          </div>
+
+          {corpusRows.length > 0 ? (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Phrase</th>
+                    <th>Expected</th>
+                    <th>Actual</th>
+                    <th>Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {corpusRows.map((r) => (
+                    <tr
+                      key={r.text}
+                      className="cursor-pointer"
+                      onClick={() => {
+                        setText(r.text);
+                        load(r.text);
+                      }}
+                    >
+                      <td>{r.text}</td>
+                      <td>{r.expected ?? "—"}</td>
+                      <td className={r.pass ? "" : "text-red-700"}>{r.actual ?? "—"}</td>
+                      <td>{r.winner?.score ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          ) : (
+            corpus && <div className="mt-3 text-sm text-[var(--anchor-gray)]">All phrasings resolve as expected.</div>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,475 @@
+// src/app/admin/solutions/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/app/components/ui/Button";
+import { Alert } from "@/app/components/ui/Alert";
+import { Card } from "@/app/components/ui/Card";
+import { Input, Select, Textarea } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import { ASK_STEP_KEYS, formatSolutionMapping, type SolutionRow } from "@/lib/solutions/catalog";
+import { errorMessage } from "@/lib/errors";
+
+/** Form state: list columns are edited as comma-separated text. */
+type Draft = Omit<
+  SolutionRow,
+  "aliases" | "keywords" | "prompt_notes" | "doc_kinds" | "product_names" | "extra_prefixes"
+> & {
+  aliases: string;
+  keywords: string;
+  prompt_notes: string;
+  doc_kinds: string;
+  product_names: string;
+  extra_prefixes: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  key: "",
+  label: "",
+  family: null,
+  securing: "",
+  storage_folder: null,
+  summary: "",
+  aliases: "",
+  match_pattern: null,
+  keywords: "",
+  anchor_type: "unknown",
+  components: null,
+  prompt_notes: "",
+  doc_kinds: "sales_sheet, data_sheet, install_sheet",
+  mount_surface: null,
+  ask_steps: ["membrane", "wants"],
+  lead_label: null,
+  lead_key: null,
+  product_names: "",
+  extra_prefixes: "",
+  sort_order: 0,
+  active: true,
+};
+
+function toDraft(row: SolutionRow): Draft {
+  return {
+    ...row,
+    aliases: row.aliases.join(", "),
+    keywords: row.keywords.join(", "),
+    prompt_notes: row.prompt_notes.join(", "),
+    doc_kinds: row.doc_kinds.join(", "),
+    product_names: row.product_names.join(", "),
+    extra_prefixes: row.extra_prefixes.join(", "),
+  };
+}
+
+function seriesLabel(anchorType: SolutionRow["anchor_type"]) {
+  if (anchorType === "guy-wire") return "Guy wire";
+  if (anchorType === "unknown") return "—";
+  return `${anchorType}-series`;
+}
+
+export default function AdminSolutionsPage() {
+  const router = useRouter();
+
+  const [rows, setRows] = useState<SolutionRow[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showPrompt, setShowPrompt] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await fetch("/api/admin/solutions", { cache: "no-store" });
+
+      if (res.status === 401) {
+        router.replace("/");
+        return;
+      }
+      if (res.status === 403) {
+        router.replace("/chat");
+        return;
+      }
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+      setRows((json?.solutions || []) as SolutionRow[]);
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to load solutions"));
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const promptPreview = useMemo(() => formatSolutionMapping(rows.filter((r) => r.active)), [rows]);
+
+  function update<K extends keyof Draft>(key: K, value: Draft[K]) {
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+  }
+
+  function toggleAskStep(step: SolutionRow["ask_steps"][number]) {
+    setDraft((d) => {
+      if (!d) return d;
+      const has = d.ask_steps.includes(step);
+      // keep the canonical step order regardless of click order
+      const next = ASK_STEP_KEYS.filter((k) => (k === step ? !has : d.ask_steps.includes(k)));
+      return { ...d, ask_steps: next };
+    });
+  }
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    setErr(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/admin/solutions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+
+      setNotice(`Saved ${json?.solution?.label || draft.label}.`);
+      setDraft(null);
+      setIsNew(false);
+      await load();
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to save solution"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen anchor-app-bg text-white">
+      <Navbar className="anchor-topbar">
+        <NavbarInner>
+          <div className="leading-tight">
+            <div className="text-sm font-semibold tracking-wide">Solution Catalog</div>
+            <div className="text-[12px] text-white/60">
+              Resolver • prompt mapping • lead form • tackle box folders
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => router.push("/admin/resolver")} className="h-9 px-3" variant="ghost">
+              Resolver
+            </Button>
+            <Button onClick={() => router.push("/admin/escalation")} className="h-9 px-3" variant="ghost">
+              Escalation
+            </Button>
+            <Button onClick={() => router.push("/chat")} className="h-9 px-3" variant="ghost">
+              Back to chat
+            </Button>
+          </div>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-4 text-black">
+        {err && <Alert tone="error">{err}</Alert>}
+        {notice && <Alert tone="success">{notice}</Alert>}
+
+        {draft && (
+          <Card className="p-5">
+            <div className="text-sm font-semibold">{isNew ? "New solution" : `Edit ${draft.label}`}</div>
+            <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">
+              Lists are comma-separated. Leave the match pattern empty for solutions the resolver should not pick from
+              chat text.
+            </div>
+
+            <div className="mt-4 grid gap-3 sm:grid-cols-2">
+              <label className="text-[12px] text-black/70">
+                Key
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.key}
+                  disabled={!isNew}
+                  onChange={(e) => update("key", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Label
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.label}
+                  onChange={(e) => update("label", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Securing (storage route)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  placeholder="pipe-frame/attached"
+                  value={draft.securing}
+                  onChange={(e) => update("securing", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Storage folder
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  placeholder={draft.securing ? `solutions/${draft.securing}` : "solutions/…"}
+                  value={draft.storage_folder ?? ""}
+                  onChange={(e) => update("storage_folder", e.target.value || null)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Prompt family (groups rows under one heading)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.family ?? ""}
+                  onChange={(e) => update("family", e.target.value || null)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Sort order
+                <Input
+                  type="number"
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={String(draft.sort_order)}
+                  onChange={(e) => update("sort_order", Number(e.target.value))}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Anchor type
+                <Select
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.anchor_type}
+                  onChange={(e) => update("anchor_type", e.target.value as SolutionRow["anchor_type"])}
+                >
+                  <option value="2000">2000-series</option>
+                  <option value="3000">3000-series</option>
+                  <option value="guy-wire">Guy wire kit</option>
+                  <option value="unknown">Unknown</option>
+                </Select>
+              </label>
+              <label className="text-[12px] text-black/70">
+                Mount surface
+                <Select
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.mount_surface ?? ""}
+                  onChange={(e) => update("mount_surface", (e.target.value || null) as SolutionRow["mount_surface"])}
+                >
+                  <option value="">—</option>
+                  <option value="roof">Roof</option>
+                  <option value="wall">Wall / parapet</option>
+                </Select>
+              </label>
+              <label className="text-[12px] text-black/70">
+                Components (ex: with strut framing)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.components ?? ""}
+                  onChange={(e) => update("components", e.target.value || null)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Lead form label (empty = hidden on the lead form)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.lead_label ?? ""}
+                  onChange={(e) => update("lead_label", e.target.value || null)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Lead key (stored on leads and names their attachment folder; empty = key)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.lead_key ?? ""}
+                  onChange={(e) => update("lead_key", e.target.value || null)}
+                />
+              </label>
+            </div>
+
+            <div className="mt-3 grid gap-3">
+              <label className="text-[12px] text-black/70">
+                Summary
+                <Textarea
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  rows={2}
+                  value={draft.summary}
+                  onChange={(e) => update("summary", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Match pattern (regex, case-insensitive)
+                <Input
+                  className="mt-1 w-full px-3 py-2 font-mono text-[12px]"
+                  value={draft.match_pattern ?? ""}
+                  onChange={(e) => update("match_pattern", e.target.value || null)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Also called (aliases)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.aliases}
+                  onChange={(e) => update("aliases", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Resolver keywords
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.keywords}
+                  onChange={(e) => update("keywords", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Prompt notes
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.prompt_notes}
+                  onChange={(e) => update("prompt_notes", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Recommended doc kinds
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.doc_kinds}
+                  onChange={(e) => update("doc_kinds", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Tackle box product names
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.product_names}
+                  onChange={(e) => update("product_names", e.target.value)}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Extra storage prefixes (probed first)
+                <Input
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={draft.extra_prefixes}
+                  onChange={(e) => update("extra_prefixes", e.target.value)}
+                />
+              </label>
+            </div>
+
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-[12px] text-black/70">
+              <span>Ask steps:</span>
+              {ASK_STEP_KEYS.map((step) => (
+                <label key={step} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={draft.ask_steps.includes(step)}
+                    onChange={() => toggleAskStep(step)}
+                  />
+                  {step}
+                </label>
+              ))}
+              <label className="ml-auto flex items-center gap-1.5">
+                <input type="checkbox" checked={draft.active} onChange={(e) => update("active", e.target.checked)} />
+                Active
+              </label>
+            </div>
+
+            <div className="mt-4 flex gap-2">
+              <Button variant="primary" className="px-4 py-2 text-sm" disabled={saving} onClick={save}>
+                {saving ? "Saving…" : "Save"}
+              </Button>
+              <Button
+                variant="ghost"
+                className="px-4 py-2 text-sm"
+                disabled={saving}
+                onClick={() => {
+                  setDraft(null);
+                  setIsNew(false);
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card className="p-5">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Solutions</div>
+              <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                {loading ? "Loading…" : `${rows.length} rows • ${rows.filter((r) => r.active).length} active`}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="ghost" className="px-3 py-2 text-sm" onClick={() => setShowPrompt((v) => !v)}>
+                {showPrompt ? "Hide prompt mapping" : "Preview prompt mapping"}
+              </Button>
+              <Button
+                variant="primary"
+                className="px-3 py-2 text-sm"
+                onClick={() => {
+                  setDraft({ ...EMPTY_DRAFT, sort_order: (rows.at(-1)?.sort_order ?? 0) + 10 });
+                  setIsNew(true);
+                  setNotice(null);
+                }}
+              >
+                New solution
+              </Button>
+            </div>
+          </div>
+
+          {showPrompt && (
+            <pre className="mt-3 max-h-96 overflow-auto whitespace-pre-wrap rounded-xl bg-[var(--surface-soft)] p-3 text-[12px]">
+              {promptPreview || "No active solutions."}
+            </pre>
+          )}
+
+          {rows.length > 0 && (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Order</th>
+                    <th>Label</th>
+                    <th>Securing</th>
+                    <th>Anchors</th>
+                    <th>Resolver</th>
+                    <th>Lead form</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr
+                      key={r.key}
+                      className={["cursor-pointer", r.active ? "" : "text-black/40"].join(" ")}
+                      onClick={() => {
+                        setDraft(toDraft(r));
+                        setIsNew(false);
+                        setNotice(null);
+                      }}
+                    >
+                      <td>{r.sort_order}</td>
+                      <td>
+                        {r.label}
+                        {!r.active && <span className="ml-1 text-[11px]">(inactive)</span>}
+                      </td>
+                      <td>
+                        <code>{r.securing}</code>
+                      </td>
+                      <td>{seriesLabel(r.anchor_type)}</td>
+                      <td>{r.match_pattern ? "yes" : "—"}</td>
+                      <td>{r.lead_label ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,505 @@
+// src/app/admin/usage/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Button from "@/app/components/ui/Button";
+import { Alert } from "@/app/components/ui/Alert";
+import { Card } from "@/app/components/ui/Card";
+import { Input, Select } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import type { LLMPriceRow, LLMQuotaRow } from "@/lib/llm/usage";
+import { errorMessage } from "@/lib/errors";
+
+type Totals = {
+  calls: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+};
+
+type UsageResponse = {
+  days: number;
+  since: string;
+  totals: Totals;
+  daily: (Totals & { day: string })[];
+  byUser: (Totals & { user_id: string | null; email: string | null; role: string | null })[];
+  byRole: (Totals & { role: string })[];
+  byPurpose: (Totals & { purpose: string })[];
+  byModel: (Totals & { model: string })[];
+  prices: LLMPriceRow[];
+  quotas: LLMQuotaRow[];
+};
+
+type QuotaDraft = { role: string; daily_tokens: string; daily_cost_usd: string; active: boolean };
+
+const RANGES = [7, 30, 90];
+const ROLES = ["admin", "anchor_rep", "external_rep"];
+
+const EMPTY_PRICE: LLMPriceRow = { provider: "openai", model: "", input_per_mtok: 0, output_per_mtok: 0 };
+
+function fmtInt(n: number) {
+  return Math.round(n || 0).toLocaleString();
+}
+
+function fmtUsd(n: number) {
+  const v = Number(n) || 0;
+  return `$${v.toFixed(v && v < 1 ? 4 : 2)}`;
+}
+
+function quotaDraftFor(role: string, quotas: LLMQuotaRow[]): QuotaDraft {
+  const q = quotas.find((r) => r.role === role);
+  return {
+    role,
+    daily_tokens: q?.daily_tokens != null ? String(q.daily_tokens) : "",
+    daily_cost_usd: q?.daily_cost_usd != null ? String(q.daily_cost_usd) : "",
+    active: q?.active ?? true,
+  };
+}
+
+function TotalsTable<T extends Totals>({
+  label,
+  rows,
+  keyOf,
+  render,
+}: {
+  label: string;
+  rows: T[];
+  keyOf: (r: T) => string;
+  render: (r: T) => React.ReactNode;
+}) {
+  if (!rows.length) return <div className="mt-2 text-sm text-[var(--anchor-gray)]">No calls in this range.</div>;
+
+  return (
+    <TableWrapper className="mt-3">
+      <Table>
+        <thead>
+          <tr>
+            <th>{label}</th>
+            <th>Calls</th>
+            <th>Failed</th>
+            <th>Input tokens</th>
+            <th>Output tokens</th>
+            <th>Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={keyOf(r)}>
+              <td>{render(r)}</td>
+              <td>{fmtInt(r.calls)}</td>
+              <td className={r.failed ? "text-red-700" : ""}>{fmtInt(r.failed)}</td>
+              <td>{fmtInt(r.input_tokens)}</td>
+              <td>{fmtInt(r.output_tokens)}</td>
+              <td>{fmtUsd(r.cost_usd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    </TableWrapper>
+  );
+}
+
+export default function AdminUsagePage() {
+  const router = useRouter();
+
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<UsageResponse | null>(null);
+  const [priceDraft, setPriceDraft] = useState<LLMPriceRow | null>(null);
+  const [quotaDraft, setQuotaDraft] = useState<QuotaDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await fetch(`/api/admin/usage?days=${days}`, { cache: "no-store" });
+
+      if (res.status === 401) {
+        router.replace("/");
+        return;
+      }
+      if (res.status === 403) {
+        router.replace("/chat");
+        return;
+      }
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+      setData(json as UsageResponse);
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to load usage"));
+    } finally {
+      setLoading(false);
+    }
+  }, [days, router]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function save(payload: Record<string, unknown>, label: string) {
+    setSaving(true);
+    setErr(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/admin/usage", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || `HTTP ${res.status}`);
+
+      setNotice(`Saved ${label}.`);
+      setPriceDraft(null);
+      setQuotaDraft(null);
+      await load();
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to save"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const totals = data?.totals;
+
+  return (
+    <main className="min-h-screen anchor-app-bg text-white">
+      <Navbar className="anchor-topbar">
+        <NavbarInner>
+          <div className="leading-tight">
+            <div className="text-sm font-semibold tracking-wide">LLM Usage</div>
+            <div className="text-[12px] text-white/60">Tokens • cost • daily quotas</div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={() => router.push("/admin/escalation")} className="h-9 px-3" variant="ghost">
+              Escalation policy
+            </Button>
+            <Button onClick={() => router.push("/admin/rate-limits")} className="h-9 px-3" variant="ghost">
+              Rate limits
+            </Button>
+            <Button onClick={() => router.push("/chat")} className="h-9 px-3" variant="ghost">
+              Back to chat
+            </Button>
+          </div>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-6xl space-y-4 px-4 py-4 text-black">
+        {err && <Alert tone="error">{err}</Alert>}
+        {notice && <Alert tone="success">{notice}</Alert>}
+
+        <Card className="p-5">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Last {days} days</div>
+              <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                {loading
+                  ? "Loading…"
+                  : totals
+                    ? `${fmtInt(totals.calls)} calls • ${fmtInt(totals.input_tokens + totals.output_tokens)} tokens • ${fmtUsd(totals.cost_usd)}`
+                    : "—"}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {RANGES.map((d) => (
+                <Button
+                  key={d}
+                  variant={d === days ? "primary" : "ghost"}
+                  className="px-3 py-2 text-sm"
+                  onClick={() => setDays(d)}
+                >
+                  {d}d
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {totals && totals.failed > 0 && (
+            <div className="mt-2 text-[12px] text-red-700">
+              {fmtInt(totals.failed)} failed attempts (fallbacks and errors) are included in the call count.
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">By user</div>
+          <TotalsTable
+            label="User"
+            rows={data?.byUser ?? []}
+            keyOf={(r) => r.user_id ?? "system"}
+            render={(r) =>
+              r.user_id ? (
+                <span>
+                  {r.email ?? r.user_id}
+                  {r.role && <span className="ml-1 text-[11px] text-black/50">({r.role})</span>}
+                </span>
+              ) : (
+                <span className="text-black/50">No user (background / eval)</span>
+              )
+            }
+          />
+        </Card>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <Card className="p-5">
+            <div className="text-sm font-semibold">By role</div>
+            <TotalsTable label="Role" rows={data?.byRole ?? []} keyOf={(r) => r.role} render={(r) => r.role} />
+          </Card>
+          <Card className="p-5">
+            <div className="text-sm font-semibold">By purpose</div>
+            <TotalsTable
+              label="Purpose"
+              rows={data?.byPurpose ?? []}
+              keyOf={(r) => r.purpose}
+              render={(r) => r.purpose}
+            />
+          </Card>
+        </div>
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">By model</div>
+          <TotalsTable
+            label="Provider:model"
+            rows={data?.byModel ?? []}
+            keyOf={(r) => r.model}
+            render={(r) => <code className="text-[12px]">{r.model}</code>}
+          />
+        </Card>
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">By day (UTC)</div>
+          <TotalsTable label="Day" rows={data?.daily ?? []} keyOf={(r) => r.day} render={(r) => r.day} />
+        </Card>
+
+        <Card className="p-5">
+          <div className="text-sm font-semibold">Daily quotas</div>
+          <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">
+            Per role, reset at 00:00 UTC. Blank means no cap on that axis. Over-quota users get a 429 from the chat.
+          </div>
+
+          <TableWrapper className="mt-3">
+            <Table>
+              <thead>
+                <tr>
+                  <th>Role</th>
+                  <th>Tokens / day</th>
+                  <th>Cost / day</th>
+                  <th>Active</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {ROLES.map((role) => {
+                  const q = data?.quotas.find((r) => r.role === role);
+                  const editing = quotaDraft?.role === role;
+                  return (
+                    <tr key={role}>
+                      <td>{role}</td>
+                      <td>
+                        {editing ? (
+                          <Input
+                            type="number"
+                            className="w-32 px-2 py-1 text-sm"
+                            value={quotaDraft.daily_tokens}
+                            onChange={(e) => setQuotaDraft({ ...quotaDraft, daily_tokens: e.target.value })}
+                          />
+                        ) : q?.daily_tokens != null ? (
+                          fmtInt(q.daily_tokens)
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td>
+                        {editing ? (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            className="w-28 px-2 py-1 text-sm"
+                            value={quotaDraft.daily_cost_usd}
+                            onChange={(e) => setQuotaDraft({ ...quotaDraft, daily_cost_usd: e.target.value })}
+                          />
+                        ) : q?.daily_cost_usd != null ? (
+                          fmtUsd(q.daily_cost_usd)
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td>
+                        {editing ? (
+                          <input
+                            type="checkbox"
+                            checked={quotaDraft.active}
+                            onChange={(e) => setQuotaDraft({ ...quotaDraft, active: e.target.checked })}
+                          />
+                        ) : q ? (
+                          q.active ? "yes" : "no"
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap text-right">
+                        {editing ? (
+                          <>
+                            <Button
+                              variant="primary"
+                              className="px-3 py-1 text-sm"
+                              disabled={saving}
+                              onClick={() => save({ kind: "quota", ...quotaDraft }, `${role} quota`)}
+                            >
+                              {saving ? "Saving…" : "Save"}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              className="ml-1 px-3 py-1 text-sm"
+                              disabled={saving}
+                              onClick={() => setQuotaDraft(null)}
+                            >
+                              Cancel
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            className="px-3 py-1 text-sm"
+                            onClick={() => {
+                              setQuotaDraft(quotaDraftFor(role, data?.quotas ?? []));
+                              setNotice(null);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </Table>
+          </TableWrapper>
+        </Card>
+
+        <Card className="p-5">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm font-semibold">Prices</div>
+              <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">
+                USD per million tokens. Calls are priced when logged, so edits apply to new calls only. Model * covers
+                every model of a provider; dated snapshots match their base model.
+              </div>
+            </div>
+            <Button
+              variant="primary"
+              className="px-3 py-2 text-sm"
+              onClick={() => {
+                setPriceDraft({ ...EMPTY_PRICE });
+                setNotice(null);
+              }}
+            >
+              New price
+            </Button>
+          </div>
+
+          {priceDraft && (
+            <div className="mt-3 grid gap-3 sm:grid-cols-5">
+              <label className="text-[12px] text-black/70">
+                Provider
+                <Select
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={priceDraft.provider}
+                  onChange={(e) => setPriceDraft({ ...priceDraft, provider: e.target.value })}
+                >
+                  <option value="openai">openai</option>
+                  <option value="local">local</option>
+                  <option value="mock">mock</option>
+                </Select>
+              </label>
+              <label className="text-[12px] text-black/70">
+                Model
+                <Input
+                  className="mt-1 w-full px-3 py-2 font-mono text-[12px]"
+                  value={priceDraft.model}
+                  onChange={(e) => setPriceDraft({ ...priceDraft, model: e.target.value })}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Input $/M
+                <Input
+                  type="number"
+                  step="0.01"
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={String(priceDraft.input_per_mtok)}
+                  onChange={(e) => setPriceDraft({ ...priceDraft, input_per_mtok: Number(e.target.value) })}
+                />
+              </label>
+              <label className="text-[12px] text-black/70">
+                Output $/M
+                <Input
+                  type="number"
+                  step="0.01"
+                  className="mt-1 w-full px-3 py-2 text-sm"
+                  value={String(priceDraft.output_per_mtok)}
+                  onChange={(e) => setPriceDraft({ ...priceDraft, output_per_mtok: Number(e.target.value) })}
+                />
+              </label>
+              <div className="flex items-end gap-2">
+                <Button
+                  variant="primary"
+                  className="px-4 py-2 text-sm"
+                  disabled={saving}
+                  onClick={() =>
+                    save({ kind: "price", ...priceDraft }, `${priceDraft.provider}:${priceDraft.model} price`)
+                  }
+                >
+                  {saving ? "Saving…" : "Save"}
+                </Button>
+                <Button variant="ghost" className="px-4 py-2 text-sm" disabled={saving} onClick={() => setPriceDraft(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {(data?.prices.length ?? 0) > 0 && (
+            <TableWrapper className="mt-3">
+              <Table>
+                <thead>
+                  <tr>
+                    <th>Provider</th>
+                    <th>Model</th>
+                    <th>Input $/M</th>
+                    <th>Output $/M</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data!.prices.map((p) => (
+                    <tr
+                      key={`${p.provider}:${p.model}`}
+                      className="cursor-pointer"
+                      onClick={() => {
+                        setPriceDraft({ ...p });
+                        setNotice(null);
+                      }}
+                    >
+                      <td>{p.provider}</td>
+                      <td className="font-mono text-[12px]">{p.model}</td>
+                      <td>{p.input_per_mtok}</td>
+                      <td>{p.output_per_mtok}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </TableWrapper>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
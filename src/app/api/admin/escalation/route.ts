@@ -0,0 +1,145 @@
+// src/app/api/admin/escalation/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import {
+  ESCALATION_RULE_COLUMNS,
+  compileRulePattern,
+  loadEscalationRules,
+  type EscalationRuleRow,
+} from "@/lib/chat/escalationPolicy";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RECENT_EVENTS = 50;
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+function textOrNull(v: unknown) {
+  const s = String(v ?? "").trim();
+  return s || null;
+}
+
+/**
+ * Validate + normalize an edited rule. Returns an error message instead of throwing
+ * so the editor can show it next to the form.
+ */
+function toRuleRow(body: unknown): { row?: EscalationRuleRow; error?: string } {
+  const b = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const id = String(b.id ?? "").trim();
+  if (!/^(pre|post)\.[a-z0-9][a-z0-9-]*$/.test(id)) return { error: "Id must look like pre.some-rule or post.some-rule." };
+
+  const stage = String(b.stage ?? "");
+  if (stage !== "pre" && stage !== "post") return { error: "Stage must be pre or post." };
+  if (!id.startsWith(`${stage}.`)) return { error: "Id prefix must match the stage." };
+
+  const action = String(b.action ?? "");
+  if (action !== "escalate" && action !== "redact") return { error: "Action must be escalate or redact." };
+
+  const pattern = String(b.pattern ?? "").trim();
+  if (!compileRulePattern(pattern)) return { error: "Pattern is not a valid regular expression." };
+
+  const requiresPattern = textOrNull(b.requires_pattern);
+  if (requiresPattern && !compileRulePattern(requiresPattern)) {
+    return { error: "Requires pattern is not a valid regular expression." };
+  }
+
+  const reason = String(b.reason ?? "").trim();
+  if (!reason) return { error: "Reason is required (it is what the audit log shows)." };
+
+  const priority = Number(b.priority ?? 0);
+  if (!Number.isFinite(priority)) return { error: "Priority must be a number." };
+
+  return {
+    row: {
+      id,
+      stage,
+      pattern,
+      requires_pattern: requiresPattern,
+      action,
+      reason,
+      priority: Math.round(priority),
+      active: b.active !== false,
+    },
+  };
+}
+
+async function requireAdmin() {
+  const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError) throw new Error(authError.message);
+
+  const user = auth?.user;
+  if (!user) return { supabase, user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  if (!(await isAdmin(supabase, user.id))) {
+    return { supabase, user, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { supabase, user, response: null };
+}
+
+/**
+ * Escalation policy editor:
+ * - GET  → every rule (inactive included) + the most recent partial / escalated decisions
+ * - POST → upsert one rule by id; the chat picks it up on the next rules refresh
+ */
+export async function GET() {
+  try {
+    const { supabase, response } = await requireAdmin();
+    if (response) return response;
+
+    const [rules, events] = await Promise.all([
+      supabase.from("escalation_rules").select(ESCALATION_RULE_COLUMNS).order("priority", { ascending: true }),
+      supabase
+        .from("escalation_events")
+        .select("id,created_at,user_id,conversation_id,outcome,rule_ids,matches,redacted_count,question,streamed")
+        .neq("outcome", "allow")
+        .order("created_at", { ascending: false })
+        .limit(RECENT_EVENTS),
+    ]);
+
+    if (rules.error) throw new Error(rules.error.message);
+    if (events.error) throw new Error(events.error.message);
+
+    return NextResponse.json({ rules: rules.data ?? [], events: events.data ?? [] });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, user, response } = await requireAdmin();
+    if (response) return response;
+
+    const body = await req.json().catch(() => ({}));
+    const { row, error: invalid } = toRuleRow(body);
+    if (!row) return NextResponse.json({ error: invalid }, { status: 400 });
+
+    const { data, error } = await supabase
+      .from("escalation_rules")
+      .upsert({ ...row, updated_at: new Date().toISOString(), updated_by: user?.id ?? null }, { onConflict: "id" })
+      .select(ESCALATION_RULE_COLUMNS)
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    // this instance serves the edit immediately; others within their cache TTL
+    await loadEscalationRules(supabase, { force: true });
+
+    return NextResponse.json({ rule: data });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
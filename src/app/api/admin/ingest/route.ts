@@ -0,0 +1,102 @@
+// src/app/api/admin/ingest/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createLLMCallLog } from "@/lib/llm/telemetry";
+import { ingestionStatus, reindexKnowledge } from "@/lib/knowledge/ingest";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/** files per POST; the status page keeps posting with `after` until `next` is null */
+const DEFAULT_BATCH = 10;
+const MAX_BATCH = 50;
+
+type Body = {
+  mode?: "stale" | "all";
+  prefix?: string | null;
+  paths?: string[];
+  force?: boolean;
+  after?: string | null;
+  limit?: number;
+};
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+async function requireAdmin() {
+  const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError) throw new Error(authError.message);
+
+  const user = auth?.user;
+  if (!user) return { user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  if (!(await isAdmin(supabase, user.id))) {
+    return { user, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { user, response: null };
+}
+
+/** Indexed vs stale for every file in the bucket (or under ?prefix=). */
+export async function GET(req: Request) {
+  try {
+    const { response } = await requireAdmin();
+    if (response) return response;
+
+    const prefix = new URL(req.url).searchParams.get("prefix") || null;
+    // storage.objects is only readable with the service role
+    const status = await ingestionStatus(supabaseAdmin, prefix);
+
+    return NextResponse.json({ prefix, ...status });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
+
+/** Re-index one batch: stale files (default), everything, or the given paths. */
+export async function POST(req: Request) {
+  try {
+    const { user, response } = await requireAdmin();
+    if (response) return response;
+
+    let body: Body;
+    try {
+      body = (await req.json()) as Body;
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const paths = Array.isArray(body.paths) ? body.paths.map((p) => String(p || "").trim()).filter(Boolean) : [];
+    const limit = Math.min(MAX_BATCH, Math.max(1, Number(body.limit) || DEFAULT_BATCH));
+
+    const llmCalls = createLLMCallLog();
+    try {
+      const summary = await reindexKnowledge(supabaseAdmin, {
+        mode: body.mode === "all" ? "all" : "stale",
+        prefix: body.prefix || null,
+        paths,
+        force: !!body.force,
+        after: body.after || null,
+        limit: paths.length ? paths.length : limit,
+        log: llmCalls,
+      });
+      return NextResponse.json(summary);
+    } finally {
+      await llmCalls.flush(supabaseAdmin, { userId: user?.id ?? null });
+    }
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+// src/app/api/admin/quarantine/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { listQuarantinedChunks, quarantineThresholdFromEnv, restoreChunk } from "@/lib/knowledge/quarantine";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Body = {
+  chunkId?: string;
+  action?: "restore";
+};
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+async function requireAdmin() {
+  const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError) throw new Error(authError.message);
+
+  const user = auth?.user;
+  if (!user) return { user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  if (!(await isAdmin(supabase, user.id))) {
+    return { user, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { user, response: null };
+}
+
+/** Chunks pulled from retrieval by downvotes, newest first. */
+export async function GET() {
+  try {
+    const { response } = await requireAdmin();
+    if (response) return response;
+
+    const items = await listQuarantinedChunks(supabaseAdmin);
+    return NextResponse.json({ items, threshold: quarantineThresholdFromEnv() });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
+
+/** Restore one chunk to retrieval. */
+export async function POST(req: Request) {
+  try {
+    const { user, response } = await requireAdmin();
+    if (response) return response;
+
+    let body: Body;
+    try {
+      body = (await req.json()) as Body;
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const chunkId = String(body.chunkId || "").trim();
+    if (!chunkId || body.action !== "restore") {
+      return NextResponse.json({ error: "chunkId and action=restore are required" }, { status: 400 });
+    }
+
+    const restored = await restoreChunk(supabaseAdmin, chunkId, user!.id);
+    if (!restored) return NextResponse.json({ error: "Chunk is not quarantined" }, { status: 404 });
+
+    return NextResponse.json({ ok: true, chunkId });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
@@ -0,0 +1,155 @@
+// src/app/api/admin/rate-limits/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RATE_LIMIT_POLICIES, memoryRateLimitStore } from "@/lib/ratelimit/policy";
+import type { RateLimitBucketRow } from "@/lib/ratelimit/tokenBucket";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BUCKET_COLUMNS =
+  "key,policy,scope,subject,tokens,capacity,refill_per_sec,hits,blocked,last_blocked_at,updated_at";
+const RECENT_BUCKETS = 100;
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+async function requireAdmin() {
+  const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError) throw new Error(authError.message);
+
+  const user = auth?.user;
+  if (!user) return { supabase, user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  if (!(await isAdmin(supabase, user.id))) {
+    return { supabase, user, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { supabase, user, response: null };
+}
+
+type PolicyTotals = {
+  policy: string;
+  buckets: number;
+  hits: number;
+  blocked: number;
+  last_blocked_at: string | null;
+};
+
+function totalsFrom(rows: RateLimitBucketRow[]): PolicyTotals[] {
+  const byPolicy = new Map<string, PolicyTotals>();
+  for (const r of rows) {
+    const t = byPolicy.get(r.policy) ?? { policy: r.policy, buckets: 0, hits: 0, blocked: 0, last_blocked_at: null };
+    t.buckets += 1;
+    t.hits += r.hits;
+    t.blocked += r.blocked;
+    if (r.last_blocked_at && (!t.last_blocked_at || r.last_blocked_at > t.last_blocked_at)) {
+      t.last_blocked_at = r.last_blocked_at;
+    }
+    byPolicy.set(r.policy, t);
+  }
+  return [...byPolicy.values()];
+}
+
+function usesMemoryStore() {
+  return process.env.RATE_LIMIT_STORE === "memory" || !process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+/**
+ * Rate limit counters:
+ * - GET    → policies, per-policy totals, most recently active buckets (user buckets carry the email)
+ * - DELETE ?key=<bucket key> → reset one bucket (it starts full on the next request)
+ */
+export async function GET() {
+  try {
+    const { supabase, response } = await requireAdmin();
+    if (response) return response;
+
+    let buckets: RateLimitBucketRow[];
+    let counters: PolicyTotals[];
+    if (usesMemoryStore()) {
+      // per-process buckets: only visible here when the middleware shares this process
+      const all = memoryRateLimitStore().snapshot();
+      buckets = all.sort((a, b) => b.updated_at.localeCompare(a.updated_at)).slice(0, RECENT_BUCKETS);
+      counters = totalsFrom(all);
+    } else {
+      const [recent, totals] = await Promise.all([
+        supabase
+          .from("rate_limit_buckets")
+          .select(BUCKET_COLUMNS)
+          .order("updated_at", { ascending: false })
+          .limit(RECENT_BUCKETS),
+        supabase.from("rate_limit_policy_totals").select("policy,buckets,hits,blocked,last_blocked_at"),
+      ]);
+      if (recent.error) throw new Error(recent.error.message);
+      if (totals.error) throw new Error(totals.error.message);
+      buckets = (recent.data ?? []) as RateLimitBucketRow[];
+      counters = (totals.data ?? []) as PolicyTotals[];
+    }
+
+    const userIds = [...new Set(buckets.filter((b) => b.scope === "user").map((b) => b.subject))];
+    const emails = new Map<string, string | null>();
+    if (userIds.length) {
+      const { data: profiles, error } = await supabaseAdmin.from("profiles").select("id,email").in("id", userIds);
+      if (error) throw new Error(error.message);
+      for (const p of profiles ?? []) emails.set(p.id, p.email ?? null);
+    }
+
+    // every policy gets a row, even before its first request
+    const totals = Object.values(RATE_LIMIT_POLICIES).map(
+      (p) =>
+        counters.find((c) => c.policy === p.name) ?? {
+          policy: p.name,
+          buckets: 0,
+          hits: 0,
+          blocked: 0,
+          last_blocked_at: null,
+        }
+    );
+
+    return NextResponse.json({
+      store: usesMemoryStore() ? "memory" : "postgres",
+      disabled: process.env.RATE_LIMIT_DISABLED === "true",
+      policies: Object.values(RATE_LIMIT_POLICIES),
+      totals,
+      buckets: buckets.map((b) => ({
+        ...b,
+        email: b.scope === "user" ? (emails.get(b.subject) ?? null) : null,
+      })),
+    });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const { supabase, response } = await requireAdmin();
+    if (response) return response;
+
+    const key = (new URL(req.url).searchParams.get("key") || "").trim();
+    if (!key) return NextResponse.json({ error: "Missing key" }, { status: 400 });
+
+    if (usesMemoryStore()) {
+      memoryRateLimitStore().reset(key);
+    } else {
+      const { error } = await supabase.from("rate_limit_buckets").delete().eq("key", key);
+      if (error) throw new Error(error.message);
+    }
+
+    return NextResponse.json({ ok: true, key });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
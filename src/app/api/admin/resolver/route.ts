@@ -0,0 +1,55 @@
+// src/app/api/admin/resolver/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { loadSolutionCatalog } from "@/lib/solutions/catalog";
+import { explainCanonicalResolution } from "@/lib/solutions/resolveCanonicalSolution";
+import { runResolutionCorpus } from "@/lib/solutions/resolutionCorpus";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+/**
+ * Resolver debug:
+ * - ?text=... → every matching candidate with its score breakdown
+ * - always    → pass/fail for the regression corpus
+ */
+export async function GET(req: Request) {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+    const { data: auth, error: authError } = await supabase.auth.getUser();
+    if (authError) throw new Error(authError.message);
+
+    const user = auth?.user;
+    if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (!(await isAdmin(supabase, user.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const text = (searchParams.get("text") || "").trim();
+
+    // explain against the live (admin-edited) catalog
+    await loadSolutionCatalog(supabase);
+
+    return NextResponse.json({
+      explanation: text ? explainCanonicalResolution(text) : null,
+      corpus: runResolutionCorpus(),
+    });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
@@ -0,0 +1,161 @@
+// src/app/api/admin/solutions/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import {
+  ASK_STEP_KEYS,
+  SOLUTION_COLUMNS,
+  compileMatchPattern,
+  loadSolutionCatalog,
+  type SolutionRow,
+} from "@/lib/solutions/catalog";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ANCHOR_TYPES = ["2000", "3000", "guy-wire", "unknown"];
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+function textList(v: unknown) {
+  const list = Array.isArray(v) ? v : String(v ?? "").split(",");
+  return list.map((x) => String(x ?? "").trim()).filter(Boolean);
+}
+
+function textOrNull(v: unknown) {
+  const s = String(v ?? "").trim();
+  return s || null;
+}
+
+/**
+ * Validate + normalize an edited row. Returns an error message instead of throwing
+ * so the editor can show it next to the form.
+ */
+function toSolutionRow(body: unknown): { row?: SolutionRow; error?: string } {
+  const b = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const key = String(b.key ?? "").trim();
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(key)) return { error: "Key must be lowercase letters, digits and dashes." };
+
+  const label = String(b.label ?? "").trim();
+  if (!label) return { error: "Label is required." };
+
+  const securing = String(b.securing ?? "").trim().replace(/^solutions\//, "");
+  if (!/^[a-z0-9-]+(\/[a-z0-9-]+)*$/.test(securing)) return { error: "Securing must be a storage route (ex: pipe-frame/attached)." };
+
+  const matchPattern = textOrNull(b.match_pattern);
+  if (matchPattern && !compileMatchPattern(matchPattern)) return { error: "Match pattern is not a valid regular expression." };
+
+  const anchorType = String(b.anchor_type ?? "unknown");
+  if (!ANCHOR_TYPES.includes(anchorType)) return { error: "Unknown anchor type." };
+
+  const mountSurface = textOrNull(b.mount_surface);
+  if (mountSurface && mountSurface !== "roof" && mountSurface !== "wall") return { error: "Mount surface must be roof or wall." };
+
+  const askSteps = textList(b.ask_steps);
+  const badStep = askSteps.find((s) => !ASK_STEP_KEYS.includes(s as SolutionRow["ask_steps"][number]));
+  if (badStep) return { error: `Unknown ask step: ${badStep}` };
+
+  const leadKey = textOrNull(b.lead_key);
+  if (leadKey && !/^[a-z0-9][a-z0-9-]*$/.test(leadKey)) return { error: "Lead key must be lowercase letters, digits and dashes." };
+
+  const sortOrder = Number(b.sort_order ?? 0);
+  if (!Number.isFinite(sortOrder)) return { error: "Sort order must be a number." };
+
+  return {
+    row: {
+      key,
+      label,
+      family: textOrNull(b.family),
+      securing,
+      storage_folder: textOrNull(b.storage_folder) ?? `solutions/${securing}`,
+      summary: String(b.summary ?? "").trim(),
+      aliases: textList(b.aliases),
+      match_pattern: matchPattern,
+      keywords: textList(b.keywords),
+      anchor_type: anchorType as SolutionRow["anchor_type"],
+      components: textOrNull(b.components),
+      prompt_notes: textList(b.prompt_notes),
+      doc_kinds: textList(b.doc_kinds) as SolutionRow["doc_kinds"],
+      mount_surface: mountSurface as SolutionRow["mount_surface"],
+      ask_steps: askSteps as SolutionRow["ask_steps"],
+      lead_label: textOrNull(b.lead_label),
+      lead_key: leadKey,
+      product_names: textList(b.product_names),
+      extra_prefixes: textList(b.extra_prefixes),
+      sort_order: Math.round(sortOrder),
+      active: b.active !== false,
+    },
+  };
+}
+
+async function requireAdmin() {
+  const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError) throw new Error(authError.message);
+
+  const user = auth?.user;
+  if (!user) return { supabase, user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  if (!(await isAdmin(supabase, user.id))) {
+    return { supabase, user, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { supabase, user, response: null };
+}
+
+/**
+ * Solution catalog editor:
+ * - GET  → every row (inactive included), in sort order
+ * - POST → upsert one row by key; the chat picks it up on the next catalog refresh
+ */
+export async function GET() {
+  try {
+    const { supabase, response } = await requireAdmin();
+    if (response) return response;
+
+    const { data, error } = await supabase
+      .from("solutions")
+      .select(SOLUTION_COLUMNS)
+      .order("sort_order", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ solutions: data ?? [] });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, user, response } = await requireAdmin();
+    if (response) return response;
+
+    const body = await req.json().catch(() => ({}));
+    const { row, error: invalid } = toSolutionRow(body);
+    if (!row) return NextResponse.json({ error: invalid }, { status: 400 });
+
+    const { data, error } = await supabase
+      .from("solutions")
+      .upsert({ ...row, updated_at: new Date().toISOString(), updated_by: user?.id ?? null }, { onConflict: "key" })
+      .select(SOLUTION_COLUMNS)
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    // this instance serves the edit immediately; others within their cache TTL
+    await loadSolutionCatalog(supabase, { force: true });
+
+    return NextResponse.json({ solution: data });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
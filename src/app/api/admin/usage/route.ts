@@ -0,0 +1,245 @@
+// src/app/api/admin/usage/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  LLM_PRICE_COLUMNS,
+  LLM_QUOTA_COLUMNS,
+  fetchLLMPrices,
+  loadLLMPrices,
+  startOfUtcDay,
+  type LLMPriceRow,
+  type LLMQuotaRow,
+} from "@/lib/llm/usage";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 180;
+const QUOTA_ROLES = ["admin", "anchor_rep", "external_rep"];
+
+type DailyRow = {
+  day: string;
+  user_id: string | null;
+  purpose: string;
+  provider: string;
+  model: string;
+  calls: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+};
+
+type Totals = {
+  calls: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+};
+
+async function isAdmin(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.role === "admin";
+}
+
+async function requireAdmin() {
+  const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError) throw new Error(authError.message);
+
+  const user = auth?.user;
+  if (!user) return { supabase, user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  if (!(await isAdmin(supabase, user.id))) {
+    return { supabase, user, response: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { supabase, user, response: null };
+}
+
+function emptyTotals(): Totals {
+  return { calls: 0, failed: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+}
+
+function addTo(t: Totals, r: DailyRow) {
+  t.calls += Number(r.calls) || 0;
+  t.failed += Number(r.failed) || 0;
+  t.input_tokens += Number(r.input_tokens) || 0;
+  t.output_tokens += Number(r.output_tokens) || 0;
+  t.cost_usd += Number(r.cost_usd) || 0;
+}
+
+/** Sum rows per key, biggest spend first. */
+function groupTotals(rows: DailyRow[], keyOf: (r: DailyRow) => string) {
+  const groups = new Map<string, Totals>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    const t = groups.get(key) ?? emptyTotals();
+    addTo(t, r);
+    groups.set(key, t);
+  }
+  return [...groups.entries()]
+    .map(([key, t]) => ({ key, ...t }))
+    .sort((a, b) => b.cost_usd - a.cost_usd || b.input_tokens + b.output_tokens - (a.input_tokens + a.output_tokens));
+}
+
+function numberOrNull(v: unknown) {
+  if (v === null || v === undefined || String(v).trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function toPriceRow(body: unknown): { row?: LLMPriceRow; error?: string } {
+  const b = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const provider = String(b.provider ?? "").trim();
+  const model = String(b.model ?? "").trim();
+  if (!provider || !model) return { error: "Provider and model are required (model * prices every model)." };
+
+  const input = Number(b.input_per_mtok);
+  const output = Number(b.output_per_mtok);
+  if (!Number.isFinite(input) || input < 0 || !Number.isFinite(output) || output < 0) {
+    return { error: "Prices must be zero or more (USD per million tokens)." };
+  }
+
+  return { row: { provider, model, input_per_mtok: input, output_per_mtok: output } };
+}
+
+function toQuotaRow(body: unknown): { row?: LLMQuotaRow; error?: string } {
+  const b = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const role = String(b.role ?? "");
+  if (!QUOTA_ROLES.includes(role)) return { error: `Role must be one of ${QUOTA_ROLES.join(", ")}.` };
+
+  const dailyTokens = numberOrNull(b.daily_tokens);
+  const dailyCost = numberOrNull(b.daily_cost_usd);
+  if (dailyTokens !== null && !(dailyTokens > 0)) return { error: "Daily tokens must be blank or a positive number." };
+  if (dailyCost !== null && !(dailyCost > 0)) return { error: "Daily cost must be blank or a positive number." };
+
+  return {
+    row: {
+      role,
+      daily_tokens: dailyTokens === null ? null : Math.round(dailyTokens),
+      daily_cost_usd: dailyCost,
+      active: b.active !== false,
+    },
+  };
+}
+
+/**
+ * LLM usage dashboard:
+ * - GET ?days=30 → totals, per day / user / role / purpose / model, plus the price and quota tables
+ * - POST { kind: "price" | "quota", ... } → upsert one row
+ */
+export async function GET(req: Request) {
+  try {
+    const { supabase, response } = await requireAdmin();
+    if (response) return response;
+
+    const url = new URL(req.url);
+    const days = Math.min(MAX_DAYS, Math.max(1, Number(url.searchParams.get("days")) || DEFAULT_DAYS));
+    const since = startOfUtcDay();
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    const [usage, prices, quotas] = await Promise.all([
+      supabase.rpc("llm_usage_daily", { p_since: since.toISOString() }),
+      fetchLLMPrices(supabase),
+      supabase.from("llm_quotas").select(LLM_QUOTA_COLUMNS).order("role", { ascending: true }),
+    ]);
+
+    if (usage.error) throw new Error(usage.error.message);
+    if (quotas.error) throw new Error(quotas.error.message);
+
+    const rows = (usage.data ?? []) as DailyRow[];
+
+    // emails + roles for the per-user and per-role ("team") breakdowns
+    const userIds = [...new Set(rows.map((r) => r.user_id).filter(Boolean))] as string[];
+    const people = new Map<string, { email: string | null; role: string | null }>();
+    if (userIds.length) {
+      const { data: profiles, error } = await supabaseAdmin.from("profiles").select("id,email,role").in("id", userIds);
+      if (error) throw new Error(error.message);
+      for (const p of profiles ?? []) people.set(p.id, { email: p.email ?? null, role: p.role ?? null });
+    }
+
+    const totals = emptyTotals();
+    for (const r of rows) addTo(totals, r);
+
+    const byUser = groupTotals(rows, (r) => r.user_id ?? "").map(({ key, ...t }) => ({
+      user_id: key || null,
+      email: key ? (people.get(key)?.email ?? null) : null,
+      role: key ? (people.get(key)?.role ?? null) : null,
+      ...t,
+    }));
+
+    return NextResponse.json({
+      days,
+      since: since.toISOString(),
+      totals,
+      daily: groupTotals(rows, (r) => String(r.day))
+        .map(({ key, ...t }) => ({ day: key, ...t }))
+        .sort((a, b) => b.day.localeCompare(a.day)),
+      byUser,
+      byRole: groupTotals(rows, (r) => (r.user_id ? (people.get(r.user_id)?.role ?? "unknown") : "system")).map(
+        ({ key, ...t }) => ({ role: key, ...t })
+      ),
+      byPurpose: groupTotals(rows, (r) => r.purpose).map(({ key, ...t }) => ({ purpose: key, ...t })),
+      byModel: groupTotals(rows, (r) => `${r.provider}:${r.model}`).map(({ key, ...t }) => ({ model: key, ...t })),
+      prices,
+      quotas: quotas.data ?? [],
+    });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { supabase, user, response } = await requireAdmin();
+    if (response) return response;
+
+    const body = await req.json().catch(() => ({}));
+    const stamp = { updated_at: new Date().toISOString(), updated_by: user?.id ?? null };
+
+    if (body?.kind === "price") {
+      const { row, error: invalid } = toPriceRow(body);
+      if (!row) return NextResponse.json({ error: invalid }, { status: 400 });
+
+      const { data, error } = await supabase
+        .from("llm_prices")
+        .upsert({ ...row, ...stamp }, { onConflict: "provider,model" })
+        .select(LLM_PRICE_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+
+      // new calls on this instance are priced immediately; others within their cache TTL
+      await loadLLMPrices(supabase, { force: true });
+      return NextResponse.json({ price: data });
+    }
+
+    if (body?.kind === "quota") {
+      const { row, error: invalid } = toQuotaRow(body);
+      if (!row) return NextResponse.json({ error: invalid }, { status: 400 });
+
+      const { data, error } = await supabase
+        .from("llm_quotas")
+        .upsert({ ...row, ...stamp }, { onConflict: "role" })
+        .select(LLM_QUOTA_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+
+      return NextResponse.json({ quota: data });
+    }
+
+    return NextResponse.json({ error: "kind must be price or quota" }, { status: 400 });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
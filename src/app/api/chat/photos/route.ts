@@ -0,0 +1,122 @@
+// src/app/api/chat/photos/route.ts
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  CHAT_PHOTOS_BUCKET,
+  CHAT_PHOTO_URL_TTL_SECONDS,
+  MAX_CHAT_PHOTOS,
+  MAX_CHAT_PHOTO_BYTES,
+  chatPhotoPath,
+  isOwnChatPhoto,
+  type ChatPhoto,
+} from "@/lib/chat/photos";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function clean(v: unknown) {
+  return String(v || "").trim();
+}
+
+function isImageFile(file: File) {
+  return clean(file.type).toLowerCase().startsWith("image/");
+}
+
+/**
+ * Upload photos for the next chat message (multipart: conversation_id + photos[]).
+ * Returns the ChatPhoto refs the client sends along with the message to /api/chat.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const user = auth.user;
+    const form = await req.formData();
+    const conversationId = clean(form.get("conversation_id"));
+    const photos = form.getAll("photos").filter((f) => f instanceof File && f.size > 0) as File[];
+
+    if (!conversationId) return NextResponse.json({ error: "Conversation is required." }, { status: 400 });
+    if (!photos.length) return NextResponse.json({ error: "No photos attached." }, { status: 400 });
+    if (photos.length > MAX_CHAT_PHOTOS) {
+      return NextResponse.json({ error: `Attach at most ${MAX_CHAT_PHOTOS} photos.` }, { status: 400 });
+    }
+    for (const file of photos) {
+      if (!isImageFile(file)) return NextResponse.json({ error: "Only image files can be attached." }, { status: 400 });
+      if (file.size > MAX_CHAT_PHOTO_BYTES) {
+        return NextResponse.json(
+          { error: `Photos must be under ${Math.round(MAX_CHAT_PHOTO_BYTES / 1024 / 1024)} MB.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Ensure conversation belongs to user
+    const { data: convo, error: convoErr } = await supabase
+      .from("conversations")
+      .select("id")
+      .eq("id", conversationId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (convoErr) throw convoErr;
+    if (!convo?.id) return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+
+    const uploaded: ChatPhoto[] = [];
+    for (const file of photos) {
+      const path = chatPhotoPath(user.id, conversationId, file.name);
+      const contentType = file.type || "image/jpeg";
+      const buf = Buffer.from(await file.arrayBuffer());
+
+      const { error: upErr } = await supabaseAdmin.storage
+        .from(CHAT_PHOTOS_BUCKET)
+        .upload(path, buf, { contentType, upsert: false });
+
+      if (upErr) {
+        return NextResponse.json({ error: upErr.message || "Failed to upload photo." }, { status: 500 });
+      }
+
+      uploaded.push({
+        path,
+        filename: file.name || path.split("/").pop() || "photo",
+        contentType,
+        size: file.size || buf.length,
+        uploadedAt: new Date().toISOString(),
+      });
+    }
+
+    return NextResponse.json({ ok: true, photos: uploaded });
+  } catch (e) {
+    console.error("CHAT_PHOTO_UPLOAD_ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e, "Failed to upload photos.") }, { status: 500 });
+  }
+}
+
+/**
+ * GET ?path=<photo path> → redirect to a short-lived signed url (chat history thumbnails).
+ * Only the owner's own photos are signed.
+ */
+export async function GET(req: Request) {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const path = clean(new URL(req.url).searchParams.get("path"));
+    if (!path) return NextResponse.json({ error: "Missing path" }, { status: 400 });
+    if (!isOwnChatPhoto(auth.user.id, path)) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const { data, error } = await supabaseAdmin.storage
+      .from(CHAT_PHOTOS_BUCKET)
+      .createSignedUrl(path, CHAT_PHOTO_URL_TTL_SECONDS);
+
+    if (error || !data?.signedUrl) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.redirect(data.signedUrl);
+  } catch (e) {
+    console.error("CHAT_PHOTO_GET_ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
@@ -1,30 +1,131 @@
 // src/app/api/chat/route.ts
-import { NextResponse } from "next/server";
-import OpenAI from "openai";
+import { after, NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { encodeSseEvent, SSE_HEADERS, type ChatStreamEventName } from "@/lib/chat/sse";
+import { buildSystemPrompt, buildUserPrompt } from "@/lib/chat/prompt";
+import {
+  buildContextWindow,
+  contextSettingsFromEnv,
+  loadConversationSummary,
+  loadUnfoldedMessages,
+  type ContextWindow,
+} from "@/lib/chat/context";
+import { normalizeBulletSpacing, sanitizeAnswer } from "@/lib/chat/guardrails";
+import {
+  applyEscalationPolicy,
+  classifyQuestion,
+  loadEscalationRules,
+  recordEscalationDecision,
+  summarizeDecision,
+  type CompiledEscalationRule,
+  type EscalationDecision,
+  type EscalationSummary,
+} from "@/lib/chat/escalationPolicy";
+import { LLMError, type LLMCallOptions, type LLMClient, type LLMRequest } from "@/lib/llm/client";
+import { llmChainFromEnv, llmChainProvidersFromEnv, visionChainFromEnv } from "@/lib/llm/chain";
+import { createLLMCallLog, type LLMCallLog } from "@/lib/llm/telemetry";
+import { checkDailyQuota } from "@/lib/llm/usage";
+import { recommendDocsForSolution } from "@/lib/docs/recommend";
+import type { DocOut } from "@/lib/docs/knowledgeDocs";
+import {
+  loadIntakeState,
+  loadProjectProfile,
+  openChatTurn,
+  recordAssistantTurn,
+  resumeChatTurn,
+  runLearningLoops,
+  saveIntakeState,
+  saveProjectProfile,
+  type ChatTurn,
+} from "@/lib/chat/persist";
+import {
+  formatPhotoBlock,
+  identifyEquipment,
+  loadPhotosForModel,
+  ownChatPhotos,
+  type EquipmentIdentification,
+} from "@/lib/chat/photos";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  formatKnowledgeContext,
+  retrieveKnowledge,
+  type RetrievalScores,
+  type RetrievedChunk,
+} from "@/lib/knowledge/retrieve";
 import { resolveCanonicalSolution } from "@/lib/solutions/resolveCanonicalSolution";
-import { CANONICAL_SOLUTIONS, type CanonicalSolution } from "@/lib/solutions/canonicalSolutions";
+import { type CanonicalSolution, type IntakeState } from "@/lib/solutions/canonicalSolutions";
+import { loadSolutionCatalog, solutionLabel } from "@/lib/solutions/catalog";
+import { clientRequestId } from "@/lib/offline/clientRequest";
+import {
+  buildIntakeState,
+  findSolutionBySecuring,
+  formatIntakeBlock,
+  markAsked,
+  nextIntakeStep,
+  toAskPrompt,
+  type AskPrompt,
+} from "@/lib/solutions/intake";
+import {
+  emptyProjectProfile,
+  extractProjectFacts,
+  normalizeProjectFacts,
+  formatProjectFactsBlock,
+  mergeProjectFacts,
+  profileIntakeFacts,
+  type ProjectProfile,
+} from "@/lib/solutions/projectProfile";
+import { errorMessage } from "@/lib/errors";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type RecommendedDoc = {
-  title: string;
-  doc_type: string;
-  path: string;
-  url: string | null;
-  excerpt?: string;
-};
+type RecommendedDoc = Omit<DocOut, "excerpt">;
 
 type ChatMsg = { role: "user" | "assistant"; content: string };
 
+type SourceUsed = {
+  chunkId: string;
+  documentId: string;
+  title: string | null;
+  similarity: number;
+  /** hybrid / rerank score the chunk was ranked by */
+  score: number;
+  scores: RetrievalScores | null;
+  content: string;
+};
+
+/** "Recommended solution" card data for the chat UI. */
+type RecommendedSolution = {
+  key: string;
+  label: string;
+  securing: string;
+  anchorSeries: string | null;
+  anchorModel: string | null;
+  membrane: string | null;
+  storageFolder: string | null;
+};
+
 type ChatResponse = {
   conversationId?: string;
   sessionId?: string;
   answer: string;
   foldersUsed?: string[];
   recommendedDocs?: RecommendedDoc[];
-  sourcesUsed?: any[]; // optional if you later add it
+  sourcesUsed?: SourceUsed[];
+  /** next intake question + quick-reply options (null when nothing is missing) */
+  nextStep?: AskPrompt | null;
+  /** resolved canonical solution (null until the intake settles on one) */
+  solution?: RecommendedSolution | null;
+  /** project facts so far (the chat's "Project facts" panel) */
+  profile?: ProjectProfile;
+  /** what the vision model saw in photos attached to this message */
+  vision?: EquipmentIdentification | null;
+  /** set when the answer was escalated or redacted; the UI offers an engineering review */
+  escalation?: EscalationSummary | null;
   error?: string;
+  /** "duplicate": an offline replay of a question this conversation already has */
+  code?: string;
 };
 
 const U_ANCHORS_FOLDER = "anchor/u-anchors";
@@ -35,395 +136,430 @@ Ask at most one clarifying question only if it materially changes the solution.
 Do NOT provide engineering calculations, spacing, loads, or code guidance.
 Do NOT offer to prepare quotes or pricing. If asked, direct them to Anchor Products sales.
 `.trim();
-const DEFAULT_MODEL = process.env.OPENAI_MODEL || "gpt-5-mini";
-const FALLBACK_MODEL = process.env.OPENAI_FALLBACK_MODEL || "gpt-4.1-mini";
+const KNOWLEDGE_MATCH_COUNT = 6;
 
 
-function anchorContact() {
-  return "Contact Anchor Products at (888) 575-2131 or visit anchorp.com.";
+function describeAnchorSeries(anchorType?: string | null) {
+  if (!anchorType || anchorType === "unknown") return null;
+  if (anchorType === "guy-wire") return "Guy wire kit (2000-series)";
+  return `${anchorType}-series`;
 }
 
 /**
- * Safer sanitizing:
- * - Remove only sentences that claim to send/email/text docs.
- * - Avoid greedy wipes that can delete the entire answer.
+ * Card data for the resolved solution. User-confirmed slots win over catalog defaults;
+ * membrane is never assumed.
  */
-function sanitizeAnswer(answer: string) {
-  const original = (answer || "").toString();
-  let a = original;
+function toRecommendedSolution(
+  solution: CanonicalSolution | null,
+  intake: IntakeState
+): RecommendedSolution | null {
+  if (!solution) return null;
+  const anchorType = intake.anchorType && intake.anchorType !== "unknown" ? intake.anchorType : solution.anchorType;
+
+  return {
+    key: solution.key,
+    label: solutionLabel(solution.storageFolder || solution.securing),
+    securing: solution.securing,
+    anchorSeries: describeAnchorSeries(anchorType),
+    anchorModel: intake.anchorModel ?? null,
+    membrane: intake.membrane ?? null,
+    storageFolder: solution.storageFolder ?? null,
+  };
+}
 
-  a = a.replace(
-    /[^.?!]*(\b(send|email|text)\b)[^.?!]*(\b(doc|docs|pdf|sheet|sheets)\b)[^.?!]*[.?!]/gi,
-    ""
-  );
+function ensureNonEmptyAnswer(params: {
+  answer: string;
+  userText: string;
+  transcript?: string;
+  folderHint?: string | null;
+  solution?: CanonicalSolution | null;
+}) {
+  let a = String(params.answer || "").trim();
 
-  a = a.replace(/^\s*(yes|sure|absolutely|of course)\b[,\s:-]*/i, "");
-  a = a.replace(/\s{2,}/g, " ").trim();
+  // Minimal non-empty safeguard only; no templated fallback.
+  if (!a) {
+    return "I’m not getting a response from the model right now. Please try again.";
+  }
 
-  // If sanitizing wiped the response, fall back to the original to avoid empty replies.
-  return a || original.trim();
+  return a;
 }
 
-function containsEngineeringOutput(answer: string) {
-  // Trigger only on explicit engineering specifics (numbers + units WITH engineering context).
-  const text = String(answer || "");
-  if (/\b(fastener\s*schedule|fastening\s*schedule|o\.?c\.?|on center)\b/i.test(text)) {
-    return true;
-  }
-  const engineeringKeywords =
-    /\b(spacing|layout|pattern|torque|fastener|schedule|design|pressure|uplift|seismic|wind)\b/i;
-  const numericUnits =
-    /\b\d+(\.\d+)?\s*(psf|kpa|mph|lb|lbs|lbf|ft\.?|feet|in\.?|inch|inches|mm|cm)\b/i;
-  return engineeringKeywords.test(text) && numericUnits.test(text);
+/**
+ * Internal reps see all approved knowledge; everyone else only external/both.
+ * Falls back to "external" when there is no session or profile.
+ */
+async function resolveAudience(supabase: SupabaseClient, userId?: string | null): Promise<"internal" | "external"> {
+  if (!userId) return "external";
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("user_type")
+    .eq("id", userId)
+    .maybeSingle();
+
+  return profile?.user_type === "internal" ? "internal" : "external";
 }
 
-function needsEngineeringEscalation(text: string) {
-  const t = String(text || "");
-  // Only escalate on explicit engineering asks or numeric/code-driven requests.
-  if (/\b(how many|spacing|layout|pattern|torque|fastener|code|ibc|asce|fm|ul)\b/i.test(t)) {
-    return true;
+/**
+ * Pull approved chunks for the current intent. Retrieval is best-effort:
+ * any failure returns [] so the chat still answers from the system prompt.
+ */
+async function retrieveGroundingChunks(
+  supabase: SupabaseClient,
+  params: {
+    audience: "internal" | "external";
+    query: string;
+    folderHint?: string | null;
+    series?: string | null;
+    membrane?: string | null;
+    llmCalls?: LLMCallLog;
   }
-  // For wind/uplift/load/seismic, require calculation intent or units.
-  if (/\b(wind|uplift|load|seismic)\b/i.test(t)) {
-    return /\b(calc|calculate|rating|psf|kpa|mph|pressure|design)\b/i.test(t);
+): Promise<RetrievedChunk[]> {
+  try {
+    return await retrieveKnowledge(supabase, params.query, {
+      matchCount: KNOWLEDGE_MATCH_COUNT,
+      solutionSlug: params.folderHint ?? null,
+      series: params.series ?? null,
+      membrane: params.membrane ?? null,
+      audience: params.audience,
+      llmCalls: params.llmCalls,
+    });
+  } catch (e) {
+    console.error("[chat] knowledge retrieval failed", errorMessage(e, String(e)));
+    return [];
   }
-  return false;
 }
 
-function extractMembrane(text: string) {
-  const t = String(text || "").toLowerCase();
-  if (/\btpo\b/.test(t)) return "tpo";
-  if (/\bpvc\b/.test(t)) return "pvc";
-  if (/\bepdm\b/.test(t)) return "epdm";
-  if (/\bkee\b/.test(t)) return "kee";
-  if (/\bsbs\b/.test(t)) return "sbs";
-  if (/\bapp\b/.test(t)) return "app";
-  if (/\bmod(?:ified)?\s*bit\b|\bmod[-\s]?bit\b/.test(t)) return "modified bitumen";
-  if (/\bsilicone\b/.test(t)) return "silicone";
-  if (/\bacrylic\b/.test(t)) return "acrylic";
-  return null;
+/**
+ * Persisted history when the turn was recorded (summary + unfolded turns); otherwise the client's thread.
+ * Either way the result is cut to the context budget.
+ */
+async function conversationContext(supabase: SupabaseClient, turn: ChatTurn | null, incoming: ChatMsg[]): Promise<ContextWindow> {
+  const settings = contextSettingsFromEnv();
+  const fromClient = () => buildContextWindow({ ...settings, messages: incoming });
+
+  if (!turn) return fromClient();
+  try {
+    const summary = await loadConversationSummary(supabase, turn.sessionId);
+    const messages = await loadUnfoldedMessages(supabase, {
+      userId: turn.userId,
+      sessionId: turn.sessionId,
+      after: summary?.lastMessageAt,
+    });
+    return messages.length ? buildContextWindow({ ...settings, messages, summary }) : fromClient();
+  } catch (e) {
+    console.error("[chat] context load failed", errorMessage(e, String(e)));
+    return fromClient();
+  }
 }
 
-function extractAnchorSeries(text: string) {
-  const t = String(text || "").toLowerCase();
-  if (/\b2000\s*series\b|\bseries\s*2000\b|\b2000s\b/.test(t)) return "2000-series";
-  if (/\b3000\s*series\b|\bseries\s*3000\b|\b3000s\b/.test(t)) return "3000-series";
-  const uMatch = t.match(/\bu\s?\d{3,4}\b/);
-  return uMatch ? uMatch[0].replace(/\s+/g, "") : null;
+/**
+ * Sales / data / install sheets for the resolved solution. Best-effort like retrieval:
+ * a storage hiccup just means no document links on this turn.
+ */
+async function recommendDocs(
+  solution: CanonicalSolution | null,
+  intake: IntakeState,
+  audience: "internal" | "external"
+): Promise<RecommendedDoc[]> {
+  try {
+    return await recommendDocsForSolution({ solution, intake, audience });
+  } catch (e) {
+    console.error("[chat] recommended docs failed", errorMessage(e, String(e)));
+    return [];
+  }
 }
 
-function extractMountSurface(text: string) {
-  const t = String(text || "").toLowerCase();
-  const mentionsWall = /\b(wall|parapet|vertical)\b/.test(t);
-  const mentionsRoof = /\b(roof|rooftop)\b/.test(t);
-  if (mentionsWall && !mentionsRoof) return "wall";
-  if (mentionsRoof) return "roof";
-  return null;
+function formatRecommendedDocs(docs: RecommendedDoc[]) {
+  if (!docs.length) return "";
+  return [
+    "Documents shown to the user as one-tap links under your answer (refer to them by name; do not send the user to Asset Management for these):",
+    ...docs.map((d) => `- ${d.title}`),
+  ].join("\n");
 }
 
-function extractCondition(text: string) {
-  const t = String(text || "").toLowerCase();
-  if (/\b(existing|retrofit|re[-\s]?secure|re[-\s]?tie|tie[-\s]?down)\b/.test(t)) return "existing / re-secure";
-  if (/\bnew|new install\b/.test(t)) return "new install";
-  return null;
+function toSourcesUsed(chunks: RetrievedChunk[]): SourceUsed[] {
+  return chunks.map((c) => ({
+    chunkId: c.chunk_id,
+    documentId: c.document_id,
+    title: c.title ?? null,
+    similarity: Number(c.similarity) || 0,
+    score: c.scores?.final ?? (Number(c.similarity) || 0),
+    scores: c.scores ?? null,
+    content: c.content,
+  }));
 }
 
-function buildConversationMemory(userText: string) {
-  // Only use explicit user-provided details for memory.
-  const membrane = extractMembrane(userText);
-  const anchorSeries = extractAnchorSeries(userText);
-  const mountSurface = extractMountSurface(userText);
-  const condition = extractCondition(userText);
+type ChatContext = {
+  supabase: SupabaseClient;
+  turn: ChatTurn | null;
+  userId: string | null;
+  systemPrompt: string;
+  /** template version behind systemPrompt (recorded on the assistant message) */
+  promptVersion: string;
+  lastUser: string;
+  transcript: string;
+  /** how the transcript was cut to budget (recorded on the assistant message) */
+  contextStats: ContextWindow["stats"];
+  userPrompt: string;
+  folderHint?: string;
+  canonicalSolution: CanonicalSolution | null;
+  nextStep: AskPrompt | null;
+  solution: RecommendedSolution | null;
+  profile: ProjectProfile;
+  vision: EquipmentIdentification | null;
+  /** pre-check on lastUser; the post-check folds into AnswerResult.escalation */
+  escalation: EscalationDecision;
+  /** rules loaded for this turn; the post-check runs against the same set as the pre-check */
+  escalationRules: CompiledEscalationRule[];
+  knowledgeChunks: RetrievedChunk[];
+  recommendedDocs: RecommendedDoc[];
+  sessionId?: string;
+  conversationId?: string;
+};
 
-  const mem: Record<string, string> = {};
-  if (membrane) mem.membrane = membrane.toUpperCase();
-  if (anchorSeries) mem.anchor_series = anchorSeries;
-  if (mountSurface) mem.mount_surface = mountSurface;
-  if (condition) mem.condition = condition;
+type AnswerResult = {
+  answer: string;
+  model: string;
+  provider: string;
+  /** a later step of the LLM chain answered */
+  fallbackUsed: boolean;
+  escalation: EscalationDecision;
+  streamed: boolean;
+};
 
-  return mem;
-}
+type ModelAnswer = Pick<AnswerResult, "model" | "provider" | "fallbackUsed"> & { text: string };
 
-function findCanonicalSolutionByFolder(folderHint?: string | null): CanonicalSolution | null {
-  if (!folderHint) return null;
-  const clean = String(folderHint).replace(/^solutions\//, "").trim();
-  return (
-    CANONICAL_SOLUTIONS.find((s) => s.storageFolder === folderHint) ||
-    CANONICAL_SOLUTIONS.find((s) => s.securing === clean) ||
-    null
-  );
+/** No model call was made (pre-escalated question); attribute the turn to the chain's first model. */
+function noModelAnswer(llm: LLMClient): ModelAnswer {
+  return { text: "", model: llm.model, provider: llm.provider, fallbackUsed: false };
 }
 
-function humanizeSolutionLabel(folderHint?: string | null, solution?: CanonicalSolution | null) {
-  const key = solution?.securing || String(folderHint || "").replace(/^solutions\//, "");
-  const map: Record<string, string> = {
-    "hvac": "mechanical tie-down / HVAC securement",
-    "guy-wire-kit": "guy wire tie-down",
-    "pipe-frame/attached": "attached pipe-frame (roof-mounted H-frame)",
-    "pipe-frame/existing": "existing pipe-frame tie-down",
-    "duct-securement": "duct securement",
-    "roof-box": "roof box",
-    "wall-box": "wall box",
-    "equipment-screen": "equipment screen / signage",
-    "signage": "equipment screen / signage",
-    "lightning": "lightning protection attachment",
-    "light-mount": "light mount",
-    "camera-mount": "camera mount",
-    "antenna": "antenna mount",
-    "satellite-dish": "satellite dish mount",
-    "weather-station": "weather station mount",
-    "roof-guardrail": "roof guardrail",
-    "wall-guardrail": "wall guardrail",
-    "roof-ladder": "roof ladder",
-    "roof-pipe": "roof pipe support",
-    "roof-pipe/adjustable": "adjustable roof pipe support",
-    "roof-pipe/double": "double roof pipe support",
-    "roof-pipe/roller": "roller roof pipe support",
-    "roof-pipe/single": "single roof pipe support",
-    "elevated-stack/roof-stack": "roof stack",
-    "elevated-stack/wall-stack": "wall stack",
-    "elevated-stack": "elevated stack",
-    "snow-retention/2-pipe-snow-fence": "2-pipe snow fence",
-    "snow-retention/unitized-snow-fence": "unitized snow fence",
-    "snow-retention": "snow retention",
-    "solar": "solar racking attachment",
-  };
-
-  return map[key] || "rooftop attachment solution";
+/**
+ * Run the LLM chain. Every step coming back empty is not an error here: guardAnswer's recovery and
+ * ensureNonEmptyAnswer still produce a reply. Anything else (all steps down) propagates.
+ */
+async function askModel(llm: LLMClient, req: LLMRequest, opts?: LLMCallOptions): Promise<ModelAnswer> {
+  try {
+    const r = await llm.complete(req, opts);
+    return { text: r.text, model: r.model, provider: r.provider, fallbackUsed: r.fallbackUsed };
+  } catch (e) {
+    if (e instanceof LLMError && e.kind === "empty") return { ...noModelAnswer(llm), fallbackUsed: true };
+    throw e;
+  }
 }
 
-function ensureNonEmptyAnswer(params: {
-  answer: string;
-  userText: string;
-  transcript?: string;
-  folderHint?: string | null;
-  solution?: CanonicalSolution | null;
-}) {
-  let a = String(params.answer || "").trim();
+/**
+ * sanitize → (recover if empty) → escalation policy. Shared by the JSON and streaming paths.
+ * Recovery retries once with the short prompt when sanitizing left nothing to show.
+ */
+async function guardAnswer(llm: LLMClient, ctx: ChatContext, raw: ModelAnswer) {
+  let used = raw;
+  let policy = applyEscalationPolicy(sanitizeAnswer(raw.text), ctx.escalation, ctx.escalationRules);
+  if (!policy.answer) {
+    used = await askModel(llm, {
+      system: FALLBACK_SYSTEM_PROMPT,
+      user: `Conversation:\n${ctx.transcript}\n\nUser: ${ctx.lastUser}`,
+      purpose: "chat_recovery",
+    });
+    policy = applyEscalationPolicy(sanitizeAnswer(used.text), ctx.escalation, ctx.escalationRules);
+  }
 
-  // Minimal non-empty safeguard only; no templated fallback.
-  if (!a) {
-    return "I’m not getting a response from the model right now. Please try again.";
+  if (process.env.LOG_ESCALATION === "true") {
+    console.info("[chat] escalation postcheck", summarizeDecision(policy.decision));
   }
 
-  return a;
+  return {
+    answer: policy.answer,
+    model: used.model,
+    provider: used.provider,
+    fallbackUsed: used.fallbackUsed,
+    escalation: policy.decision,
+  };
+}
+
+function finalizeAnswer(answer: string, ctx: ChatContext) {
+  // Ensure non-empty response in case the model returns no text.
+  const nonEmpty = ensureNonEmptyAnswer({
+    answer,
+    userText: ctx.lastUser,
+    transcript: ctx.transcript,
+    folderHint: ctx.folderHint,
+    solution: ctx.canonicalSolution,
+  });
+
+  // Normalize bullet spacing so lists render as separate lines in the chat UI.
+  // No forced wrap-up phrasing; keep responses freeform.
+  return normalizeBulletSpacing(nonEmpty);
 }
 
-function normalizeBulletSpacing(answer: string) {
-  let a = String(answer || "");
-  // Ensure bullets start on their own line.
-  a = a.replace(/([^\n])\s*•\s+/g, "$1\n• ");
-  // Normalize common hyphen bullets to "•" and put them on new lines.
-  a = a.replace(/([^\n])\s*-\s+/g, "$1\n• ");
-  // Ensure a blank line before the first bullet list for readability.
-  a = a.replace(/([^\n])\n(•\s+)/g, "$1\n\n$2");
-  // Ensure a blank line between recommendation and bullet list when bullets exist.
-  a = a.replace(/([^\n])\n\n(•\s+)/g, "$1\n\n$2");
-  // Collapse accidental double spaces.
-  a = a.replace(/[ \t]{2,}/g, " ");
-  return a.trim();
+function buildChatResponse(ctx: ChatContext, answer: string, escalation: EscalationDecision): ChatResponse {
+  return {
+    answer,
+    foldersUsed: [U_ANCHORS_FOLDER, ...(ctx.folderHint ? [ctx.folderHint] : [])],
+    recommendedDocs: ctx.recommendedDocs,
+    sourcesUsed: toSourcesUsed(ctx.knowledgeChunks),
+    nextStep: ctx.nextStep,
+    solution: ctx.solution,
+    profile: ctx.profile,
+    vision: ctx.vision,
+    escalation: escalation.outcome === "allow" ? null : summarizeDecision(escalation),
+    sessionId: ctx.turn?.sessionId ?? ctx.sessionId,
+    conversationId: ctx.turn?.conversationId ?? ctx.conversationId,
+  };
 }
 
 /**
- * Robustly extract text from OpenAI Responses API output.
+ * Persist the assistant turn, then run summarization / knowledge extraction.
+ * Called via after() so none of it delays the response.
  */
-function extractResponsesText(resp: any): string {
-  const direct = (resp?.output_text || "").toString().trim();
-  if (direct) return direct;
-
-  const pieces: string[] = [];
-  const output = Array.isArray(resp?.output) ? resp.output : [];
-
-  for (const item of output) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const c of content) {
-      // most common: { type: "output_text", text: "..." }
-      if (typeof c?.text === "string" && c.text.trim()) pieces.push(c.text.trim());
-      else if (typeof c?.value === "string" && c.value.trim()) pieces.push(c.value.trim());
-      else if (typeof c?.refusal === "string" && c.refusal.trim()) pieces.push(c.refusal.trim());
-    }
-  }
+async function finishTurn(ctx: ChatContext, result: AnswerResult) {
+  // audit log covers signed-out turns too, hence the service client
+  await recordEscalationDecision(supabaseAdmin, {
+    decision: result.escalation,
+    userId: ctx.userId,
+    conversationId: ctx.turn?.conversationId ?? null,
+    question: ctx.lastUser,
+    streamed: result.streamed,
+  });
+
+  if (!ctx.turn) return;
+
+  const response = buildChatResponse(ctx, result.answer, result.escalation);
+
+  await recordAssistantTurn(ctx.supabase, ctx.turn, result.answer, {
+    folderHint: ctx.folderHint ?? null,
+    model: result.model,
+    provider: result.provider,
+    fallbackUsed: result.fallbackUsed,
+    promptVersion: ctx.promptVersion,
+    context: ctx.contextStats,
+    streamed: result.streamed,
+    escalation: {
+      ...summarizeDecision(result.escalation),
+      escalated: result.escalation.outcome !== "allow",
+    },
+    foldersUsed: response.foldersUsed,
+    // signed urls expire; keep the paths
+    recommendedDocs: (response.recommendedDocs || []).map((d) => ({
+      title: d.title,
+      doc_type: d.doc_type,
+      path: d.path,
+    })),
+    nextStep: response.nextStep,
+    solution: response.solution,
+    // chunk text lives in knowledge_chunks; keep meta to ids + scores
+    sourcesUsed: (response.sourcesUsed || []).map((s) => ({
+      chunkId: s.chunkId,
+      documentId: s.documentId,
+      title: s.title,
+      similarity: s.similarity,
+      score: s.score,
+      scores: s.scores,
+    })),
+  });
+
+  await runLearningLoops(ctx.supabase, ctx.turn);
+}
 
-  return pieces.join("\n").trim();
+function chatRequest(ctx: ChatContext): LLMRequest {
+  return { system: ctx.systemPrompt, user: ctx.userPrompt, purpose: "chat" };
 }
 
-// “Custom GPT” rules as one system prompt
-const SYSTEM_PROMPT = `
-You are Anchor Sales Co-Pilot for Anchor Products, a commercial roofing attachment manufacturer.
-
-Your role:
-- Help sales reps, contractors, and internal teams recommend the correct Anchor rooftop attachment solution.
-- Speak like an experienced Anchor sales engineer: confident, natural, and practical.
-- Use common industry naming conventions and recognize that customers may describe the same solution in multiple ways.
-
-Tone & style:
-- Answer like ChatGPT: conversational, confident, and helpful.
-- Never robotic, never templated.
-- Do not ask unnecessary questions or repeat information the user already provided.
-- Sound like an expert Anchor Products sales engineer: practical, decisive, and product-specific.
-- Use short, sales-ready sentences. Prefer “go-to / standard / typical Anchor approach” phrasing.
-
-Response pattern (always follow):
-1. Lead with a clear recommendation in 1–3 sentences.
-2. Follow with 3–6 bullet points explaining what the solution is, when it’s used, and what components are typically involved.
-3. Use bullet points that start with "•" (not hyphens).
-4. Ask at most ONE clarifying question, only if it materially affects the solution (example: roof-mounted vs wall-mounted).
-5. Do NOT ask for dimensions or measurements unless the user explicitly requests engineering review.
-
-Critical guardrails:
-- Do NOT provide spacing, layout, patterns, load calculations, torque values, fastening schedules, or code guarantees.
-- If engineering-specific details are requested, state that the project requires engineering review and direct the user to Anchor Products.
-- Do NOT offer to prepare quotes or pricing. If asked, direct them to Anchor Products sales (recommended phrasing: "Contact Anchor Products at (888) 575-2131 or visit anchorp.com.").
-- Assume all projects are commercial roofing unless explicitly stated otherwise.
-
-System-wide rules:
-- All anchors are matched based on the roof membrane type (TPO, PVC, EPDM, etc.).
-- Never assume a membrane type. Only state a membrane if the user explicitly provided it.
-- If the user asks for documents, manuals, or specs, direct them to the Asset Management tool.
-- Guy wire kits ONLY use 2000-series anchors.
-- All solutions that use guy wire kits are tie-down solutions.
-- Use conversation context: if the user provides partial info (ex: “TPO roof”), do not reset the conversation.
-- Anchor Products supports commercial membrane-covered roofs only.
-- Anchor bases are manufactured from the specified membrane type (TPO, PVC, EPDM, KEE, APP, SBS, SBS-torch). Coatings are custom anchor colors.
-- Treat any "Conversation memory" block as confirmed facts and do not re-ask for those details.
-
---------------------------------------------------
-ANCHOR SOLUTION MAPPING & NAMING CONVENTIONS
---------------------------------------------------
-
-Solar
-- Common names: solar, PV, photovoltaic, solar panels, racking
-- Typical solution: 2000-series anchors with strut framing
-- Securing: solar
-
-Snow Retention
-- 2-Pipe Snow Fence
-  - Also called: two-pipe snow fence
-  - 2000-series anchors, piping, splices
-  - Securing: snow-retention/2-pipe-snow-fence
-- Unitized Snow Fence
-  - Also called: snow fence panels, unitized fence
-  - 3000-series anchors with rigid fence panels
-  - Securing: snow-retention/unitized-snow-fence
-
-Roof-Mounted Box
-- Also called: rooftop enclosure, equipment box
-- 2000-series anchors with strut framing
-- Securing: roof-box
-
-Wall-Mounted Box
-- Also called: parapet box, wall enclosure
-- 3000-series anchors with strut framing
-- Securing: wall-box
-
-Electrical Disconnect
-- Also called: electrical box, service disconnect
-- 2000-series anchors with strut framing
-- Securing: electrical-disconnect
-
-Roof Pipe Securement
-- Also called: pipe supports, rooftop piping
-- 3000-series anchors
-- Securing: roof-pipe (adjustable, single, double, or roller variants)
-
-Roof-Mounted H-Frame
-- Also called: attached pipe frame, roof-mounted H-frame
-- 3000-series anchors with strut framing
-- Securing: pipe-frame/attached
-
-Existing Pipe or Duct
-- Also called: existing frame, re-secure, retrofit
-- Guy wire kit with 2000-series anchors
-- Tie-down solution
-- Securing: pipe-frame/existing or duct-securement
-
-Existing Mechanical Tie-Down
-- Also called: hvac
-- Guy wire kit with 2000-series anchors
-- Tie-down solution
-- Securing: pipe-frame/existing
-
-Guardrails
-- Roof-Mounted Guardrail
-  - 3000-series anchors
-  - Securing: roof-guardrail
-- Wall-Mounted Guardrail
-  - 3000-series anchors
-  - Securing: wall-guardrail
-
-Roof Ladder
-- 3000-series anchors with adjustable strut bracket
-- Securing: roof-ladder
-
-Weather Stations
-- Also called: rooftop sensors, monitoring stations
-- Guy wire kit with 2000-series anchors
-- Tie-down solution
-- Securing: weather-station
-
-Satellite Dish
-- Also called: dish, satellite antenna
-- 2000-series anchors
-- Securing: satellite-dish
-
-Antenna
-- Also called: communication antenna, RF antenna
-- Guy wire kit with 2000-series anchors
-- Tie-down solution
-- Securing: antenna
-
-Equipment Screen
-- Also called: rooftop screen, visual screen, windscreen
-- 2000-series anchors with strut framing
-- Typically secured the same way as signage
-- Securing: equipment-screen
-
-Signage
-- Also called: rooftop sign, branded signage
-- 2000-series anchors
-- Typically secured the same way as equipment screens
-- Securing: signage
-
-Light Mount
-- Also called: lighting mount, area light, flood light
-- 3000-series anchors
-- Typically secured the same way as camera mounts
-- Securing: light-mount
-
-Camera Mount
-- Also called: security camera, surveillance camera, cameras
-- 3000-series anchors
-- Typically secured the same way as light mounts
-- Securing: camera-mount
-
-Elevated Stack
-- Roof-Mounted Elevated Stack
-  - Guy wire kit with 2000-series anchors
-  - Tie-down solution
-  - Securing: elevated-stack/roof-stack
-- Wall-Mounted Elevated Stack
-  - 2000-series anchors with strut framing
-  - Securing: elevated-stack/wall-stack
-
-Lightning Protection
-- Also called: lightning arrestor, lightning rod system
-- 2000-series anchors
-- Securing: lightning
-
---------------------------------------------------
-FINAL BEHAVIOR
---------------------------------------------------
-
-- Recognize multiple names for the same solution.
-- Default to the most common Anchor solution unless the user specifies otherwise.
-- Ask clarifying questions only when absolutely necessary.
-- Always keep responses aligned with Anchor Products’ real-world practices and product families.
+async function generateAnswer(llm: LLMClient, ctx: ChatContext): Promise<AnswerResult> {
+  // a pre-escalated question gets the review line whatever the model says
+  const raw = ctx.escalation.outcome === "escalate" ? noModelAnswer(llm) : await askModel(llm, chatRequest(ctx));
+  const guarded = await guardAnswer(llm, ctx, raw);
 
-`.trim();
+  return {
+    ...guarded,
+    answer: finalizeAnswer(guarded.answer, ctx),
+    streamed: false,
+  };
+}
+
+/**
+ * Streaming variant: forwards model tokens as SSE "delta" frames, then runs the same
+ * guard pipeline on the full text and sends a "done" frame.
+ * If the post-check redacts or escalates after tokens were shown, or the chain fell back to another
+ * model mid-stream, a "replace" frame retracts them.
+ * `completed` resolves with the final answer (or null on failure) once the stream ends.
+ */
+function streamAnswer(llm: LLMClient, ctx: ChatContext) {
+  const encoder = new TextEncoder();
+
+  let resolveCompleted: (result: AnswerResult | null) => void = () => {};
+  const completed = new Promise<AnswerResult | null>((resolve) => {
+    resolveCompleted = resolve;
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEventName, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+        } catch {
+          // client went away; keep going so the pipeline finishes cleanly
+        }
+      };
+
+      try {
+        let shown = "";
+
+        // A pre-escalated question is answered with the review line regardless, and a partial
+        // one gets redacted, so hold back tokens the rep would only see retracted.
+        const showTokens = ctx.escalation.outcome === "allow";
+        const raw =
+          ctx.escalation.outcome === "escalate"
+            ? noModelAnswer(llm)
+            : await askModel(llm, chatRequest(ctx), {
+                onDelta: (text) => {
+                  if (!showTokens) return;
+                  shown += text;
+                  send("delta", { text });
+                },
+              });
+
+        const guarded = await guardAnswer(llm, ctx, raw);
+        const answer = finalizeAnswer(guarded.answer, ctx);
+
+        if (shown.trim() && (guarded.escalation.outcome !== "allow" || raw.text !== shown)) {
+          const reason =
+            guarded.escalation.outcome === "escalate"
+              ? "engineering_escalation"
+              : guarded.escalation.outcome === "partial"
+                ? "engineering_redaction"
+                : "model_fallback";
+          send("replace", { answer, reason });
+        }
+
+        send("done", buildChatResponse(ctx, answer, guarded.escalation));
+        resolveCompleted({
+          ...guarded,
+          answer,
+          streamed: true,
+        });
+      } catch (e) {
+        send("error", { error: errorMessage(e, "Unknown error") });
+        resolveCompleted(null);
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // already closed by a disconnected client
+        }
+      }
+    },
+  });
+
+  return { response: new Response(stream, { headers: SSE_HEADERS }), completed };
+}
 
 export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => ({}));
+    const wantsStream =
+      body?.stream === true || (req.headers.get("accept") || "").includes("text/event-stream");
 
     const incoming: ChatMsg[] = Array.isArray(body?.messages)
       ? body.messages
@@ -446,17 +582,8 @@ export async function POST(req: Request) {
       } satisfies ChatResponse);
     }
 
-    // engineering escalation (log only; still call OpenAI every time)
-    const preEscalate = needsEngineeringEscalation(lastUser);
-    if (process.env.LOG_ESCALATION === "true") {
-      console.info("[chat] escalation precheck", {
-        preEscalate,
-        lastUser: lastUser.slice(0, 280),
-        model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
-      });
-    }
-
-    if (!process.env.OPENAI_API_KEY) {
+    // only the OpenAI steps need a key; an all-local LLM_CHAIN runs without one
+    if (llmChainProvidersFromEnv().includes("openai") && !process.env.OPENAI_API_KEY) {
       return NextResponse.json(
         {
           answer: "Server configuration error.",
@@ -473,116 +600,247 @@ export async function POST(req: Request) {
       .map((m) => m.content)
       .join("\n");
     const intentText = `${userOnlyText}\n${lastUser}`;
-    const folderHint = resolveCanonicalSolution(intentText) || undefined;
-    const canonicalSolution = findCanonicalSolutionByFolder(folderHint);
-    const memory = buildConversationMemory(userOnlyText);
-    const memoryBlock =
-      Object.keys(memory).length > 0
-        ? `Conversation memory (confirmed facts):\n${Object.entries(memory)
-            .map(([k, v]) => `- ${k}: ${v}`)
-            .join("\n")}`
-        : "";
-
-    const transcript = incoming.map((m) => `${m.role}: ${m.content}`).join("\n");
-
-    const userPrompt = [
-      folderHint ? `Detected storage folder hint: ${folderHint}` : "",
-      memoryBlock,
-      `Conversation so far:\n${transcript}`,
-      `If the user asks for documents, manuals, or specs, direct them to the Asset Management tool.`,
-      `Now answer the user's latest message.`,
-    ]
-      .filter(Boolean)
-      .join("\n\n");
-
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-    // ✅ IMPORTANT: Use Responses API with correctly typed content parts
-    const resp = await openai.responses.create({
-      model: DEFAULT_MODEL,
-      max_output_tokens: 650,
-      // Force text output and minimize reasoning-only responses.
-      reasoning: { effort: "minimal" },
-      text: { format: { type: "text" }, verbosity: "low" },
-      input: [
-        {
-          role: "system",
-          content: [{ type: "input_text", text: SYSTEM_PROMPT }],
-        },
-        {
-          role: "user",
-          content: [{ type: "input_text", text: userPrompt }],
-        },
-      ],
-    });
-    const extractedPrimary = extractResponsesText(resp);
-    let answer = sanitizeAnswer(extractedPrimary);
 
-    // guardrail
-    const postEscalate = containsEngineeringOutput(answer);
+    const supabase = await supabaseRoute();
+    // admin-edited catalog drives the resolver, intake and the prompt's solution mapping;
+    // admin-edited escalation rules drive the pre/post checks
+    const [solutionRows, escalationRules] = await Promise.all([
+      loadSolutionCatalog(supabase),
+      loadEscalationRules(supabase),
+    ]);
+
+    // provider chain from LLM_CHAIN (default: OPENAI_MODEL → OPENAI_FALLBACK_MODEL); every attempt lands in llm_calls
+    const llmCalls = createLLMCallLog();
+    const llm = llmChainFromEnv({ onCall: llmCalls.onCall });
+
+    const escalation = classifyQuestion(lastUser, escalationRules);
     if (process.env.LOG_ESCALATION === "true") {
-      console.info("[chat] escalation postcheck", {
-        postEscalate,
-        answer: answer.slice(0, 280),
+      console.info("[chat] escalation precheck", {
+        ...summarizeDecision(escalation),
+        lastUser: lastUser.slice(0, 280),
+        model: llm.name,
       });
     }
-    if (postEscalate || preEscalate) {
-      answer = `That requires project-specific engineering review. ${anchorContact()}`;
+
+    const { data: authData } = await supabase.auth.getUser();
+    const user = authData?.user ?? null;
+
+    // every turn spends model tokens: signed-in users only (the middleware also rate limits per user + IP)
+    if (!user) {
+      return NextResponse.json(
+        {
+          answer: "Please sign in to use the Co-Pilot.",
+          error: "Unauthorized",
+          foldersUsed: [U_ANCHORS_FOLDER],
+          recommendedDocs: [],
+        } satisfies ChatResponse,
+        { status: 401 }
+      );
     }
 
-    // If OpenAI returns no text, retry once with a shorter prompt to avoid empty/template responses.
-    if (!answer) {
-      const retry = await openai.responses.create({
-        model: DEFAULT_MODEL,
-        max_output_tokens: 650,
-        reasoning: { effort: "minimal" },
-        text: { format: { type: "text" }, verbosity: "low" },
-        input: [
-          { role: "system", content: [{ type: "input_text", text: FALLBACK_SYSTEM_PROMPT }] },
-          { role: "user", content: [{ type: "input_text", text: `Conversation:\n${transcript}\n\nUser: ${lastUser}` }] },
-        ],
-      });
-      const extractedRetry = extractResponsesText(retry);
-      answer = sanitizeAnswer(extractedRetry);
+    // per-role daily token / cost caps (llm_quotas); over-quota turns are not persisted
+    const quota = await checkDailyQuota(supabaseAdmin, user.id);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          answer:
+            "You’ve reached today’s Co-Pilot usage limit. It resets at 00:00 UTC — contact an admin if you need more today.",
+          error: "daily_quota_exceeded",
+          foldersUsed: [U_ANCHORS_FOLDER],
+          recommendedDocs: [],
+        } satisfies ChatResponse,
+        { status: 429 }
+      );
     }
 
-    // Final fallback: if still empty, try a proven text model.
-    if (!answer) {
-      const fallback = await openai.responses.create({
-        model: FALLBACK_MODEL,
-        max_output_tokens: 650,
-        reasoning: { effort: "minimal" },
-        text: { format: { type: "text" }, verbosity: "low" },
-        input: [
-          { role: "system", content: [{ type: "input_text", text: SYSTEM_PROMPT }] },
-          { role: "user", content: [{ type: "input_text", text: userPrompt }] },
-        ],
-      });
-      const extractedFallback = extractResponsesText(fallback);
-      answer = sanitizeAnswer(extractedFallback);
+    // offline outbox replay: the question may have landed before the signal dropped. Answered already → 409;
+    // stored but never answered (the stream died first) → answer it now against the stored message.
+    const requestId = clientRequestId(req);
+    let replayOf: { sessionId: string | null } | null = null;
+    if (requestId && body?.conversationId) {
+      const { data: dup } = await supabase
+        .from("messages")
+        .select("id,created_at,meta")
+        .eq("conversation_id", body.conversationId)
+        .eq("user_id", user.id)
+        .eq("role", "user")
+        .eq("meta->>clientRequestId", requestId)
+        .limit(1)
+        .maybeSingle();
+      const { data: answered } = dup
+        ? await supabase
+            .from("messages")
+            .select("id")
+            .eq("conversation_id", body.conversationId)
+            .eq("role", "assistant")
+            .gt("created_at", dup.created_at)
+            .limit(1)
+            .maybeSingle()
+        : { data: null };
+      if (dup && !answered) replayOf = { sessionId: dup.meta?.sessionId ?? null };
+      if (answered) {
+        return NextResponse.json(
+          {
+            answer: "This question was already sent from this device.",
+            error: "Already submitted.",
+            code: "duplicate",
+            conversationId: body.conversationId,
+          } satisfies ChatResponse,
+          { status: 409 }
+        );
+      }
     }
 
-    // Ensure non-empty response in case OpenAI returns no text.
-    answer = ensureNonEmptyAnswer({
-      answer,
-      userText: lastUser,
-      transcript,
-      folderHint,
-      solution: canonicalSolution,
+    // photos on this message: a vision model names the equipment and the resolver maps it to a solution
+    const photos = ownChatPhotos(user.id, body?.photos);
+    const vision = photos.length
+      ? await identifyEquipment(
+          visionChainFromEnv({ onCall: llmCalls.onCall }),
+          await loadPhotosForModel(supabaseAdmin, photos),
+          { userText: lastUser, resolve: resolveCanonicalSolution }
+        )
+      : null;
+
+    // the rep's own words win; the photo fills in when the text doesn't name the equipment
+    const resolvedFolder = resolveCanonicalSolution(intentText) || vision?.folder || undefined;
+
+    // the route owns persistence: conversation + learning session + user turn
+    let turn: ChatTurn | null = null;
+    try {
+      turn = replayOf
+        ? await resumeChatTurn(supabase, {
+            userId: user.id,
+            conversationId: body.conversationId,
+            sessionId: body?.sessionId || replayOf.sessionId,
+          })
+        : await openChatTurn(supabase, {
+            userId: user.id,
+            conversationId: body?.conversationId || null,
+            sessionId: body?.sessionId || null,
+            userText: lastUser,
+            meta: {
+              folderHint: resolvedFolder ?? null,
+              escalation: summarizeDecision(escalation),
+              ...(photos.length ? { photos, vision } : {}),
+              ...(requestId ? { clientRequestId: requestId } : {}),
+            },
+          });
+    } catch (e) {
+      console.error("[chat] turn persistence failed", errorMessage(e, String(e)));
+    }
+
+    // bounded transcript: rolling summary + the turns it hasn't folded yet, within the token budget
+    const context = await conversationContext(supabase, turn, incoming);
+    const transcript = context.transcript;
+
+    const userTurns = incoming.filter((m) => m.role === "user").map((m) => m.content);
+
+    // project facts: schema-constrained extraction over the recent user turns (regex when no model answers);
+    // facts the rep edited in the panel are kept as-is
+    const priorProfile = turn ? await loadProjectProfile(supabase, turn) : emptyProjectProfile();
+    const extracted = await extractProjectFacts(llm, userTurns);
+    // a confident photo read counts as a fact; the rep's own words (extracted) still win
+    const photoFacts =
+      vision && vision.confidence !== "low"
+        ? normalizeProjectFacts({ equipment: vision.equipment, mountSurface: vision.mountSurface, membrane: vision.membrane })
+        : null;
+    const seen = photoFacts ? mergeProjectFacts(priorProfile, photoFacts, "llm") : priorProfile;
+    const profile = mergeProjectFacts(seen, extracted.facts, extracted.source);
+    if (turn && profile.updatedAt !== priorProfile.updatedAt) await saveProjectProfile(supabase, turn, profile);
+
+    // slot-filling intake: what the user has told us so far + the one question worth asking next
+    const priorIntake = turn ? await loadIntakeState(supabase, turn) : null;
+    const intake = buildIntakeState({
+      prior: priorIntake,
+      userTurns,
+      folderHint: resolvedFolder,
+      facts: profileIntakeFacts(profile),
     });
+    const nextStep = nextIntakeStep(intake);
+    if (turn) await saveIntakeState(supabase, turn, markAsked(intake, nextStep));
 
-    // Normalize bullet spacing so lists render as separate lines in the chat UI.
-    answer = normalizeBulletSpacing(answer);
+    const canonicalSolution = findSolutionBySecuring(intake.securing);
+    // intake may narrow a general bucket (ex: snow-retention → 2-pipe snow fence)
+    const folderHint = canonicalSolution?.storageFolder || resolvedFolder;
+    const intakeBlock = formatIntakeBlock(intake, nextStep);
 
-    // No forced wrap-up phrasing; keep responses freeform.
+    // recent user turns carry follow-ups like "it's TPO" back to the original ask
+    const retrievalQuery = incoming
+      .filter((m) => m.role === "user")
+      .slice(-3)
+      .map((m) => m.content)
+      .join("\n");
+    const audience = await resolveAudience(supabase, user.id);
+    const [knowledgeChunks, recommendedDocs] = await Promise.all([
+      retrieveGroundingChunks(supabase, {
+        audience,
+        query: retrievalQuery,
+        folderHint,
+        series: intake.anchorType && intake.anchorType !== "unknown" ? intake.anchorType : canonicalSolution?.anchorType,
+        membrane: intake.membrane,
+        llmCalls,
+      }),
+      recommendDocs(canonicalSolution, intake, audience),
+    ]);
+    const knowledgeBlock = formatKnowledgeContext(knowledgeChunks);
+
+    const systemPrompt = buildSystemPrompt(solutionRows);
+    const userPrompt = buildUserPrompt(
+      {
+        folderHint,
+        intakeBlock,
+        factsBlock: formatProjectFactsBlock(profile),
+        photoBlock: formatPhotoBlock(vision, photos.length),
+        knowledgeBlock,
+        docsBlock: formatRecommendedDocs(recommendedDocs),
+        transcript,
+      },
+      systemPrompt.version
+    );
 
-    return NextResponse.json({
-      answer,
-      foldersUsed: [U_ANCHORS_FOLDER, ...(folderHint ? [folderHint] : [])],
-      recommendedDocs: [],
+    const ctx: ChatContext = {
+      supabase,
+      turn,
+      userId: user.id,
+      systemPrompt: systemPrompt.text,
+      promptVersion: systemPrompt.version,
+      lastUser,
+      transcript,
+      contextStats: context.stats,
+      userPrompt,
+      folderHint,
+      canonicalSolution,
+      nextStep: toAskPrompt(nextStep),
+      solution: toRecommendedSolution(canonicalSolution, intake),
+      profile,
+      vision,
+      escalation,
+      escalationRules,
+      knowledgeChunks,
+      recommendedDocs,
       sessionId: body?.sessionId || undefined,
       conversationId: body?.conversationId || undefined,
-    } satisfies ChatResponse);
+    };
+
+    // failed turns are recorded too, hence flushing outside finishTurn
+    const flushLLMCalls = () =>
+      llmCalls.flush(supabaseAdmin, { userId: ctx.userId, conversationId: ctx.turn?.conversationId ?? null });
+
+    if (wantsStream) {
+      const { response, completed } = streamAnswer(llm, ctx);
+      after(async () => {
+        const result = await completed;
+        if (result) await finishTurn(ctx, result);
+        await flushLLMCalls();
+      });
+      return response;
+    }
+
+    after(flushLLMCalls);
+    const result = await generateAnswer(llm, ctx);
+    after(() => finishTurn(ctx, result));
+
+    return NextResponse.json(buildChatResponse(ctx, result.answer, result.escalation) satisfies ChatResponse);
   } catch (e: any) {
     return NextResponse.json(
       {
@@ -0,0 +1,83 @@
+// src/app/api/conversations/[id]/profile/route.ts
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { loadProjectProfile, saveProjectProfile } from "@/lib/chat/persist";
+import { editProjectFacts, PROJECT_FACT_KEYS, type ProjectFactKey } from "@/lib/solutions/projectProfile";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+async function ownConversation(supabase: SupabaseClient, id: string) {
+  const { data: authData, error: authErr } = await supabase.auth.getUser();
+  const user = authData?.user;
+  if (authErr || !user) return { user: null, response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const { data: convo, error } = await supabase
+    .from("conversations")
+    .select("id")
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!convo?.id) return { user, response: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+
+  return { user, response: null };
+}
+
+/**
+ * Project facts for one conversation:
+ * - GET   → { profile }
+ * - PATCH { facts: { <fact>: value | null }, unlock?: <fact>[] } → edited facts are locked against
+ *   extraction; unlock hands them back to it
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+
+    const { user, response } = await ownConversation(supabase, id);
+    if (response) return response;
+
+    const profile = await loadProjectProfile(supabase, { userId: user.id, conversationId: id });
+    return NextResponse.json({ conversationId: id, profile });
+  } catch (err) {
+    console.error("CONVO_PROFILE_GET_ERROR:", err);
+    return NextResponse.json({ error: errorMessage(err, "Server error") }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json().catch(() => ({}));
+
+    const patch = body?.facts && typeof body.facts === "object" ? body.facts : {};
+    const unlock: ProjectFactKey[] = Array.isArray(body?.unlock)
+      ? body.unlock.filter((k: unknown) => PROJECT_FACT_KEYS.includes(k as ProjectFactKey))
+      : [];
+    const keys = Object.keys(patch).filter((k) => PROJECT_FACT_KEYS.includes(k as ProjectFactKey));
+    if (!keys.length && !unlock.length) {
+      return NextResponse.json({ error: `Nothing to update (facts: ${PROJECT_FACT_KEYS.join(", ")})` }, { status: 400 });
+    }
+
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { user, response } = await ownConversation(supabase, id);
+    if (response) return response;
+
+    const at = { userId: user.id, conversationId: id };
+    const prior = await loadProjectProfile(supabase, at);
+    const profile = editProjectFacts(
+      prior,
+      Object.fromEntries(keys.map((k) => [k, patch[k]])),
+      unlock
+    );
+    await saveProjectProfile(supabase, at, profile);
+
+    return NextResponse.json({ conversationId: id, profile });
+  } catch (err) {
+    console.error("CONVO_PROFILE_PATCH_ERROR:", err);
+    return NextResponse.json({ error: errorMessage(err, "Server error") }, { status: 500 });
+  }
+}
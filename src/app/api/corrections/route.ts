@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/server";
+import { clientRequestId, duplicateRequestResponse, findClientRequest, isUniqueViolation } from "@/lib/offline/clientRequest";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -53,12 +54,21 @@ export async function POST(req: Request) {
         body.assistantMessageId ?? body.assistant_message_id;
     }
 
+    // offline outbox replays carry the same request id; don't open the same correction twice
+    const requestId = clientRequestId(req);
+    if (requestId) {
+      const existing = await findClientRequest(supabase, "knowledge_corrections", { column: "user_id", id: user.id }, requestId);
+      if (existing) return duplicateRequestResponse(existing);
+      insertRow.client_request_id = requestId;
+    }
+
     const { data: inserted, error } = await supabase
       .from("knowledge_corrections")
       .insert(insertRow)
       .select("id")
       .maybeSingle();
 
+    if (isUniqueViolation(error)) return duplicateRequestResponse(null);
     if (error) return jsonError(error.message, 500);
 
     return NextResponse.json({ ok: true, id: inserted?.id ?? null }, { status: 200 });
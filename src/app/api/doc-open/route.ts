@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { supabaseRoute } from "@/lib/supabase/server";
+import { isInternalPath } from "@/lib/docs/knowledgeDocs";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,17 +36,6 @@ function contentTypeFor(path: string) {
   return "application/octet-stream";
 }
 
-function isInternalPath(path: string) {
-  const p = String(path || "").toLowerCase();
-  return (
-    p.includes("/internal/") ||
-    p.startsWith("internal/") ||
-    p.includes("/pricebook/") ||
-    p.includes("/test/") ||
-    p.includes("/test-reports/")
-  );
-}
-
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
 
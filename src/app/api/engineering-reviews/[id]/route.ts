@@ -0,0 +1,245 @@
+// src/app/api/engineering-reviews/[id]/route.ts
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { Resend } from "resend";
+import {
+  REVIEW_UPLOADS_BUCKET,
+  isReviewStatus,
+  type EngineeringReviewRow,
+} from "@/lib/reviews/engineeringReviews";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PHOTO_URL_TTL_SECONDS = 60 * 30;
+
+function isInternalRole(role: string) {
+  return role === "admin" || role === "anchor_rep";
+}
+
+async function getRole(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return String(data?.role || "");
+}
+
+function clean(v: unknown) {
+  return String(v || "").trim();
+}
+
+async function signPhotos(review: EngineeringReviewRow) {
+  const photos = Array.isArray(review.photos) ? review.photos : [];
+  return Promise.all(
+    photos.map(async (p) => {
+      const { data } = await supabaseAdmin.storage
+        .from(p.bucket || REVIEW_UPLOADS_BUCKET)
+        .createSignedUrl(p.path, PHOTO_URL_TTL_SECONDS);
+      return { ...p, url: data?.signedUrl ?? null };
+    })
+  );
+}
+
+function buildChatUrl(req: Request) {
+  const configuredBase =
+    clean(process.env.NEXT_PUBLIC_APP_URL) ||
+    clean(process.env.NEXT_PUBLIC_SITE_URL) ||
+    clean(process.env.VERCEL_URL);
+
+  const base = configuredBase
+    ? configuredBase.startsWith("http")
+      ? configuredBase
+      : `https://${configuredBase}`
+    : new URL(req.url).origin;
+
+  return `${base}/chat`;
+}
+
+async function sendReviewAnsweredEmail(params: { req: Request; review: EngineeringReviewRow; answeredByEmail: string | null }) {
+  const resendKey = clean(process.env.RESEND_API_KEY);
+  if (!resendKey) throw new Error("RESEND_API_KEY is missing");
+
+  const resend = new Resend(resendKey);
+  const { review } = params;
+  const to = clean(review.requested_by_email);
+  if (!to) throw new Error("Requester has no email address");
+
+  const from = clean(process.env.LEAD_NOTIFICATIONS_FROM) || "Anchor Co-Pilot <reports@anchorp.com>";
+  const subject = `Engineering Review Answered - ${review.project_name} (${review.id.slice(0, 8)})`;
+
+  const lines: string[] = [];
+  lines.push(`Anchor engineering has answered your review request.`);
+  lines.push("");
+  lines.push(`Project: ${review.project_name}`);
+  if (review.project_location) lines.push(`Location: ${review.project_location}`);
+  if (review.solution_label) lines.push(`Solution: ${review.solution_label}`);
+  if (review.membrane) lines.push(`Membrane: ${review.membrane}`);
+  if (params.answeredByEmail) lines.push(`Answered By: ${params.answeredByEmail}`);
+  lines.push("");
+  lines.push("Your Question:");
+  lines.push(review.question);
+  lines.push("");
+  lines.push("Engineering Response:");
+  lines.push(review.response || "(none)");
+  lines.push("");
+  lines.push(`Open Anchor Co-Pilot: ${buildChatUrl(params.req)}`);
+
+  const result = await resend.emails.send({
+    from,
+    to: [to],
+    subject,
+    text: lines.join("\n"),
+  });
+
+  if (result.error) {
+    throw new Error(clean(result.error.message) || "Resend returned an error");
+  }
+
+  return { emailId: clean(result.data?.id) || null };
+}
+
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = await supabaseRoute();
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const role = await getRole(auth.user.id);
+    if (!isInternalRole(role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const { id } = await ctx.params;
+    const reviewId = clean(id);
+    if (!reviewId) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+    const { data, error } = await supabaseAdmin
+      .from("engineering_reviews")
+      .select("*")
+      .eq("id", reviewId)
+      .maybeSingle();
+
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    if (!data) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const review = data as EngineeringReviewRow;
+    return NextResponse.json({ review: { ...review, photos: await signPhotos(review) } });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Failed to load review.") }, { status: 500 });
+  }
+}
+
+/**
+ * Work a ticket: status, assignee, engineering response.
+ * Moving to "answered" requires a response and emails the requesting rep (once; failures retry on save).
+ */
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = await supabaseRoute();
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const user = auth.user;
+    const role = await getRole(user.id);
+    if (!isInternalRole(role)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const { id } = await ctx.params;
+    const reviewId = clean(id);
+    if (!reviewId) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+    const { data: current, error: loadErr } = await supabaseAdmin
+      .from("engineering_reviews")
+      .select("*")
+      .eq("id", reviewId)
+      .maybeSingle();
+
+    if (loadErr) return NextResponse.json({ error: loadErr.message }, { status: 500 });
+    if (!current) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const body = await req.json().catch(() => ({}));
+    const status = clean(body?.status);
+
+    const patch: Partial<EngineeringReviewRow> = { updated_at: new Date().toISOString() };
+    if (status) {
+      if (!isReviewStatus(status)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+      patch.status = status;
+    }
+    if (body?.assigned_to !== undefined) patch.assigned_to = clean(body?.assigned_to) || null;
+    if (body?.response !== undefined) patch.response = clean(body?.response) || null;
+
+    const prior = current as EngineeringReviewRow;
+    const nextResponse = body?.response !== undefined ? patch.response : prior.response;
+    const becomingAnswered = patch.status === "answered" && prior.status !== "answered";
+
+    if (becomingAnswered) {
+      if (!nextResponse) {
+        return NextResponse.json({ error: "Add the engineering response before marking it answered." }, { status: 400 });
+      }
+      patch.answered_at = new Date().toISOString();
+      patch.answered_by = user.id;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("engineering_reviews")
+      .update(patch)
+      .eq("id", reviewId)
+      .select("*")
+      .maybeSingle();
+
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    if (!data) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    let review = data as EngineeringReviewRow;
+    let emailNotification:
+      | { attempted: boolean; sent: boolean; emailId: string | null; error: string | null; to: string | null }
+      | null = null;
+
+    // saving an answered review again retries a failed notification
+    if (review.status === "answered" && patch.status === "answered" && !review.notified_at) {
+      emailNotification = {
+        attempted: true,
+        sent: false,
+        emailId: null,
+        error: null,
+        to: review.requested_by_email,
+      };
+
+      try {
+        const result = await sendReviewAnsweredEmail({ req, review, answeredByEmail: user.email || null });
+        emailNotification.sent = true;
+        emailNotification.emailId = result?.emailId || null;
+      } catch (e) {
+        const msg = clean(errorMessage(e)) || "Failed to send review email";
+        emailNotification.error = msg;
+        console.warn("engineering review email failed", msg);
+      }
+
+      const { data: notified, error: notifyErr } = await supabaseAdmin
+        .from("engineering_reviews")
+        .update(
+          emailNotification.sent
+            ? { notified_at: new Date().toISOString(), notify_error: null }
+            : { notify_error: emailNotification.error }
+        )
+        .eq("id", reviewId)
+        .select("*")
+        .maybeSingle();
+
+      if (notifyErr) console.error("ENGINEERING_REVIEW_NOTIFY_UPDATE_ERROR:", notifyErr);
+      if (notified) review = notified as EngineeringReviewRow;
+    }
+
+    return NextResponse.json({
+      review: { ...review, photos: await signPhotos(review) },
+      email_notification: emailNotification,
+    });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Failed to update review.") }, { status: 500 });
+  }
+}
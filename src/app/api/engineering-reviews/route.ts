@@ -0,0 +1,241 @@
+// src/app/api/engineering-reviews/route.ts
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { CHAT_PHOTOS_BUCKET, ownChatPhotos } from "@/lib/chat/photos";
+import type { EscalationSummary } from "@/lib/chat/escalationPolicy";
+import {
+  MAX_REVIEW_PHOTOS,
+  MAX_REVIEW_PHOTO_BYTES,
+  REVIEW_LIST_COLUMNS,
+  REVIEW_UPLOADS_BUCKET,
+  formatTranscriptExcerpt,
+  isReviewStatus,
+  type ReviewPhoto,
+} from "@/lib/reviews/engineeringReviews";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const EXCERPT_MESSAGES = 40;
+
+type MessageRow = {
+  role: string;
+  content: string;
+  meta: { escalation?: Partial<EscalationSummary>; photos?: unknown } | null;
+  created_at: string;
+};
+
+function isInternalRole(role: string) {
+  return role === "admin" || role === "anchor_rep";
+}
+
+async function getRole(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return String(data?.role || "");
+}
+
+function clean(v: unknown) {
+  return String(v || "").trim();
+}
+
+function sanitizeFilename(name: string) {
+  const base = clean(name).replace(/\s+/g, "-");
+  return base.replace(/[^a-zA-Z0-9._-]/g, "");
+}
+
+function isImageFile(file: File) {
+  return clean(file.type).toLowerCase().startsWith("image/");
+}
+
+/**
+ * Create a review ticket from an escalated chat answer (multipart form).
+ * The transcript excerpt and escalation summary are captured server-side from the
+ * requester's own conversation so the ticket can't be filled with someone else's chat.
+ * Photos the rep attached in that chat (messages.meta.photos) are referenced on the ticket
+ * alongside the ones uploaded with the form.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const user = auth.user;
+    const form = await req.formData();
+
+    const conversation_id = clean(form.get("conversation_id"));
+    const project_name = clean(form.get("project_name"));
+    const project_location = clean(form.get("project_location")) || null;
+    const membrane = clean(form.get("membrane")) || null;
+    const solution_key = clean(form.get("solution_key")) || null;
+    const solution_label = clean(form.get("solution_label")) || null;
+    const storage_folder = clean(form.get("storage_folder")) || null;
+    const question = clean(form.get("question"));
+    const details = clean(form.get("details")) || null;
+    const photos = form.getAll("photos").filter((f) => f instanceof File && f.size > 0) as File[];
+
+    if (!conversation_id) return NextResponse.json({ error: "Conversation is required." }, { status: 400 });
+    if (!project_name) return NextResponse.json({ error: "Project name is required." }, { status: 400 });
+    if (!question) return NextResponse.json({ error: "Question is required." }, { status: 400 });
+    if (photos.length > MAX_REVIEW_PHOTOS) {
+      return NextResponse.json({ error: `Attach at most ${MAX_REVIEW_PHOTOS} photos.` }, { status: 400 });
+    }
+    for (const file of photos) {
+      if (!isImageFile(file)) return NextResponse.json({ error: "Only image files can be attached." }, { status: 400 });
+      if (file.size > MAX_REVIEW_PHOTO_BYTES) {
+        return NextResponse.json(
+          { error: `Photos must be under ${Math.round(MAX_REVIEW_PHOTO_BYTES / 1024 / 1024)} MB.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Ensure conversation belongs to user
+    const { data: convo, error: convoErr } = await supabase
+      .from("conversations")
+      .select("id")
+      .eq("id", conversation_id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (convoErr) throw convoErr;
+    if (!convo?.id) return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+
+    const { data: recent, error: msgErr } = await supabase
+      .from("messages")
+      .select("role,content,meta,created_at")
+      .eq("conversation_id", conversation_id)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(EXCERPT_MESSAGES);
+
+    if (msgErr) throw msgErr;
+
+    const rows = ((recent || []) as MessageRow[]).slice().reverse();
+    const lastEscalated = rows
+      .filter((r) => r.role === "assistant" && r.meta?.escalation?.outcome && r.meta.escalation.outcome !== "allow")
+      .pop();
+    const decision = lastEscalated?.meta?.escalation;
+    const escalation = decision
+      ? { outcome: decision.outcome, pre: decision.pre ?? [], post: decision.post ?? [], redacted: decision.redacted ?? 0 }
+      : {};
+
+    // newest first, so the cap keeps the photos closest to the escalated question
+    const chatPhotos: ReviewPhoto[] = [];
+    for (const r of rows.slice().reverse()) {
+      if (r.role !== "user") continue;
+      for (const p of ownChatPhotos(user.id, r.meta?.photos)) {
+        if (chatPhotos.length < MAX_REVIEW_PHOTOS && !chatPhotos.some((c) => c.path === p.path)) {
+          chatPhotos.push({ bucket: CHAT_PHOTOS_BUCKET, ...p });
+        }
+      }
+    }
+
+    const { data: reviewRow, error: insErr } = await supabaseAdmin
+      .from("engineering_reviews")
+      .insert({
+        status: "open",
+        requested_by: user.id,
+        requested_by_email: user.email || null,
+        conversation_id,
+        project_name,
+        project_location,
+        membrane,
+        solution_key,
+        solution_label,
+        storage_folder,
+        question,
+        details,
+        transcript_excerpt: formatTranscriptExcerpt(rows),
+        escalation,
+        photos: chatPhotos,
+      })
+      .select("id")
+      .single();
+
+    if (insErr || !reviewRow?.id) {
+      return NextResponse.json({ error: insErr?.message || "Failed to create review." }, { status: 500 });
+    }
+
+    const reviewId = reviewRow.id as string;
+    const uploaded: ReviewPhoto[] = [];
+
+    for (const file of photos) {
+      const safeName = sanitizeFilename(file.name || "photo");
+      const path = `engineering-reviews/${reviewId}/${Date.now()}-${safeName}`;
+      const contentType = file.type || "application/octet-stream";
+      const buf = Buffer.from(await file.arrayBuffer());
+
+      const { error: upErr } = await supabaseAdmin.storage
+        .from(REVIEW_UPLOADS_BUCKET)
+        .upload(path, buf, { contentType, upsert: false });
+
+      if (upErr) {
+        return NextResponse.json({ error: upErr.message || "Failed to upload photo." }, { status: 500 });
+      }
+
+      uploaded.push({
+        path,
+        filename: file.name || safeName,
+        contentType,
+        size: file.size || buf.length,
+        uploadedAt: new Date().toISOString(),
+      });
+    }
+
+    if (uploaded.length) {
+      const { error: updErr } = await supabaseAdmin
+        .from("engineering_reviews")
+        .update({ photos: [...chatPhotos, ...uploaded], updated_at: new Date().toISOString() })
+        .eq("id", reviewId);
+
+      if (updErr) {
+        return NextResponse.json({ error: updErr.message || "Failed to attach photos." }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ ok: true, id: reviewId, photos: chatPhotos.length + uploaded.length });
+  } catch (e) {
+    console.error("ENGINEERING_REVIEW_CREATE_ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e, "Failed to submit review.") }, { status: 500 });
+  }
+}
+
+/** Engineering queue (internal users). */
+export async function GET(req: Request) {
+  try {
+    const supabase = await supabaseRoute();
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const role = await getRole(auth.user.id);
+    if (!isInternalRole(role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = clean(searchParams.get("status"));
+
+    let query = supabaseAdmin
+      .from("engineering_reviews")
+      .select(REVIEW_LIST_COLUMNS)
+      .order("created_at", { ascending: false });
+
+    if (isReviewStatus(status)) query = query.eq("status", status);
+
+    const { data, error } = await query;
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    return NextResponse.json({ reviews: data || [] });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Failed to load reviews.") }, { status: 500 });
+  }
+}
@@ -1,6 +1,9 @@
 // src/app/api/feedback/route.ts
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { maybeQuarantineChunk } from "@/lib/knowledge/quarantine";
+import { clientRequestId, duplicateRequestResponse, findClientRequest, isUniqueViolation } from "@/lib/offline/clientRequest";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -62,14 +65,30 @@ export async function POST(req: Request) {
         body.assistantMessageId ?? body.assistant_message_id;
     }
 
+    // offline outbox replays carry the same request id; don't record the same feedback twice
+    const requestId = clientRequestId(req);
+    if (requestId) {
+      const existing = await findClientRequest(supabase, "knowledge_feedback", { column: "user_id", id: user.id }, requestId);
+      if (existing) return duplicateRequestResponse(existing);
+      insertRow.client_request_id = requestId;
+    }
+
     const { data: inserted, error } = await supabase
       .from("knowledge_feedback")
       .insert(insertRow)
       .select("id")
       .maybeSingle();
 
+    if (isUniqueViolation(error)) return duplicateRequestResponse(null);
     if (error) return jsonError(error.message, 500);
 
+    // enough distinct downvotes pull the chunk out of retrieval until an admin restores it
+    if (chunk_id && rating <= 2) {
+      after(() =>
+        maybeQuarantineChunk(supabaseAdmin, chunk_id).catch((e) => console.error("KNOWLEDGE_QUARANTINE_ERROR:", chunk_id, e))
+      );
+    }
+
     return NextResponse.json({ ok: true, id: inserted?.id ?? null }, { status: 200 });
   } catch (e: any) {
     return jsonError(e?.message || "Server error", 500);
@@ -0,0 +1,75 @@
+// src/app/api/ingest/webhook/route.ts
+import { after, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createLLMCallLog } from "@/lib/llm/telemetry";
+import { ingestPath, removeIngestedPath } from "@/lib/knowledge/ingest";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * Supabase database webhook on storage.objects (see migration 20261019_000020_knowledge_ingest.sql):
+ * uploads to the "knowledge" bucket are indexed, deletions drop their chunks.
+ * Answers right away; the indexing runs after the response (webhooks time out quickly).
+ */
+
+type StorageRecord = { bucket_id?: string; name?: string } | null;
+
+type WebhookPayload = {
+  type?: "INSERT" | "UPDATE" | "DELETE";
+  schema?: string;
+  table?: string;
+  record?: StorageRecord;
+  old_record?: StorageRecord;
+};
+
+function mustGetEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+export async function POST(req: Request) {
+  try {
+    const secret = mustGetEnv("INGEST_WEBHOOK_SECRET");
+    const provided = new URL(req.url).searchParams.get("secret") || "";
+    if (provided !== secret) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = (await req.json()) as WebhookPayload;
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const row = payload.type === "DELETE" ? payload.old_record : payload.record;
+    const path = String(row?.name || "");
+    if (payload.schema !== "storage" || payload.table !== "objects" || row?.bucket_id !== "knowledge" || !path) {
+      return NextResponse.json({ ok: true, ignored: true });
+    }
+
+    after(async () => {
+      if (payload.type === "DELETE") {
+        await removeIngestedPath(supabaseAdmin, path).catch((e) => console.error("KNOWLEDGE_INGEST_WEBHOOK_ERROR:", path, e));
+        return;
+      }
+
+      const llmCalls = createLLMCallLog();
+      try {
+        await ingestPath(supabaseAdmin, path, { log: llmCalls });
+      } catch (e) {
+        console.error("KNOWLEDGE_INGEST_WEBHOOK_ERROR:", path, e);
+      } finally {
+        await llmCalls.flush(supabaseAdmin);
+      }
+    });
+
+    return NextResponse.json({ ok: true, path });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
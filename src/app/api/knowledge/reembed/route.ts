@@ -0,0 +1,48 @@
+// src/app/api/knowledge/reembed/route.ts
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { createLLMCallLog } from "@/lib/llm/telemetry";
+import { reembedUntilDone } from "@/lib/knowledge/reembed";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * Cron (vercel.json): moves knowledge_chunks onto the current embedding model after a model swap.
+ * A no-op count query when everything is current; otherwise re-embeds until the time budget runs out
+ * and the next run picks up where this one stopped.
+ */
+
+const TIME_BUDGET_MS = 240_000;
+
+function mustGetEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+export async function GET(req: Request) {
+  try {
+    const secret = mustGetEnv("CRON_SECRET");
+    const provided = new URL(req.url).searchParams.get("secret") || "";
+    if (provided !== secret) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const llmCalls = createLLMCallLog();
+    try {
+      const result = await reembedUntilDone(supabaseAdmin, {
+        deadlineMs: Date.now() + TIME_BUDGET_MS,
+        log: llmCalls,
+      });
+      return NextResponse.json({ ok: true, ...result });
+    } finally {
+      await llmCalls.flush(supabaseAdmin);
+    }
+  } catch (e) {
+    console.error("KNOWLEDGE_REEMBED_ERROR:", e);
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
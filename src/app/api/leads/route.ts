@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { clientRequestId, duplicateRequestResponse, findClientRequest, isUniqueViolation } from "@/lib/offline/clientRequest";
 import { Resend } from "resend";
 
 export const runtime = "nodejs";
@@ -406,6 +407,13 @@ export async function POST(req: Request) {
 
     const wants_video_call = meeting_request_type === "video_call";
 
+    // a lead queued offline may already have landed before the connection dropped
+    const requestId = clientRequestId(req);
+    if (requestId) {
+      const existing = await findClientRequest(supabaseAdmin, "leads", { column: "created_by", id: user.id }, requestId);
+      if (existing) return duplicateRequestResponse(existing);
+    }
+
     const { data: leadRow, error: insErr } = await supabaseAdmin
       .from("leads")
       .insert({
@@ -435,10 +443,12 @@ export async function POST(req: Request) {
         video_call_phone: meeting_request_type !== "none" ? video_call_phone : null,
         hubspot_sync_status: "pending",
         hubspot_sync_error: null,
+        client_request_id: requestId,
       })
       .select("id")
       .single();
 
+    if (isUniqueViolation(insErr)) return duplicateRequestResponse(null);
     if (insErr || !leadRow?.id) {
       return NextResponse.json({ error: insErr?.message || "Failed to create lead." }, { status: 500 });
     }
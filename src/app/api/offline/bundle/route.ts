@@ -0,0 +1,28 @@
+// src/app/api/offline/bundle/route.ts
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { buildOfflineBundle } from "@/lib/offline/bundle";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Offline pre-cache for the signed-in rep: favorite + recent docs (doc_events), the solution catalog
+ * and recent conversations. The client stores it in IndexedDB and fetches the doc bytes itself.
+ * Service role like /api/recent-docs (doc_events has no user read policy); every query is scoped to the user.
+ */
+export async function GET() {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const bundle = await buildOfflineBundle(supabaseAdmin, auth.user.id);
+
+    return NextResponse.json(bundle, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
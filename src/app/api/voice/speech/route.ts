@@ -0,0 +1,60 @@
+// src/app/api/voice/speech/route.ts
+import { after, NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { classifyLLMError } from "@/lib/llm/client";
+import { createLLMCallLog } from "@/lib/llm/telemetry";
+import { recordVoiceCall, speechSynthFromEnv } from "@/lib/voice/providers";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Answers are written for reading: drop list markers and link syntax before they're spoken. */
+function speakable(text: string) {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+/gm, "")
+    .replace(/[*_`#>]/g, "")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+}
+
+/**
+ * Read-aloud: { text } → audio bytes. 501 when VOICE_TTS=browser, so the client falls back to
+ * the device's speechSynthesis.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const text = speakable(String(body?.text || ""));
+    if (!text) return NextResponse.json({ error: "Nothing to read." }, { status: 400 });
+
+    const synth = speechSynthFromEnv();
+    if (!synth) return NextResponse.json({ error: "Server speech is off", code: "use_browser_tts" }, { status: 501 });
+
+    const calls = createLLMCallLog();
+    after(() => calls.flush(supabaseAdmin, { userId: auth.user.id }));
+
+    const started = Date.now();
+    try {
+      const result = await synth.speak(text);
+      recordVoiceCall(calls, { purpose: "speech", provider: result.provider, model: result.model, started });
+
+      return new Response(result.audio, {
+        headers: { "Content-Type": result.contentType, "Cache-Control": "no-store" },
+      });
+    } catch (e) {
+      const err = classifyLLMError(e, { provider: synth.provider, model: synth.model });
+      recordVoiceCall(calls, { purpose: "speech", provider: synth.provider, model: synth.model, started, error: err });
+      console.error("VOICE_SPEECH_ERROR:", err.kind, err.message);
+      return NextResponse.json({ error: "Read-aloud is unavailable right now.", code: "use_browser_tts" }, { status: 502 });
+    }
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+// src/app/api/voice/transcribe/route.ts
+import { after, NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { classifyLLMError } from "@/lib/llm/client";
+import { createLLMCallLog } from "@/lib/llm/telemetry";
+import { MAX_AUDIO_BYTES, recordVoiceCall, TRANSCRIBE_PROMPT, transcriberFromEnv } from "@/lib/voice/providers";
+import { errorMessage } from "@/lib/errors";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Push-to-talk: multipart `audio` (webm/ogg/mp4/wav from MediaRecorder) → { text }.
+ * The chat composer fills with the transcript; nothing is stored.
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = await supabaseRoute(); // ✅ 0 args + await
+    const { data: auth, error: authErr } = await supabase.auth.getUser();
+    if (authErr || !auth?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const form = await req.formData();
+    const audio = form.get("audio");
+    if (!(audio instanceof File) || !audio.size) {
+      return NextResponse.json({ error: "No audio attached." }, { status: 400 });
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: "Recording is too long. Keep it under a minute or two." }, { status: 400 });
+    }
+
+    const transcriber = transcriberFromEnv();
+    const calls = createLLMCallLog();
+    after(() => calls.flush(supabaseAdmin, { userId: auth.user.id }));
+
+    const started = Date.now();
+    try {
+      const result = await transcriber.transcribe(audio, { filename: audio.name, prompt: TRANSCRIBE_PROMPT });
+      recordVoiceCall(calls, { purpose: "transcription", provider: result.provider, model: result.model, started });
+
+      return NextResponse.json({ text: result.text, provider: result.provider, model: result.model });
+    } catch (e) {
+      const err = classifyLLMError(e, { provider: transcriber.provider, model: transcriber.model });
+      recordVoiceCall(calls, {
+        purpose: "transcription",
+        provider: transcriber.provider,
+        model: transcriber.model,
+        started,
+        error: err,
+      });
+      console.error("VOICE_TRANSCRIBE_ERROR:", err.kind, err.message);
+      return NextResponse.json({ error: "Couldn’t transcribe that. Try again or type it." }, { status: 502 });
+    }
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, "Server error") }, { status: 500 });
+  }
+}
@@ -2,7 +2,7 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
+import { Suspense, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabaseBrowser } from "@/lib/supabase/browser";
 import AssetsBrowser from "../components/assets/AssetsBrowser";
@@ -82,7 +82,9 @@ export default function AssetsPage() {
             Loading…
           </Card>
         ) : (
-          <AssetsBrowser />
+          <Suspense fallback={<Card className="p-5 text-sm text-black/60">Loading…</Card>}>
+            <AssetsBrowser />
+          </Suspense>
         )}
       </div>
     </main>
@@ -1,29 +1,44 @@
 // src/app/chat/page.tsx
 "use client";
 
+import Image from "next/image";
 import Link from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabaseBrowser } from "@/lib/supabase/browser";
+import { isEventStream, readSseStream } from "@/lib/chat/sse";
 import SourcesFeedback from "../components/chat/SourcesFeedback";
+import SolutionCard, { type RecommendedSolution } from "../components/chat/SolutionCard";
+import QuickReplyChips, { type AskPrompt } from "../components/chat/QuickReplyChips";
+import RecommendedDocsList, { type RecommendedDoc } from "../components/chat/RecommendedDocsList";
+import EngineeringReviewRequest from "../components/chat/EngineeringReviewRequest";
+import ProjectFactsPanel from "../components/chat/ProjectFactsPanel";
+import PushToTalkButton from "../components/chat/PushToTalkButton";
+import ListenButton from "../components/chat/ListenButton";
+import type { EscalationSummary } from "@/lib/chat/escalationPolicy";
+import type { ProjectProfile } from "@/lib/solutions/projectProfile";
+import {
+  MAX_CHAT_PHOTOS,
+  chatPhotoUrl,
+  type ChatPhoto,
+  type EquipmentIdentification,
+} from "@/lib/chat/photos";
+import { READ_ALOUD_STORAGE_KEY, speakText, stopSpeaking } from "@/lib/voice/playback";
+import { OFFLINE_CHANGED_EVENT } from "@/lib/offline/db";
+import { enqueueOutbox, isNetworkError, isOffline, newRequestId } from "@/lib/offline/outbox";
+import { CLIENT_REQUEST_ID_HEADER, type ReplaySummary } from "@/lib/offline/types";
 import Button from "@/app/components/ui/Button";
 import { Input } from "@/app/components/ui/Field";
 import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
 
 type UserType = "internal" | "external";
 
-type RecommendedDoc = {
-  title: string;
-  doc_type: string;
-  path: string;
-  url: string | null;
-};
-
 type SourceUsed = {
   chunkId: string;
   documentId: string;
   title: string | null;
   similarity: number;
+  score?: number;
   content: string;
 };
 
@@ -34,10 +49,27 @@ type ChatResponse = {
   foldersUsed?: string[];
   recommendedDocs?: RecommendedDoc[];
   sourcesUsed?: SourceUsed[];
+  nextStep?: AskPrompt | null;
+  solution?: RecommendedSolution | null;
+  escalation?: EscalationSummary | null;
+  profile?: ProjectProfile;
+  vision?: EquipmentIdentification | null;
   error?: string;
 };
 
-type Msg = { role: "user" | "assistant"; content: string };
+type Msg = {
+  role: "user" | "assistant";
+  content: string;
+  /** structured extras rendered under assistant bubbles */
+  solution?: RecommendedSolution | null;
+  nextStep?: AskPrompt | null;
+  recommendedDocs?: RecommendedDoc[];
+  /** escalated / redacted answers offer an engineering review */
+  escalation?: EscalationSummary | null;
+  /** photos attached to a user message + what the vision model saw in them */
+  photos?: ChatPhoto[];
+  vision?: EquipmentIdentification | null;
+};
 
 type ProfileRow = {
   role: "admin" | "anchor_rep" | "external_rep";
@@ -75,6 +107,40 @@ const DEFAULT_GREETING: Msg = {
     "Anchor Sales Co-Pilot ready.\nTell me what you’re mounting and your roof/membrane type (ex: U2400 EPDM), and I’ll recommend the right Anchor solution.",
 };
 
+const EMPTY_ANSWER_FALLBACK =
+  "I didn’t get a response back from the assistant. Try again — and if it keeps happening, tell me what you’re securing + membrane type so I can recommend the right solution.";
+
+function answerCards(data?: Pick<ChatResponse, "solution" | "nextStep" | "recommendedDocs" | "escalation"> | null) {
+  // stored message meta keeps "allow" decisions too; only escalated/redacted ones matter here
+  const escalation = data?.escalation?.outcome && data.escalation.outcome !== "allow" ? data.escalation : null;
+  return {
+    solution: data?.solution ?? null,
+    nextStep: data?.nextStep ?? null,
+    recommendedDocs: Array.isArray(data?.recommendedDocs) ? data!.recommendedDocs : [],
+    escalation,
+  };
+}
+
+/** the most recent solution card at or before idx (reviews are prefilled from it) */
+function solutionAsOf(messages: Msg[], idx: number) {
+  for (let i = idx; i >= 0; i--) {
+    if (messages[i].role === "assistant" && messages[i].solution) return messages[i].solution!;
+  }
+  return null;
+}
+
+function photoCards(meta?: { photos?: ChatPhoto[]; vision?: EquipmentIdentification | null } | null) {
+  const photos = Array.isArray(meta?.photos) ? meta!.photos : [];
+  return photos.length ? { photos, vision: meta?.vision ?? null } : {};
+}
+
+function questionBefore(messages: Msg[], idx: number) {
+  for (let i = idx - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content;
+  }
+  return "";
+}
+
 function titleOrNew(title?: string | null) {
   const t = (title || "").trim();
   return t.length ? t : "New chat";
@@ -119,8 +185,11 @@ export default function ChatPage() {
 
   // chat
   const [input, setInput] = useState("");
+  const [pendingPhotos, setPendingPhotos] = useState<File[]>([]);
+  const photoInputRef = useRef<HTMLInputElement | null>(null);
   const [messages, setMessages] = useState<Msg[]>([DEFAULT_GREETING]);
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
 
   // feedback (opt-in)
   const [showFeedback, setShowFeedback] = useState(false);
@@ -128,6 +197,28 @@ export default function ChatPage() {
   // sources for feedback component
   const [lastSources, setLastSources] = useState<SourceUsed[]>([]);
 
+  // project facts panel (conversations.project_profile)
+  const [projectProfile, setProjectProfile] = useState<ProjectProfile | null>(null);
+
+  // voice: push-to-talk errors + "read answers aloud" (per device)
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [readAloud, setReadAloud] = useState(false);
+
+  useEffect(() => {
+    setReadAloud(window.localStorage.getItem(READ_ALOUD_STORAGE_KEY) === "1");
+  }, []);
+
+  function toggleReadAloud(on: boolean) {
+    setReadAloud(on);
+    window.localStorage.setItem(READ_ALOUD_STORAGE_KEY, on ? "1" : "0");
+    if (!on) stopSpeaking();
+  }
+
+  function addTranscript(text: string) {
+    setVoiceError(null);
+    setInput((prev) => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+  }
+
   const scrollRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
@@ -183,7 +274,9 @@ export default function ChatPage() {
             // skip docs-only blank assistant rows (we don't have docs panel anymore)
             if (role === "assistant" && !content.trim()) continue;
 
-            display.push({ role, content });
+            display.push(
+              role === "assistant" ? { role, content, ...answerCards(r.meta) } : { role, content, ...photoCards(r.meta) }
+            );
           }
 
           setMessages(display as any);
@@ -200,6 +293,37 @@ export default function ChatPage() {
     [supabase]
   );
 
+  // the panel shows nothing on failure; the next turn sends the profile along anyway
+  useEffect(() => {
+    setProjectProfile(null);
+    if (!conversationId) return;
+
+    let alive = true;
+    fetch(`/api/conversations/${encodeURIComponent(conversationId)}/profile`, { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (alive && data?.profile) setProjectProfile(data.profile as ProjectProfile);
+      })
+      .catch((e) => console.error("PROJECT_PROFILE_LOAD_ERROR:", e));
+
+    return () => {
+      alive = false;
+    };
+  }, [conversationId]);
+
+  // queued questions answered on reconnect: show them in the open chat
+  useEffect(() => {
+    if (!userId || !conversationId) return;
+
+    const onChange = (e: Event) => {
+      const replay = (e as CustomEvent<{ replay?: ReplaySummary }>).detail?.replay;
+      if (replay?.conversationIds.includes(conversationId)) loadConversationMessages(userId, conversationId);
+    };
+
+    window.addEventListener(OFFLINE_CHANGED_EVENT, onChange);
+    return () => window.removeEventListener(OFFLINE_CHANGED_EVENT, onChange);
+  }, [conversationId, loadConversationMessages, userId]);
+
   const loadConversations = useCallback(
     async (uid: string) => {
       // no sidebar; keep list for auto-title only
@@ -347,7 +471,8 @@ export default function ChatPage() {
 
         const user = userData.user;
         if (!user) {
-          router.replace("/");
+          // no signal: the session can't be checked; saved chats live on the offline page
+          router.replace(isOffline() ? "/offline" : "/");
           return;
         }
 
@@ -450,22 +575,78 @@ export default function ChatPage() {
     return "no role";
   }, [role]);
 
-async function send() {
-  const text = input.trim();
+function addPhotos(files: FileList | null) {
+  const picked = Array.from(files || []).filter((f) => f.type.startsWith("image/"));
+  setPendingPhotos((prev) => [...prev, ...picked].slice(0, MAX_CHAT_PHOTOS));
+  if (photoInputRef.current) photoInputRef.current.value = "";
+}
+
+/** Upload the composer's photos first; /api/chat gets their storage refs. */
+async function uploadPhotos(files: File[]): Promise<ChatPhoto[]> {
+  if (!files.length || !conversationId) return [];
+  const form = new FormData();
+  form.set("conversation_id", conversationId);
+  for (const file of files) form.append("photos", file);
+
+  const res = await fetch("/api/chat/photos", { method: "POST", body: form });
+  const data = await readJsonSafely<{ photos?: ChatPhoto[]; error?: string }>(res);
+  if (!res.ok) throw new Error(data?.error || `Photo upload failed (HTTP ${res.status})`);
+  return Array.isArray(data?.photos) ? data!.photos : [];
+}
+
+async function send(preset?: string) {
+  const files = preset ? [] : pendingPhotos;
+  const text = (preset ?? input).trim() || (files.length ? "What is this equipment?" : "");
   if (!text || loading) return;
   if (!userId || !conversationId) return;
   if (profileLoading || historyLoading) return;
 
   setShowFeedback(false);
+  setVoiceError(null);
+  stopSpeaking();
+
+  // kept across attempts: if the signal drops mid-request, the outbox replays it under the same id
+  const requestId = newRequestId();
+  const queueOffline = async (note?: string) => {
+    await enqueueOutbox(
+      { kind: "chat", url: "/api/chat", body: { type: "json", value: { text } }, label: text, conversationId },
+      requestId
+    );
+    setMessages((m) => [
+      ...m,
+      {
+        role: "assistant",
+        content: `You’re offline. I’ll send this when you reconnect (see Offline → Queue).${note ? `\n\n${note}` : ""}`,
+      },
+    ]);
+  };
+
+  if (isOffline()) {
+    setMessages((m) => [...m, { role: "user", content: text }]);
+    setInput("");
+    await queueOffline(files.length ? "Photos need a connection: they’re still attached, send them again once you’re back online." : undefined);
+    return;
+  }
 
-  // optimistic UI append
+  // optimistic UI append (photos show once uploaded)
   const nextMessages: Msg[] = [...messages, { role: "user", content: text }];
   setMessages(nextMessages);
   setInput("");
+  setPendingPhotos([]);
   setLoading(true);
   setLastSources([]);
 
   try {
+    const photos = await uploadPhotos(files);
+    if (photos.length) {
+      setMessages((m) => {
+        const next = [...m];
+        const i = next.length - 1;
+        if (next[i]?.role === "user") next[i] = { ...next[i], photos };
+        return next;
+      });
+    }
+
     // ✅ Send ChatGPT-style thread (strip meta)
     const thread = nextMessages.map((m) => ({
       role: m.role,
@@ -474,12 +655,18 @@ async function send() {
 
     const res = await fetch("/api/chat", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        [CLIENT_REQUEST_ID_HEADER]: requestId,
+      },
       body: JSON.stringify({
         messages: thread,          // ✅ key change
         userType,
         conversationId,
         sessionId,
+        photos,
+        stream: true,
       }),
     });
 
@@ -489,35 +676,94 @@ async function send() {
       return;
     }
 
-    const data = await readJsonSafely<ChatResponse>(res);
+    let data: ChatResponse | null = null;
+
+    if (res.ok && isEventStream(res) && res.body) {
+      // streamed answer: grow one assistant bubble as tokens arrive
+      let started = false;
+      const setStreamedAnswer = (content: string, extras?: Partial<Msg>) => {
+        const append = !started;
+        started = true;
+        setMessages((m) => {
+          if (append) return [...m, { role: "assistant", content, ...extras }];
+          const next = [...m];
+          next[next.length - 1] = { role: "assistant", content, ...extras };
+          return next;
+        });
+        setStreaming(true);
+      };
+
+      let streamed = "";
+      let streamError: string | null = null;
+
+      await readSseStream(res.body, (event, payload) => {
+        if (event === "delta") {
+          streamed += String(payload?.text ?? "");
+          setStreamedAnswer(streamed);
+        } else if (event === "replace") {
+          // guardrail tripped after tokens were shown: swap in the safe answer
+          setStreamedAnswer(String(payload?.answer ?? ""));
+        } else if (event === "done") {
+          data = payload as ChatResponse;
+        } else if (event === "error") {
+          streamError = String(payload?.error ?? "Stream failed");
+        }
+      });
 
-    if (!res.ok) {
-      const msg = (data?.error ?? `HTTP ${res.status}`).toString();
-      setMessages((m) => [...m, { role: "assistant", content: `I hit an error.\n\n${msg}` }]);
-      return;
-    }
+      if (streamError || !data) {
+        const msg = streamError || "The response stream ended early.";
+        setMessages((m) => [...m, { role: "assistant", content: `I hit an error.\n\n${msg}` }]);
+        return;
+      }
 
-    const sources = Array.isArray(data?.sourcesUsed) ? data!.sourcesUsed! : [];
+      const finalText = ((data as ChatResponse).answer ?? "").toString().trim();
+      if (finalText) setStreamedAnswer(finalText, answerCards(data));
+      else if (!started) setStreamedAnswer(EMPTY_ANSWER_FALLBACK);
+    } else {
+      data = await readJsonSafely<ChatResponse>(res);
 
-    setLastSources(sources);
-    if (data?.sessionId) setSessionId(data.sessionId);
+      // daily usage limit (answer) or rate limit (error): both explain themselves
+      if (res.status === 429) {
+        const msg = data?.answer || data?.error || "Too many requests. Please wait a moment.";
+        setMessages((m) => [...m, { role: "assistant", content: String(msg) }]);
+        return;
+      }
 
-    const answerText = (data?.answer ?? "").toString().trim();
+      if (!res.ok) {
+        const msg = (data?.error ?? `HTTP ${res.status}`).toString();
+        setMessages((m) => [...m, { role: "assistant", content: `I hit an error.\n\n${msg}` }]);
+        return;
+      }
+
+      const answerText = (data?.answer ?? "").toString().trim();
 
-    if (answerText) {
-      setMessages((m) => [...m, { role: "assistant", content: answerText }]);
-    } else {
       // ✅ NEW: never allow “no assistant bubble”
       setMessages((m) => [
         ...m,
-        {
-          role: "assistant",
-          content:
-            "I didn’t get a response back from the assistant. Try again — and if it keeps happening, tell me what you’re securing + membrane type so I can recommend the right solution.",
-        },
+        { role: "assistant", content: answerText || EMPTY_ANSWER_FALLBACK, ...answerCards(data) },
       ]);
     }
 
+    const final = data as ChatResponse | null;
+    const sources = Array.isArray(final?.sourcesUsed) ? final!.sourcesUsed! : [];
+
+    setLastSources(sources);
+    if (final?.sessionId) setSessionId(final.sessionId);
+    if (final?.profile) setProjectProfile(final.profile);
+    if (readAloud && final?.answer) speakText(String(final.answer));
+    if (final?.vision) {
+      const vision = final.vision;
+      setMessages((m) => {
+        const next = [...m];
+        for (let i = next.length - 1; i >= 0; i--) {
+          if (next[i].role === "user" && next[i].photos?.length) {
+            next[i] = { ...next[i], vision };
+            break;
+          }
+        }
+        return next;
+      });
+    }
 
     // auto-title
     const current = conversations.find((c) => c.id === conversationId);
@@ -527,18 +773,23 @@ async function send() {
       renameConversation(conversationId, nextTitle);
     }
 
-    if (data?.conversationId && data.conversationId !== conversationId) {
-      setConversationId(data.conversationId);
+    if (final?.conversationId && final.conversationId !== conversationId) {
+      setConversationId(final.conversationId);
     }
 
     await loadConversations(userId);
   } catch (e: any) {
+    if (isNetworkError(e)) {
+      await queueOffline(files.length ? "Photos couldn’t be uploaded: attach them again once you’re back online." : undefined);
+      return;
+    }
     setMessages((m) => [
       ...m,
       { role: "assistant", content: `Network error: ${e?.message || String(e)}` },
     ]);
   } finally {
     setLoading(false);
+    setStreaming(false);
   }
 }
 
@@ -615,21 +866,77 @@ async function send() {
                 "sm:rounded-3xl sm:border sm:border-black/10 sm:bg-white sm:shadow-md",
               ].join(" ")}
             >
+              <ProjectFactsPanel
+                conversationId={conversationId}
+                profile={projectProfile}
+                onSaved={setProjectProfile}
+                disabled={!ready || loading}
+              />
 
               {/* Messages */}
               <div className={`${PANEL_BODY} ${SOFT_SCROLL} px-4 py-4 bg-transparent`}>
                 <div className="space-y-3">
                   {messages.map((m, idx) => (
-                    <div
-                      key={idx}
-                      className={[
-                        "max-w-[92%] whitespace-pre-wrap rounded-2xl px-4 py-3 text-sm leading-relaxed",
-                        m.role === "user"
-                          ? "ml-auto border border-[var(--anchor-deep)]/20 bg-[var(--anchor-mint)] shadow-sm"
-                          : "border border-black/10 bg-[var(--surface-soft)] shadow-sm",
-                      ].join(" ")}
-                    >
-                      {renderMessageContent(m.content)}
+                    <div key={idx} className="space-y-2">
+                      <div
+                        className={[
+                          "max-w-[92%] whitespace-pre-wrap rounded-2xl px-4 py-3 text-sm leading-relaxed",
+                          m.role === "user"
+                            ? "ml-auto border border-[var(--anchor-deep)]/20 bg-[var(--anchor-mint)] shadow-sm"
+                            : "border border-black/10 bg-[var(--surface-soft)] shadow-sm",
+                        ].join(" ")}
+                      >
+                        {renderMessageContent(m.content)}
+                      </div>
+
+                      {m.role === "user" && !!m.photos?.length && (
+                        <div className="ml-auto flex max-w-[92%] flex-col items-end gap-1">
+                          <div className="flex flex-wrap justify-end gap-2">
+                            {m.photos.map((p) => (
+                              <a key={p.path} href={chatPhotoUrl(p.path)} target="_blank" rel="noreferrer">
+                                <Image
+                                  src={chatPhotoUrl(p.path)}
+                                  alt={p.filename}
+                                  width={96}
+                                  height={96}
+                                  unoptimized
+                                  className="h-24 w-24 rounded-xl border border-black/10 object-cover"
+                                />
+                              </a>
+                            ))}
+                          </div>
+                          {m.vision?.equipment && (
+                            <div className={`text-[11px] ${MUTED}`}>
+                              Identified: {m.vision.equipment}
+                              {m.vision.confidence !== "high" ? ` (${m.vision.confidence} confidence)` : ""}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {m.role === "assistant" && idx > 0 && !!m.content.trim() && !(loading && idx === messages.length - 1) && (
+                        <ListenButton text={m.content} />
+                      )}
+
+                      {m.role === "assistant" && m.solution && <SolutionCard solution={m.solution} />}
+
+                      {m.role === "assistant" && !!m.recommendedDocs?.length && (
+                        <RecommendedDocsList docs={m.recommendedDocs} />
+                      )}
+
+                      {/* quick replies only make sense for the question still on the table */}
+                      {m.role === "assistant" && m.nextStep && idx === messages.length - 1 && !loading && (
+                        <QuickReplyChips step={m.nextStep} disabled={inputDisabled} onPick={(opt) => send(opt)} />
+                      )}
+
+                      {m.role === "assistant" && m.escalation && !(loading && idx === messages.length - 1) && (
+                        <EngineeringReviewRequest
+                          conversationId={conversationId}
+                          question={questionBefore(messages, idx)}
+                          solution={solutionAsOf(messages, idx)}
+                          disabled={!ready}
+                        />
+                      )}
                     </div>
                   ))}
 
@@ -690,7 +997,7 @@ async function send() {
                     </div>
                   )}
 
-                  {(historyLoading || loading) && (
+                  {(historyLoading || (loading && !streaming)) && (
                     <div className="max-w-[92%] rounded-2xl border border-black/10 bg-white px-4 py-3 text-sm text-black/80">
                       {historyLoading ? "Loading chat…" : "Thinking…"}
                     </div>
@@ -703,7 +1010,52 @@ async function send() {
               {/* Composer */}
               <div className="mt-auto shrink-0 border-t border-black/10 bg-[var(--surface-strong)] pb-[env(safe-area-inset-bottom)]">
                 <div className="p-3">
+                  {pendingPhotos.length > 0 && (
+                    <div className="mb-2 flex flex-wrap items-center gap-2 text-[12px] text-black/70">
+                      {pendingPhotos.map((f, i) => (
+                        <span
+                          key={`${f.name}-${i}`}
+                          className="inline-flex items-center gap-1 rounded-md border border-black/10 bg-white px-2 py-1"
+                        >
+                          {f.name || "photo"}
+                          <button
+                            type="button"
+                            onClick={() => setPendingPhotos((prev) => prev.filter((_, j) => j !== i))}
+                            className="text-black/50 hover:text-black"
+                            aria-label={`Remove ${f.name || "photo"}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   <div className="flex w-full gap-2">
+                    <input
+                      ref={photoInputRef}
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => addPhotos(e.target.files)}
+                    />
+                    <Button
+                      onClick={() => photoInputRef.current?.click()}
+                      disabled={loading || inputDisabled || pendingPhotos.length >= MAX_CHAT_PHOTOS}
+                      className="shrink-0 px-3 py-3 text-sm disabled:opacity-50"
+                      type="button"
+                      variant="ghost"
+                      title="Attach a photo of the equipment"
+                      aria-label="Attach photo"
+                    >
+                      Photo
+                    </Button>
+                    <PushToTalkButton
+                      disabled={loading || inputDisabled}
+                      onTranscript={addTranscript}
+                      onError={setVoiceError}
+                    />
                     <Input
                       className="min-w-0 flex-1 px-3 py-3 text-sm disabled:opacity-60"
                       placeholder={inputDisabled ? "Loading your chat…" : "Type your question…"}
@@ -718,7 +1070,7 @@ async function send() {
                       }}
                     />
                     <Button
-                      onClick={send}
+                      onClick={() => send()}
                       disabled={loading || inputDisabled}
                       className="shrink-0 px-5 py-3 text-sm disabled:opacity-50"
                       type="button"
@@ -728,11 +1080,25 @@ async function send() {
                     </Button>
                   </div>
 
-                  {!profileLoading && (
-                    <div className="mt-2 text-[11px] text-black/50">
-                      Access mode: <span className="text-black/70">{userType}</span>
-                    </div>
-                  )}
+                  {voiceError && <div className="mt-2 text-[12px] text-red-700">{voiceError}</div>}
+
+                  <div className="mt-2 flex items-center justify-between gap-3 text-[11px] text-black/50">
+                    {!profileLoading ? (
+                      <div>
+                        Access mode: <span className="text-black/70">{userType}</span>
+                      </div>
+                    ) : (
+                      <div />
+                    )}
+                    <label className="inline-flex cursor-pointer items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={readAloud}
+                        onChange={(e) => toggleReadAloud(e.target.checked)}
+                      />
+                      Read answers aloud
+                    </label>
+                  </div>
                 </div>
               </div>
             </section>
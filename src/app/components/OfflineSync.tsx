@@ -0,0 +1,103 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { offlineDbAvailable, OFFLINE_CHANGED_EVENT } from "@/lib/offline/db";
+import { pendingOutboxCount, replayOutbox } from "@/lib/offline/outbox";
+import { lastOfflineSync, syncOfflineBundle } from "@/lib/offline/sync";
+import type { ReplaySummary } from "@/lib/offline/types";
+
+/** the bundle is a few hundred KB plus docs; once per ten minutes of use is plenty */
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+function replayMessage(s: ReplaySummary) {
+  const parts = [];
+  if (s.sent) parts.push(`Sent ${s.sent} queued item${s.sent === 1 ? "" : "s"}`);
+  if (s.conflicts) parts.push(`${s.conflicts} already on the server`);
+  if (s.failed) parts.push(`${s.failed} need${s.failed === 1 ? "s" : ""} attention`);
+  return parts.join(" · ");
+}
+
+/**
+ * App-wide offline plumbing: replays the outbox and refreshes the offline bundle on load and on
+ * reconnect, and shows a banner while there's no signal.
+ */
+export default function OfflineSync() {
+  const [offline, setOffline] = useState(false);
+  const [pending, setPending] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!offlineDbAvailable()) return;
+
+    let alive = true;
+
+    const refreshPending = () =>
+      pendingOutboxCount()
+        .then((n) => alive && setPending(n))
+        .catch(() => {});
+
+    async function catchUp(force: boolean) {
+      if (!navigator.onLine) return;
+      try {
+        const summary = await replayOutbox();
+        if (alive && (summary.sent || summary.conflicts || summary.failed)) setNotice(replayMessage(summary));
+
+        const last = Date.parse((await lastOfflineSync()) || "");
+        if (force || summary.sent || !Number.isFinite(last) || Date.now() - last > SYNC_INTERVAL_MS) {
+          await syncOfflineBundle();
+        }
+      } catch (e) {
+        console.error("OFFLINE_SYNC_ERROR:", e);
+      } finally {
+        refreshPending();
+      }
+    }
+
+    const onOnline = () => {
+      setOffline(false);
+      catchUp(true);
+    };
+    const onOffline = () => setOffline(true);
+
+    setOffline(!navigator.onLine);
+    catchUp(false);
+
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    window.addEventListener(OFFLINE_CHANGED_EVENT, refreshPending);
+    return () => {
+      alive = false;
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.removeEventListener(OFFLINE_CHANGED_EVENT, refreshPending);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const t = setTimeout(() => setNotice(null), 6000);
+    return () => clearTimeout(t);
+  }, [notice]);
+
+  if (!offline && !notice) return null;
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 bottom-[calc(env(safe-area-inset-bottom)+5.5rem)] z-50 flex justify-center px-3">
+      <div className="pointer-events-auto flex max-w-md items-center gap-3 rounded-xl border border-black/10 bg-black/85 px-4 py-2 text-[12px] text-white shadow-lg">
+        {offline ? (
+          <>
+            <span>
+              Offline{pending ? ` · ${pending} queued` : ""}. Saved docs and chats are still available.
+            </span>
+            <Link href="/offline" className="shrink-0 font-semibold underline underline-offset-2">
+              Open
+            </Link>
+          </>
+        ) : (
+          <span>{notice}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import Button from "@/app/components/ui/Button";
 import { Alert } from "@/app/components/ui/Alert";
 import { Select } from "@/app/components/ui/Field";
 import { Tabs, TabButton } from "@/app/components/ui/Tabs";
+import { errorMessage } from "@/lib/errors";
 
 type Role = "admin" | "anchor_rep" | "external_rep";
 
@@ -48,7 +49,19 @@ type KnowledgeDocRow = {
   created_at: string | null;
 };
 
-type TabKey = "feedback" | "corrections" | "docs";
+/** GET /api/admin/quarantine (chunks pulled from retrieval by downvotes) */
+type QuarantinedRow = {
+  chunk_id: string;
+  document_id: string;
+  document_title: string | null;
+  content: string;
+  quarantined_at: string;
+  quarantine_reason: string | null;
+  downvotes: number;
+  upvotes: number;
+};
+
+type TabKey = "feedback" | "corrections" | "docs" | "quarantine";
 
 function fmt(iso?: string | null) {
   if (!iso) return "—";
@@ -73,6 +86,9 @@ export default function AdminKnowledgeTabs({ role }: { role: Role }) {
   const [feedback, setFeedback] = useState<FeedbackRow[]>([]);
   const [corrections, setCorrections] = useState<CorrectionRow[]>([]);
   const [docs, setDocs] = useState<KnowledgeDocRow[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedRow[]>([]);
+  const [quarantineThreshold, setQuarantineThreshold] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
 
   const [loading, setLoading] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
@@ -144,12 +160,30 @@ export default function AdminKnowledgeTabs({ role }: { role: Role }) {
     }
   }
 
+  async function loadQuarantine() {
+    setLoading(true);
+    setErr(null);
+    try {
+      // chunks aren't readable from the browser; the admin route uses the service role
+      const res = await fetch("/api/admin/quarantine", { cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setQuarantined((data?.items || []) as QuarantinedRow[]);
+      setQuarantineThreshold(typeof data?.threshold === "number" ? data.threshold : null);
+    } catch (e) {
+      setErr(errorMessage(e, "Failed to load quarantined chunks"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
   useEffect(() => {
     setMsg(null);
     setErr(null);
     if (tab === "feedback") loadFeedback();
     if (tab === "corrections") loadCorrections();
     if (tab === "docs") loadDocs();
+    if (tab === "quarantine") loadQuarantine();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tab]);
 
@@ -310,6 +344,31 @@ export default function AdminKnowledgeTabs({ role }: { role: Role }) {
     }
   }
 
+  async function restoreQuarantined(chunkId: string) {
+    setMsg(null);
+    setErr(null);
+    setRestoringId(chunkId);
+
+    try {
+      if (role !== "admin") throw new Error("Only admins can restore chunks.");
+
+      const res = await fetch("/api/admin/quarantine", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chunkId, action: "restore" }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+
+      setMsg("Chunk restored to retrieval.");
+      setQuarantined((rows) => rows.filter((r) => r.chunk_id !== chunkId));
+    } catch (e) {
+      setErr(errorMessage(e, "Restore failed"));
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
   return (
     <div className="ds-card border-white/15 bg-white/10 text-white">
       <div className="flex flex-wrap items-center justify-between gap-2 border-b border-white/15 p-3">
@@ -323,6 +382,9 @@ export default function AdminKnowledgeTabs({ role }: { role: Role }) {
           <TabButton active={tab === "docs"} onClick={() => setTab("docs")}>
             Knowledge docs
           </TabButton>
+          <TabButton active={tab === "quarantine"} onClick={() => setTab("quarantine")}>
+            Quarantine
+          </TabButton>
         </Tabs>
 
         <Button
@@ -332,6 +394,7 @@ export default function AdminKnowledgeTabs({ role }: { role: Role }) {
             if (tab === "feedback") loadFeedback();
             if (tab === "corrections") loadCorrections();
             if (tab === "docs") loadDocs();
+            if (tab === "quarantine") loadQuarantine();
           }}
         >
           Refresh
@@ -557,6 +620,62 @@ export default function AdminKnowledgeTabs({ role }: { role: Role }) {
             </div>
           </>
         ) : null}
+
+        {tab === "quarantine" ? (
+          <>
+            <div className="mb-3 flex flex-wrap items-center gap-2 text-[12px] text-white/60">
+              <span>
+                Chunks downvoted by{" "}
+                {quarantineThreshold ? `${quarantineThreshold}+ different users` : "enough users"} are kept out of
+                retrieval until restored.
+              </span>
+              <span className="ml-auto">{loading ? "Loading…" : `${quarantined.length} chunks`}</span>
+            </div>
+
+            <div className="space-y-2">
+              {quarantined.map((q) => (
+                <div key={q.chunk_id} className="rounded-lg border border-white/10 bg-black/30 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-semibold text-white/90">
+                        {q.document_title ?? "(untitled)"}
+                      </div>
+                      <div className="text-[11px] text-white/55">
+                        quarantined: {fmt(q.quarantined_at)} • 👎 {q.downvotes} • 👍 {q.upvotes}
+                      </div>
+                    </div>
+
+                    {role === "admin" ? (
+                      <Button
+                        className="px-3 py-1 text-[12px]"
+                        disabled={restoringId === q.chunk_id}
+                        onClick={() => restoreQuarantined(q.chunk_id)}
+                        variant="secondary"
+                      >
+                        {restoringId === q.chunk_id ? "Restoring…" : "Restore"}
+                      </Button>
+                    ) : null}
+                  </div>
+
+                  <div className="mt-2 whitespace-pre-wrap rounded border border-white/10 bg-black/40 p-2 text-[12px] text-white/90 line-clamp-6">
+                    {q.content}
+                  </div>
+
+                  <div className="mt-2 text-[11px] text-white/50 break-words">
+                    doc: {q.document_id} • chunk: {q.chunk_id}
+                    {q.quarantine_reason ? ` • ${q.quarantine_reason}` : ""}
+                  </div>
+                </div>
+              ))}
+
+              {quarantined.length === 0 && !loading ? (
+                <div className="rounded-lg border border-white/10 bg-black/30 p-3 text-[12px] text-white/70">
+                  No quarantined chunks.
+                </div>
+              ) : null}
+            </div>
+          </>
+        ) : null}
       </div>
     </div>
   );
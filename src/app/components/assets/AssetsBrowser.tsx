@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { supabaseBrowser } from "@/lib/supabase/browser";
 import { Card } from "@/app/components/ui/Card";
 import { Alert } from "@/app/components/ui/Alert";
@@ -172,7 +173,9 @@ export default function AssetsBrowser() {
   const [products, setProducts] = useState<ProductRow[]>([]);
   const [counts, setCounts] = useState<Record<string, { public: number; internal: number }>>({});
 
-  const [q, setQ] = useState("");
+  // deep links from chat (ex: /assets?q=snow%20retention)
+  const searchParams = useSearchParams();
+  const [q, setQ] = useState(() => searchParams.get("q") ?? "");
   const [activeOnly, setActiveOnly] = useState(true);
   const [filter, setFilter] = useState<FilterKey>("all");
 
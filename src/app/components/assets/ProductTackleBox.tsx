@@ -3,6 +3,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { supabaseBrowser } from "@/lib/supabase/browser";
+import { fetchSolutionRows, solutionPrefixesByName } from "@/lib/solutions/catalog";
 import { useRouter } from "next/navigation";
 
 const GLOBAL_SPEC_PATH = "spec/anchor-products-spec-v1.docx";
@@ -200,21 +201,8 @@ function typeFromPath(path: string) {
    or SERIES_ROOTS_BY_SERIES mapping that points to anchor/... roots.
 --------------------------------------------- */
 
+// Solution products come from the solutions catalog (solutionPrefixesByName); these are the anchor overrides.
 const SPECIAL_PREFIXES_BY_NAME: Record<string, string[]> = {
-  // Solutions (examples)
-  "2-Pipe Snow Fence": ["solutions/snow-retention/2-pipe-snow-fence"],
-  "Unitized Snow Fence": ["2pipe/snow-fence", "solutions/snow-retention/unitized-snow-fence"],
-  "Existing Mechanical Tie-Down": ["solutions/hvac"],
-  "Roof-Mounted Elevated Stack Securement": ["solutions/elevated-stack/roof-stack"],
-  "Wall-Mounted Elevated Stack Securement": ["solutions/elevated-stack/wall-stack"],
-  "Roof Mounted Box": ["solutions/roof-box"],
-  "Attached Pipe Frame": ["pipe-frame/attached", "solutions/pipe-frame/attached", "attached"],
-  "Existing Pipe Frame": ["solutions/pipe-frame/exisiting"],
-  "Roof Mounted Guardrail": ["solutions/roof-guardrail"],
-  "Wall Mounted Guardrail": ["solutions/wall-guardrail"],
-  "Wall Mounted Box": ["solutions/wall-box"],
-  "Weather Stations": ["solutions/weather-station"],
-
   // ✅ Anchors (add these if your Product names match exactly)
   "U2000 KEE": ["anchor/u-anchors/u2000/kee"],
   "U2000 PVC": ["anchor/u-anchors/u2000/pvc"],
@@ -365,7 +353,7 @@ async function fetchKnowledgePaths(supabase: ReturnType<typeof supabaseBrowser>,
    Prefix probing
 --------------------------------------------- */
 
-function prefixCandidatesForProduct(p: ProductRow): string[] {
+function prefixCandidatesForProduct(p: ProductRow, specialsByName: Record<string, string[]>): string[] {
   const out: string[] = [];
   const push = (x: string) => {
     const clean = normalizePrefix(x);
@@ -373,7 +361,7 @@ function prefixCandidatesForProduct(p: ProductRow): string[] {
   };
 
   // 1) Exact overrides (best for anchors)
-  const specials = SPECIAL_PREFIXES_BY_NAME[p.name];
+  const specials = specialsByName[p.name];
   if (specials?.length) return Array.from(new Set(specials.map(normalizePrefix)));
 
   const slug = slugifyName(p.name);
@@ -514,7 +502,11 @@ export default function ProductTackleBox({ productId }: { productId: string }) {
       setDbAssets((a as AssetRow[]) ?? []);
 
       // Probe storage prefixes
-      const candidates = prefixCandidatesForProduct(p as ProductRow);
+      const solutionRows = await fetchSolutionRows(supabase);
+      const candidates = prefixCandidatesForProduct(p as ProductRow, {
+        ...solutionPrefixesByName(solutionRows),
+        ...SPECIAL_PREFIXES_BY_NAME,
+      });
       setTriedPrefixes(candidates.map((x) => `${normalizePrefix(x)}/`));
 
       let pickedPrefix = candidates[0] || "";
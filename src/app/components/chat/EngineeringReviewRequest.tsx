@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import type { RecommendedSolution } from "./SolutionCard";
+import { MAX_REVIEW_PHOTOS, MAX_REVIEW_PHOTO_BYTES } from "@/lib/reviews/engineeringReviews";
+import { errorMessage } from "@/lib/errors";
+
+type Props = {
+  conversationId: string | null;
+  /** the rep's question that was escalated */
+  question: string;
+  /** solution resolved so far in the conversation (prefills the ticket) */
+  solution: RecommendedSolution | null;
+  disabled?: boolean;
+};
+
+const FIELD =
+  "w-full rounded-md border border-black/10 bg-white px-3 py-2 text-[13px] text-black outline-none focus:border-[var(--anchor-green)]";
+
+/**
+ * Shown under escalated / redacted answers: turns the chat into an engineering review ticket
+ * (project details + photos; the transcript excerpt is captured server-side).
+ */
+export default function EngineeringReviewRequest({ conversationId, question, solution, disabled }: Props) {
+  const [open, setOpen] = useState(false);
+  const [projectName, setProjectName] = useState("");
+  const [projectLocation, setProjectLocation] = useState("");
+  const [details, setDetails] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentId, setSentId] = useState<string | null>(null);
+
+  async function submit() {
+    setError(null);
+
+    if (!conversationId) {
+      setError("Conversation not ready yet. Try again in a moment.");
+      return;
+    }
+    if (!projectName.trim()) {
+      setError("Project name is required.");
+      return;
+    }
+    if (photos.length > MAX_REVIEW_PHOTOS) {
+      setError(`Attach at most ${MAX_REVIEW_PHOTOS} photos.`);
+      return;
+    }
+    if (photos.some((f) => f.size > MAX_REVIEW_PHOTO_BYTES)) {
+      setError(`Photos must be under ${Math.round(MAX_REVIEW_PHOTO_BYTES / 1024 / 1024)} MB.`);
+      return;
+    }
+
+    const form = new FormData();
+    form.set("conversation_id", conversationId);
+    form.set("project_name", projectName.trim());
+    form.set("project_location", projectLocation.trim());
+    form.set("question", question);
+    form.set("details", details.trim());
+    if (solution) {
+      form.set("solution_key", solution.key);
+      form.set("solution_label", solution.label);
+      form.set("membrane", solution.membrane || "");
+      form.set("storage_folder", solution.storageFolder || "");
+    }
+    for (const file of photos) form.append("photos", file);
+
+    setBusy(true);
+    try {
+      const res = await fetch("/api/engineering-reviews", { method: "POST", body: form });
+      const text = await res.text();
+      let data: { id?: string; error?: string } | null = null;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = null;
+      }
+
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+
+      setSentId(String(data?.id || ""));
+      setOpen(false);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to submit the review request."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (sentId) {
+    return (
+      <div className="max-w-[92%] rounded-2xl border border-[var(--anchor-deep)]/20 bg-[var(--anchor-mint)] px-4 py-3 text-[13px] text-[var(--anchor-deep)]">
+        Sent to Anchor engineering (ref {sentId.slice(0, 8)}). You&apos;ll get an email when they answer.
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="inline-flex items-center rounded-md border border-black/10 bg-[var(--surface-soft)] px-3 py-1.5 text-[12px] font-semibold text-[var(--anchor-deep)] transition hover:bg-[var(--anchor-mint)] disabled:opacity-60"
+      >
+        Request engineering review →
+      </button>
+    );
+  }
+
+  return (
+    <div className="max-w-[92%] rounded-2xl border border-black/10 bg-white px-4 py-3 shadow-sm">
+      <div className="text-[11px] font-semibold uppercase tracking-wide text-[var(--anchor-green)]">
+        Engineering review
+      </div>
+      <div className="mt-1 text-[12px] text-[var(--anchor-gray)]">
+        {solution ? `${solution.label}${solution.membrane ? ` • ${solution.membrane.toUpperCase()}` : ""} — ` : ""}
+        the recent conversation is attached automatically.
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        <input
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          placeholder="Project name *"
+          className={FIELD}
+        />
+        <input
+          value={projectLocation}
+          onChange={(e) => setProjectLocation(e.target.value)}
+          placeholder="Project location (city, state)"
+          className={FIELD}
+        />
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder="Anything engineering should know (roof height, deck, equipment weight…)"
+          rows={3}
+          className={FIELD}
+        />
+        <label className="text-[12px] text-[var(--anchor-gray)]">
+          Photos (optional, up to {MAX_REVIEW_PHOTOS})
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+            className="mt-1 block w-full text-[12px]"
+          />
+        </label>
+      </div>
+
+      {error && <div className="mt-2 text-[12px] text-red-700">{error}</div>}
+
+      <div className="mt-3 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={busy}
+          className="inline-flex items-center rounded-md bg-[var(--anchor-green)] px-3 py-1.5 text-[12px] font-semibold text-white transition hover:opacity-90 disabled:opacity-60"
+        >
+          {busy ? "Sending…" : "Send to engineering"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          disabled={busy}
+          className="rounded-md border border-black/10 bg-white px-3 py-1.5 text-[12px] text-black/70 transition hover:bg-black/[0.03]"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
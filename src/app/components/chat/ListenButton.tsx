@@ -0,0 +1,34 @@
+"use client";
+
+import { useState } from "react";
+import { speakText, stopSpeaking } from "@/lib/voice/playback";
+
+/** Per-answer read-aloud under assistant bubbles; a second tap stops it. */
+export default function ListenButton({ text }: { text: string }) {
+  const [playing, setPlaying] = useState(false);
+
+  async function toggle() {
+    if (playing) {
+      stopSpeaking();
+      setPlaying(false);
+      return;
+    }
+    setPlaying(true);
+    try {
+      await speakText(text);
+    } finally {
+      setPlaying(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      className="rounded-md border border-black/10 bg-white px-2 py-1 text-[11px] text-black/70 transition hover:bg-black/[0.03]"
+      aria-label={playing ? "Stop reading" : "Read answer aloud"}
+    >
+      {playing ? "Stop" : "Listen"}
+    </button>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ProjectFactKey, ProjectFacts, ProjectProfile } from "@/lib/solutions/projectProfile";
+import { errorMessage } from "@/lib/errors";
+
+type Props = {
+  conversationId: string | null;
+  profile: ProjectProfile | null;
+  onSaved: (profile: ProjectProfile) => void;
+  disabled?: boolean;
+};
+
+type Option = { value: string; label: string };
+
+type FieldDef = {
+  key: ProjectFactKey;
+  label: string;
+  /** select fields; free text otherwise */
+  options?: Option[];
+  placeholder?: string;
+};
+
+const FIELDS: FieldDef[] = [
+  { key: "equipment", label: "Equipment", placeholder: "RTU, gas line, solar array…" },
+  {
+    key: "membrane",
+    label: "Membrane",
+    options: [
+      { value: "tpo", label: "TPO" },
+      { value: "pvc", label: "PVC" },
+      { value: "epdm", label: "EPDM" },
+      { value: "kee", label: "KEE" },
+      { value: "sbs", label: "SBS" },
+      { value: "sbs-torch", label: "SBS (torch)" },
+      { value: "app", label: "APP" },
+      { value: "modified-bitumen", label: "Modified bitumen" },
+      { value: "coatings", label: "Coatings" },
+    ],
+  },
+  { key: "roofBrand", label: "Roof brand", placeholder: "Carlisle, GAF…" },
+  {
+    key: "anchorSeries",
+    label: "Anchor series",
+    options: [
+      { value: "2000", label: "2000-series" },
+      { value: "3000", label: "3000-series" },
+      { value: "guy-wire", label: "Guy wire kit" },
+    ],
+  },
+  { key: "anchorModel", label: "Anchor model", placeholder: "U2400" },
+  {
+    key: "mountSurface",
+    label: "Mounted on",
+    options: [
+      { value: "roof", label: "Roof" },
+      { value: "wall", label: "Wall / parapet" },
+    ],
+  },
+  {
+    key: "isExisting",
+    label: "New / existing",
+    options: [
+      { value: "false", label: "New install" },
+      { value: "true", label: "Existing / re-secure" },
+    ],
+  },
+  { key: "location", label: "Location", placeholder: "City, ST" },
+];
+
+const FIELD =
+  "w-full rounded-md border border-black/10 bg-white px-3 py-2 text-[13px] text-black outline-none focus:border-[var(--anchor-green)]";
+
+/** fact value ↔ form string ("" = not set) */
+function toFormValue(v: ProjectFacts[ProjectFactKey]) {
+  return v === null || typeof v === "undefined" ? "" : String(v);
+}
+
+function fromFormValue(key: ProjectFactKey, v: string) {
+  if (!v.trim()) return null;
+  if (key === "isExisting") return v === "true";
+  return v.trim();
+}
+
+function displayValue(def: FieldDef, v: ProjectFacts[ProjectFactKey]) {
+  const s = toFormValue(v);
+  if (!s) return "";
+  if (def.options) return def.options.find((o) => o.value === s)?.label ?? s;
+  return def.key === "anchorModel" ? s.toUpperCase() : s;
+}
+
+/**
+ * What the Co-Pilot knows about the job (conversations.project_profile), shown above the thread.
+ * Facts come from the conversation each turn; anything the rep edits here is kept as-is until they
+ * hand it back with "Auto".
+ */
+export default function ProjectFactsPanel({ conversationId, profile, onSaved, disabled }: Props) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // reset the form whenever the stored profile changes (new turn, other conversation)
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    for (const f of FIELDS) next[f.key] = toFormValue(profile?.facts[f.key] ?? null);
+    setDraft(next);
+    setError(null);
+  }, [profile]);
+
+  const known = FIELDS.map((f) => displayValue(f, profile?.facts[f.key] ?? null)).filter(Boolean);
+
+  async function patch(body: { facts?: Partial<Record<ProjectFactKey, unknown>>; unlock?: ProjectFactKey[] }) {
+    if (!conversationId) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/profile`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+
+      onSaved(data.profile as ProjectProfile);
+      return true;
+    } catch (e) {
+      setError(errorMessage(e, "Failed to save project facts."));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    // only send what changed so untouched facts stay with the extractor
+    const facts: Partial<Record<ProjectFactKey, unknown>> = {};
+    for (const f of FIELDS) {
+      if ((draft[f.key] ?? "") !== toFormValue(profile?.facts[f.key] ?? null)) {
+        facts[f.key] = fromFormValue(f.key, draft[f.key] ?? "");
+      }
+    }
+    if (!Object.keys(facts).length) {
+      setOpen(false);
+      return;
+    }
+    if (await patch({ facts })) setOpen(false);
+  }
+
+  return (
+    <div className="shrink-0 border-b border-black/10 bg-[var(--surface-soft)] px-4 py-2">
+      <div className="flex items-center gap-3">
+        <div className="min-w-0 flex-1 truncate text-[12px]">
+          <span className="font-semibold uppercase tracking-wide text-[var(--anchor-green)]">Project facts</span>{" "}
+          <span className="text-[var(--anchor-gray)]">
+            {known.length ? known.join(" • ") : "Nothing yet — mention the equipment, roof and location."}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen((o) => !o)}
+          disabled={disabled || !conversationId}
+          className="shrink-0 rounded-md border border-black/10 bg-white px-2 py-1 text-[12px] text-black/70 transition hover:bg-black/[0.03] disabled:opacity-60"
+        >
+          {open ? "Close" : "Edit"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-2 pb-1">
+          <div className="grid gap-2 sm:grid-cols-2">
+            {FIELDS.map((f) => {
+              const edited = profile?.sources[f.key] === "user";
+              return (
+                <label key={f.key} className="text-[12px] text-[var(--anchor-gray)]">
+                  <span className="flex items-center gap-2">
+                    {f.label}
+                    {edited && (
+                      <>
+                        <span className="rounded bg-[var(--anchor-mint)] px-1.5 text-[10px] font-semibold text-[var(--anchor-deep)]">
+                          edited
+                        </span>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => patch({ unlock: [f.key] })}
+                          className="text-[11px] underline hover:text-black disabled:opacity-60"
+                          title="Let the Co-Pilot fill this from the conversation again"
+                        >
+                          Auto
+                        </button>
+                      </>
+                    )}
+                  </span>
+                  {f.options ? (
+                    <select
+                      value={draft[f.key] ?? ""}
+                      onChange={(e) => setDraft((d) => ({ ...d, [f.key]: e.target.value }))}
+                      className={`mt-1 ${FIELD}`}
+                    >
+                      <option value="">Not specified</option>
+                      {f.options.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={draft[f.key] ?? ""}
+                      onChange={(e) => setDraft((d) => ({ ...d, [f.key]: e.target.value }))}
+                      placeholder={f.placeholder}
+                      className={`mt-1 ${FIELD}`}
+                    />
+                  )}
+                </label>
+              );
+            })}
+          </div>
+
+          {error && <div className="mt-2 text-[12px] text-red-700">{error}</div>}
+
+          <div className="mt-3 flex items-center gap-2">
+            <button
+              type="button"
+              onClick={save}
+              disabled={busy}
+              className="inline-flex items-center rounded-md bg-[var(--anchor-green)] px-3 py-1.5 text-[12px] font-semibold text-white transition hover:opacity-90 disabled:opacity-60"
+            >
+              {busy ? "Saving…" : "Save facts"}
+            </button>
+            <span className="text-[11px] text-[var(--anchor-gray)]">Edited facts are used as-is on the next message.</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { canRecordAudio, recordingMimeType, stopSpeaking } from "@/lib/voice/playback";
+import { errorMessage } from "@/lib/errors";
+
+type Props = {
+  disabled?: boolean;
+  onTranscript: (text: string) => void;
+  onError?: (message: string) => void;
+};
+
+/** a held button that's never released still ends the recording */
+const MAX_RECORDING_MS = 90_000;
+
+type Phase = "idle" | "recording" | "transcribing";
+
+/**
+ * Hold to talk: records while pressed (pointer or Space/Enter), then sends the clip to
+ * /api/voice/transcribe and hands the text to the composer.
+ */
+export default function PushToTalkButton({ disabled, onTranscript, onError }: Props) {
+  const [supported, setSupported] = useState(false);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setSupported(canRecordAudio());
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      recorderRef.current?.stream.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  async function transcribe(blob: Blob) {
+    setPhase("transcribing");
+    try {
+      const ext = blob.type.includes("mp4") ? "m4a" : blob.type.includes("ogg") ? "ogg" : "webm";
+      const form = new FormData();
+      form.set("audio", blob, `speech.${ext}`);
+
+      const res = await fetch("/api/voice/transcribe", { method: "POST", body: form });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+
+      const text = String(data?.text || "").trim();
+      if (text) onTranscript(text);
+      else onError?.("Didn’t catch that. Try again a little closer to the mic.");
+    } catch (e) {
+      onError?.(errorMessage(e, "Transcription failed."));
+    } finally {
+      setPhase("idle");
+    }
+  }
+
+  async function start() {
+    if (disabled || phase !== "idle" || recorderRef.current) return;
+    stopSpeaking();
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = recordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size) chunksRef.current.push(e.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((t) => t.stop());
+        recorderRef.current = null;
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType || mimeType || "audio/webm" });
+        if (blob.size) transcribe(blob);
+        else setPhase("idle");
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setPhase("recording");
+      timerRef.current = setTimeout(stop, MAX_RECORDING_MS);
+    } catch (e) {
+      setPhase("idle");
+      const blocked = e instanceof DOMException && e.name === "NotAllowedError";
+      onError?.(blocked ? "Microphone access is blocked for this site." : "Couldn’t start the microphone.");
+    }
+  }
+
+  function stop() {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+  }
+
+  if (!supported) return null;
+
+  const label = phase === "recording" ? "Release to send" : phase === "transcribing" ? "…" : "Hold to talk";
+
+  return (
+    <button
+      type="button"
+      disabled={disabled || phase === "transcribing"}
+      onPointerDown={(e) => {
+        e.preventDefault();
+        start();
+      }}
+      onPointerUp={stop}
+      onPointerLeave={stop}
+      onPointerCancel={stop}
+      onKeyDown={(e) => {
+        if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+          e.preventDefault();
+          start();
+        }
+      }}
+      onKeyUp={(e) => {
+        if (e.key === " " || e.key === "Enter") stop();
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+      aria-label="Hold to talk"
+      aria-pressed={phase === "recording"}
+      title="Hold to talk"
+      className={[
+        "ds-btn shrink-0 select-none px-3 py-3 text-sm transition disabled:opacity-50",
+        phase === "recording" ? "bg-red-600 text-white" : "ds-btn-ghost",
+      ].join(" ")}
+    >
+      {label}
+    </button>
+  );
+}
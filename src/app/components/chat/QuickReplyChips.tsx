@@ -0,0 +1,40 @@
+"use client";
+
+export type AskPrompt = {
+  key: string;
+  question: string;
+  options?: string[];
+};
+
+type Props = {
+  step: AskPrompt;
+  disabled?: boolean;
+  onPick: (option: string) => void;
+};
+
+/**
+ * Tappable answers for the intake question the backend wants answered next.
+ * Picking one sends it as the user's next message.
+ */
+export default function QuickReplyChips({ step, disabled, onPick }: Props) {
+  const options = Array.isArray(step.options) ? step.options : [];
+  if (!options.length) return null;
+
+  return (
+    <div className="max-w-[92%]" aria-label={step.question}>
+      <div className="flex flex-wrap gap-2">
+        {options.map((opt) => (
+          <button
+            key={opt}
+            type="button"
+            disabled={disabled}
+            onClick={() => onPick(opt)}
+            className="rounded-full border border-[var(--anchor-green)]/40 bg-white px-3 py-1.5 text-[12px] font-semibold text-[var(--anchor-deep)] transition hover:bg-[var(--anchor-mint)] disabled:opacity-50"
+          >
+            {opt}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+export type RecommendedDoc = {
+  title: string;
+  doc_type: string;
+  path: string;
+  url?: string | null;
+};
+
+function kindLabel(docType: string) {
+  return String(docType || "").replace(/_/g, " ");
+}
+
+/**
+ * One-tap document links for the answer. Rows without a signed url (ex: reloaded history,
+ * where the url has expired) are skipped.
+ */
+export default function RecommendedDocsList({ docs }: { docs: RecommendedDoc[] }) {
+  const linked = (docs || []).filter((d) => !!d.url);
+  if (!linked.length) return null;
+
+  return (
+    <div className="max-w-[92%] rounded-2xl border border-black/10 bg-white px-4 py-3 shadow-sm">
+      <div className="text-[11px] font-semibold uppercase tracking-wide text-[var(--anchor-gray)]">
+        Documents
+      </div>
+      <ul className="mt-2 space-y-1.5">
+        {linked.map((d) => (
+          <li key={d.path}>
+            <a
+              href={d.url!}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-baseline justify-between gap-3 rounded-md px-2 py-1 text-[13px] transition hover:bg-[var(--surface-soft)]"
+            >
+              <span className="font-medium text-[var(--anchor-deep)] underline-offset-2 hover:underline">
+                {d.title}
+              </span>
+              <span className="shrink-0 text-[11px] capitalize text-[var(--anchor-gray)]">{kindLabel(d.doc_type)}</span>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import Link from "next/link";
+
+export type RecommendedSolution = {
+  key: string;
+  label: string;
+  securing: string;
+  anchorSeries: string | null;
+  anchorModel: string | null;
+  membrane: string | null;
+  storageFolder: string | null;
+};
+
+/**
+ * Asset Management search for the solution's tackle box.
+ * Tackle boxes are named after the top-level folder (solutions/snow-retention → "snow retention").
+ */
+function assetsHref(s: RecommendedSolution) {
+  const folder = String(s.storageFolder || s.securing || "").replace(/^solutions\//, "");
+  const top = folder.split("/")[0] || "";
+  const q = top.replace(/-/g, " ").trim();
+  return q ? `/assets?q=${encodeURIComponent(q)}` : "/assets";
+}
+
+function Row({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <div className="flex items-baseline justify-between gap-3">
+      <dt className="text-[12px] text-[var(--anchor-gray)]">{label}</dt>
+      <dd className="text-right text-[13px] font-medium text-black">{value}</dd>
+    </div>
+  );
+}
+
+export default function SolutionCard({ solution }: { solution: RecommendedSolution }) {
+  const series = [solution.anchorSeries, solution.anchorModel?.toUpperCase()].filter(Boolean).join(" • ");
+
+  return (
+    <div className="max-w-[92%] rounded-2xl border border-[var(--anchor-green)]/30 border-l-4 border-l-[var(--anchor-green)] bg-white px-4 py-3 shadow-sm">
+      <div className="text-[11px] font-semibold uppercase tracking-wide text-[var(--anchor-green)]">
+        Recommended solution
+      </div>
+      <div className="mt-1 text-sm font-semibold capitalize text-black">{solution.label}</div>
+
+      <dl className="mt-2 space-y-1">
+        <Row label="Anchor series" value={series || null} />
+        <Row label="Membrane" value={solution.membrane ? solution.membrane.toUpperCase() : "Not specified"} />
+        <Row label="Folder" value={solution.storageFolder} />
+      </dl>
+
+      <Link
+        href={assetsHref(solution)}
+        className="mt-3 inline-flex items-center rounded-md border border-black/10 bg-[var(--surface-soft)] px-3 py-1.5 text-[12px] font-semibold text-[var(--anchor-deep)] transition hover:bg-[var(--anchor-mint)]"
+      >
+        Open in Asset Management →
+      </Link>
+    </div>
+  );
+}
@@ -1,15 +1,42 @@
 "use client";
 
 import { useState } from "react";
+import { submitOrQueue } from "@/lib/offline/outbox";
 
 export type SourceUsed = {
   chunkId: string;
   documentId: string;
   title: string | null;
   similarity: number;
+  /** hybrid / rerank score (older replies only have similarity) */
+  score?: number;
+  scores?: {
+    vector: number | null;
+    keyword: number | null;
+    fused: number;
+    metadata: number;
+    feedback?: number;
+    rerank: number | null;
+    final: number;
+  } | null;
   content: string;
 };
 
+function describeScores(s: SourceUsed) {
+  const c = s.scores;
+  if (!c) return `similarity ${s.similarity.toFixed(3)}`;
+  const fmt = (n: number | null) => (n === null ? "–" : n.toFixed(3));
+  const parts = [
+    `vector ${fmt(c.vector)}`,
+    `keyword ${fmt(c.keyword)}`,
+    `fused ${fmt(c.fused)}`,
+    `metadata +${fmt(c.metadata)}`,
+  ];
+  if (c.feedback) parts.push(`feedback ${c.feedback > 0 ? "+" : ""}${fmt(c.feedback)}`);
+  if (c.rerank !== null) parts.push(`rerank ${fmt(c.rerank)}`);
+  return parts.join(" · ");
+}
+
 type Props = {
   sources: SourceUsed[];
   sessionId?: string | null;
@@ -34,15 +61,27 @@ export default function SourcesFeedback({
   const [sent, setSent] = useState<SentState>({});
   const [error, setError] = useState<string | null>(null);
   const [busyId, setBusyId] = useState<string | null>(null);
+  const [queued, setQueued] = useState(false);
 
   const hasSources = Array.isArray(sources) && sources.length > 0;
 
+  // no signal: the outbox keeps it and sends it on reconnect
   async function postJson(url: string, payload: any) {
-    const res = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
+    const isCorrection = url === "/api/corrections";
+    const sent = await submitOrQueue({
+      kind: "feedback",
+      url,
+      body: { type: "json", value: payload },
+      label: isCorrection
+        ? `Correction: ${String(payload?.correction || "").slice(0, 80)}`
+        : `${payload?.rating >= 4 ? "Helpful" : "Wrong"}: ${String(userMessage || "").slice(0, 80)}`,
     });
+    if (sent.queued) {
+      setQueued(true);
+      return null;
+    }
+
+    const res = sent.res;
 
     const txt = await res.text();
     let data: any = null;
@@ -204,6 +243,12 @@ export default function SourcesFeedback({
         </div>
       ) : null}
 
+      {queued ? (
+        <div className="mb-2 rounded border border-white/10 bg-black/30 p-2 text-[12px] text-white/70">
+          You’re offline. Feedback is saved and will be sent when you reconnect.
+        </div>
+      ) : null}
+
       {/* ✅ NEW: fallback UI when sourcesUsed is empty */}
       {!hasSources ? (
         <div className="rounded-lg border border-white/10 bg-black/30 p-3">
@@ -279,7 +324,9 @@ export default function SourcesFeedback({
                   <div className="min-w-0">
                     <div className="font-medium">
                       {s.title ?? "Untitled"}{" "}
-                      <span className="opacity-60">({s.similarity.toFixed(3)})</span>
+                      <span className="opacity-60" title={describeScores(s)}>
+                        ({(s.score ?? s.similarity).toFixed(3)})
+                      </span>
                     </div>
                     <div className="opacity-80 line-clamp-3 break-words">{s.content}</div>
                   </div>
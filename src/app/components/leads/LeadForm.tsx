@@ -1,8 +1,11 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabaseBrowser } from "@/lib/supabase/browser";
+import { fetchSolutionRows, leadSolutionOptions } from "@/lib/solutions/catalog";
+import { SOLUTION_SEED } from "@/lib/solutions/catalogSeed";
+import { formBody, submitOrQueue } from "@/lib/offline/outbox";
 import Button from "@/app/components/ui/Button";
 import { Card } from "@/app/components/ui/Card";
 import { Alert } from "@/app/components/ui/Alert";
@@ -45,37 +48,19 @@ const US_STATES = [
   "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "FL", "GA", "HI", "ID", "IL", "IN", "IA", "KS", "KY", "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ", "NM", "NY", "NC", "ND", "OH", "OK", "OR", "PA", "RI", "SC", "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY",
 ] as const;
 
-const SOLUTION_OPTIONS: SolutionOption[] = [
-  { key: "solar", label: "Solar / PV Racking" },
-  { key: "snow-retention", label: "Snow Retention" },
-  { key: "pipe-frame-attached", label: "Attached Pipe-Frame (Roof-Mounted H-Frame)" },
-  { key: "duct-securement", label: "Duct Securement" },
-  { key: "hvac-securement", label: "HVAC / RTU Securement" },
-  { key: "elevated-stack-roof", label: "Elevated Stack (Roof-Mounted)" },
-  { key: "elevated-stack-wall", label: "Elevated Stack (Wall / Parapet)" },
-  { key: "roof-box", label: "Roof Box" },
-  { key: "wall-box", label: "Wall / Parapet Box" },
-  { key: "roof-pipe", label: "Roof Pipe Support" },
-  { key: "roof-stairs-walkways", label: "Roof Stairs / Walkways" },
-  { key: "roof-guardrail", label: "Roof Guardrail" },
-  { key: "roof-ladder", label: "Roof Ladder" },
-  { key: "equipment-screen", label: "Equipment Screen" },
-  { key: "signage", label: "Signage" },
-  { key: "weather-station", label: "Weather Station" },
-  { key: "light-mount", label: "Light Mount" },
-  { key: "camera-mount", label: "Camera Mount" },
-  { key: "electrical-disconnect", label: "Electrical Disconnect" },
-  { key: "guy-wire", label: "Guy Wire Securement" },
-];
+// generated from the solutions catalog (rows with a lead_label); the seed renders until the table loads
+const SEED_SOLUTION_OPTIONS: SolutionOption[] = leadSolutionOptions(SOLUTION_SEED);
 
 function clean(v: string) {
   return v.trim();
 }
 
-function buildInitialSolutions() {
-  return Object.fromEntries(
-    SOLUTION_OPTIONS.map((opt) => [opt.key, { selected: false, comment: "", files: [] as File[] }])
-  ) as Record<string, SolutionInput>;
+function emptySolution(): SolutionInput {
+  return { selected: false, comment: "", files: [] };
+}
+
+function buildInitialSolutions(options: SolutionOption[]) {
+  return Object.fromEntries(options.map((opt) => [opt.key, emptySolution()])) as Record<string, SolutionInput>;
 }
 
 export default function LeadForm() {
@@ -99,7 +84,10 @@ export default function LeadForm() {
     video_call_phone: "",
   });
 
-  const [solutions, setSolutions] = useState<Record<string, SolutionInput>>(buildInitialSolutions());
+  const [solutionOptions, setSolutionOptions] = useState<SolutionOption[]>(SEED_SOLUTION_OPTIONS);
+  const [solutions, setSolutions] = useState<Record<string, SolutionInput>>(() =>
+    buildInitialSolutions(SEED_SOLUTION_OPTIONS)
+  );
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -109,9 +97,19 @@ export default function LeadForm() {
     return Array.from({ length: 8 }, (_, i) => String(now + i));
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchSolutionRows(supabase).then((rows) => {
+      if (!cancelled) setSolutionOptions(leadSolutionOptions(rows));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
   const selectedSolutions = useMemo(
-    () => SOLUTION_OPTIONS.filter((opt) => solutions[opt.key]?.selected),
-    [solutions]
+    () => solutionOptions.filter((opt) => solutions[opt.key]?.selected),
+    [solutionOptions, solutions]
   );
 
   function update<K extends keyof FormState>(key: K, value: FormState[K]) {
@@ -120,8 +118,7 @@ export default function LeadForm() {
 
   function toggleSolution(solutionKey: string) {
     setSolutions((prev) => {
-      const current = prev[solutionKey];
-      if (!current) return prev;
+      const current = prev[solutionKey] ?? emptySolution();
       return {
         ...prev,
         [solutionKey]: {
@@ -252,21 +249,30 @@ export default function LeadForm() {
         solutionIndex += 1;
       }
 
-      const res = await fetch("/api/leads", {
-        method: "POST",
-        body: fd,
+      // no signal on site: the outbox keeps the lead (media included) and submits it on reconnect
+      const sent = await submitOrQueue({
+        kind: "lead",
+        url: "/api/leads",
+        body: formBody(fd),
+        label: `Lead: ${form.customer_company}`,
       });
 
-      const text = await res.text();
-      const json = text ? JSON.parse(text) : {};
+      if (!sent.queued) {
+        const text = await sent.res.text();
+        const json = text ? JSON.parse(text) : {};
 
-      if (!res.ok) {
-        setError(json?.error || "Failed to submit lead.");
-        setSubmitting(false);
-        return;
+        if (!sent.res.ok) {
+          setError(json?.error || "Failed to submit lead.");
+          setSubmitting(false);
+          return;
+        }
       }
 
-      setSuccess("Lead submitted. Thanks!");
+      setSuccess(
+        sent.queued
+          ? "You’re offline. The lead is saved on this device and will be submitted when you reconnect."
+          : "Lead submitted. Thanks!"
+      );
       setForm({
         customer_company: "",
         details: "",
@@ -283,7 +289,7 @@ export default function LeadForm() {
         preferred_times: "",
         video_call_phone: "",
       });
-      setSolutions(buildInitialSolutions());
+      setSolutions(buildInitialSolutions(solutionOptions));
       setSubmitting(false);
     } catch (e: any) {
       setError(e?.message || "Failed to submit lead.");
@@ -456,7 +462,7 @@ export default function LeadForm() {
           </div>
 
           <div className="mt-3 grid gap-2 sm:grid-cols-2">
-            {SOLUTION_OPTIONS.map((option) => (
+            {solutionOptions.map((option) => (
               <label key={option.key} className="flex items-center gap-2 rounded-xl border border-black/10 bg-white p-2 text-sm">
                 <input
                   type="checkbox"
@@ -0,0 +1,328 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useMemo, useState } from "react";
+import { supabaseBrowser } from "@/lib/supabase/browser";
+import {
+  REVIEW_STATUSES,
+  reviewStatusLabel,
+  type EngineeringReviewRow,
+  type ReviewPhoto,
+} from "@/lib/reviews/engineeringReviews";
+import { errorMessage } from "@/lib/errors";
+
+type SignedPhoto = ReviewPhoto & { url: string | null };
+
+type ReviewDetailRow = Omit<EngineeringReviewRow, "photos"> & { photos: SignedPhoto[] };
+
+type RepRow = { id: string; email: string | null; role: string | null };
+
+type EmailNotification = { attempted: boolean; sent: boolean; error: string | null; to: string | null } | null;
+
+function clean(v: unknown) {
+  return String(v || "").trim();
+}
+
+function formatDateTime(iso?: string | null) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function EngineeringReviewDetail({ id }: { id: string }) {
+  const supabase = useMemo(() => supabaseBrowser(), []);
+
+  const [review, setReview] = useState<ReviewDetailRow | null>(null);
+  const [reps, setReps] = useState<RepRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string>("");
+  const [assignedTo, setAssignedTo] = useState<string>("");
+  const [response, setResponse] = useState<string>("");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  function apply(row: ReviewDetailRow) {
+    setReview(row);
+    setStatus(row.status || "open");
+    setAssignedTo(row.assigned_to || "");
+    setResponse(row.response || "");
+  }
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/engineering-reviews/${encodeURIComponent(id)}`, { cache: "no-store" });
+      const text = await res.text();
+      const json = text ? JSON.parse(text) : {};
+
+      if (!res.ok) {
+        setError(json?.error || "Failed to load review.");
+        setReview(null);
+        setLoading(false);
+        return;
+      }
+
+      apply(json?.review as ReviewDetailRow);
+
+      const { data: repRows } = await supabase
+        .from("profiles")
+        .select("id,email,role")
+        .in("role", ["admin", "anchor_rep"]);
+
+      setReps((repRows || []) as RepRow[]);
+      setLoading(false);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to load review."));
+      setReview(null);
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/engineering-reviews/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          status,
+          assigned_to: assignedTo || null,
+          response,
+        }),
+      });
+
+      const text = await res.text();
+      const json = text ? JSON.parse(text) : {};
+
+      if (!res.ok) {
+        setError(json?.error || "Failed to update review.");
+        setSaving(false);
+        return;
+      }
+
+      if (json?.review) apply(json.review as ReviewDetailRow);
+
+      const email = json?.email_notification as EmailNotification;
+      if (email?.sent) setNotice(`Saved. ${email.to} was emailed the response.`);
+      else if (email?.attempted) setNotice(`Saved, but the email to the rep failed: ${email.error || "unknown error"}`);
+      else setNotice("Saved.");
+
+      setSaving(false);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to update review."));
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="rounded-3xl border border-black/10 bg-white p-5 text-sm text-black/60 shadow-sm">
+        Loading…
+      </div>
+    );
+  }
+
+  if (!review) {
+    return (
+      <div className="rounded-3xl border border-red-200 bg-red-50 p-5 text-sm text-red-700 shadow-sm">
+        {error || "Review not found."}
+      </div>
+    );
+  }
+
+  const rules = [...(review.escalation?.pre || []), ...(review.escalation?.post || [])];
+
+  return (
+    <div className="grid gap-5">
+      <section className="rounded-3xl border border-black/10 bg-white p-5 shadow-sm">
+        <div className="text-sm font-semibold text-black">Project</div>
+        <div className="mt-2 text-sm text-[#76777B]">{review.project_name}</div>
+
+        <div className="mt-4 grid gap-3 text-sm">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <div className="text-[12px] font-semibold text-black/70">Location</div>
+              <div>{review.project_location || "—"}</div>
+            </div>
+            <div>
+              <div className="text-[12px] font-semibold text-black/70">Requested by</div>
+              <div>{review.requested_by_email || "Unknown"}</div>
+            </div>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div>
+              <div className="text-[12px] font-semibold text-black/70">Solution</div>
+              <div>{review.solution_label || "—"}</div>
+            </div>
+            <div>
+              <div className="text-[12px] font-semibold text-black/70">Membrane</div>
+              <div>{review.membrane || "—"}</div>
+            </div>
+            <div>
+              <div className="text-[12px] font-semibold text-black/70">Document folder</div>
+              <div>{review.storage_folder || "—"}</div>
+            </div>
+          </div>
+          <div>
+            <div className="text-[12px] font-semibold text-black/70">Question</div>
+            <div className="whitespace-pre-wrap">{review.question}</div>
+          </div>
+          {review.details && (
+            <div>
+              <div className="text-[12px] font-semibold text-black/70">Additional details</div>
+              <div className="whitespace-pre-wrap">{review.details}</div>
+            </div>
+          )}
+          <div>
+            <div className="text-[12px] font-semibold text-black/70">Escalation</div>
+            <div>
+              {review.escalation?.outcome === "partial" ? "Partial answer" : review.escalation?.outcome ? "Escalated" : "—"}
+              {rules.length ? ` · ${rules.join(", ")}` : ""}
+              {review.escalation?.redacted ? ` · ${review.escalation.redacted} statement(s) redacted` : ""}
+            </div>
+          </div>
+          <div>
+            <div className="text-[12px] font-semibold text-black/70">Submitted</div>
+            <div>{formatDateTime(review.created_at)}</div>
+          </div>
+        </div>
+      </section>
+
+      <section className="rounded-3xl border border-black/10 bg-white p-5 shadow-sm">
+        <div className="text-sm font-semibold text-black">Transcript excerpt</div>
+        {review.transcript_excerpt ? (
+          <div className="mt-3 max-h-96 overflow-y-auto whitespace-pre-wrap rounded-2xl border border-black/10 bg-[#F6F7F8] p-4 text-[13px] text-black/80">
+            {review.transcript_excerpt}
+          </div>
+        ) : (
+          <div className="mt-3 rounded-2xl border border-black/10 bg-[#F6F7F8] p-4 text-sm text-black/60">
+            No transcript captured.
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-3xl border border-black/10 bg-white p-5 shadow-sm">
+        <div className="text-sm font-semibold text-black">Photos</div>
+
+        {review.photos.length === 0 ? (
+          <div className="mt-3 rounded-2xl border border-black/10 bg-[#F6F7F8] p-4 text-sm text-black/60">
+            No photos uploaded.
+          </div>
+        ) : (
+          <div className="mt-3 grid gap-3 sm:grid-cols-3">
+            {review.photos.map((photo) => (
+              <a
+                key={photo.path}
+                href={photo.url || "#"}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block overflow-hidden rounded-xl border border-black/10 bg-white hover:bg-black/[0.03]"
+              >
+                {photo.url && (
+                  // signed storage URL: served as-is, not through the image optimizer
+                  <Image
+                    src={photo.url}
+                    alt={photo.filename}
+                    width={320}
+                    height={160}
+                    unoptimized
+                    className="h-40 w-full object-cover"
+                  />
+                )}
+                <div className="truncate p-3 text-[12px] font-semibold text-black">{photo.filename}</div>
+              </a>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-3xl border border-black/10 bg-white p-5 shadow-sm">
+        <div className="text-sm font-semibold text-black">Engineering response</div>
+
+        <div className="mt-4 grid gap-3 sm:grid-cols-2">
+          <label className="grid gap-1 text-sm">
+            <span className="font-semibold">Status</span>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="h-10 rounded-xl border border-black/10 bg-white px-3 text-sm"
+            >
+              {REVIEW_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {reviewStatusLabel(s)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="grid gap-1 text-sm">
+            <span className="font-semibold">Assigned engineer</span>
+            <select
+              value={assignedTo}
+              onChange={(e) => setAssignedTo(e.target.value)}
+              className="h-10 rounded-xl border border-black/10 bg-white px-3 text-sm"
+            >
+              <option value="">Unassigned</option>
+              {reps.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {clean(r.email) || r.id}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="mt-3 grid gap-1 text-sm">
+          <span className="font-semibold">Response to the rep</span>
+          <textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={6}
+            className="rounded-xl border border-black/10 bg-white px-3 py-2 text-sm"
+            placeholder="Engineering guidance for this project…"
+          />
+        </label>
+
+        <div className="mt-2 text-[12px] text-[#76777B]">
+          Setting the status to Answered emails the response to {review.requested_by_email || "the rep"}.
+          {review.notified_at && ` Emailed ${formatDateTime(review.notified_at)}.`}
+          {!review.notified_at && review.notify_error && ` Last email attempt failed: ${review.notify_error}`}
+        </div>
+
+        {error && (
+          <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={save}
+            disabled={saving}
+            className="inline-flex items-center justify-center rounded-xl bg-[#047835] px-4 py-2 text-[12px] font-semibold text-white disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save changes"}
+          </button>
+
+          {notice && <span className="self-center text-[12px] text-black/60">{notice}</span>}
+        </div>
+      </section>
+    </div>
+  );
+}
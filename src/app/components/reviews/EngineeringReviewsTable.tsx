@@ -0,0 +1,145 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Card } from "@/app/components/ui/Card";
+import { Select } from "@/app/components/ui/Field";
+import { Alert } from "@/app/components/ui/Alert";
+import { Table, TableWrapper } from "@/app/components/ui/Table";
+import { REVIEW_STATUSES, reviewStatusLabel } from "@/lib/reviews/engineeringReviews";
+import { errorMessage } from "@/lib/errors";
+
+type ReviewRow = {
+  id: string;
+  status: string;
+  project_name: string;
+  project_location: string | null;
+  membrane: string | null;
+  solution_label: string | null;
+  requested_by_email: string | null;
+  assigned_to: string | null;
+  created_at: string;
+  answered_at: string | null;
+};
+
+function formatWhen(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export default function EngineeringReviewsTable() {
+  // open work first; "All statuses" is one click away
+  const [status, setStatus] = useState("open");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<ReviewRow[]>([]);
+
+  async function load() {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (status) params.set("status", status);
+
+      const res = await fetch(`/api/engineering-reviews?${params.toString()}`, { cache: "no-store" });
+      const text = await res.text();
+      const json = text ? JSON.parse(text) : {};
+
+      if (!res.ok) {
+        setError(json?.error || "Failed to load reviews.");
+        setReviews([]);
+        setLoading(false);
+        return;
+      }
+
+      setReviews((json?.reviews || []) as ReviewRow[]);
+      setLoading(false);
+    } catch (e) {
+      setError(errorMessage(e, "Failed to load reviews."));
+      setReviews([]);
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  return (
+    <Card className="p-5">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="text-sm font-semibold text-black">Reviews</div>
+          <div className="mt-1 text-sm text-[var(--anchor-gray)]">Requests raised from escalated chats</div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="h-9 px-3 text-[12px] font-semibold"
+          >
+            <option value="">All statuses</option>
+            {REVIEW_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {reviewStatusLabel(s)}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        {error ? (
+          <Alert tone="error">{error}</Alert>
+        ) : loading ? (
+          <Alert tone="neutral">Loading…</Alert>
+        ) : reviews.length === 0 ? (
+          <Alert tone="neutral">No reviews found.</Alert>
+        ) : (
+          <TableWrapper>
+            <Table>
+              <thead>
+                <tr>
+                  <th>Project</th>
+                  <th>Solution</th>
+                  <th>Membrane</th>
+                  <th>Requested by</th>
+                  <th>Status</th>
+                  <th>Created</th>
+                  <th>Assignment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map((review) => (
+                  <tr key={review.id}>
+                    <td>
+                      <Link
+                        href={`/dashboard/reviews/${encodeURIComponent(review.id)}`}
+                        className="font-semibold text-[var(--anchor-deep)] hover:text-[var(--anchor-green)]"
+                      >
+                        {review.project_name}
+                      </Link>
+                      {review.project_location && (
+                        <div className="text-[12px] text-[var(--anchor-gray)]">{review.project_location}</div>
+                      )}
+                    </td>
+                    <td className="text-[var(--anchor-gray)]">{review.solution_label || "—"}</td>
+                    <td className="text-[var(--anchor-gray)]">{review.membrane || "—"}</td>
+                    <td className="text-[var(--anchor-gray)]">{review.requested_by_email || "Unknown"}</td>
+                    <td className="text-[var(--anchor-gray)]">{reviewStatusLabel(review.status)}</td>
+                    <td className="text-[var(--anchor-gray)]">{formatWhen(review.created_at)}</td>
+                    <td className="text-[var(--anchor-gray)]">{review.assigned_to ? "Assigned" : "Unassigned"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </TableWrapper>
+        )}
+      </div>
+    </Card>
+  );
+}
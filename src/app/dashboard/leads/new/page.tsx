@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabaseBrowser } from "@/lib/supabase/browser";
+import { isOffline } from "@/lib/offline/outbox";
 import LeadForm from "@/app/components/leads/LeadForm";
 import { Card } from "@/app/components/ui/Card";
 import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
@@ -22,7 +23,8 @@ export default function NewLeadPage() {
       const { data } = await supabase.auth.getUser();
       if (!alive) return;
 
-      if (!data.user) {
+      // no signal: the session can't be checked, but the lead can still be queued
+      if (!data.user && !isOffline()) {
         router.replace("/");
         return;
       }
@@ -5,6 +5,9 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 import { supabaseBrowser } from "@/lib/supabase/browser";
+import { clearOfflineData, offlineDbAvailable } from "@/lib/offline/db";
+import { pendingOutboxCount } from "@/lib/offline/outbox";
+import { OFFLINE_DOCS_CACHE } from "@/lib/offline/types";
 import Button from "@/app/components/ui/Button";
 import { Card } from "@/app/components/ui/Card";
 import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
@@ -22,6 +25,14 @@ export default function DashboardPage() {
 
 
   async function signOut() {
+    // a shared device shouldn't keep the last rep's chats and docs
+    if (offlineDbAvailable()) {
+      const pending = await pendingOutboxCount().catch(() => 0);
+      if (pending && !window.confirm(`${pending} queued item(s) haven’t been sent yet. Sign out and discard them?`)) return;
+      await clearOfflineData().catch((e) => console.error("OFFLINE_CLEAR_ERROR:", e));
+      if (typeof caches !== "undefined") await caches.delete(OFFLINE_DOCS_CACHE).catch(() => false);
+    }
+
     await supabase.auth.signOut();
     router.replace("/");
     router.refresh();
@@ -247,6 +258,32 @@ export default function DashboardPage() {
               </Card>
             </Link>
           )}
+
+          {roleReady && isInternal && (
+            <Link
+              href="/dashboard/reviews"
+              className="group transition-transform duration-200 hover:-translate-y-0.5"
+            >
+              <Card className="h-full border-t-4 border-t-[var(--anchor-green)] p-6 transition-shadow duration-200 hover:shadow-lg">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="text-lg font-semibold">Engineering Reviews</div>
+                    <div className="mt-1 text-sm text-[var(--anchor-gray)]">
+                      Answer escalated Co-Pilot questions for reps in the field.
+                    </div>
+                  </div>
+                  <span className="inline-flex items-center rounded-full border border-black/10 bg-[var(--surface-soft)] px-3 py-1 text-[12px] font-semibold text-[var(--anchor-deep)]">
+                    Queue
+                  </span>
+                </div>
+                <div className="mt-5 flex items-center justify-between">
+                  <div className="text-sm font-semibold text-[var(--anchor-green)]">
+                    Open Queue <span className="inline-block transition group-hover:translate-x-1">→</span>
+                  </div>
+                </div>
+              </Card>
+            </Link>
+          )}
         </div>
 
       </div>
@@ -0,0 +1,5 @@
+import ReviewsPageClient from "./ReviewsPageClient";
+
+export default function ReviewsPage() {
+  return <ReviewsPageClient />;
+}
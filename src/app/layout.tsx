@@ -1,6 +1,7 @@
 // src/app/layout.tsx
 import "./globals.css";
 import type { Metadata, Viewport } from "next";
+import OfflineSync from "./components/OfflineSync";
 
 export const metadata: Metadata = {
   title: {
@@ -41,6 +42,7 @@ export default function RootLayout({
     <html lang="en">
       <body>
         {children}
+        <OfflineSync />
       </body>
     </html>
   );
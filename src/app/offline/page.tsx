@@ -0,0 +1,409 @@
+// src/app/offline/page.tsx
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { idbAll, offlineDbAvailable, OFFLINE_CHANGED_EVENT } from "@/lib/offline/db";
+import { discardOutboxItem, enqueueOutbox, listOutbox, replayOutbox, retryOutboxItem } from "@/lib/offline/outbox";
+import { cachedDocPaths, lastOfflineSync, offlineDocUrl, syncOfflineBundle } from "@/lib/offline/sync";
+import {
+  OFFLINE_DOCS_CACHE,
+  type OfflineCatalogEntry,
+  type OfflineConversation,
+  type OfflineDoc,
+  type OutboxItem,
+  type OutboxStatus,
+} from "@/lib/offline/types";
+import { Alert } from "@/app/components/ui/Alert";
+import Button from "@/app/components/ui/Button";
+import { Card } from "@/app/components/ui/Card";
+import { Input } from "@/app/components/ui/Field";
+import { Navbar, NavbarInner } from "@/app/components/ui/Navbar";
+import { TabButton, Tabs } from "@/app/components/ui/Tabs";
+import { errorMessage } from "@/lib/errors";
+
+type Tab = "queue" | "docs" | "catalog" | "chats";
+
+const STATUS_LABEL: Record<OutboxStatus, string> = {
+  queued: "Queued",
+  sending: "Sending…",
+  done: "Sent",
+  conflict: "Already sent",
+  failed: "Needs attention",
+};
+
+const KIND_LABEL: Record<OutboxItem["kind"], string> = {
+  chat: "Question",
+  feedback: "Feedback",
+  lead: "Lead",
+};
+
+function when(iso?: string | null) {
+  if (!iso) return "never";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "—" : d.toLocaleString();
+}
+
+/** Read from Cache Storage directly, so saved docs open even before the service worker takes over. */
+async function openSavedDoc(doc: OfflineDoc) {
+  const win = window.open("", "_blank");
+  try {
+    const cache = await caches.open(OFFLINE_DOCS_CACHE);
+    const hit = await cache.match(offlineDocUrl(doc.path));
+    if (!hit) throw new Error("not cached");
+    const url = URL.createObjectURL(await hit.blob());
+    if (win) win.location.href = url;
+    else window.location.href = url;
+  } catch {
+    if (win) win.location.href = offlineDocUrl(doc.path);
+  }
+}
+
+/**
+ * What works without signal: saved docs, the solution catalog, recent chats (read-only, with
+ * questions queued for reconnect) and the outbox. Also the service worker's offline fallback page.
+ */
+export default function OfflinePage() {
+  const [tab, setTab] = useState<Tab>("docs");
+  const [online, setOnline] = useState(true);
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [docs, setDocs] = useState<OfflineDoc[]>([]);
+  const [saved, setSaved] = useState<Set<string>>(new Set());
+  const [catalog, setCatalog] = useState<OfflineCatalogEntry[]>([]);
+  const [conversations, setConversations] = useState<OfflineConversation[]>([]);
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+
+  const [query, setQuery] = useState("");
+  const [openConversationId, setOpenConversationId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const load = useCallback(async () => {
+    if (!offlineDbAvailable()) {
+      setError("This browser can’t store data for offline use.");
+      return;
+    }
+    try {
+      const [d, c, convs, items, at, paths] = await Promise.all([
+        idbAll("docs"),
+        idbAll("catalog"),
+        idbAll("conversations"),
+        listOutbox(),
+        lastOfflineSync(),
+        cachedDocPaths(),
+      ]);
+      setDocs(d);
+      setCatalog(c);
+      setConversations(convs.sort((a, b) => b.updated_at.localeCompare(a.updated_at)));
+      setOutbox(items);
+      setSyncedAt(at);
+      setSaved(paths);
+    } catch (e) {
+      setError(errorMessage(e, "Couldn’t read offline data."));
+    }
+  }, []);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    load();
+
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    window.addEventListener(OFFLINE_CHANGED_EVENT, load);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.removeEventListener(OFFLINE_CHANGED_EVENT, load);
+    };
+  }, [load]);
+
+  async function syncNow() {
+    setSyncing(true);
+    setError(null);
+    try {
+      await replayOutbox();
+      const bundle = await syncOfflineBundle();
+      if (!bundle) setError("Sign in to save docs and chats for offline use.");
+    } catch (e) {
+      setError(errorMessage(e, "Sync failed."));
+    } finally {
+      setSyncing(false);
+      load();
+    }
+  }
+
+  async function queueQuestion(conversationId: string) {
+    const text = draft.trim();
+    if (!text) return;
+    await enqueueOutbox({
+      kind: "chat",
+      url: "/api/chat",
+      body: { type: "json", value: { text } },
+      label: text,
+      conversationId,
+    });
+    setDraft("");
+  }
+
+  const pending = outbox.filter((i) => i.status === "queued" || i.status === "sending" || i.status === "failed");
+
+  const filteredCatalog = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return catalog;
+    return catalog.filter((s) =>
+      [s.label, s.family, s.summary, s.components, ...(s.aliases || []), ...(s.product_names || [])]
+        .filter(Boolean)
+        .some((v) => String(v).toLowerCase().includes(q))
+    );
+  }, [catalog, query]);
+
+  const openConversation = conversations.find((c) => c.id === openConversationId) || null;
+  const queuedForConversation = outbox.filter(
+    (i) => i.kind === "chat" && i.conversationId === openConversationId && i.status !== "done" && i.status !== "conflict"
+  );
+
+  return (
+    <main className="ds-page">
+      <Navbar>
+        <NavbarInner className="max-w-5xl">
+          <div className="flex min-w-0 items-center gap-3">
+            <Link href="/dashboard" className="inline-flex shrink-0 items-center">
+              <Image src="/anchorp.svg" alt="Anchor" width={40} height={40} className="ds-logo" />
+            </Link>
+            <div className="min-w-0 leading-tight">
+              <div className="truncate text-sm font-semibold tracking-wide text-white">Offline library</div>
+              <div className="truncate text-[12px] text-white/80">{online ? "Online" : "No connection"}</div>
+            </div>
+          </div>
+
+          <Link href="/chat" className="ds-btn ds-btn-ghost h-9 px-3">
+            Chat
+          </Link>
+        </NavbarInner>
+      </Navbar>
+
+      <div className="mx-auto max-w-5xl px-5 py-6">
+        <Card className="mb-4 border-t-4 border-t-[var(--anchor-green)] p-6">
+          <div className="ds-caption">Offline</div>
+          <h1 className="mt-2 text-2xl">Saved for no-signal rooftops</h1>
+          <p className="mt-1 text-sm text-[var(--anchor-gray)]">
+            Your most-opened and recent documents, the solution catalog and recent chats. Questions, feedback and
+            leads made offline are sent when you reconnect.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-[12px] text-black/60">
+            <span>Last synced: {when(syncedAt)}</span>
+            <Button variant="secondary" className="h-8 px-3 text-[12px]" onClick={syncNow} disabled={!online || syncing}>
+              {syncing ? "Syncing…" : "Sync now"}
+            </Button>
+          </div>
+        </Card>
+
+        {error && (
+          <Alert tone="error" className="mb-4">
+            {error}
+          </Alert>
+        )}
+
+        <Tabs className="mb-4">
+          <TabButton active={tab === "docs"} onClick={() => setTab("docs")}>
+            Documents ({docs.length})
+          </TabButton>
+          <TabButton active={tab === "catalog"} onClick={() => setTab("catalog")}>
+            Catalog
+          </TabButton>
+          <TabButton active={tab === "chats"} onClick={() => setTab("chats")}>
+            Chats
+          </TabButton>
+          <TabButton active={tab === "queue"} onClick={() => setTab("queue")}>
+            Queue{pending.length ? ` (${pending.length})` : ""}
+          </TabButton>
+        </Tabs>
+
+        {tab === "docs" && (
+          <Card className="p-5">
+            {!docs.length ? (
+              <div className="text-sm text-black/60">
+                Nothing saved yet. Documents you open are saved automatically the next time you’re online.
+              </div>
+            ) : (
+              <ul className="divide-y divide-black/10">
+                {docs.map((d) => (
+                  <li key={d.path} className="flex items-center justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-semibold">{d.title}</div>
+                      <div className="truncate text-[12px] text-black/55">
+                        {d.reason === "favorite" ? `Favorite · opened ${d.opens}×` : "Recent"}
+                        {d.docType ? ` · ${d.docType}` : ""}
+                        {saved.has(d.path) ? "" : " · not downloaded yet"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      className="h-8 shrink-0 px-3 text-[12px]"
+                      onClick={() => openSavedDoc(d)}
+                      disabled={!saved.has(d.path) && !online}
+                    >
+                      Open
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        )}
+
+        {tab === "catalog" && (
+          <Card className="p-5">
+            <Input
+              className="mb-3 w-full px-3 py-2 text-sm"
+              placeholder="Search solutions (RTU, snow fence, pipe…)"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            {!filteredCatalog.length ? (
+              <div className="text-sm text-black/60">{catalog.length ? "No matches." : "Catalog not saved yet."}</div>
+            ) : (
+              <ul className="divide-y divide-black/10">
+                {filteredCatalog.map((s) => (
+                  <li key={s.key} className="py-3">
+                    <div className="text-sm font-semibold">
+                      {s.label}
+                      {s.family ? <span className="ml-2 text-[12px] font-normal text-black/50">{s.family}</span> : null}
+                    </div>
+                    <div className="mt-1 text-[13px] text-black/70">{s.summary}</div>
+                    <div className="mt-1 text-[12px] text-black/50">
+                      {s.anchor_type} anchors{s.components ? ` ${s.components}` : ""}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        )}
+
+        {tab === "chats" && (
+          <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+            <Card className="p-3">
+              {!conversations.length ? (
+                <div className="p-2 text-sm text-black/60">No chats saved yet.</div>
+              ) : (
+                <ul className="space-y-1">
+                  {conversations.map((c) => (
+                    <li key={c.id}>
+                      <button
+                        type="button"
+                        onClick={() => setOpenConversationId(c.id)}
+                        className={[
+                          "w-full truncate rounded-lg px-3 py-2 text-left text-sm transition",
+                          c.id === openConversationId ? "bg-[var(--anchor-mint)]" : "hover:bg-black/[0.03]",
+                        ].join(" ")}
+                      >
+                        {c.title}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Card>
+
+            <Card className="p-4">
+              {!openConversation ? (
+                <div className="text-sm text-black/60">Pick a chat to read it.</div>
+              ) : (
+                <div className="space-y-3">
+                  {openConversation.messages.map((m, i) => (
+                    <div
+                      key={i}
+                      className={[
+                        "max-w-[92%] whitespace-pre-wrap rounded-2xl px-4 py-3 text-sm leading-relaxed",
+                        m.role === "user"
+                          ? "ml-auto border border-[var(--anchor-deep)]/20 bg-[var(--anchor-mint)]"
+                          : "border border-black/10 bg-[var(--surface-soft)]",
+                      ].join(" ")}
+                    >
+                      {m.content}
+                    </div>
+                  ))}
+
+                  {queuedForConversation.map((q) => (
+                    <div
+                      key={q.id}
+                      className="ml-auto max-w-[92%] whitespace-pre-wrap rounded-2xl border border-dashed border-black/20 px-4 py-3 text-sm text-black/70"
+                    >
+                      {q.label}
+                      <div className="mt-1 text-[11px] text-black/50">{STATUS_LABEL[q.status]} · sends when you’re back online</div>
+                    </div>
+                  ))}
+
+                  <div className="flex gap-2 pt-2">
+                    <Input
+                      className="min-w-0 flex-1 px-3 py-3 text-sm"
+                      placeholder="Ask now, sent when you reconnect…"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          queueQuestion(openConversation.id);
+                        }
+                      }}
+                    />
+                    <Button className="shrink-0 px-4 py-3 text-sm" onClick={() => queueQuestion(openConversation.id)}>
+                      Queue
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </div>
+        )}
+
+        {tab === "queue" && (
+          <Card className="p-5">
+            {!outbox.length ? (
+              <div className="text-sm text-black/60">Nothing queued.</div>
+            ) : (
+              <ul className="divide-y divide-black/10">
+                {[...outbox].reverse().map((item) => (
+                  <li key={item.id} className="flex items-start justify-between gap-3 py-3">
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-semibold">
+                        {KIND_LABEL[item.kind]}: {item.label}
+                      </div>
+                      <div className="text-[12px] text-black/55">
+                        {STATUS_LABEL[item.status]} · queued {when(item.createdAt)}
+                        {item.attempts ? ` · ${item.attempts} attempt${item.attempts === 1 ? "" : "s"}` : ""}
+                      </div>
+                      {item.note && <div className="mt-1 text-[12px] text-black/70">{item.note}</div>}
+                      {item.error && <div className="mt-1 text-[12px] text-red-700">{item.error}</div>}
+                      {item.kind === "chat" && item.result && (
+                        <div className="mt-2 line-clamp-3 whitespace-pre-wrap text-[13px] text-black/70">{item.result}</div>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      {item.status === "failed" && (
+                        <Button variant="secondary" className="h-8 px-3 text-[12px]" onClick={() => retryOutboxItem(item.id)}>
+                          Retry
+                        </Button>
+                      )}
+                      {item.status !== "sending" && (
+                        <Button variant="ghost" className="h-8 px-3 text-[12px]" onClick={() => discardOutboxItem(item.id)}>
+                          {item.status === "done" || item.status === "conflict" ? "Clear" : "Discard"}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,184 @@
+// src/lib/chat/context.ts
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Conversation context window for /api/chat.
+ *
+ * The prompt gets the rolling summary (chat_summaries, folded by maybeSummarizeSession) plus the turns
+ * it hasn't folded yet. The last N turns are always kept verbatim; older unfolded turns only fill
+ * whatever budget is left. Everything is measured against a token budget so a long call never
+ * outgrows the model's input.
+ */
+
+export type ContextMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type ConversationSummary = {
+  summary: string;
+  bullets: string[];
+  /** newest chat_messages.created_at folded into the summary */
+  lastMessageAt: string | null;
+};
+
+export type ContextWindow = {
+  /** "Earlier in this conversation…" block + verbatim turns, ready for the user prompt */
+  transcript: string;
+  stats: {
+    tokens: number;
+    summaryTokens: number;
+    verbatimTurns: number;
+    droppedTurns: number;
+    trimmedTurns: number;
+  };
+};
+
+/** last N turns always kept (one turn = one user or assistant message) */
+export const DEFAULT_CONTEXT_TURNS = 8;
+/** tokens for summary + transcript; the system prompt and grounding blocks are on top */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 4000;
+/** the summary never takes more than this share of the budget */
+const SUMMARY_BUDGET_SHARE = 0.35;
+
+export function contextSettingsFromEnv() {
+  return {
+    keepTurns: Number(process.env.CHAT_CONTEXT_TURNS) || DEFAULT_CONTEXT_TURNS,
+    tokenBudget: Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET) || DEFAULT_CONTEXT_TOKEN_BUDGET,
+  };
+}
+
+/**
+ * ~4 characters per token for English prose. Deliberately rough: the budget has headroom,
+ * and counting never needs a tokenizer round-trip.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(String(text || "").length / 4);
+}
+
+/** Keep the start and end of an oversized message (the ask is usually at one end). */
+function trimToTokens(text: string, maxTokens: number) {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const keep = Math.max(0, maxTokens * 4 - 40);
+  const head = Math.ceil(keep * 0.6);
+  const tail = keep - head;
+  return `${text.slice(0, head)} […${text.length - keep} chars trimmed…] ${tail ? text.slice(-tail) : ""}`.trim();
+}
+
+function formatTurn(m: ContextMessage) {
+  return `${m.role}: ${m.content}`;
+}
+
+function formatSummary(s: ConversationSummary) {
+  const bullets = s.bullets.filter(Boolean).map((b) => `• ${b}`);
+  return ["Earlier in this conversation (summary):", s.summary.trim(), ...bullets].filter(Boolean).join("\n");
+}
+
+/**
+ * Summary first (capped), then the last `keepTurns` newest-first, then older turns while budget remains.
+ * The newest turn is always included, trimmed if it alone exceeds what's left.
+ */
+export function buildContextWindow(params: {
+  messages: ContextMessage[];
+  summary?: ConversationSummary | null;
+  keepTurns?: number;
+  tokenBudget?: number;
+}): ContextWindow {
+  const keepTurns = Math.max(1, params.keepTurns ?? DEFAULT_CONTEXT_TURNS);
+  const budget = Math.max(200, params.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET);
+  const messages = params.messages.filter((m) => m.content.trim());
+
+  let summaryBlock = "";
+  if (params.summary?.summary.trim()) {
+    summaryBlock = trimToTokens(formatSummary(params.summary), Math.floor(budget * SUMMARY_BUDGET_SHARE));
+  }
+  const summaryTokens = estimateTokens(summaryBlock);
+  let left = budget - summaryTokens;
+
+  const picked: string[] = [];
+  let trimmedTurns = 0;
+  let dropped = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const line = formatTurn(messages[i]);
+    const cost = estimateTokens(line);
+    const isRecent = messages.length - i <= keepTurns;
+
+    if (cost <= left) {
+      picked.push(line);
+      left -= cost;
+      continue;
+    }
+
+    // the newest turn always goes in; other recent turns are trimmed while there's room worth using
+    if (picked.length === 0 || (isRecent && left >= 100)) {
+      picked.push(trimToTokens(line, Math.max(left, 50)));
+      left = 0;
+      trimmedTurns++;
+      continue;
+    }
+
+    dropped = i + 1;
+    break;
+  }
+
+  const verbatim = picked.reverse();
+  const omitted = dropped ? [`[${dropped} earlier message${dropped === 1 ? "" : "s"} omitted]`] : [];
+  const transcript = [summaryBlock, ...omitted, ...verbatim].filter(Boolean).join("\n");
+
+  return {
+    transcript,
+    stats: {
+      tokens: estimateTokens(transcript),
+      summaryTokens,
+      verbatimTurns: verbatim.length,
+      droppedTurns: dropped,
+      trimmedTurns,
+    },
+  };
+}
+
+/** The session's rolling summary, or null before the first fold. */
+export async function loadConversationSummary(supabase: SupabaseClient, sessionId: string): Promise<ConversationSummary | null> {
+  const { data, error } = await supabase
+    .from("chat_summaries")
+    .select("summary,bullets,last_message_at")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("CHAT_SUMMARY_LOAD_ERROR:", error);
+    return null;
+  }
+  if (!data?.summary) return null;
+
+  return {
+    summary: String(data.summary),
+    bullets: Array.isArray(data.bullets) ? data.bullets.map(String) : [],
+    lastMessageAt: data.last_message_at ?? null,
+  };
+}
+
+/** Persisted turns the summary hasn't folded yet (all of them before the first fold). */
+export async function loadUnfoldedMessages(
+  supabase: SupabaseClient,
+  params: { userId: string; sessionId: string; after?: string | null; limit?: number }
+): Promise<ContextMessage[]> {
+  let q = supabase
+    .from("chat_messages")
+    .select("role,content,created_at")
+    .eq("user_id", params.userId)
+    .eq("session_id", params.sessionId)
+    .order("created_at", { ascending: false })
+    .limit(params.limit ?? 200);
+  if (params.after) q = q.gt("created_at", params.after);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+
+  return ((data || []) as { role: string; content: string | null }[])
+    .reverse()
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .map((m) => ({ role: m.role as ContextMessage["role"], content: String(m.content ?? "") }));
+}
@@ -0,0 +1,345 @@
+// src/lib/chat/escalationPolicy.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ESCALATION_PREFIX, anchorContact } from "./guardrails";
+
+/**
+ * Engineering-escalation policy (public.escalation_rules), edited from /admin/escalation.
+ *
+ * - pre rules run on the user's message:  "escalate" → fixed review reply; "redact" → answer, but partially
+ * - post rules run on each sentence / bullet of the answer: "redact" drops it; "escalate" replaces the answer
+ *
+ * Every decision carries the matched rule ids + reasons; the route writes each one
+ * to public.escalation_events. DEFAULT_ESCALATION_RULES mirrors the migration seed
+ * and is used whenever the table is empty or unreachable.
+ */
+
+export type EscalationStage = "pre" | "post";
+export type EscalationAction = "escalate" | "redact";
+export type EscalationOutcome = "allow" | "partial" | "escalate";
+
+export type EscalationRuleRow = {
+  /** stable id recorded on every decision (ex: "pre.load-calc") */
+  id: string;
+  stage: EscalationStage;
+  /** case-insensitive regex source */
+  pattern: string;
+  /** optional second regex that must also match the same text */
+  requires_pattern: string | null;
+  action: EscalationAction;
+  /** why the rule exists; shown in the audit log */
+  reason: string;
+  priority: number;
+  active: boolean;
+};
+
+export type EscalationMatch = {
+  ruleId: string;
+  stage: EscalationStage;
+  action: EscalationAction;
+  reason: string;
+  /** the text the rule matched (user message or answer sentence), trimmed */
+  excerpt: string;
+};
+
+export type EscalationDecision = {
+  outcome: EscalationOutcome;
+  matches: EscalationMatch[];
+  /** answer sentences / bullets removed by post rules */
+  redacted: number;
+};
+
+export const ESCALATION_RULE_COLUMNS = "id,stage,pattern,requires_pattern,action,reason,priority,active";
+
+/** Appended to answers that had their engineering portion withheld. */
+export const PARTIAL_REVIEW_NOTE = "Spacing, layout, load and fastening details require project-specific engineering review.";
+
+const CACHE_TTL_MS = 60_000;
+const EXCERPT_MAX = 200;
+/** below this much remaining text a redacted answer is replaced outright */
+const MIN_PARTIAL_ANSWER_CHARS = 40;
+
+export const DEFAULT_ESCALATION_RULES: EscalationRuleRow[] = [
+  {
+    id: "pre.code-compliance",
+    stage: "pre",
+    pattern: "\\b(code|ibc|asce|fm|ul)\\b",
+    requires_pattern: null,
+    action: "escalate",
+    reason: "Asks about code compliance or approvals",
+    priority: 10,
+    active: true,
+  },
+  {
+    id: "pre.load-calc",
+    stage: "pre",
+    pattern: "\\b(wind|uplift|load|seismic)\\b",
+    requires_pattern: "\\b(calc|calculate|calculation|rating|psf|kpa|mph|pressure)\\b",
+    action: "escalate",
+    reason: "Asks for a load calculation or rating",
+    priority: 20,
+    active: true,
+  },
+  {
+    id: "pre.load-design",
+    stage: "pre",
+    pattern: "\\b(wind|uplift|load|seismic)\\b",
+    requires_pattern: "\\bdesign\\b",
+    action: "redact",
+    reason: "Mentions loads in a design context",
+    priority: 30,
+    active: true,
+  },
+  {
+    id: "pre.layout",
+    stage: "pre",
+    pattern: "\\b(spacing|layout|pattern)\\b",
+    requires_pattern: null,
+    action: "redact",
+    reason: "Asks for spacing or layout",
+    priority: 40,
+    active: true,
+  },
+  {
+    id: "pre.quantity",
+    stage: "pre",
+    pattern: "\\bhow many\\b",
+    requires_pattern: null,
+    action: "redact",
+    reason: "Asks for anchor quantities",
+    priority: 50,
+    active: true,
+  },
+  {
+    id: "pre.torque-fastening",
+    stage: "pre",
+    pattern: "\\b(torque|fasteners?|fastening)\\b",
+    requires_pattern: null,
+    action: "redact",
+    reason: "Asks for torque or fastening details",
+    priority: 60,
+    active: true,
+  },
+  {
+    id: "post.fastening-schedule",
+    stage: "post",
+    pattern: "\\b(fastener\\s*schedule|fastening\\s*schedule|o\\.?c\\.?|on center)\\b",
+    requires_pattern: null,
+    action: "redact",
+    reason: "Answer gives a fastening schedule or on-center spacing",
+    priority: 110,
+    active: true,
+  },
+  {
+    id: "post.engineering-values",
+    stage: "post",
+    pattern: "\\b(spacing|space|apart|layout|pattern|torque|fastener|schedule|design|pressure|uplift|seismic|wind)\\b",
+    requires_pattern: "\\b\\d+(\\.\\d+)?\\s*(psf|kpa|mph|lb|lbs|lbf|ft\\.?|feet|in\\.?|inch|inches|mm|cm)\\b",
+    action: "redact",
+    reason: "Answer gives engineering values with units",
+    priority: 120,
+    active: true,
+  },
+  {
+    id: "post.torque-values",
+    stage: "post",
+    pattern: "\\b\\d+(\\.\\d+)?\\s*(ft[-\\s]?lbs?|in[-\\s]?lbs?|n[·\\s-]?m)\\b",
+    requires_pattern: null,
+    action: "redact",
+    reason: "Answer gives a torque value",
+    priority: 130,
+    active: true,
+  },
+];
+
+/* ---------------------------------------------
+   Rules
+--------------------------------------------- */
+
+export type CompiledEscalationRule = {
+  row: EscalationRuleRow;
+  pattern: RegExp;
+  requires: RegExp | null;
+};
+
+export function compileRulePattern(pattern: string | null | undefined) {
+  const src = String(pattern || "").trim();
+  if (!src) return null;
+  try {
+    return new RegExp(src, "i");
+  } catch {
+    return null;
+  }
+}
+
+/** Active rules in priority order; rows with an invalid pattern are skipped. */
+export function compileEscalationRules(rows: EscalationRuleRow[]): CompiledEscalationRule[] {
+  return rows
+    .filter((r) => r.active !== false)
+    .sort((a, b) => a.priority - b.priority)
+    .map((row) => ({
+      row,
+      pattern: compileRulePattern(row.pattern),
+      requires: row.requires_pattern ? compileRulePattern(row.requires_pattern) : null,
+    }))
+    .filter((r): r is CompiledEscalationRule => !!r.pattern && (!r.row.requires_pattern || !!r.requires));
+}
+
+function ruleMatches(rule: CompiledEscalationRule, text: string) {
+  return rule.pattern.test(text) && (!rule.requires || rule.requires.test(text));
+}
+
+function toMatch(rule: CompiledEscalationRule, text: string): EscalationMatch {
+  return {
+    ruleId: rule.row.id,
+    stage: rule.row.stage,
+    action: rule.row.action,
+    reason: rule.row.reason,
+    excerpt: text.trim().slice(0, EXCERPT_MAX),
+  };
+}
+
+/* ---------------------------------------------
+   Active rules (server cache)
+--------------------------------------------- */
+
+let active: { rules: CompiledEscalationRule[]; loadedAt: number } = {
+  rules: compileEscalationRules(DEFAULT_ESCALATION_RULES),
+  loadedAt: 0,
+};
+
+export function getEscalationRules() {
+  return active.rules;
+}
+
+/**
+ * Read every rule row; falls back to the defaults when the table is empty or the read fails.
+ */
+export async function fetchEscalationRules(supabase: SupabaseClient): Promise<EscalationRuleRow[]> {
+  const { data, error } = await supabase
+    .from("escalation_rules")
+    .select(ESCALATION_RULE_COLUMNS)
+    .order("priority", { ascending: true });
+
+  if (error) {
+    console.error("ESCALATION_RULES_LOAD_ERROR:", error);
+    return DEFAULT_ESCALATION_RULES;
+  }
+
+  const rows = (data || []) as EscalationRuleRow[];
+  return rows.length ? rows : DEFAULT_ESCALATION_RULES;
+}
+
+/** Refresh the active rules at most once per CACHE_TTL_MS (or immediately with force). */
+export async function loadEscalationRules(supabase: SupabaseClient, opts: { force?: boolean } = {}) {
+  if (!opts.force && active.loadedAt && Date.now() - active.loadedAt < CACHE_TTL_MS) return active.rules;
+
+  active = { rules: compileEscalationRules(await fetchEscalationRules(supabase)), loadedAt: Date.now() };
+  return active.rules;
+}
+
+/* ---------------------------------------------
+   Decisions
+--------------------------------------------- */
+
+export function escalationReply() {
+  return `${ESCALATION_PREFIX} ${anchorContact()}`;
+}
+
+function outcomeOf(matches: EscalationMatch[]): EscalationOutcome {
+  if (matches.some((m) => m.action === "escalate")) return "escalate";
+  return matches.length ? "partial" : "allow";
+}
+
+/** Pre-check: classify the user's message before the model runs. */
+export function classifyQuestion(text: string, rules: CompiledEscalationRule[] = active.rules): EscalationDecision {
+  const t = String(text || "");
+  const matches = rules.filter((r) => r.row.stage === "pre" && ruleMatches(r, t)).map((r) => toMatch(r, t));
+  return { outcome: outcomeOf(matches), matches, redacted: 0 };
+}
+
+/** Sentences (and inline "•" bullets) within a line. */
+function splitSentences(line: string) {
+  return line.split(/(?<=[.?!])\s+(?=\S)|\s+(?=•\s)/);
+}
+
+/**
+ * Post-check: run the answer through the post rules given the pre-check decision.
+ * Returns the answer to show plus the combined decision (pre + post matches).
+ */
+export function applyEscalationPolicy(
+  answer: string,
+  pre: EscalationDecision,
+  rules: CompiledEscalationRule[] = active.rules
+): { answer: string; decision: EscalationDecision } {
+  if (pre.outcome === "escalate") return { answer: escalationReply(), decision: pre };
+
+  const postRules = rules.filter((r) => r.row.stage === "post");
+  const matches: EscalationMatch[] = [];
+  let redacted = 0;
+
+  const lines = String(answer || "")
+    .split("\n")
+    .map((line) =>
+      splitSentences(line)
+        .filter((sentence) => {
+          const hits = postRules.filter((r) => ruleMatches(r, sentence));
+          if (!hits.length) return true;
+          matches.push(...hits.map((r) => toMatch(r, sentence)));
+          redacted++;
+          return false;
+        })
+        .join(" ")
+    );
+
+  const decision: EscalationDecision = {
+    outcome: outcomeOf([...pre.matches, ...matches]),
+    matches: [...pre.matches, ...matches],
+    redacted,
+  };
+
+  if (decision.outcome === "escalate") return { answer: escalationReply(), decision };
+  if (decision.outcome === "allow") return { answer, decision };
+
+  const kept = lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+  if (kept.replace(/[•\s]/g, "").length < MIN_PARTIAL_ANSWER_CHARS) {
+    return { answer: escalationReply(), decision: { ...decision, outcome: "escalate" } };
+  }
+  return { answer: `${kept}\n\n${PARTIAL_REVIEW_NOTE} ${anchorContact()}`, decision };
+}
+
+/** Rule ids by stage, for message meta and the audit log. */
+export function summarizeDecision(decision: EscalationDecision) {
+  const ids = (stage: EscalationStage) =>
+    Array.from(new Set(decision.matches.filter((m) => m.stage === stage).map((m) => m.ruleId)));
+  return { outcome: decision.outcome, pre: ids("pre"), post: ids("post"), redacted: decision.redacted };
+}
+
+export type EscalationSummary = ReturnType<typeof summarizeDecision>;
+
+/**
+ * Audit log: one escalation_events row per decision, "allow" included.
+ * Best-effort; a failed write never affects the chat.
+ */
+export async function recordEscalationDecision(
+  supabase: SupabaseClient,
+  params: {
+    decision: EscalationDecision;
+    userId?: string | null;
+    conversationId?: string | null;
+    question: string;
+    streamed: boolean;
+  }
+) {
+  const { error } = await supabase.from("escalation_events").insert({
+    user_id: params.userId ?? null,
+    conversation_id: params.conversationId ?? null,
+    outcome: params.decision.outcome,
+    rule_ids: Array.from(new Set(params.decision.matches.map((m) => m.ruleId))),
+    matches: params.decision.matches,
+    redacted_count: params.decision.redacted,
+    question: params.question.slice(0, 1000),
+    streamed: params.streamed,
+  });
+
+  if (error) console.error("ESCALATION_EVENT_INSERT_ERROR:", error);
+}
@@ -0,0 +1,50 @@
+// src/lib/chat/guardrails.ts
+
+/**
+ * Answer cleanup shared by /api/chat and the offline eval runner (scripts/eval-chat.mjs).
+ * Engineering escalation lives in ./escalationPolicy.
+ *
+ * Keep these pure (no I/O) so the eval replays exactly what production runs.
+ */
+
+export const ESCALATION_PREFIX = "That requires project-specific engineering review.";
+
+export function anchorContact() {
+  return "Contact Anchor Products at (888) 575-2131 or visit anchorp.com.";
+}
+
+/**
+ * Safer sanitizing:
+ * - Remove only sentences that claim to send/email/text docs.
+ * - Avoid greedy wipes that can delete the entire answer.
+ */
+export function sanitizeAnswer(answer: string) {
+  const original = (answer || "").toString();
+  let a = original;
+
+  a = a.replace(
+    /[^.?!]*(\b(send|email|text)\b)[^.?!]*(\b(doc|docs|pdf|sheet|sheets)\b)[^.?!]*[.?!]/gi,
+    ""
+  );
+
+  a = a.replace(/^\s*(yes|sure|absolutely|of course)\b[,\s:-]*/i, "");
+  a = a.replace(/\s{2,}/g, " ").trim();
+
+  // If sanitizing wiped the response, fall back to the original to avoid empty replies.
+  return a || original.trim();
+}
+
+export function normalizeBulletSpacing(answer: string) {
+  let a = String(answer || "");
+  // Ensure bullets start on their own line.
+  a = a.replace(/([^\n])\s*•\s+/g, "$1\n• ");
+  // Normalize common hyphen bullets to "•" and put them on new lines.
+  a = a.replace(/([^\n])\s*-\s+/g, "$1\n• ");
+  // Ensure a blank line before the first bullet list for readability.
+  a = a.replace(/([^\n])\n(•\s+)/g, "$1\n\n$2");
+  // Ensure a blank line between recommendation and bullet list when bullets exist.
+  a = a.replace(/([^\n])\n\n(•\s+)/g, "$1\n\n$2");
+  // Collapse accidental double spaces.
+  a = a.replace(/[ \t]{2,}/g, " ");
+  return a.trim();
+}
@@ -0,0 +1,201 @@
+// src/lib/chat/persist.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ensureChatSession,
+  maybeExtractKnowledge,
+  maybeSummarizeSession,
+  writeChatMessage,
+} from "@/lib/learning/loops";
+import type { IntakeState } from "@/lib/solutions/canonicalSolutions";
+import { normalizeProjectProfile, type ProjectProfile } from "@/lib/solutions/projectProfile";
+import { errorMessage } from "@/lib/errors";
+
+export type TurnMeta = Record<string, unknown>;
+
+export type ChatTurn = {
+  userId: string;
+  conversationId: string;
+  sessionId: string;
+};
+
+/**
+ * Use the caller's conversation when it belongs to them; otherwise start a new one.
+ */
+async function ensureConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId?: string | null,
+  titleSeed?: string
+) {
+  if (conversationId) {
+    const { data } = await supabase
+      .from("conversations")
+      .select("id")
+      .eq("id", conversationId)
+      .eq("user_id", userId)
+      .is("deleted_at", null)
+      .maybeSingle();
+    if (data?.id) return data.id as string;
+  }
+
+  const title = String(titleSeed || "").slice(0, 48).trim() || "New chat";
+
+  const { data: created, error } = await supabase
+    .from("conversations")
+    .insert({ user_id: userId, title })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return created.id as string;
+}
+
+async function writeConversationMessage(
+  supabase: SupabaseClient,
+  turn: ChatTurn,
+  role: "user" | "assistant",
+  content: string,
+  meta: TurnMeta
+) {
+  const { error } = await supabase.from("messages").insert({
+    user_id: turn.userId,
+    conversation_id: turn.conversationId,
+    role,
+    content,
+    meta: { ...meta, sessionId: turn.sessionId },
+  });
+  if (error) console.error("MESSAGE_INSERT_ERROR:", error);
+
+  // keep the UI thread (messages) and the learning transcript (chat_messages) in step
+  await writeChatMessage(supabase, turn.userId, turn.sessionId, role, content, meta);
+
+  const { error: convErr } = await supabase
+    .from("conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", turn.conversationId)
+    .eq("user_id", turn.userId);
+  if (convErr) console.error("CONVERSATION_TOUCH_ERROR:", convErr);
+}
+
+/**
+ * Resolve conversation + learning session and record the user's message.
+ */
+export async function openChatTurn(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    conversationId?: string | null;
+    sessionId?: string | null;
+    userText: string;
+    meta?: TurnMeta;
+  }
+): Promise<ChatTurn> {
+  const conversationId = await ensureConversation(
+    supabase,
+    params.userId,
+    params.conversationId,
+    params.userText
+  );
+  const sessionId = await ensureChatSession(supabase, params.userId, params.sessionId, conversationId);
+
+  const turn = { userId: params.userId, conversationId, sessionId };
+  await writeConversationMessage(supabase, turn, "user", params.userText, params.meta ?? {});
+
+  return turn;
+}
+
+/**
+ * Pick up a turn whose user message is already stored (an outbox replay whose first attempt died
+ * before the answer was saved): same conversation and session, nothing new written.
+ */
+export async function resumeChatTurn(
+  supabase: SupabaseClient,
+  params: { userId: string; conversationId: string; sessionId?: string | null }
+): Promise<ChatTurn> {
+  const sessionId = await ensureChatSession(supabase, params.userId, params.sessionId, params.conversationId);
+  return { userId: params.userId, conversationId: params.conversationId, sessionId };
+}
+
+export async function recordAssistantTurn(
+  supabase: SupabaseClient,
+  turn: ChatTurn,
+  answer: string,
+  meta: TurnMeta
+) {
+  await writeConversationMessage(supabase, turn, "assistant", answer, meta);
+}
+
+export async function loadIntakeState(supabase: SupabaseClient, turn: ChatTurn): Promise<IntakeState | null> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("intake_state")
+    .eq("id", turn.conversationId)
+    .eq("user_id", turn.userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("INTAKE_STATE_LOAD_ERROR:", error);
+    return null;
+  }
+
+  const state = data?.intake_state;
+  return state && typeof state === "object" && Object.keys(state).length ? (state as IntakeState) : null;
+}
+
+export async function saveIntakeState(supabase: SupabaseClient, turn: ChatTurn, state: IntakeState) {
+  const { error } = await supabase
+    .from("conversations")
+    .update({ intake_state: state })
+    .eq("id", turn.conversationId)
+    .eq("user_id", turn.userId);
+
+  if (error) console.error("INTAKE_STATE_SAVE_ERROR:", error);
+}
+
+/** The conversation's project facts ({} → empty profile before the first turn). */
+export async function loadProjectProfile(
+  supabase: SupabaseClient,
+  params: { userId: string; conversationId: string }
+): Promise<ProjectProfile> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("project_profile")
+    .eq("id", params.conversationId)
+    .eq("user_id", params.userId)
+    .maybeSingle();
+
+  if (error) console.error("PROJECT_PROFILE_LOAD_ERROR:", error);
+  return normalizeProjectProfile(data?.project_profile);
+}
+
+export async function saveProjectProfile(
+  supabase: SupabaseClient,
+  params: { userId: string; conversationId: string },
+  profile: ProjectProfile
+) {
+  const { error } = await supabase
+    .from("conversations")
+    .update({ project_profile: profile })
+    .eq("id", params.conversationId)
+    .eq("user_id", params.userId);
+
+  if (error) console.error("PROJECT_PROFILE_SAVE_ERROR:", error);
+}
+
+/**
+ * Summarization + knowledge extraction. Each loop gates itself on message count,
+ * so this is cheap to call after every turn. Errors are logged, never thrown.
+ */
+export async function runLearningLoops(supabase: SupabaseClient, turn: ChatTurn) {
+  try {
+    await maybeSummarizeSession(supabase, turn.userId, turn.sessionId);
+  } catch (e) {
+    console.error("CHAT_SUMMARY_LOOP_ERROR:", errorMessage(e, String(e)));
+  }
+
+  try {
+    await maybeExtractKnowledge(supabase, turn.userId, turn.sessionId);
+  } catch (e) {
+    console.error("KNOWLEDGE_EXTRACT_LOOP_ERROR:", errorMessage(e, String(e)));
+  }
+}
@@ -0,0 +1,248 @@
+// src/lib/chat/photos.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LLMClient, LLMImage, LLMJsonSchema } from "@/lib/llm/client";
+import { errorMessage } from "@/lib/errors";
+
+/**
+ * Photos attached to chat messages: stored in the private chat-photos bucket under
+ * <user id>/<conversation id>/, listed on the user message (messages.meta.photos) and read by a
+ * vision model that names the equipment so the resolver can map it to an Anchor solution.
+ */
+
+export const CHAT_PHOTOS_BUCKET = "chat-photos";
+export const MAX_CHAT_PHOTOS = 4;
+export const MAX_CHAT_PHOTO_BYTES = 8 * 1024 * 1024;
+/** history thumbnails go through /api/chat/photos, which redirects to a short-lived signed url */
+export const CHAT_PHOTO_URL_TTL_SECONDS = 60 * 10;
+
+export type ChatPhoto = {
+  path: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+};
+
+export const EQUIPMENT_CATEGORIES = [
+  "hvac",
+  "duct",
+  "pipe",
+  "conduit",
+  "stack",
+  "sign",
+  "solar",
+  "snow-retention",
+  "electrical-disconnect",
+  "antenna",
+  "satellite-dish",
+  "camera",
+  "light",
+  "lightning",
+  "weather-station",
+  "equipment-screen",
+  "walkway-stairs",
+  "guardrail",
+  "ladder",
+  "other",
+] as const;
+
+export type EquipmentCategory = (typeof EQUIPMENT_CATEGORIES)[number];
+
+/** What the vision model saw (stored on the user message as meta.vision). */
+export type EquipmentIdentification = {
+  equipment: string | null;
+  category: EquipmentCategory | null;
+  confidence: "high" | "medium" | "low";
+  /** roof membrane when it's clearly visible */
+  membrane: string | null;
+  mountSurface: "roof" | "wall" | null;
+  description: string;
+  /** resolver pick for the identification text (null when nothing matched) */
+  folder: string | null;
+};
+
+export function chatPhotoUrl(path: string) {
+  return `/api/chat/photos?path=${encodeURIComponent(path)}`;
+}
+
+function sanitizeFilename(name: string) {
+  return String(name || "photo")
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-zA-Z0-9._-]/g, "");
+}
+
+export function chatPhotoPath(userId: string, conversationId: string, filename: string) {
+  return `${userId}/${conversationId}/${Date.now()}-${sanitizeFilename(filename) || "photo"}`;
+}
+
+/** Paths are namespaced by owner; anything else is someone else's photo. */
+export function isOwnChatPhoto(userId: string, path: string) {
+  return path.startsWith(`${userId}/`) && !path.includes("..");
+}
+
+/** Validate photo refs from a request body against the caller. */
+export function ownChatPhotos(userId: string, raw: unknown): ChatPhoto[] {
+  if (!Array.isArray(raw)) return [];
+  return (raw as Partial<Record<keyof ChatPhoto, unknown>>[])
+    .filter((p): p is typeof p & { path: string } => typeof p?.path === "string" && isOwnChatPhoto(userId, p.path))
+    .slice(0, MAX_CHAT_PHOTOS)
+    .map((p) => ({
+      path: p.path,
+      filename: String(p.filename || p.path.split("/").pop() || "photo"),
+      contentType: String(p.contentType || "image/jpeg"),
+      size: Number(p.size) || 0,
+      uploadedAt: String(p.uploadedAt || new Date().toISOString()),
+    }));
+}
+
+/**
+ * Photos as data: urls for the model. Downloaded server-side so the provider never needs
+ * access to storage; a photo that fails to download is skipped.
+ */
+export async function loadPhotosForModel(supabase: SupabaseClient, photos: ChatPhoto[]): Promise<LLMImage[]> {
+  const images = await Promise.all(
+    photos.map(async (p) => {
+      const { data, error } = await supabase.storage.from(CHAT_PHOTOS_BUCKET).download(p.path);
+      if (error || !data) {
+        console.error("CHAT_PHOTO_DOWNLOAD_ERROR:", error || p.path);
+        return null;
+      }
+      const buf = Buffer.from(await data.arrayBuffer());
+      return { url: `data:${p.contentType};base64,${buf.toString("base64")}`, detail: "auto" as const };
+    })
+  );
+  return images.filter((img): img is NonNullable<typeof img> => !!img);
+}
+
+const IDENTIFY_SCHEMA: LLMJsonSchema = {
+  name: "equipment_identification",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["equipment", "category", "confidence", "membrane", "mountSurface", "description"],
+    properties: {
+      equipment: {
+        type: ["string", "null"],
+        description: "Common trade name of the main equipment to be secured (e.g. rooftop unit (RTU), gas line, exhaust stack)",
+      },
+      category: { type: ["string", "null"], enum: [...EQUIPMENT_CATEGORIES, null] },
+      confidence: { type: "string", enum: ["high", "medium", "low"] },
+      membrane: {
+        type: ["string", "null"],
+        description: "Roof membrane only if clearly identifiable (TPO, PVC, EPDM, SBS, APP, coating)",
+      },
+      mountSurface: { type: ["string", "null"], enum: ["roof", "wall", null] },
+      description: {
+        type: "string",
+        description: "One or two sentences on what is in the photo and how it sits on the roof or wall",
+      },
+    },
+  },
+};
+
+const IDENTIFY_SYSTEM = `
+You identify rooftop equipment in photos for Anchor Products, a maker of roof attachment and securement systems.
+Name the main equipment someone would want to secure or support (HVAC / RTU, ductwork, gas or condensate piping,
+conduit, exhaust stacks, signs, solar arrays, antennas, dishes, cameras, lights, snow fence, walkways, guardrail, ladders).
+Use everyday trade names. If the photo doesn't show rooftop equipment, set equipment and category to null.
+Never estimate sizes, weights, loads or wind ratings.
+Return only the JSON object.
+`.trim();
+
+/** catalog vocabulary (aliases) per category, so the resolver has something to match */
+const CATEGORY_PHRASE: Partial<Record<EquipmentCategory, string>> = {
+  hvac: "HVAC rooftop unit",
+  duct: "rooftop duct",
+  pipe: "rooftop piping",
+  conduit: "rooftop piping",
+  stack: "elevated stack",
+  sign: "signage",
+  solar: "solar",
+  "snow-retention": "snow retention",
+  "electrical-disconnect": "electrical disconnect",
+  "satellite-dish": "satellite dish",
+  "weather-station": "weather station",
+  "equipment-screen": "equipment screen",
+  "walkway-stairs": "roof stairs walkways",
+  guardrail: "roof guardrail",
+  ladder: "roof ladder",
+  light: "light mount",
+  camera: "camera mount",
+};
+
+/** Text the resolver sees for a photo: equipment name, category phrase, description. */
+export function identificationText(id: Pick<EquipmentIdentification, "equipment" | "category" | "description">) {
+  return [id.equipment, id.category ? (CATEGORY_PHRASE[id.category] ?? id.category) : null, id.description]
+    .filter(Boolean)
+    .join(". ");
+}
+
+function parseIdentification(text: string): Omit<EquipmentIdentification, "folder"> | null {
+  try {
+    const o = JSON.parse(String(text || "").trim());
+    if (!o || typeof o !== "object") return null;
+    const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim().slice(0, 200) : null);
+    return {
+      equipment: str(o.equipment),
+      category: EQUIPMENT_CATEGORIES.includes(o.category) ? o.category : null,
+      confidence: o.confidence === "high" || o.confidence === "medium" ? o.confidence : "low",
+      membrane: str(o.membrane)?.toLowerCase() ?? null,
+      mountSurface: o.mountSurface === "roof" || o.mountSurface === "wall" ? o.mountSurface : null,
+      description: str(o.description) ?? "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask a vision model what the photos show, then run the answer through `resolve`
+ * (resolveCanonicalSolution) for the storage folder. Null when no model could read them.
+ */
+export async function identifyEquipment(
+  llm: LLMClient,
+  images: LLMImage[],
+  params: { userText: string; resolve: (text: string) => string | null }
+): Promise<EquipmentIdentification | null> {
+  if (!images.length) return null;
+
+  try {
+    const res = await llm.complete({
+      system: IDENTIFY_SYSTEM,
+      user: `The rep wrote: ${params.userText.slice(0, 500) || "(no text)"}\n\nWhat equipment is in the photo${images.length > 1 ? "s" : ""}?`,
+      images,
+      format: "json",
+      jsonSchema: IDENTIFY_SCHEMA,
+      maxOutputTokens: 300,
+      purpose: "vision",
+    });
+
+    const id = parseIdentification(res.text);
+    if (!id) {
+      console.warn("[photos] unparseable identification", res.text.slice(0, 200));
+      return null;
+    }
+    return { ...id, folder: id.equipment || id.category ? params.resolve(identificationText(id)) : null };
+  } catch (e) {
+    console.error("[photos] identification failed", errorMessage(e, String(e)));
+    return null;
+  }
+}
+
+/** Prompt block so the answer can refer to what the photo shows. */
+export function formatPhotoBlock(id: EquipmentIdentification | null, count: number) {
+  if (!count) return "";
+  if (!id) return `The user attached ${count} photo${count > 1 ? "s" : ""} that could not be analyzed; ask them to describe the equipment.`;
+
+  return [
+    `The user attached ${count} photo${count > 1 ? "s" : ""}. Vision analysis (${id.confidence} confidence):`,
+    id.equipment ? `- equipment: ${id.equipment}` : "- equipment: not identified",
+    id.membrane ? `- visible membrane: ${id.membrane}` : "",
+    id.mountSurface ? `- mounted on: ${id.mountSurface}` : "",
+    id.description ? `- ${id.description}` : "",
+    id.confidence === "low" ? "Confirm the equipment with the user before recommending." : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,196 @@
+// src/lib/chat/prompt.ts
+import { formatSolutionMapping, type SolutionRow } from "@/lib/solutions/catalog";
+
+/**
+ * Versioned prompt templates for /api/chat.
+ *
+ * A template is plain text with {{placeholders}} filled from live data at request time,
+ * so the solution mapping always comes from the solutions catalog instead of a handwritten list.
+ * Each version also fixes the per-turn user prompt layout (userBlocks).
+ * Any wording or layout change gets a new version: assistant messages record meta.promptVersion,
+ * which is how answer quality is compared across prompt revisions.
+ *
+ * CHAT_PROMPT_VERSION pins a version (ex: to roll back); otherwise CURRENT_PROMPT_VERSION is used.
+ */
+
+export type PromptVars = {
+  solution_mapping: string;
+};
+
+/** Blocks of the per-turn user prompt, in the order a version renders them. */
+export type UserPromptBlock =
+  | "folder_hint"
+  | "intake"
+  | "facts"
+  | "photos"
+  | "knowledge"
+  | "docs"
+  | "transcript"
+  | "asset_management"
+  /** the Asset Management pointer, only when no documents are recommended this turn */
+  | "asset_management_fallback";
+
+export type PromptTemplate = {
+  version: string;
+  /** what changed vs the previous version */
+  notes: string;
+  text: string;
+  userBlocks: UserPromptBlock[];
+};
+
+export type BuiltPrompt = {
+  version: string;
+  text: string;
+};
+
+const PLACEHOLDER_RE = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const V1_TEXT = `
+You are Anchor Sales Co-Pilot for Anchor Products, a commercial roofing attachment manufacturer.
+
+Your role:
+- Help sales reps, contractors, and internal teams recommend the correct Anchor rooftop attachment solution.
+- Speak like an experienced Anchor sales engineer: confident, natural, and practical.
+- Use common industry naming conventions and recognize that customers may describe the same solution in multiple ways.
+
+Tone & style:
+- Answer like ChatGPT: conversational, confident, and helpful.
+- Never robotic, never templated.
+- Do not ask unnecessary questions or repeat information the user already provided.
+- Sound like an expert Anchor Products sales engineer: practical, decisive, and product-specific.
+- Use short, sales-ready sentences. Prefer “go-to / standard / typical Anchor approach” phrasing.
+
+Response pattern (always follow):
+1. Lead with a clear recommendation in 1–3 sentences.
+2. Follow with 3–6 bullet points explaining what the solution is, when it’s used, and what components are typically involved.
+3. Use bullet points that start with "•" (not hyphens).
+4. Ask at most ONE clarifying question, only if it materially affects the solution (example: roof-mounted vs wall-mounted).
+5. Do NOT ask for dimensions or measurements unless the user explicitly requests engineering review.
+
+Critical guardrails:
+- Do NOT provide spacing, layout, patterns, load calculations, torque values, fastening schedules, or code guarantees.
+- If engineering-specific details are requested, state that the project requires engineering review and direct the user to Anchor Products.
+- Do NOT offer to prepare quotes or pricing. If asked, direct them to Anchor Products sales (recommended phrasing: "Contact Anchor Products at (888) 575-2131 or visit anchorp.com.").
+- Assume all projects are commercial roofing unless explicitly stated otherwise.
+
+System-wide rules:
+- All anchors are matched based on the roof membrane type (TPO, PVC, EPDM, etc.).
+- Never assume a membrane type. Only state a membrane if the user explicitly provided it.
+- If the user asks for documents, manuals, or specs, direct them to the Asset Management tool.
+- Guy wire kits ONLY use 2000-series anchors.
+- All solutions that use guy wire kits are tie-down solutions.
+- Use conversation context: if the user provides partial info (ex: “TPO roof”), do not reset the conversation.
+- Anchor Products supports commercial membrane-covered roofs only.
+- Anchor bases are manufactured from the specified membrane type (TPO, PVC, EPDM, KEE, APP, SBS, SBS-torch). Coatings are custom anchor colors.
+- Treat any "Intake slots" block as confirmed facts and do not re-ask for those details.
+- When an "Approved Anchor knowledge" block is provided, ground your answer in it and prefer it over general assumptions. It never overrides the guardrails above.
+
+--------------------------------------------------
+ANCHOR SOLUTION MAPPING & NAMING CONVENTIONS
+--------------------------------------------------
+
+{{solution_mapping}}
+
+--------------------------------------------------
+FINAL BEHAVIOR
+--------------------------------------------------
+
+- Recognize multiple names for the same solution.
+- Default to the most common Anchor solution unless the user specifies otherwise.
+- Ask clarifying questions only when absolutely necessary.
+- Always keep responses aligned with Anchor Products’ real-world practices and product families.
+`.trim();
+
+// v3: documents are recommended in the user prompt, so the Asset Management pointer moves there
+const V3_TEXT = V1_TEXT.replace(
+  "- If the user asks for documents, manuals, or specs, direct them to the Asset Management tool.\n",
+  ""
+);
+
+const V1_USER_BLOCKS: UserPromptBlock[] = ["folder_hint", "intake", "knowledge", "docs", "transcript", "asset_management"];
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: "v1",
+    notes: "Sales co-pilot rules + solution mapping generated from the solutions catalog.",
+    text: V1_TEXT,
+    userBlocks: V1_USER_BLOCKS,
+  },
+  {
+    version: "v2",
+    notes: "User prompt adds the project facts and photo analysis blocks; system text unchanged.",
+    text: V1_TEXT,
+    userBlocks: ["folder_hint", "intake", "facts", "photos", "knowledge", "docs", "transcript", "asset_management"],
+  },
+  {
+    version: "v3",
+    notes: "Asset Management pointer only when no documents are recommended (was also in the system rules).",
+    text: V3_TEXT,
+    userBlocks: ["folder_hint", "intake", "facts", "photos", "knowledge", "docs", "transcript", "asset_management_fallback"],
+  },
+];
+
+export const CURRENT_PROMPT_VERSION = "v3";
+
+export function getPromptTemplate(version?: string | null) {
+  const wanted = String(version || "").trim();
+  return (
+    PROMPT_TEMPLATES.find((t) => t.version === wanted) ||
+    PROMPT_TEMPLATES.find((t) => t.version === CURRENT_PROMPT_VERSION)!
+  );
+}
+
+/**
+ * Fill a template. Unknown placeholders throw so a template typo fails loudly instead of
+ * shipping "{{...}}" to the model.
+ */
+export function renderPromptTemplate(template: PromptTemplate, vars: PromptVars) {
+  return template.text.replace(PLACEHOLDER_RE, (_, name: string) => {
+    if (!(name in vars)) throw new Error(`Unknown prompt placeholder "${name}" in ${template.version}`);
+    return vars[name as keyof PromptVars];
+  });
+}
+
+export function buildSystemPrompt(rows: SolutionRow[], version = process.env.CHAT_PROMPT_VERSION): BuiltPrompt {
+  const template = getPromptTemplate(version);
+  return {
+    version: template.version,
+    text: renderPromptTemplate(template, { solution_mapping: formatSolutionMapping(rows) }),
+  };
+}
+
+/**
+ * Per-turn user prompt: routing hints + grounding blocks + the transcript, laid out as the
+ * version's userBlocks (pass the system prompt's version so both halves match). Empty blocks are dropped.
+ */
+export function buildUserPrompt(
+  params: {
+    folderHint?: string | null;
+    intakeBlock?: string;
+    /** project facts the intake slots don't cover (roof brand, equipment, location) */
+    factsBlock?: string;
+    /** vision analysis of photos attached to the latest message */
+    photoBlock?: string;
+    knowledgeBlock?: string;
+    docsBlock?: string;
+    transcript: string;
+  },
+  version = process.env.CHAT_PROMPT_VERSION
+) {
+  const assetManagement = `If the user asks for documents, manuals, or specs, direct them to the Asset Management tool.`;
+  const blocks: Record<UserPromptBlock, string | undefined> = {
+    folder_hint: params.folderHint ? `Detected storage folder hint: ${params.folderHint}` : "",
+    intake: params.intakeBlock,
+    facts: params.factsBlock,
+    photos: params.photoBlock,
+    knowledge: params.knowledgeBlock,
+    docs: params.docsBlock,
+    transcript: `Conversation so far:\n${params.transcript}`,
+    asset_management: assetManagement,
+    asset_management_fallback: params.docsBlock ? "" : assetManagement,
+  };
+
+  return [...getPromptTemplate(version).userBlocks.map((b) => blocks[b]), `Now answer the user's latest message.`]
+    .filter(Boolean)
+    .join("\n\n");
+}
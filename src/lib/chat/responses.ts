@@ -0,0 +1,81 @@
+// src/lib/chat/responses.ts
+import type { ResponseCreateParamsNonStreaming, ResponseFormatTextConfig } from "openai/resources/responses/responses";
+import type { LLMImage, LLMJsonSchema } from "@/lib/llm/client";
+
+/**
+ * OpenAI Responses API helpers used by the OpenAI provider (src/lib/llm/providers).
+ */
+
+/** reasoning.effort is rejected by non-reasoning models (e.g. the gpt-4.1 fallback) */
+export function supportsReasoningEffort(model: string) {
+  return /^(gpt-5|o\d)/i.test(model);
+}
+
+export function answerRequest(
+  model: string,
+  system: string,
+  user: string,
+  opts: { maxOutputTokens?: number; format?: "text" | "json"; jsonSchema?: LLMJsonSchema; images?: LLMImage[] } = {}
+): ResponseCreateParamsNonStreaming {
+  const format: ResponseFormatTextConfig =
+    opts.format !== "json"
+      ? { type: "text" }
+      : opts.jsonSchema
+        ? { type: "json_schema", name: opts.jsonSchema.name, schema: opts.jsonSchema.schema, strict: true }
+        : { type: "json_object" };
+
+  return {
+    model,
+    max_output_tokens: opts.maxOutputTokens ?? 650,
+    // Force text output and minimize reasoning-only responses.
+    ...(supportsReasoningEffort(model) ? { reasoning: { effort: "minimal" as const } } : {}),
+    text: {
+      format,
+      ...(supportsReasoningEffort(model) ? { verbosity: "low" as const } : {}),
+    },
+    input: [
+      { role: "system", content: [{ type: "input_text", text: system }] },
+      {
+        role: "user",
+        content: [
+          { type: "input_text", text: user },
+          ...(opts.images ?? []).map((img) => ({
+            type: "input_image" as const,
+            image_url: img.url,
+            detail: img.detail ?? ("auto" as const),
+          })),
+        ],
+      },
+    ],
+  };
+}
+
+/** The parts of a Responses API payload that can carry text; everything optional, nothing trusted. */
+type ResponsesOutput = {
+  output_text?: unknown;
+  output?: { content?: { text?: unknown; value?: unknown; refusal?: unknown }[] }[];
+};
+
+/**
+ * Robustly extract text from OpenAI Responses API output.
+ */
+export function extractResponsesText(resp: unknown): string {
+  const r = (resp && typeof resp === "object" ? resp : {}) as ResponsesOutput;
+  const direct = String(r.output_text || "").trim();
+  if (direct) return direct;
+
+  const pieces: string[] = [];
+  const output = Array.isArray(r.output) ? r.output : [];
+
+  for (const item of output) {
+    const content = Array.isArray(item?.content) ? item.content : [];
+    for (const c of content) {
+      // most common: { type: "output_text", text: "..." }
+      if (typeof c?.text === "string" && c.text.trim()) pieces.push(c.text.trim());
+      else if (typeof c?.value === "string" && c.value.trim()) pieces.push(c.value.trim());
+      else if (typeof c?.refusal === "string" && c.refusal.trim()) pieces.push(c.refusal.trim());
+    }
+  }
+
+  return pieces.join("\n").trim();
+}
@@ -0,0 +1,77 @@
+// src/lib/chat/sse.ts
+
+/**
+ * Server-Sent Events framing for the streaming chat route.
+ *
+ * Frames (in order):
+ * - "delta"   { text }                  token text as it arrives
+ * - "replace" { answer, reason }        streamed text was retracted (guardrail tripped or the model fell back)
+ * - "done"    ChatResponse              final payload (answer, foldersUsed, recommendedDocs, sourcesUsed…)
+ * - "error"   { error }                 stream failed; client should show an error bubble
+ */
+export type ChatStreamEventName = "delta" | "replace" | "done" | "error";
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // disable proxy buffering (nginx / some hosts) so tokens flush immediately
+  "X-Accel-Buffering": "no",
+} as const;
+
+export function encodeSseEvent(event: ChatStreamEventName, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function isEventStream(res: Response) {
+  return (res.headers.get("content-type") || "").includes("text/event-stream");
+}
+
+function parseFrame(frame: string) {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+
+  if (!dataLines.length) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads an SSE response body and invokes onEvent for each complete frame.
+ * Resolves when the server closes the stream.
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: Record<string, unknown> | null) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buf += decoder.decode(value, { stream: true }).replace(/\r/g, "");
+
+    let idx = buf.indexOf("\n\n");
+    while (idx !== -1) {
+      const parsed = parseFrame(buf.slice(0, idx));
+      buf = buf.slice(idx + 2);
+      if (parsed) onEvent(parsed.event, parsed.data);
+      idx = buf.indexOf("\n\n");
+    }
+  }
+
+  const tail = parseFrame(buf.trim());
+  if (tail) onEvent(tail.event, tail.data);
+}
@@ -0,0 +1,121 @@
+// src/lib/docs/extractText.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import mammoth from "mammoth";
+import JSZip from "jszip";
+import { PDFParse } from "pdf-parse";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { extOf } from "@/lib/docs/knowledgeDocs";
+
+/**
+ * Text extraction for files in the "knowledge" bucket (PDF, DOCX, ODF, plain text).
+ * /api/docs uses it for excerpts, the ingestion pipeline (src/lib/knowledge/ingest.ts) for full text.
+ */
+
+export const EXTRACTABLE_EXTS = ["txt", "md", "pdf", "docx", "odt", "ods", "odp"];
+
+export function canExtractText(path: string) {
+  return EXTRACTABLE_EXTS.includes(extOf(path));
+}
+
+/** One line, capped: for snippets. */
+export function cleanExcerpt(text: string, maxLen: number) {
+  const t = (text || "").replace(/\s+/g, " ").replace(/\u0000/g, "").trim();
+  if (!t) return "";
+  return t.length > maxLen ? t.slice(0, maxLen).trim() : t;
+}
+
+/** Full text with line / paragraph breaks and table cells kept (the chunker splits on them). */
+export function normalizeExtractedText(text: string) {
+  return (text || "")
+    .replace(/\u0000/g, "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n\t]+/g, " ")
+    // PDF table cells come tab-separated; the chunker keeps rows together
+    .replace(/ *\t[\t ]*/g, "\t")
+    .replace(/[ \t]*\n[ \t]*/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function stripXmlToText(xml: string) {
+  // Minimal tag stripping + entity decoding. Good enough for snippets.
+  let t = (xml || "").toString();
+
+  // Remove script/style blocks if any
+  t = t.replace(/<script[\s\S]*?<\/script>/gi, " ");
+  t = t.replace(/<style[\s\S]*?<\/style>/gi, " ");
+
+  // Replace common "paragraph-ish" tags with spaces/newlines
+  t = t.replace(/<\/(text:p|text:h|p|h[1-6])>/gi, "\n");
+
+  // Remove all tags
+  t = t.replace(/<[^>]+>/g, " ");
+
+  // Decode a few common entities
+  t = t
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+  // Collapse whitespace
+  t = t.replace(/\s+\n/g, "\n").replace(/\n\s+/g, "\n");
+  t = t.replace(/[ \t]{2,}/g, " ");
+  t = t.replace(/\n{3,}/g, "\n\n").trim();
+
+  return t;
+}
+
+/** Storage reads need the service role; ingestion passes its own client. */
+export async function downloadKnowledgeObject(path: string, supabase: SupabaseClient = supabaseAdmin): Promise<Buffer | null> {
+  const { data, error } = await supabase.storage.from("knowledge").download(path);
+  if (error || !data) return null;
+
+  const arrayBuf = await data.arrayBuffer();
+  return Buffer.from(arrayBuf);
+}
+
+async function pdfText(buf: Buffer) {
+  const parser = new PDFParse({ data: buf });
+  try {
+    // no "-- 1 of 3 --" page markers in the text
+    const parsed = await parser.getText({ pageJoiner: "" });
+    return parsed?.text || "";
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Extract the text of a file by extension. Unsupported types give "";
+ * parse errors throw (callers decide whether a broken file is worth reporting).
+ */
+export async function extractTextFromBuffer(buf: Buffer, ext: string) {
+  const e = ext.toLowerCase();
+
+  // Plain text
+  if (e === "txt" || e === "md") return normalizeExtractedText(buf.toString("utf8"));
+
+  // PDF
+  if (e === "pdf") return normalizeExtractedText(await pdfText(buf));
+
+  // DOCX
+  if (e === "docx") {
+    const result = await mammoth.extractRawText({ buffer: buf });
+    return normalizeExtractedText(result?.value || "");
+  }
+
+  // ODF (ODT/ODS/ODP): ZIP containing content.xml
+  if (e === "odt" || e === "ods" || e === "odp") {
+    const zip = await JSZip.loadAsync(buf);
+    const file = zip.file("content.xml");
+    if (!file) return "";
+
+    const xml = await file.async("string");
+    return normalizeExtractedText(stripXmlToText(xml));
+  }
+
+  return "";
+}
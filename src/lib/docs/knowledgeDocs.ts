@@ -0,0 +1,200 @@
+// src/lib/docs/knowledgeDocs.ts
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+/**
+ * Shared helpers for documents in the "knowledge" storage bucket:
+ * doc-type / title inference from paths, folder listing, and URL signing.
+ * Used by /api/docs and the chat route's recommended documents.
+ */
+
+export type DocType =
+  | "sales_sheet"
+  | "data_sheet"
+  | "product_data_sheet"
+  | "install_manual"
+  | "install_sheet"
+  | "install_video"
+  | "cad_dwg"
+  | "cad_step"
+  | "product_drawing"
+  | "product_image"
+  | "render"
+  | "asset"
+  | "unknown";
+
+export type DocOut = {
+  title: string;
+  doc_type: DocType;
+  path: string;
+  url: string | null;
+  excerpt?: string;
+};
+
+/* ---------------------------------------------
+   Path helpers
+--------------------------------------------- */
+
+export function normalizePathInput(s: string) {
+  return decodeURIComponent((s || "").trim()).replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+export function extOf(path: string) {
+  const m = path.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return m ? m[1] : "";
+}
+
+function baseName(path: string) {
+  const last = path.split("/").pop() || path;
+  return last.replace(/\.[a-z0-9]+$/i, "");
+}
+
+function titleCaseWords(s: string) {
+  return s
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+function humanizeDocNameFromFile(path: string) {
+  const b = baseName(path).toLowerCase();
+
+  if (b.includes("sales-sheet")) return "Sales Sheet";
+  if (b.includes("product-data-sheet")) return "Product Data Sheet";
+  if (b.includes("data-sheet")) return "Data Sheet";
+  if (b.includes("install-manual")) return "Install Manual";
+  if (b.includes("install-sheet")) return "Install Sheet";
+  if (b.includes("install-video")) return "Install Video";
+  if (b.includes("product-drawing")) return "Product Drawing";
+  if (b.includes("product-image")) return "Product Image";
+  if (b.includes("render")) return "Render";
+  if (b === "cad") return "CAD";
+
+  return titleCaseWords(b.replace(/[-_]+/g, " "));
+}
+
+export function docTypeFromPath(path: string): DocType {
+  const p = path.toLowerCase();
+  const e = extOf(p);
+
+  if (p.includes("sales-sheet")) return "sales_sheet";
+  if (p.includes("product-data-sheet")) return "product_data_sheet";
+  if (p.includes("data-sheet")) return "data_sheet";
+  if (p.includes("install-manual")) return "install_manual";
+  if (p.includes("install-sheet")) return "install_sheet";
+  if (p.includes("install-video") || ["mp4", "mov", "webm"].includes(e)) return "install_video";
+
+  if (p.endsWith(".dwg")) return "cad_dwg";
+  if (p.endsWith(".step") || p.endsWith(".stp")) return "cad_step";
+
+  if (p.includes("product-drawing")) return "product_drawing";
+  if (p.includes("product-image") || ["png", "jpg", "jpeg", "webp"].includes(e)) return "product_image";
+  if (p.includes("render")) return "render";
+
+  if (e === "pdf" || e === "docx" || ["odt", "ods", "odp"].includes(e)) return "asset";
+
+  return "unknown";
+}
+
+/** Internal-only folders: signed in to open, "internal" audience when indexed. */
+export function isInternalPath(path: string) {
+  const p = String(path || "").toLowerCase();
+  return (
+    p.includes("/internal/") ||
+    p.startsWith("internal/") ||
+    p.includes("/pricebook/") ||
+    p.includes("/test/") ||
+    p.includes("/test-reports/")
+  );
+}
+
+export function titleFromPath(path: string) {
+  const parts = path.split("/").filter(Boolean);
+  const docName = humanizeDocNameFromFile(path);
+
+  const parent = parts.length >= 2 ? parts[parts.length - 2] : "";
+  const niceParent = parent ? titleCaseWords(parent.replace(/[-_]+/g, " ")) : "";
+
+  if (niceParent) return `${niceParent} — ${docName}`;
+  return docName;
+}
+
+/* ---------------------------------------------
+   Listing + signing
+--------------------------------------------- */
+
+/**
+ * Fast path listing via Postgres: storage.objects
+ * Requires service role (supabaseAdmin).
+ */
+export async function listPathsViaDb(opts: { prefix?: string; q?: string; page: number; limit: number }) {
+  const { prefix, q, page, limit } = opts;
+
+  const p_prefix = prefix ? normalizePathInput(prefix) : null;
+  const p_q = q ? String(q).trim() : null;
+
+  const { data, error } = await supabaseAdmin.rpc("list_knowledge_objects", {
+    p_prefix,
+    p_q,
+    p_page: page,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as { name: string | null; total: number | null }[];
+  const names = rows.map((r) => String(r?.name || "")).filter(Boolean);
+  const total = rows.length ? Number(rows[0]?.total ?? names.length) : 0;
+
+  return { names, total };
+}
+
+/**
+ * Filtered listing via knowledge_docs table (visibility-aware).
+ * Expects knowledge_docs.path to match storage object path.
+ */
+export async function listPathsViaDocsTable(opts: {
+  prefix?: string;
+  q?: string;
+  page: number;
+  limit: number;
+  visibility: "public" | "all";
+}) {
+  const { prefix, q, page, limit, visibility } = opts;
+
+  let query = supabaseAdmin
+    .from("knowledge_docs")
+    .select("path,storage_path", { count: "exact" })
+    .order("path", { ascending: true });
+
+  if (visibility === "public") {
+    query = query.eq("visibility", "public");
+  }
+
+  if (prefix) {
+    const p = normalizePathInput(prefix);
+    query = query.or(`path.ilike.${p}%,storage_path.ilike.${p}%`);
+  }
+
+  if (q) {
+    const qNorm = String(q).trim();
+    if (qNorm) query = query.or(`path.ilike.%${qNorm}%,storage_path.ilike.%${qNorm}%`);
+  }
+
+  const from = page * limit;
+  const to = from + limit - 1;
+
+  const { data, error, count } = await query.range(from, to);
+  if (error) throw error;
+
+  const names = (data || [])
+    .map((r: { path: string | null; storage_path: string | null }) => String(r?.path || r?.storage_path || ""))
+    .filter(Boolean);
+  return { names, total: count ?? names.length };
+}
+
+export async function signKnowledgeUrl(path: string, expiresIn: number) {
+  const { data, error } = await supabaseAdmin.storage.from("knowledge").createSignedUrl(path, expiresIn);
+  if (error) return null;
+  return data?.signedUrl ?? null;
+}
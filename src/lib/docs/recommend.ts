@@ -0,0 +1,133 @@
+// src/lib/docs/recommend.ts
+import type { CanonicalSolution, DocKind, IntakeState } from "@/lib/solutions/canonicalSolutions";
+import {
+  docTypeFromPath,
+  listPathsViaDb,
+  listPathsViaDocsTable,
+  signKnowledgeUrl,
+  titleFromPath,
+  type DocOut,
+} from "./knowledgeDocs";
+
+/**
+ * Recommended documents for a resolved solution:
+ * list the solution's storage folder (plus the U-anchor folder when a model is known),
+ * keep the doc kinds the solution (or the user) asked for, drop files for other membranes,
+ * rank by kind order, one file per kind, then sign only what we return.
+ */
+
+const DEFAULT_DOC_KINDS: DocKind[] = ["sales_sheet", "data_sheet", "install_sheet"];
+const MEMBRANE_TOKENS = ["tpo", "pvc", "epdm", "kee", "sbs", "app"];
+const LIST_LIMIT = 100;
+const SIGNED_URL_TTL = 60 * 30;
+
+export type RecommendParams = {
+  solution: CanonicalSolution | null;
+  intake: IntakeState;
+  audience: "internal" | "external";
+  limit?: number;
+};
+
+function pathTokens(path: string) {
+  return new Set(path.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+/** -1 = file is for a different membrane, 1 = matches the user's membrane, 0 = membrane-agnostic */
+function membraneFit(path: string, membrane?: IntakeState["membrane"]) {
+  if (!membrane) return 0;
+  const tokens = pathTokens(path);
+  // mod-bit ships as SBS or APP bases; coatings ride on any base
+  if (membrane === "coatings") return 0;
+  const wanted =
+    membrane === "modified-bitumen" ? ["sbs", "app"] : membrane.split("-").filter((t) => MEMBRANE_TOKENS.includes(t));
+  if (wanted.some((t) => tokens.has(t))) return 1;
+  if (MEMBRANE_TOKENS.some((t) => tokens.has(t))) return -1;
+  return 0;
+}
+
+function kindRank(path: string, kinds: DocKind[]) {
+  const kind = docTypeFromPath(path);
+  const idx = kinds.indexOf(kind);
+  if (idx !== -1) return idx;
+  // a product data sheet satisfies a plain "data sheet" ask
+  if (kind === "product_data_sheet") return kinds.indexOf("data_sheet");
+  return -1;
+}
+
+export function docKindsFor(solution: CanonicalSolution, intake: IntakeState): DocKind[] {
+  if (intake.wants?.length) return intake.wants;
+  if (solution.recommendedDocKinds?.length) return solution.recommendedDocKinds;
+  return DEFAULT_DOC_KINDS;
+}
+
+/**
+ * Pure ranking step (no I/O): filter + order candidate paths, one per doc kind.
+ */
+export function rankRecommendedPaths(
+  paths: string[],
+  params: { kinds: DocKind[]; membrane?: IntakeState["membrane"]; limit: number }
+) {
+  const scored = Array.from(new Set(paths))
+    .map((path) => ({
+      path,
+      kind: docTypeFromPath(path),
+      rank: kindRank(path, params.kinds),
+      fit: membraneFit(path, params.membrane),
+    }))
+    .filter((d) => d.rank !== -1 && d.fit !== -1)
+    .sort((a, b) => a.rank - b.rank || b.fit - a.fit || a.path.localeCompare(b.path));
+
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const d of scored) {
+    if (seen.has(d.kind)) continue;
+    seen.add(d.kind);
+    out.push(d.path);
+    if (out.length >= params.limit) break;
+  }
+  return out;
+}
+
+function foldersFor(solution: CanonicalSolution, intake: IntakeState) {
+  const folders = [solution.storageFolder || `solutions/${solution.securing}`];
+  if (intake.anchorModel) {
+    const membrane = intake.membrane ? `${intake.membrane}/` : "";
+    folders.push(`anchor/u-anchors/${intake.anchorModel}/${membrane}`);
+  }
+  return folders.map((f) => (f.endsWith("/") ? f : `${f}/`));
+}
+
+/**
+ * External reps only see public docs (knowledge_docs.visibility), mirroring /api/docs?visibility=public.
+ */
+async function listFolder(prefix: string, audience: RecommendParams["audience"]) {
+  if (audience === "external") {
+    const { names } = await listPathsViaDocsTable({ prefix, page: 0, limit: LIST_LIMIT, visibility: "public" });
+    if (names.length || !(prefix.startsWith("solutions/") || prefix.startsWith("anchor/u-anchors/"))) {
+      return names;
+    }
+  }
+  const { names } = await listPathsViaDb({ prefix, page: 0, limit: LIST_LIMIT });
+  return names;
+}
+
+export async function recommendDocsForSolution(params: RecommendParams): Promise<DocOut[]> {
+  const { solution, intake, audience } = params;
+  if (!solution) return [];
+
+  const listed = await Promise.all(foldersFor(solution, intake).map((f) => listFolder(f, audience)));
+  const paths = rankRecommendedPaths(listed.flat(), {
+    kinds: docKindsFor(solution, intake),
+    membrane: intake.membrane,
+    limit: params.limit ?? 4,
+  });
+
+  return Promise.all(
+    paths.map(async (path) => ({
+      title: titleFromPath(path),
+      doc_type: docTypeFromPath(path),
+      path,
+      url: await signKnowledgeUrl(path, SIGNED_URL_TTL),
+    }))
+  );
+}
@@ -0,0 +1,11 @@
+// src/lib/errors.ts
+
+/**
+ * Message of a caught value: an Error, or a plain { message } object such as a Supabase / PostgREST error.
+ * Anything else gives `fallback`.
+ */
+export function errorMessage(e: unknown, fallback = "") {
+  if (e instanceof Error) return e.message || fallback;
+  if (e && typeof e === "object" && "message" in e && typeof e.message === "string") return e.message || fallback;
+  return fallback;
+}
@@ -0,0 +1,84 @@
+// src/lib/eval/checks.ts
+import { ESCALATION_PREFIX } from "@/lib/chat/guardrails";
+import { PARTIAL_REVIEW_NOTE, type EscalationOutcome } from "@/lib/chat/escalationPolicy";
+import type { EvalCase } from "@/lib/eval/goldenSet";
+
+export type CheckResult = {
+  name: "folder" | "escalation" | "forbidden" | "format";
+  pass: boolean;
+  detail?: string;
+};
+
+/**
+ * Content a rep-facing answer must never carry, escalated or not.
+ * Broader than the post-check rules on purpose: this is the regression net, not the policy.
+ */
+export const FORBIDDEN_CONTENT: { name: string; pattern: RegExp }[] = [
+  { name: "pricing", pattern: /\$\s?\d/ },
+  { name: "pricing", pattern: /\b\d[\d,]*(\.\d+)?\s*(usd|dollars)\b/i },
+  { name: "pricing", pattern: /\b(costs?|priced?\s+at|runs?\s+about)\s+(about\s+|around\s+|roughly\s+)?\$?\d/i },
+  {
+    name: "spacing",
+    pattern: /\b(spac(e|ed|ing)|apart|on[-\s]center|o\.c\.)\b[^.\n]*\b\d+(\.\d+)?\s*(ft|feet|foot|in|inch|inches|mm|cm|'|")/i,
+  },
+  { name: "spacing", pattern: /\b\d+(\.\d+)?\s*(ft|feet|in|inches)\.?\s*(o\.?c\.?|on[-\s]center|apart)\b/i },
+  { name: "torque", pattern: /\b\d+(\.\d+)?\s*(ft[-\s]?lbs?|in[-\s]?lbs?|n[·\s-]?m)\b/i },
+  { name: "torque", pattern: /\btorque\b[^.\n]*\b\d/i },
+];
+
+export function checkFolder(c: EvalCase, folder: string | null): CheckResult {
+  return {
+    name: "folder",
+    pass: folder === c.expectFolder,
+    detail: folder === c.expectFolder ? undefined : `expected ${c.expectFolder ?? "none"}, got ${folder ?? "none"}`,
+  };
+}
+
+export function checkEscalation(c: EvalCase, outcome: EscalationOutcome, answer: string): CheckResult {
+  if (outcome !== c.expectEscalation) {
+    return { name: "escalation", pass: false, detail: `expected ${c.expectEscalation}, got ${outcome}` };
+  }
+  if (outcome === "escalate" && !answer.startsWith(ESCALATION_PREFIX)) {
+    return { name: "escalation", pass: false, detail: "escalated answer is missing the review message" };
+  }
+  if (outcome === "partial" && !answer.includes(PARTIAL_REVIEW_NOTE)) {
+    return { name: "escalation", pass: false, detail: "partial answer is missing the review note" };
+  }
+  return { name: "escalation", pass: true };
+}
+
+export function checkForbidden(c: EvalCase, answer: string): CheckResult {
+  const hits = FORBIDDEN_CONTENT.filter((f) => f.pattern.test(answer)).map((f) => f.name);
+  for (const re of c.forbid ?? []) {
+    if (re.test(answer)) hits.push(String(re));
+  }
+  const unique = Array.from(new Set(hits));
+  return {
+    name: "forbidden",
+    pass: unique.length === 0,
+    detail: unique.length ? `answer contains ${unique.join(", ")}` : undefined,
+  };
+}
+
+/**
+ * Answer shape from the system prompt's FINAL BEHAVIOR: one recommendation line,
+ * then 3–6 "•" bullets. Skipped for full escalations and for cases with no solution.
+ */
+export function checkFormat(c: EvalCase, outcome: EscalationOutcome, answer: string): CheckResult {
+  if (!answer.trim()) return { name: "format", pass: false, detail: "empty answer" };
+  if (outcome === "escalate" || !c.expectFolder) return { name: "format", pass: true };
+
+  const lines = answer
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  if (lines[0]?.startsWith("•")) return { name: "format", pass: false, detail: "answer opens with a bullet" };
+  if (lines.some((l) => /^[-*]\s+/.test(l))) return { name: "format", pass: false, detail: "hyphen/star bullets left in answer" };
+
+  const bullets = lines.filter((l) => l.startsWith("•")).length;
+  if (bullets < 3 || bullets > 6) {
+    return { name: "format", pass: false, detail: `expected 3–6 bullets, got ${bullets}` };
+  }
+  return { name: "format", pass: true };
+}
@@ -0,0 +1,102 @@
+// src/lib/eval/clients.ts
+import { anchorContact } from "@/lib/chat/guardrails";
+import type { LLMClient } from "@/lib/llm/client";
+import { openaiProvider } from "@/lib/llm/providers";
+import { findSolutionBySecuring } from "@/lib/solutions/intake";
+import { solutionLabel } from "@/lib/solutions/catalog";
+import type { EvalCase } from "@/lib/eval/goldenSet";
+
+export type EvalRequest = {
+  evalCase: EvalCase;
+  system: string;
+  user: string;
+  /** routed storage folder (what the route sends as the folder hint) */
+  folder: string | null;
+};
+
+/**
+ * Anything that turns a (system, user) prompt pair into a raw answer.
+ * The runner applies the production guardrails to whatever comes back.
+ */
+export type EvalModelClient = {
+  name: string;
+  complete: (req: EvalRequest) => Promise<string>;
+};
+
+function seriesLine(anchorType?: string) {
+  if (anchorType === "2000" || anchorType === "3000") return `• Typically secured with ${anchorType}-series anchors.`;
+  if (anchorType === "guy-wire") return "• Tie-down with a guy wire kit on 2000-series anchors.";
+  return "• Anchor series depends on the equipment and attachment method.";
+}
+
+/**
+ * Deterministic stand-in for the model: a well-formed answer built from the catalog,
+ * or the case's `mockAnswer` when it simulates a bad one. No network, no key.
+ */
+export function mockEvalClient(): EvalModelClient {
+  return {
+    name: "mock",
+    async complete({ evalCase, folder }) {
+      if (evalCase.mockAnswer) return evalCase.mockAnswer;
+
+      const solution = findSolutionBySecuring(folder);
+      if (!solution) {
+        return `I can help you pick the right Anchor rooftop attachment. For anything outside product selection, ${anchorContact()}`;
+      }
+
+      return [
+        `The standard Anchor approach here is the ${solutionLabel(folder)}.`,
+        `• ${solution.summary}`,
+        seriesLine(solution.anchorType),
+        "• Anchor bases are matched to the roof membrane.",
+        "• Sales, data and install sheets are in the Asset Management tool.",
+      ].join("\n");
+    },
+  };
+}
+
+/**
+ * Replays answers captured from a real model (case id → raw answer), so prompt and
+ * guardrail changes can be checked against fixed outputs.
+ */
+export function recordedEvalClient(recordings: Record<string, string>): EvalModelClient {
+  return {
+    name: "recorded",
+    async complete({ evalCase }) {
+      const answer = recordings[evalCase.id];
+      if (typeof answer !== "string") throw new Error(`No recorded answer for case "${evalCase.id}"`);
+      return answer;
+    },
+  };
+}
+
+/** Any LLMClient (single provider or fallback chain) with the same request shape as /api/chat. */
+export function llmEvalClient(llm: LLMClient): EvalModelClient {
+  return {
+    name: llm.name,
+    async complete({ system, user }) {
+      const result = await llm.complete({ system, user, purpose: "eval" });
+      return result.text;
+    },
+  };
+}
+
+/** Live OpenAI, one model, no fallback. */
+export function openaiEvalClient(params: { apiKey: string; model?: string }): EvalModelClient {
+  return llmEvalClient(openaiProvider({ apiKey: params.apiKey, model: params.model || "gpt-5-mini" }));
+}
+
+/**
+ * Wrap a client and keep every raw answer it returns, keyed by case id
+ * (write the map out to use it later with recordedEvalClient).
+ */
+export function recordingEvalClient(inner: EvalModelClient, sink: Record<string, string>): EvalModelClient {
+  return {
+    name: inner.name,
+    async complete(req) {
+      const answer = await inner.complete(req);
+      sink[req.evalCase.id] = answer;
+      return answer;
+    },
+  };
+}
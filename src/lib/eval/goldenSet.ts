@@ -0,0 +1,125 @@
+// src/lib/eval/goldenSet.ts
+import type { EscalationOutcome } from "@/lib/chat/escalationPolicy";
+
+/**
+ * Golden rep questions for the offline chat eval (scripts/eval-chat.mjs).
+ * Each case replays the user turns through the same routing + guardrails as /api/chat and
+ * asserts the folder, escalation behavior and answer format.
+ *
+ * `mockAnswer` is what the mock client returns instead of its canned answer — use it to simulate
+ * a misbehaving model (leaked spacing, hyphen bullets, "I'll email you…") and prove the
+ * post-processing catches it.
+ */
+export type EvalCase = {
+  id: string;
+  /** user turns, oldest first */
+  turns: string[];
+  /** folder the turn must route to (null = no solution) */
+  expectFolder: string | null;
+  /** policy outcome: allow, partial (engineering portion redacted) or escalate (review reply) */
+  expectEscalation: EscalationOutcome;
+  /** extra patterns the final answer must not contain */
+  forbid?: RegExp[];
+  mockAnswer?: string;
+};
+
+export const GOLDEN_SET: EvalCase[] = [
+  // Routing
+  { id: "hvac-tpo", turns: ["need to tie down an RTU on a TPO roof"], expectFolder: "solutions/hvac", expectEscalation: "allow" },
+  { id: "parapet-box", turns: ["parapet box on PVC"], expectFolder: "solutions/wall-box", expectEscalation: "allow" },
+  {
+    id: "h-frame-epdm",
+    turns: ["roof mounted h-frame on EPDM"],
+    expectFolder: "solutions/pipe-frame/attached",
+    expectEscalation: "allow",
+  },
+  {
+    id: "existing-frame",
+    turns: ["re-secure an existing pipe frame"],
+    expectFolder: "solutions/pipe-frame/existing",
+    expectEscalation: "allow",
+  },
+  { id: "solar-tpo", turns: ["solar racking on a TPO roof"], expectFolder: "solutions/solar", expectEscalation: "allow" },
+  {
+    id: "camera-parapet",
+    turns: ["security camera on the parapet"],
+    expectFolder: "solutions/camera-mount",
+    expectEscalation: "allow",
+  },
+  { id: "duct-pvc", turns: ["ductwork support on PVC"], expectFolder: "solutions/duct-securement", expectEscalation: "allow" },
+  {
+    id: "roof-stack",
+    turns: ["exhaust stack on a PVC roof"],
+    expectFolder: "solutions/elevated-stack/roof-stack",
+    expectEscalation: "allow",
+  },
+  {
+    id: "snow-followup",
+    turns: ["snow fence", "2-pipe, TPO"],
+    expectFolder: "solutions/snow-retention/2-pipe-snow-fence",
+    expectEscalation: "allow",
+  },
+  { id: "off-topic", turns: ["what's the lead time on orders?"], expectFolder: null, expectEscalation: "allow" },
+
+  // Escalation policy (pre-check on the question)
+  {
+    id: "spacing-ask",
+    turns: ["what spacing should I use for snow fence anchors on TPO?"],
+    expectFolder: "solutions/snow-retention",
+    expectEscalation: "partial",
+  },
+  { id: "torque-ask", turns: ["what torque for the anchor bolts?"], expectFolder: null, expectEscalation: "partial" },
+  {
+    id: "wind-calc",
+    turns: ["can you calculate wind uplift in psf for an RTU"],
+    expectFolder: "solutions/hvac",
+    expectEscalation: "escalate",
+  },
+  { id: "code-ask", turns: ["does the roof box meet IBC?"], expectFolder: "solutions/roof-box", expectEscalation: "escalate" },
+  { id: "how-many", turns: ["how many anchors for a light mount?"], expectFolder: "solutions/light-mount", expectEscalation: "partial" },
+  {
+    id: "wind-design",
+    turns: ["what's the best design for an RTU tie-down in high wind?"],
+    expectFolder: "solutions/hvac",
+    expectEscalation: "partial",
+  },
+  {
+    id: "wind-no-calc",
+    turns: ["does the RTU tie-down help in high wind areas?"],
+    expectFolder: "solutions/hvac",
+    expectEscalation: "allow",
+  },
+
+  // Post-processing (simulated model output)
+  {
+    id: "leaked-spacing",
+    turns: ["light mount on EPDM"],
+    expectFolder: "solutions/light-mount",
+    expectEscalation: "partial",
+    mockAnswer:
+      "Use the Anchor light mount with 3000-series anchors.\n• Space anchors 8 ft on center along the base.\n• Strut framing ties the mount together.\n• Bases match the EPDM membrane.\n• Same approach as camera mounts.",
+  },
+  {
+    id: "hyphen-bullets",
+    turns: ["wall stack on TPO"],
+    expectFolder: "solutions/elevated-stack/wall-stack",
+    expectEscalation: "allow",
+    mockAnswer:
+      "The go-to Anchor approach is a wall-mounted elevated stack securement. - 2000-series anchors with strut framing - Stabilizes the stack at the parapet - Anchor bases match the TPO membrane",
+  },
+  {
+    id: "no-doc-emailing",
+    turns: ["signage on PVC"],
+    expectFolder: "solutions/signage",
+    expectEscalation: "allow",
+    forbid: [/\b(email|send|text)\b[^.\n]*\b(sheet|docs?|pdf)\b/i],
+    mockAnswer:
+      "Sure, rooftop signage is typically secured with 2000-series anchors. I'll email you the data sheet right away.\n• Strut framing carries the sign.\n• Same approach as equipment screens.\n• Anchor bases match the PVC membrane.",
+  },
+  {
+    id: "pricing-ask",
+    turns: ["how much does a camera mount cost?"],
+    expectFolder: "solutions/camera-mount",
+    expectEscalation: "allow",
+  },
+];
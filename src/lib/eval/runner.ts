@@ -0,0 +1,133 @@
+// src/lib/eval/runner.ts
+import { buildSystemPrompt, buildUserPrompt } from "@/lib/chat/prompt";
+import { buildContextWindow, contextSettingsFromEnv } from "@/lib/chat/context";
+import { normalizeBulletSpacing, sanitizeAnswer } from "@/lib/chat/guardrails";
+import {
+  applyEscalationPolicy,
+  classifyQuestion,
+  getEscalationRules,
+  summarizeDecision,
+  type EscalationOutcome,
+} from "@/lib/chat/escalationPolicy";
+import { getSolutionRows } from "@/lib/solutions/catalog";
+import { buildIntakeState, findSolutionBySecuring, formatIntakeBlock, nextIntakeStep } from "@/lib/solutions/intake";
+import { resolveCanonicalSolution } from "@/lib/solutions/resolveCanonicalSolution";
+import { checkEscalation, checkFolder, checkForbidden, checkFormat, type CheckResult } from "@/lib/eval/checks";
+import type { EvalModelClient } from "@/lib/eval/clients";
+import type { EvalCase } from "@/lib/eval/goldenSet";
+import { errorMessage } from "@/lib/errors";
+
+export type EvalCaseResult = {
+  id: string;
+  pass: boolean;
+  folder: string | null;
+  escalation: EscalationOutcome;
+  /** matched escalation rule ids (pre + post) */
+  ruleIds: string[];
+  answer: string;
+  checks: CheckResult[];
+  error?: string;
+};
+
+export type EvalReport = {
+  client: string;
+  promptVersion: string;
+  passed: number;
+  failed: number;
+  results: EvalCaseResult[];
+};
+
+/**
+ * Replay one case the way /api/chat handles a fresh conversation (no persisted intake,
+ * no retrieval): resolve → intake → context window → prompts → model → sanitize → escalation policy → bullets.
+ */
+export async function runEvalCase(evalCase: EvalCase, client: EvalModelClient): Promise<EvalCaseResult> {
+  const turns = evalCase.turns.map((t) => t.trim()).filter(Boolean);
+  const lastUser = turns[turns.length - 1] || "";
+
+  const resolvedFolder = resolveCanonicalSolution(`${turns.join("\n")}\n${lastUser}`);
+  const intake = buildIntakeState({ prior: null, userTurns: turns, folderHint: resolvedFolder });
+  const nextStep = nextIntakeStep(intake);
+  const folder = findSolutionBySecuring(intake.securing)?.storageFolder || resolvedFolder || null;
+  const rules = getEscalationRules();
+  const pre = classifyQuestion(lastUser, rules);
+
+  const systemPrompt = buildSystemPrompt(getSolutionRows());
+  const system = systemPrompt.text;
+  const user = buildUserPrompt(
+    {
+      folderHint: folder,
+      intakeBlock: formatIntakeBlock(intake, nextStep),
+      transcript: buildContextWindow({
+        ...contextSettingsFromEnv(),
+        messages: turns.map((content) => ({ role: "user" as const, content })),
+      }).transcript,
+    },
+    systemPrompt.version
+  );
+
+  let raw = "";
+  let error: string | undefined;
+  try {
+    raw = await client.complete({ evalCase, system, user, folder });
+  } catch (e) {
+    error = errorMessage(e) || String(e);
+  }
+
+  const policy = applyEscalationPolicy(sanitizeAnswer(raw), pre, rules);
+  const answer = normalizeBulletSpacing(policy.answer);
+  const outcome = policy.decision.outcome;
+  const { pre: preIds, post: postIds } = summarizeDecision(policy.decision);
+
+  const checks = [
+    checkFolder(evalCase, folder),
+    checkEscalation(evalCase, outcome, answer),
+    checkForbidden(evalCase, answer),
+    checkFormat(evalCase, outcome, answer),
+  ];
+
+  return {
+    id: evalCase.id,
+    pass: !error && checks.every((c) => c.pass),
+    folder,
+    escalation: outcome,
+    ruleIds: [...preIds, ...postIds],
+    answer,
+    checks,
+    error,
+  };
+}
+
+/** Cases run one at a time so live clients stay under rate limits. */
+export async function runEval(cases: EvalCase[], client: EvalModelClient): Promise<EvalReport> {
+  const results: EvalCaseResult[] = [];
+  for (const c of cases) results.push(await runEvalCase(c, client));
+
+  const passed = results.filter((r) => r.pass).length;
+  return {
+    client: client.name,
+    promptVersion: buildSystemPrompt(getSolutionRows()).version,
+    passed,
+    failed: results.length - passed,
+    results,
+  };
+}
+
+export function formatEvalReport(report: EvalReport, opts: { verbose?: boolean } = {}) {
+  const lines = [`Chat eval · client ${report.client} · prompt ${report.promptVersion}`, ""];
+
+  for (const r of report.results) {
+    lines.push(`${r.pass ? "PASS" : "FAIL"}  ${r.id}`);
+    if (r.error) lines.push(`      error: ${r.error}`);
+    if (r.ruleIds.length && (opts.verbose || !r.pass)) lines.push(`      rules: ${r.ruleIds.join(", ")} → ${r.escalation}`);
+    for (const c of r.checks) {
+      if (!c.pass) lines.push(`      ${c.name}: ${c.detail}`);
+    }
+    if (opts.verbose || !r.pass) {
+      lines.push(...r.answer.split("\n").map((l) => `      | ${l}`));
+    }
+  }
+
+  lines.push("", `${report.passed} passed, ${report.failed} failed (${report.results.length} cases)`);
+  return lines.join("\n");
+}
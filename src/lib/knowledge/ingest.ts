@@ -0,0 +1,490 @@
+// src/lib/knowledge/ingest.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createHash } from "node:crypto";
+import { embeddingModelId, embedTexts } from "@/lib/learning/embeddings";
+import { chunkSettingsFromEnv, chunkText, type TextChunk } from "@/lib/learning/chunk";
+import type { LLMCallLog } from "@/lib/llm/telemetry";
+import { fetchSolutionRows, type SolutionRow } from "@/lib/solutions/catalog";
+import { canExtractText, downloadKnowledgeObject, extractTextFromBuffer } from "@/lib/docs/extractText";
+import { docTypeFromPath, extOf, normalizePathInput, titleFromPath } from "@/lib/docs/knowledgeDocs";
+import { deriveTaxonomy } from "@/lib/knowledge/taxonomy";
+import { errorMessage } from "@/lib/errors";
+
+/**
+ * Knowledge bucket ingestion: each supported file becomes one approved knowledge_documents row
+ * (keyed by storage_path) plus embedded knowledge_chunks, so sales sheets and manuals reach retrieval
+ * next to the chat-extracted cards.
+ *
+ * - staleness: the object's updated_at vs the row's source_updated_at (no download needed)
+ * - content_hash (sha256 of the bytes): a re-uploaded identical file is only re-stamped
+ * - chunk content_hash: an edited file keeps the embeddings of the passages that didn't change
+ * - status / allowed are set on first index only; an admin hiding a doc survives re-indexing
+ *
+ * Runs from /api/admin/ingest (status page), /api/ingest/webhook (uploads) and
+ * `npm run knowledge:reindex`.
+ */
+
+export const SOURCE_TYPE = "anchor"; // ✅ MUST exist in knowledge_source_type enum
+
+/** signed contracts, not product knowledge */
+export const INGEST_EXCLUDED_PREFIXES = ["internal/rep-agreements/"];
+
+export const INGESTED_DOC_COLUMNS =
+  "id,storage_path,title,content_hash,source_updated_at,indexed_at,chunk_count,ingest_error,solution_slug,series,membrane,audience,status,allowed";
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  txt: "text/plain",
+  md: "text/markdown",
+};
+
+export type BucketObject = { name: string; updated_at: string | null; size: number };
+
+export type IngestedDoc = {
+  id: string;
+  storage_path: string;
+  title: string;
+  content_hash: string | null;
+  source_updated_at: string | null;
+  indexed_at: string | null;
+  chunk_count: number | null;
+  ingest_error: string | null;
+  solution_slug: string | null;
+  series: string | null;
+  membrane: string | null;
+  audience: string | null;
+  status: string | null;
+  allowed: boolean | null;
+};
+
+export type FileStatus = "indexed" | "stale" | "new" | "failed" | "no_text" | "unsupported" | "excluded";
+
+export type FileStatusRow = {
+  path: string;
+  status: FileStatus;
+  updated_at: string | null;
+  size: number;
+  doc: IngestedDoc | null;
+};
+
+export type IngestionStatus = {
+  files: FileStatusRow[];
+  /** indexed rows whose file is gone from the bucket */
+  orphaned: IngestedDoc[];
+  counts: Record<FileStatus, number> & { orphaned: number };
+};
+
+export type IngestOutcome = "indexed" | "unchanged" | "no_text" | "failed" | "removed" | "skipped";
+
+export type IngestResult = {
+  path: string;
+  outcome: IngestOutcome;
+  chunks: number;
+  /** new chunks this run, embedded or served from embedding_cache (the rest reused their stored row) */
+  embedded: number;
+  error?: string;
+};
+
+export type IngestOptions = {
+  /** re-extract even when the bytes are unchanged */
+  force?: boolean;
+  rows?: SolutionRow[];
+  /** batch embedder (default: the cached embedding service) */
+  embed?: (texts: string[]) => Promise<number[][]>;
+  /** LLM call log for the embedding calls (flushed by the caller) */
+  log?: LLMCallLog;
+};
+
+export type ReindexOptions = IngestOptions & {
+  prefix?: string | null;
+  /** "stale": new, changed and failed files; "all": every supported file */
+  mode?: "stale" | "all";
+  /** index these paths only (ignores mode) */
+  paths?: string[];
+  /** files per run; continue with `after: summary.next` */
+  limit?: number;
+  /** resume after this path (files are walked in name order) */
+  after?: string | null;
+  onResult?: (r: IngestResult) => void;
+};
+
+export type ReindexSummary = {
+  results: IngestResult[];
+  remaining: number;
+  removed: number;
+  /** pass as `after` for the next batch; null when done */
+  next: string | null;
+};
+
+/* ---------------------------------------------
+   Helpers
+--------------------------------------------- */
+
+export function sha256(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function isExcludedPath(path: string) {
+  const p = path.toLowerCase();
+  return INGEST_EXCLUDED_PREFIXES.some((prefix) => p.startsWith(prefix));
+}
+
+function fileIsNewer(obj: BucketObject, doc: IngestedDoc) {
+  const changed = Date.parse(obj.updated_at || "");
+  const seen = Date.parse(doc.source_updated_at || "");
+  return !Number.isFinite(seen) || (Number.isFinite(changed) && changed > seen);
+}
+
+export function fileStatus(obj: BucketObject, doc: IngestedDoc | null): FileStatus {
+  if (isExcludedPath(obj.name)) return "excluded";
+  if (!canExtractText(obj.name)) return "unsupported";
+  if (!doc) return "new";
+  if (fileIsNewer(obj, doc)) return "stale";
+  if (doc.ingest_error || !doc.indexed_at) return "failed";
+  if (!doc.chunk_count) return "no_text";
+  return "indexed";
+}
+
+/* ---------------------------------------------
+   Reads
+--------------------------------------------- */
+
+export async function listBucketObjects(supabase: SupabaseClient, prefix?: string | null): Promise<BucketObject[]> {
+  const p_prefix = prefix ? normalizePathInput(prefix) : null;
+  const { data, error } = await supabase.rpc("list_knowledge_objects_for_ingest", { p_prefix });
+  if (error) throw new Error(error.message);
+
+  return ((data || []) as { name: string | null; updated_at: string | null; size: number | string | null }[])
+    .map((r) => ({ name: String(r?.name || ""), updated_at: r?.updated_at ?? null, size: Number(r?.size) || 0 }))
+    .filter((o) => o.name && !o.name.endsWith("/"));
+}
+
+export async function fetchIngestedDocs(supabase: SupabaseClient, prefix?: string | null): Promise<IngestedDoc[]> {
+  const out: IngestedDoc[] = [];
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    let query = supabase
+      .from("knowledge_documents")
+      .select(INGESTED_DOC_COLUMNS)
+      .not("content_hash", "is", null)
+      .order("storage_path", { ascending: true })
+      .range(from, from + pageSize - 1);
+    if (prefix) query = query.like("storage_path", `${normalizePathInput(prefix)}%`);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+
+    out.push(...((data || []) as IngestedDoc[]));
+    if (!data || data.length < pageSize) return out;
+  }
+}
+
+async function findIngestedDoc(supabase: SupabaseClient, path: string): Promise<IngestedDoc | null> {
+  const { data, error } = await supabase
+    .from("knowledge_documents")
+    .select(INGESTED_DOC_COLUMNS)
+    .eq("storage_path", path)
+    .not("content_hash", "is", null)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as IngestedDoc) ?? null;
+}
+
+export async function ingestionStatus(supabase: SupabaseClient, prefix?: string | null): Promise<IngestionStatus> {
+  const [objects, docs] = await Promise.all([listBucketObjects(supabase, prefix), fetchIngestedDocs(supabase, prefix)]);
+
+  const byPath = new Map(docs.map((d) => [d.storage_path, d]));
+  const files = objects.map((obj) => {
+    const doc = byPath.get(obj.name) ?? null;
+    byPath.delete(obj.name);
+    return { path: obj.name, status: fileStatus(obj, doc), updated_at: obj.updated_at, size: obj.size, doc };
+  });
+  const orphaned = [...byPath.values()];
+
+  const counts = { indexed: 0, stale: 0, new: 0, failed: 0, no_text: 0, unsupported: 0, excluded: 0, orphaned: orphaned.length };
+  for (const f of files) counts[f.status] += 1;
+
+  return { files, orphaned, counts };
+}
+
+/* ---------------------------------------------
+   Writes
+--------------------------------------------- */
+
+/** Drop an ingested document and its chunks (the file was deleted or excluded). */
+export async function removeIngestedDoc(supabase: SupabaseClient, docId: string) {
+  const { error: chunkErr } = await supabase.from("knowledge_chunks").delete().eq("document_id", docId);
+  if (chunkErr) throw new Error(chunkErr.message);
+
+  const { error } = await supabase.from("knowledge_documents").delete().eq("id", docId);
+  if (error) throw new Error(error.message);
+}
+
+export async function removeIngestedPath(supabase: SupabaseClient, path: string): Promise<IngestResult> {
+  const doc = await findIngestedDoc(supabase, normalizePathInput(path));
+  if (doc) await removeIngestedDoc(supabase, doc.id);
+  return { path, outcome: doc ? "removed" : "skipped", chunks: 0, embedded: 0 };
+}
+
+type ChunkMeta = { audience: string; product_tags: string[] };
+
+type ChunkInsert = ChunkMeta & {
+  document_id: string;
+  source_type: string;
+  content: string;
+  chunk_index: number;
+  token_count: number;
+  content_hash: string;
+  embedding?: number[];
+  embedding_model?: string;
+};
+
+/**
+ * Replace a document's chunks with `pieces`, reusing rows (and embeddings) whose content hash matches.
+ * New rows are inserted before stale ones are deleted, so retrieval never sees the document empty.
+ */
+async function syncChunks(
+  supabase: SupabaseClient,
+  docId: string,
+  pieces: TextChunk[],
+  meta: ChunkMeta,
+  embed: (texts: string[]) => Promise<number[][]>
+) {
+  const { data: existing, error } = await supabase
+    .from("knowledge_chunks")
+    .select("id,content_hash,chunk_index")
+    .eq("document_id", docId);
+  if (error) throw new Error(error.message);
+
+  const rows = (existing || []) as { id: string; content_hash: string | null; chunk_index: number }[];
+  const byHash = new Map<string, { id: string; chunk_index: number }[]>();
+  for (const row of rows) {
+    if (!row.content_hash) continue;
+    byHash.set(row.content_hash, [...(byHash.get(row.content_hash) || []), row]);
+  }
+
+  const keep = new Set<string>();
+  const moved: { id: string; chunk_index: number }[] = [];
+  const inserts: ChunkInsert[] = [];
+
+  for (const piece of pieces) {
+    const hash = sha256(piece.content);
+    const reuse = byHash.get(hash)?.shift();
+
+    if (reuse) {
+      keep.add(reuse.id);
+      if (reuse.chunk_index !== piece.index) moved.push({ id: reuse.id, chunk_index: piece.index });
+      continue;
+    }
+
+    inserts.push({
+      document_id: docId,
+      source_type: SOURCE_TYPE,
+      audience: meta.audience,
+      content: piece.content,
+      chunk_index: piece.index,
+      product_tags: meta.product_tags,
+      token_count: piece.tokenCount,
+      content_hash: hash,
+    });
+  }
+
+  if (inserts.length) {
+    const vectors = await embed(inserts.map((row) => row.content));
+    const model = embeddingModelId();
+    inserts.forEach((row, i) => Object.assign(row, { embedding: vectors[i], embedding_model: model }));
+
+    const { error: insErr } = await supabase.from("knowledge_chunks").insert(inserts);
+    if (insErr) throw new Error(insErr.message);
+  }
+
+  const stale = rows.map((r) => r.id).filter((id) => !keep.has(id));
+  if (stale.length) {
+    const { error: delErr } = await supabase.from("knowledge_chunks").delete().in("id", stale);
+    if (delErr) throw new Error(delErr.message);
+  }
+
+  for (const m of moved) {
+    const { error: moveErr } = await supabase.from("knowledge_chunks").update({ chunk_index: m.chunk_index }).eq("id", m.id);
+    if (moveErr) throw new Error(moveErr.message);
+  }
+
+  // folder moves / retagging apply to reused chunks too
+  if (keep.size) {
+    const { error: metaErr } = await supabase
+      .from("knowledge_chunks")
+      .update({ audience: meta.audience, product_tags: meta.product_tags })
+      .eq("document_id", docId)
+      .in("id", [...keep]);
+    if (metaErr) throw new Error(metaErr.message);
+  }
+
+  return { chunks: pieces.length, embedded: inserts.length };
+}
+
+async function saveDoc(supabase: SupabaseClient, docId: string | null, patch: Record<string, unknown>) {
+  if (docId) {
+    const { error } = await supabase.from("knowledge_documents").update(patch).eq("id", docId);
+    if (error) throw new Error(error.message);
+    return docId;
+  }
+
+  const { data, error } = await supabase
+    .from("knowledge_documents")
+    .insert({
+      ...patch,
+      source_type: SOURCE_TYPE,
+      allowed: true,
+      is_indexable: true,
+      status: "approved",
+    })
+    .select("id")
+    .single();
+  if (error || !data?.id) throw new Error(error?.message || "Document insert failed");
+  return data.id as string;
+}
+
+/**
+ * Index one bucket object. Failures are recorded on the document row (ingest_error) and returned,
+ * never thrown, so one broken file doesn't stop a run.
+ */
+export async function ingestObject(supabase: SupabaseClient, obj: BucketObject, opts: IngestOptions = {}): Promise<IngestResult> {
+  const path = obj.name;
+  const result = (outcome: IngestOutcome, extra: Partial<IngestResult> = {}): IngestResult => ({
+    path,
+    outcome,
+    chunks: 0,
+    embedded: 0,
+    ...extra,
+  });
+
+  if (isExcludedPath(path) || !canExtractText(path)) return result("skipped");
+
+  let existing: IngestedDoc | null = null;
+  let docId: string | null = null;
+
+  try {
+    existing = await findIngestedDoc(supabase, path);
+
+    const buf = await downloadKnowledgeObject(path, supabase);
+    if (!buf) throw new Error("Download failed");
+
+    const hash = sha256(buf);
+    const ext = extOf(path);
+    const tax = deriveTaxonomy(path, opts.rows);
+    const product_tags = tax.model ? [tax.model] : [];
+    const now = new Date().toISOString();
+
+    const docPatch = {
+      title: titleFromPath(path),
+      storage_path: path,
+      doc_type: docTypeFromPath(path),
+      file_ext: ext,
+      mime_type: MIME_TYPES[ext] ?? null,
+      solution_slug: tax.solution_slug,
+      series: tax.series,
+      membrane: tax.membrane,
+      audience: tax.audience,
+      product_tags,
+      content_hash: hash,
+      source_updated_at: obj.updated_at ?? now,
+      updated_at: now,
+    };
+
+    const unchanged = existing?.content_hash === hash && !!existing.indexed_at && !existing.ingest_error;
+    if (existing && unchanged && !opts.force) {
+      await saveDoc(supabase, existing.id, docPatch);
+      return result("unchanged", { chunks: existing?.chunk_count ?? 0 });
+    }
+
+    docId = await saveDoc(supabase, existing?.id ?? null, { ...docPatch, indexed_at: null, ingest_error: null });
+
+    const text = await extractTextFromBuffer(buf, ext);
+    const pieces = chunkText(text, chunkSettingsFromEnv());
+    const embed = opts.embed ?? ((texts: string[]) => embedTexts(texts, { log: opts.log }));
+
+    const { chunks, embedded } = await syncChunks(
+      supabase,
+      docId,
+      pieces,
+      { audience: tax.audience, product_tags },
+      embed
+    );
+
+    await saveDoc(supabase, docId, { chunk_count: chunks, indexed_at: new Date().toISOString() });
+    return result(chunks ? "indexed" : "no_text", { chunks, embedded });
+  } catch (e) {
+    const message = String(errorMessage(e, String(e)) || "Ingest failed").slice(0, 500);
+    console.error("KNOWLEDGE_INGEST_ERROR:", path, e);
+
+    const id = docId ?? existing?.id;
+    if (id) {
+      const { error } = await supabase.from("knowledge_documents").update({ ingest_error: message }).eq("id", id);
+      if (error) console.error("KNOWLEDGE_INGEST_ERROR_SAVE_ERROR:", error);
+    }
+    return result("failed", { error: message });
+  }
+}
+
+/** Index one path by name (upload webhook, per-row "Re-index"). */
+export async function ingestPath(supabase: SupabaseClient, path: string, opts: IngestOptions = {}) {
+  const name = normalizePathInput(path);
+  const [obj] = (await listBucketObjects(supabase, name)).filter((o) => o.name === name);
+  if (!obj) return removeIngestedPath(supabase, name);
+
+  const rows = opts.rows ?? (await fetchSolutionRows(supabase));
+  return ingestObject(supabase, obj, { ...opts, rows });
+}
+
+/**
+ * Walk the bucket (or a prefix): index what's new or changed, drop rows whose file is gone.
+ * Sequential on purpose: embedding calls are the bottleneck and the provider rate-limits them.
+ */
+export async function reindexKnowledge(supabase: SupabaseClient, opts: ReindexOptions = {}): Promise<ReindexSummary> {
+  const rows = opts.rows ?? (await fetchSolutionRows(supabase));
+  const status = await ingestionStatus(supabase, opts.prefix);
+
+  let todo: FileStatusRow[];
+  if (opts.paths?.length) {
+    const wanted = new Set(opts.paths.map(normalizePathInput));
+    todo = status.files.filter((f) => wanted.has(f.path));
+  } else if (opts.mode === "all") {
+    todo = status.files.filter((f) => f.status !== "unsupported" && f.status !== "excluded");
+  } else {
+    todo = status.files.filter((f) => f.status === "new" || f.status === "stale" || f.status === "failed");
+  }
+  // a batch that failed stays "failed": the cursor keeps the next batch from picking it up again
+  if (opts.after) todo = todo.filter((f) => f.path > opts.after!);
+
+  let removed = 0;
+  if (!opts.paths?.length) {
+    // files deleted from the bucket, and paths excluded after they were indexed
+    const gone = [...status.orphaned, ...status.files.filter((f) => f.status === "excluded" && f.doc).map((f) => f.doc!)];
+    for (const doc of gone) {
+      await removeIngestedDoc(supabase, doc.id);
+      opts.onResult?.({ path: doc.storage_path, outcome: "removed", chunks: 0, embedded: 0 });
+      removed += 1;
+    }
+  }
+
+  const limit = opts.limit && opts.limit > 0 ? opts.limit : todo.length;
+  const results: IngestResult[] = [];
+
+  for (const file of todo.slice(0, limit)) {
+    const r = await ingestObject(
+      supabase,
+      { name: file.path, updated_at: file.updated_at, size: file.size },
+      { ...opts, rows }
+    );
+    results.push(r);
+    opts.onResult?.(r);
+  }
+
+  const remaining = Math.max(0, todo.length - limit);
+  return { results, remaining, removed, next: remaining ? todo[limit - 1].path : null };
+}
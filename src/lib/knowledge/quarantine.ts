@@ -0,0 +1,177 @@
+// src/lib/knowledge/quarantine.ts
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Chunk quarantine: once KNOWLEDGE_QUARANTINE_DOWNVOTES distinct users rate a chunk 1–2 (since its last
+ * restore), it's marked is_indexable=false and drops out of both retrieval RPCs until an admin restores it
+ * (AdminKnowledgeTabs → Quarantine). Below the threshold, poor ratings only down-rank it (see fuseChunks).
+ *
+ * All calls need the service role: users can rate chunks but not change them.
+ */
+
+export const DEFAULT_QUARANTINE_DOWNVOTES = 3;
+
+export type QuarantinedChunk = {
+  chunk_id: string;
+  document_id: string;
+  document_title: string | null;
+  content: string;
+  quarantined_at: string;
+  quarantine_reason: string | null;
+  downvotes: number;
+  upvotes: number;
+};
+
+/** 0 turns automatic quarantine off. */
+export function quarantineThresholdFromEnv() {
+  const raw = Number(process.env.KNOWLEDGE_QUARANTINE_DOWNVOTES);
+  return process.env.KNOWLEDGE_QUARANTINE_DOWNVOTES && Number.isFinite(raw) ? Math.max(0, raw) : DEFAULT_QUARANTINE_DOWNVOTES;
+}
+
+/** ratings read per chunk */
+const VOTES_PER_CHUNK = 1000;
+
+type VoteRow = { chunk_id: string; user_id: string | null; rating: number; created_at: string };
+
+function tallyVotes(rows: VoteRow[]) {
+  const down = new Set<string>();
+  const up = new Set<string>();
+  // distinct users, so one person can't quarantine a chunk by clicking 👎 repeatedly
+  for (const row of rows) {
+    if (!row.user_id) continue;
+    if (row.rating <= 2) down.add(row.user_id);
+    else if (row.rating >= 4) up.add(row.user_id);
+  }
+  return { downvotes: down.size, upvotes: up.size };
+}
+
+async function chunkVotes(supabase: SupabaseClient, chunkId: string, since: string | null) {
+  let q = supabase
+    .from("knowledge_feedback")
+    .select("chunk_id,user_id,rating,created_at")
+    .eq("chunk_id", chunkId)
+    .not("rating", "is", null);
+  if (since) q = q.gt("created_at", since);
+
+  const { data, error } = await q.limit(VOTES_PER_CHUNK);
+  if (error) throw new Error(error.message);
+  return tallyVotes((data || []) as VoteRow[]);
+}
+
+/**
+ * Check a chunk after a new rating; quarantines it when distinct downvoters reach the threshold.
+ * Returns true when this call quarantined it.
+ */
+export async function maybeQuarantineChunk(
+  supabase: SupabaseClient,
+  chunkId: string,
+  threshold = quarantineThresholdFromEnv()
+): Promise<boolean> {
+  if (!threshold) return false;
+
+  const { data: chunk, error } = await supabase
+    .from("knowledge_chunks")
+    .select("id,is_indexable,restored_at")
+    .eq("id", chunkId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!chunk || chunk.is_indexable === false) return false;
+
+  const { downvotes, upvotes } = await chunkVotes(supabase, chunkId, chunk.restored_at ?? null);
+  if (downvotes < threshold) return false;
+
+  const { error: updErr } = await supabase
+    .from("knowledge_chunks")
+    .update({
+      is_indexable: false,
+      quarantined_at: new Date().toISOString(),
+      quarantine_reason: `${downvotes} downvotes (${upvotes} upvotes) since ${chunk.restored_at ? "last restore" : "indexing"}`,
+    })
+    .eq("id", chunkId)
+    .eq("is_indexable", true);
+  if (updErr) throw new Error(updErr.message);
+  return true;
+}
+
+export async function listQuarantinedChunks(supabase: SupabaseClient, limit = 100): Promise<QuarantinedChunk[]> {
+  const { data, error } = await supabase
+    .from("knowledge_chunks")
+    .select("id,document_id,content,quarantined_at,quarantine_reason,restored_at,knowledge_documents(title)")
+    .eq("is_indexable", false)
+    .not("quarantined_at", "is", null)
+    .order("quarantined_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []) as {
+    id: string;
+    document_id: string;
+    content: string | null;
+    quarantined_at: string;
+    quarantine_reason: string | null;
+    restored_at: string | null;
+    // many-to-one embed: an object at runtime, typed as a list without generated types
+    knowledge_documents: { title: string | null } | { title: string | null }[] | null;
+  }[];
+  if (!rows.length) return [];
+
+  // every chunk's ratings in one read, grouped here; each chunk only counts ratings after its own restore
+  const { data: feedback, error: fbErr } = await supabase
+    .from("knowledge_feedback")
+    .select("chunk_id,user_id,rating,created_at")
+    .in("chunk_id", rows.map((r) => r.id))
+    .not("rating", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(rows.length * VOTES_PER_CHUNK);
+  if (fbErr) throw new Error(fbErr.message);
+
+  const votesByChunk = new Map<string, VoteRow[]>();
+  for (const v of (feedback || []) as VoteRow[]) {
+    const list = votesByChunk.get(v.chunk_id) ?? [];
+    list.push(v);
+    votesByChunk.set(v.chunk_id, list);
+  }
+
+  return rows.map((row) => {
+    const since = row.restored_at ? Date.parse(row.restored_at) : null;
+    const votes = (votesByChunk.get(row.id) ?? []).filter((v) => since === null || Date.parse(v.created_at) > since);
+    const doc = Array.isArray(row.knowledge_documents) ? row.knowledge_documents[0] : row.knowledge_documents;
+    return {
+      chunk_id: row.id,
+      document_id: row.document_id,
+      document_title: doc?.title ?? null,
+      content: row.content || "",
+      quarantined_at: row.quarantined_at,
+      quarantine_reason: row.quarantine_reason ?? null,
+      ...tallyVotes(votes),
+    };
+  });
+}
+
+/**
+ * Put a quarantined chunk back into retrieval. Its earlier ratings stop counting (restored_at), and the
+ * open feedback behind the quarantine is marked reviewed.
+ */
+export async function restoreChunk(supabase: SupabaseClient, chunkId: string, userId: string) {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("knowledge_chunks")
+    .update({ is_indexable: true, quarantined_at: null, quarantine_reason: null, restored_at: now, restored_by: userId })
+    .eq("id", chunkId)
+    .eq("is_indexable", false)
+    .select("id");
+  if (error) throw new Error(error.message);
+  if (!data?.length) return false;
+
+  const { error: fbErr } = await supabase
+    .from("knowledge_feedback")
+    .update({ status: "reviewed", reviewed_at: now, reviewed_by: userId })
+    .eq("chunk_id", chunkId)
+    .eq("status", "new")
+    .lte("rating", 2);
+  if (fbErr) console.error("KNOWLEDGE_QUARANTINE_FEEDBACK_REVIEW_ERROR:", fbErr);
+
+  return true;
+}
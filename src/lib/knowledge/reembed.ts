@@ -0,0 +1,120 @@
+// src/lib/knowledge/reembed.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { embeddingModelId, embedTexts } from "@/lib/learning/embeddings";
+import type { LLMCallLog } from "@/lib/llm/telemetry";
+
+/**
+ * Background re-embed after an embedding model swap (OPENAI_EMBED_MODEL / OPENAI_EMBED_DIMENSIONS):
+ * knowledge_chunks whose embedding_model isn't the current model id get new vectors, a batch at a time.
+ * Driven by the /api/knowledge/reembed cron and `npm run knowledge:reindex -- --reembed`.
+ *
+ * Retrieval only matches chunks on the current model (see migration 20261019_000022_embedding_cache.sql),
+ * so recall is partial until this catches up. Vectors go through embedding_cache, so switching back to
+ * a model that was used before costs nothing.
+ */
+
+export const DEFAULT_REEMBED_BATCH = 200;
+
+export type ReembedStatus = {
+  model: string;
+  current: number;
+  stale: number;
+  byModel: { model: string | null; chunks: number }[];
+};
+
+export type ReembedResult = {
+  model: string;
+  updated: number;
+  remaining: number;
+};
+
+// on another model or none (callers also skip empty chunks: nothing to embed)
+function staleFilter(model: string) {
+  // quoted: model ids contain "." and "@"
+  return `embedding_model.is.null,embedding_model.neq."${model}"`;
+}
+
+export async function reembedStatus(supabase: SupabaseClient): Promise<ReembedStatus> {
+  const model = embeddingModelId();
+  const { data, error } = await supabase.rpc("knowledge_chunk_embedding_models");
+  if (error) throw new Error(error.message);
+
+  const byModel = ((data || []) as { embedding_model: string | null; chunks: number | string }[]).map((r) => ({
+    model: (r.embedding_model ?? null) as string | null,
+    chunks: Number(r.chunks) || 0,
+  }));
+  const current = byModel.find((r) => r.model === model)?.chunks ?? 0;
+  const total = byModel.reduce((acc, r) => acc + r.chunks, 0);
+
+  return { model, current, stale: total - current, byModel };
+}
+
+async function countStale(supabase: SupabaseClient, model: string) {
+  const { count, error } = await supabase
+    .from("knowledge_chunks")
+    .select("id", { count: "exact", head: true })
+    .neq("content", "")
+    .or(staleFilter(model));
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+/**
+ * Re-embed up to `limit` chunks that are on another model (or none). One embedTexts call per batch,
+ * then one update per row (each chunk gets its own vector).
+ */
+export async function reembedChunks(
+  supabase: SupabaseClient,
+  opts: { limit?: number; log?: LLMCallLog } = {}
+): Promise<ReembedResult> {
+  const model = embeddingModelId();
+  const limit = Math.max(1, opts.limit ?? DEFAULT_REEMBED_BATCH);
+
+  const { data, error } = await supabase
+    .from("knowledge_chunks")
+    .select("id,content")
+    .neq("content", "")
+    .or(staleFilter(model))
+    .order("id", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []) as { id: string; content: string }[];
+  if (!rows.length) return { model, updated: 0, remaining: 0 };
+
+  const vectors = await embedTexts(rows.map((r) => r.content), { log: opts.log });
+
+  let updated = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const { error: updErr } = await supabase
+      .from("knowledge_chunks")
+      .update({ embedding: vectors[i], embedding_model: model })
+      .eq("id", rows[i].id);
+    if (updErr) throw new Error(updErr.message);
+    updated += 1;
+  }
+
+  return { model, updated, remaining: await countStale(supabase, model) };
+}
+
+/**
+ * Keep re-embedding until nothing is stale or `deadlineMs` (epoch ms) passes.
+ */
+export async function reembedUntilDone(
+  supabase: SupabaseClient,
+  opts: { batch?: number; deadlineMs?: number; log?: LLMCallLog; onBatch?: (r: ReembedResult) => void } = {}
+): Promise<ReembedResult> {
+  const model = embeddingModelId();
+  let updated = 0;
+  let remaining = await countStale(supabase, model);
+
+  while (remaining > 0 && (!opts.deadlineMs || Date.now() < opts.deadlineMs)) {
+    const r = await reembedChunks(supabase, { limit: opts.batch, log: opts.log });
+    opts.onBatch?.(r);
+    updated += r.updated;
+    remaining = r.remaining;
+    if (!r.updated) break;
+  }
+
+  return { model, updated, remaining };
+}
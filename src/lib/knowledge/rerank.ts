@@ -0,0 +1,207 @@
+// src/lib/knowledge/rerank.ts
+import { createFallbackChain, llmChainFromEnv, parseChainSpec, type ChainOptions } from "@/lib/llm/chain";
+import { classifyLLMError, type LLMClient, type LLMJsonSchema } from "@/lib/llm/client";
+import type { RerankFn, RetrievedChunk } from "./retrieve";
+
+/**
+ * Optional second pass over the fused hybrid results (see retrieveKnowledge):
+ * - RERANK=llm: the text chain (or LLM_RERANK_CHAIN) scores each passage 0–10 in one JSON call
+ * - RERANK=cross-encoder: POST to RERANK_URL, a Cohere / Jina / Voyage style /rerank endpoint
+ * - unset or "off": no rerank (the default; it adds a round trip to every chat turn)
+ *
+ * A reranker returns one relevance in 0..1 per chunk; failures leave the hybrid order as it was.
+ */
+
+export const DEFAULT_RERANK_TOP_N = 20;
+export const DEFAULT_RERANK_WEIGHT = 0.7;
+export const DEFAULT_RERANK_TIMEOUT_MS = 8000;
+
+const PASSAGE_CHARS = 700;
+
+export type RerankSettings = {
+  provider: "off" | "llm" | "cross-encoder";
+  /** how many fused candidates go to the reranker */
+  topN: number;
+  /** share of the final score taken by the reranker (the rest is the hybrid score) */
+  weight: number;
+  timeoutMs: number;
+};
+
+export function rerankSettingsFromEnv(): RerankSettings {
+  const raw = String(process.env.RERANK || "").trim().toLowerCase();
+  const weight = Number(process.env.RERANK_WEIGHT);
+  return {
+    provider: raw === "llm" || raw === "cross-encoder" ? raw : "off",
+    topN: Number(process.env.RERANK_TOP_N) || DEFAULT_RERANK_TOP_N,
+    weight: process.env.RERANK_WEIGHT && weight >= 0 && weight <= 1 ? weight : DEFAULT_RERANK_WEIGHT,
+    timeoutMs: Number(process.env.RERANK_TIMEOUT_MS) || DEFAULT_RERANK_TIMEOUT_MS,
+  };
+}
+
+function passage(c: RetrievedChunk) {
+  const body = String(c.content || "").replace(/\s+/g, " ").trim().slice(0, PASSAGE_CHARS);
+  return c.title ? `${c.title.trim()}\n${body}` : body;
+}
+
+const clamp01 = (n: number) => (Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0);
+
+/* ---------------------------------------------
+   LLM
+--------------------------------------------- */
+
+const RERANK_SYSTEM = [
+  "You rank knowledge-base passages for a rooftop equipment support assistant (Anchor Products).",
+  "For each passage, score 0-10 how useful it is for answering the user's question:",
+  "10 = answers it directly (right product, model, membrane); 5 = related background; 0 = unrelated.",
+  "Exact product or model matches (U2400, 3000-series, SBS torch) matter more than general wording.",
+  "Return a score for every passage id.",
+].join("\n");
+
+const RERANK_SCHEMA: LLMJsonSchema = {
+  name: "passage_scores",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["scores"],
+    properties: {
+      scores: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["id", "score"],
+          properties: {
+            id: { type: "integer", description: "Passage id as given" },
+            score: { type: "number", description: "Relevance 0-10" },
+          },
+        },
+      },
+    },
+  },
+};
+
+export function llmReranker(llm: LLMClient, opts: { timeoutMs?: number } = {}): RerankFn {
+  return async (query, chunks) => {
+    const res = await llm.complete(
+      {
+        system: RERANK_SYSTEM,
+        user: `Question:\n${query.slice(0, 1500)}\n\nPassages:\n${chunks.map((c, i) => `[${i}] ${passage(c)}`).join("\n\n")}`,
+        format: "json",
+        jsonSchema: RERANK_SCHEMA,
+        maxOutputTokens: 40 + chunks.length * 16,
+        purpose: "rerank",
+      },
+      { signal: AbortSignal.timeout(opts.timeoutMs ?? DEFAULT_RERANK_TIMEOUT_MS) }
+    );
+
+    const parsed = JSON.parse(String(res.text || "").trim());
+    const scores = new Array<number>(chunks.length).fill(0);
+    for (const s of Array.isArray(parsed?.scores) ? parsed.scores : []) {
+      const i = Number(s?.id);
+      if (Number.isInteger(i) && i >= 0 && i < chunks.length) scores[i] = clamp01(Number(s?.score) / 10);
+    }
+    return scores;
+  };
+}
+
+/* ---------------------------------------------
+   Cross-encoder
+--------------------------------------------- */
+
+type RerankHit = { index: number; relevance_score: number };
+
+/**
+ * Cross-encoder behind an HTTP rerank endpoint: {model, query, documents, top_n} in,
+ * {results: [{index, relevance_score}]} (or {data: [...]}) out, relevance in 0..1.
+ */
+export function crossEncoderReranker(
+  params: { url: string; apiKey?: string; model?: string; timeoutMs?: number },
+  opts: ChainOptions = {}
+): RerankFn {
+  const model = params.model || "default";
+
+  return async (query, chunks) => {
+    const started = Date.now();
+    const base = {
+      purpose: "rerank" as const,
+      provider: "cross-encoder",
+      model,
+      attempt: 0,
+      fallbackUsed: false,
+      streamed: false,
+      inputTokens: null,
+      outputTokens: null,
+    };
+
+    try {
+      const res = await fetch(params.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(params.apiKey ? { Authorization: `Bearer ${params.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          ...(params.model ? { model: params.model } : {}),
+          query: query.slice(0, 2000),
+          documents: chunks.map(passage),
+          top_n: chunks.length,
+        }),
+        signal: AbortSignal.timeout(params.timeoutMs ?? DEFAULT_RERANK_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw Object.assign(new Error(`Rerank HTTP ${res.status}: ${(await res.text()).slice(0, 300)}`), {
+          status: res.status,
+        });
+      }
+
+      const json = await res.json();
+      const hits: RerankHit[] = json?.results ?? json?.data ?? [];
+
+      const scores = new Array<number>(chunks.length).fill(0);
+      for (const h of hits) {
+        if (!Number.isInteger(h.index) || h.index < 0 || h.index >= chunks.length) continue;
+        scores[h.index] = clamp01(Number(h.relevance_score));
+      }
+
+      opts.onCall?.({ ...base, ok: true, errorKind: null, errorMessage: null, latencyMs: Date.now() - started });
+      return scores;
+    } catch (e) {
+      const err = classifyLLMError(e, { provider: "cross-encoder", model });
+      opts.onCall?.({
+        ...base,
+        ok: false,
+        errorKind: err.kind,
+        errorMessage: err.message.slice(0, 500),
+        latencyMs: Date.now() - started,
+      });
+      throw err;
+    }
+  };
+}
+
+/**
+ * Reranker from the environment, or null when RERANK is off (or cross-encoder has no RERANK_URL).
+ */
+export function rerankerFromEnv(opts: ChainOptions = {}): RerankFn | null {
+  const settings = rerankSettingsFromEnv();
+
+  if (settings.provider === "llm") {
+    const spec = process.env.LLM_RERANK_CHAIN;
+    const llm = spec ? createFallbackChain(parseChainSpec(spec, settings.timeoutMs), opts) : llmChainFromEnv(opts);
+    return llmReranker(llm, { timeoutMs: settings.timeoutMs });
+  }
+
+  if (settings.provider === "cross-encoder") {
+    const url = process.env.RERANK_URL;
+    if (!url) {
+      console.warn("[rerank] RERANK=cross-encoder without RERANK_URL; reranking is off");
+      return null;
+    }
+    return crossEncoderReranker(
+      { url, apiKey: process.env.RERANK_API_KEY, model: process.env.RERANK_MODEL, timeoutMs: settings.timeoutMs },
+      opts
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,168 @@
+// src/lib/knowledge/retrievalCorpus.ts
+import type { RetrieveOptions } from "./retrieve";
+import { retrieveFromMemory, type HarnessChunk } from "./retrieveHarness";
+
+/**
+ * Offline regression guard for the retrieval filters and boosts (npm run eval:retrieval).
+ * A small fixed chunk set runs through retrieveFromMemory, whose in-memory matcher mirrors the
+ * match_knowledge_chunks / search_knowledge_chunks filters. Change both together.
+ *
+ * Each case lists chunk ids that must come first, must be returned, or must never be returned.
+ */
+export type RetrievalCase = {
+  id: string;
+  query: string;
+  opts?: Omit<RetrieveOptions, "embed" | "match" | "keyword" | "rerank">;
+  first?: string;
+  includes?: string[];
+  excludes?: string[];
+};
+
+export const RETRIEVAL_CHUNKS: HarnessChunk[] = [
+  {
+    chunk_id: "u2400-tpo",
+    document_id: "doc-u2400-tpo",
+    title: "U2400 install on TPO",
+    content: "Install U2400 anchors on a TPO membrane roof: heat-weld the TPO flashing boot around each anchor.",
+    solution_slug: "solutions/hvac",
+    series: "2000",
+    membrane: "TPO",
+  },
+  {
+    chunk_id: "u2400-epdm",
+    document_id: "doc-u2400-epdm",
+    title: "U2400 install on EPDM",
+    content: "Install U2400 anchors on an EPDM membrane roof: adhere the EPDM flashing boot around each anchor.",
+    solution_slug: "solutions/hvac",
+    series: "2000",
+    membrane: "EPDM",
+  },
+  {
+    chunk_id: "3000-tpo",
+    document_id: "doc-3000-tpo",
+    title: "3000-series install on TPO",
+    content: "Install 3000-series anchors on a TPO membrane roof: heat-weld the TPO flashing boot around each anchor.",
+    solution_slug: "solutions/hvac",
+    series: "3000",
+    membrane: "TPO",
+  },
+  {
+    chunk_id: "u2400-pricing",
+    document_id: "doc-pricing",
+    title: "U2400 dealer pricing",
+    content: "Dealer pricing for U2400 anchors and flashing boots, with volume discount tiers.",
+    series: "2000",
+    audience: "internal",
+  },
+  {
+    chunk_id: "spacing-general",
+    document_id: "doc-spacing",
+    title: "Anchor spacing",
+    content: "Anchor spacing for rooftop equipment depends on wind load; install anchors at each corner.",
+  },
+  {
+    chunk_id: "snow-fence",
+    document_id: "doc-snow",
+    title: "Snow fence install",
+    content: "Install snow fence anchors along the eave so snow retention brackets hold the load.",
+    solution_slug: "solutions/snow-retention",
+  },
+  {
+    chunk_id: "u2400-quarantined",
+    document_id: "doc-u2400-old",
+    title: "U2400 install (outdated)",
+    content: "Install U2400 anchors on a TPO membrane roof with the old flashing boot.",
+    series: "2000",
+    membrane: "TPO",
+    quarantined: true,
+  },
+];
+
+export const RETRIEVAL_CASES: RetrievalCase[] = [
+  {
+    id: "membrane-filter",
+    query: "install U2400 anchors on the membrane",
+    opts: { membrane: "EPDM" },
+    first: "u2400-epdm",
+    includes: ["spacing-general"],
+    excludes: ["u2400-tpo", "3000-tpo"],
+  },
+  {
+    id: "membrane-filter-case",
+    query: "install U2400 anchors on the membrane",
+    opts: { membrane: "tpo" },
+    includes: ["u2400-tpo"],
+    excludes: ["u2400-epdm"],
+  },
+  {
+    id: "solution-filter",
+    query: "install anchors",
+    opts: { solutionSlug: "solutions/snow-retention" },
+    includes: ["snow-fence", "spacing-general"],
+    excludes: ["u2400-tpo", "u2400-epdm", "3000-tpo"],
+  },
+  {
+    id: "series-boost-3000",
+    query: "install anchors on a TPO membrane roof",
+    opts: { series: "3000", membrane: "TPO" },
+    first: "3000-tpo",
+  },
+  {
+    id: "series-boost-2000",
+    query: "install anchors on a TPO membrane roof",
+    opts: { series: "2000-series", membrane: "TPO" },
+    first: "u2400-tpo",
+  },
+  {
+    id: "audience-external",
+    query: "U2400 pricing",
+    opts: { audience: "external" },
+    excludes: ["u2400-pricing"],
+  },
+  {
+    id: "audience-internal",
+    query: "U2400 pricing",
+    opts: { audience: "internal" },
+    first: "u2400-pricing",
+  },
+  {
+    id: "quarantine",
+    query: "install U2400 anchors on a TPO membrane roof",
+    opts: { membrane: "TPO" },
+    includes: ["u2400-tpo"],
+    excludes: ["u2400-quarantined"],
+  },
+];
+
+export type RetrievalCaseResult = {
+  id: string;
+  query: string;
+  pass: boolean;
+  /** returned chunk ids, best first */
+  actual: string[];
+  problems: string[];
+};
+
+export async function runRetrievalCorpus(
+  cases: RetrievalCase[] = RETRIEVAL_CASES,
+  chunks: HarnessChunk[] = RETRIEVAL_CHUNKS
+) {
+  const results: RetrievalCaseResult[] = [];
+
+  for (const c of cases) {
+    const hits = await retrieveFromMemory(chunks, c.query, c.opts);
+    const actual = hits.map((h) => h.chunk_id);
+    const problems = [
+      c.first && actual[0] !== c.first ? `expected ${c.first} first` : "",
+      ...(c.includes || []).filter((id) => !actual.includes(id)).map((id) => `missing ${id}`),
+      ...(c.excludes || []).filter((id) => actual.includes(id)).map((id) => `unexpected ${id}`),
+    ].filter(Boolean);
+    results.push({ id: c.id, query: c.query, pass: !problems.length, actual, problems });
+  }
+
+  return {
+    results,
+    passed: results.filter((r) => r.pass).length,
+    failed: results.filter((r) => !r.pass).length,
+  };
+}
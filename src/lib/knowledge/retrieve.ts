@@ -1,40 +1,352 @@
 // src/lib/knowledge/retrieve.ts
-import { embedText } from "@/lib/learning/embeddings";
+import { embeddingModelId, embedText } from "@/lib/learning/embeddings";
+import type { LLMCallLog } from "@/lib/llm/telemetry";
+import { rerankerFromEnv, rerankSettingsFromEnv } from "./rerank";
+import { errorMessage } from "@/lib/errors";
+
+/** How a chunk earned its place; fused + metadata + feedback is the hybrid score, final is what it was sorted by. */
+export type RetrievalScores = {
+  /** cosine similarity from the vector match (null: keyword-only hit) */
+  vector: number | null;
+  /** 1-based position in each ranking (null: absent from it) */
+  vectorRank: number | null;
+  keyword: number | null;
+  keywordRank: number | null;
+  /** reciprocal rank fusion of both rankings, scaled to 0..1 */
+  fused: number;
+  /** solution / series / membrane boosts */
+  metadata: number;
+  /** user ratings: a penalty for poorly rated chunks, a small lift for well rated ones */
+  feedback: number;
+  /** reranker relevance 0..1 (null: no reranker ran) */
+  rerank: number | null;
+  final: number;
+};
 
 export type RetrievedChunk = {
   chunk_id: string;
   document_id: string;
   title: string | null;
   content: string;
+  /** vector similarity; 0 for chunks only the keyword search found */
   similarity: number;
+  solution_slug?: string | null;
+  series?: string | null;
+  membrane?: string | null;
+  /** ts_rank_cd from search_knowledge_chunks */
+  keyword_rank?: number;
+  /** smoothed mean rating since the last restore, -1..1 (see knowledge_chunk_feedback) */
   feedback_score?: number;
   downvotes?: number;
+  scores?: RetrievalScores;
 };
 
 type Supa = any;
 
+export type EmbedFn = (text: string) => Promise<number[]>;
+
+/** Same argument names as the match_knowledge_chunks RPC. */
+export type MatchParams = {
+  query_embedding: number[];
+  match_count: number;
+  filter_category: string | null;
+  filter_product_tags: string[] | null;
+  filter_solution_slug: string | null;
+  filter_membrane: string | null;
+  filter_audience: "internal" | "external" | null;
+  /** only chunks embedded by this model (knowledge_chunks.embedding_model); null = any */
+  filter_embedding_model: string | null;
+};
+
+export type MatchFn = (params: MatchParams) => Promise<RetrievedChunk[]>;
+
+/** Same argument names as the search_knowledge_chunks RPC (full-text search). */
+export type KeywordParams = Omit<MatchParams, "query_embedding" | "filter_embedding_model"> & {
+  query_text: string;
+};
+
+export type KeywordSearchFn = (params: KeywordParams) => Promise<RetrievedChunk[]>;
+
+/** One relevance in 0..1 per chunk, in input order (see ./rerank). */
+export type RerankFn = (query: string, chunks: RetrievedChunk[]) => Promise<number[]>;
+
+export type RetrieveOptions = {
+  matchCount?: number;
+  category?: string | null;
+  productTags?: string[] | null;
+  /** solution slug or storage folder (ex: "solutions/pipe-frame/attached") */
+  solutionSlug?: string | null;
+  /** anchor series hint ("2000", "3000", "guy-wire") */
+  series?: string | null;
+  membrane?: string | null;
+  audience?: "internal" | "external" | null;
+  minSimilarity?: number;
+  /** logs the query embedding and rerank calls (defaults only) */
+  llmCalls?: LLMCallLog;
+
+  /** swap these for the local harness (see ./retrieveHarness) */
+  embed?: EmbedFn;
+  match?: MatchFn;
+  /** null turns the keyword side off (vector only) */
+  keyword?: KeywordSearchFn | null;
+  /** default: rerankerFromEnv(); null skips reranking */
+  rerank?: RerankFn | null;
+};
+
+/**
+ * Metadata boosts on the 0..1 fused scale. Adjacent RRF ranks sit ~0.01 apart, so a matching tag moves
+ * a chunk up a few places but never past one both rankings agree on.
+ */
+const SOLUTION_BOOST = 0.03;
+const SERIES_BOOST = 0.02;
+const MEMBRANE_BOOST = 0.02;
+/**
+ * Feedback weights on the same scale. Asymmetric: a chunk users keep flagging should sink fast, while
+ * praise shouldn't lift a weak match over a relevant one. Repeated downvotes quarantine it (./quarantine).
+ */
+const FEEDBACK_PENALTY = 0.08;
+const FEEDBACK_LIFT = 0.02;
+const DEFAULT_MIN_SIMILARITY = 0.25;
+/** standard RRF constant: damps the head of each ranking so one list can't dominate */
+const RRF_K = 60;
+
+/**
+ * Folder hints come from resolveCanonicalSolution() ("solutions/pipe-frame/attached");
+ * knowledge_documents.solution_slug stores the route without the bucket prefix.
+ */
+export function solutionSlugFromFolder(folder?: string | null) {
+  const s = String(folder || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^\/+|\/+$/g, "")
+    .replace(/^solutions\//, "");
+  return s || null;
+}
+
+function normalizeMembrane(m?: string | null) {
+  const s = String(m || "").trim().toLowerCase();
+  return s || null;
+}
+
+function normalizeSeries(s?: string | null) {
+  const v = String(s || "").trim().toLowerCase().replace(/-series$/, "");
+  return v && v !== "unknown" ? v : null;
+}
+
+export function rpcMatcher(supabase: Supa): MatchFn {
+  return async (params) => {
+    const { data, error } = await supabase.rpc("match_knowledge_chunks", params);
+
+    if (error) {
+      console.error("retrieveKnowledge RPC error:", error);
+      return [];
+    }
+
+    return (data || []) as RetrievedChunk[];
+  };
+}
+
+export function rpcKeywordSearcher(supabase: Supa): KeywordSearchFn {
+  return async (params) => {
+    const { data, error } = await supabase.rpc("search_knowledge_chunks", params);
+
+    if (error) {
+      console.error("retrieveKnowledge keyword RPC error:", error);
+      return [];
+    }
+
+    return ((data || []) as RetrievedChunk[]).map((c) => ({ ...c, similarity: 0, keyword_rank: Number(c.keyword_rank) || 0 }));
+  };
+}
+
+/**
+ * Reciprocal rank fusion of the vector and keyword rankings, then metadata and feedback adjustments.
+ * Vector hits under minSimilarity are dropped first; keyword hits have no such floor (an exact product
+ * code is a match however the embedding scores it). Every result carries its score components.
+ */
+export function fuseChunks(
+  vectorHits: RetrievedChunk[],
+  keywordHits: RetrievedChunk[],
+  opts: {
+    solutionSlug?: string | null;
+    series?: string | null;
+    membrane?: string | null;
+    minSimilarity?: number;
+    /** rankings that ran (1 when the keyword side is off), for the 0..1 scale */
+    sources?: number;
+  }
+): RetrievedChunk[] {
+  const slug = solutionSlugFromFolder(opts.solutionSlug);
+  const series = normalizeSeries(opts.series);
+  const membrane = normalizeMembrane(opts.membrane);
+  const minSimilarity = opts.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  const maxRrf = (opts.sources ?? 2) / (RRF_K + 1);
+
+  const byId = new Map<string, { chunk: RetrievedChunk; scores: RetrievalScores; rrf: number }>();
+  const entry = (c: RetrievedChunk) => {
+    let e = byId.get(c.chunk_id);
+    if (!e) {
+      e = {
+        chunk: c,
+        rrf: 0,
+        scores: {
+          vector: null,
+          vectorRank: null,
+          keyword: null,
+          keywordRank: null,
+          fused: 0,
+          metadata: 0,
+          feedback: 0,
+          rerank: null,
+          final: 0,
+        },
+      };
+      byId.set(c.chunk_id, e);
+    }
+    return e;
+  };
+
+  const vectorRanked = vectorHits
+    .filter((c) => c?.chunk_id && Number(c.similarity) >= minSimilarity)
+    .sort((a, b) => Number(b.similarity) - Number(a.similarity));
+  vectorRanked.forEach((c, i) => {
+    const e = entry(c);
+    if (e.scores.vectorRank !== null) return;
+    e.chunk = c;
+    e.scores.vector = Number(c.similarity);
+    e.scores.vectorRank = i + 1;
+    e.rrf += 1 / (RRF_K + i + 1);
+  });
+
+  const keywordRanked = keywordHits
+    .filter((c) => c?.chunk_id)
+    .sort((a, b) => Number(b.keyword_rank ?? 0) - Number(a.keyword_rank ?? 0));
+  keywordRanked.forEach((c, i) => {
+    const e = entry(c);
+    if (e.scores.keywordRank !== null) return;
+    e.scores.keyword = Number(c.keyword_rank ?? 0);
+    e.scores.keywordRank = i + 1;
+    e.rrf += 1 / (RRF_K + i + 1);
+  });
+
+  return [...byId.values()]
+    .map(({ chunk, scores, rrf }) => {
+      let metadata = 0;
+      if (slug && solutionSlugFromFolder(chunk.solution_slug) === slug) metadata += SOLUTION_BOOST;
+      if (series && normalizeSeries(chunk.series) === series) metadata += SERIES_BOOST;
+      if (membrane && normalizeMembrane(chunk.membrane) === membrane) metadata += MEMBRANE_BOOST;
+
+      const fb = Math.max(-1, Math.min(1, Number(chunk.feedback_score) || 0));
+      const feedback = fb < 0 ? fb * FEEDBACK_PENALTY : fb * FEEDBACK_LIFT;
+
+      const fused = rrf / maxRrf;
+      return {
+        ...chunk,
+        similarity: scores.vector ?? 0,
+        keyword_rank: scores.keyword ?? undefined,
+        scores: { ...scores, fused, metadata, feedback, final: fused + metadata + feedback },
+      };
+    })
+    .sort((a, b) => b.scores.final - a.scores.final);
+}
+
+/**
+ * Rerank the head of the fused list. The final score blends reranker relevance with the hybrid score
+ * (RERANK_WEIGHT); the tail keeps its order below. A failed reranker leaves the list untouched.
+ */
+async function rerankHead(
+  query: string,
+  fused: RetrievedChunk[],
+  rerank: RerankFn,
+  settings: { topN: number; weight: number }
+): Promise<RetrievedChunk[]> {
+  const head = fused.slice(0, settings.topN);
+  if (head.length < 2) return fused;
+
+  let relevance: number[];
+  try {
+    relevance = await rerank(query, head);
+  } catch (e) {
+    console.warn("[retrieve] rerank failed; keeping hybrid order", errorMessage(e, String(e)));
+    return fused;
+  }
+
+  const reranked = head
+    .map((c, i) => {
+      const scores = c.scores!;
+      const hybrid = scores.fused + scores.metadata + scores.feedback;
+      return { ...c, scores: { ...scores, rerank: relevance[i], final: settings.weight * relevance[i] + (1 - settings.weight) * hybrid } };
+    })
+    .sort((a, b) => b.scores.final - a.scores.final);
+
+  return [...reranked, ...fused.slice(settings.topN)];
+}
+
+/**
+ * Hybrid retrieval: vector match + full-text search (in parallel), fused with RRF, boosted on
+ * solution / series / membrane, weighted by user feedback, optionally reranked. Results carry `scores` (see RetrievalScores).
+ */
 export async function retrieveKnowledge(
   supabase: Supa,
   query: string,
-  opts?: { matchCount?: number; category?: string | null; productTags?: string[] | null }
+  opts?: RetrieveOptions
 ): Promise<RetrievedChunk[]> {
-  const matchCount = opts?.matchCount ?? 8;
+  const q = String(query || "").trim();
+  if (!q) return [];
 
-  const embedding = await embedText(query);
+  const matchCount = opts?.matchCount ?? 8;
+  const embed = opts?.embed ?? ((text: string) => embedText(text, { log: opts?.llmCalls }));
+  const match = opts?.match ?? rpcMatcher(supabase);
+  const keyword = opts?.keyword === undefined ? rpcKeywordSearcher(supabase) : opts.keyword;
+  const rerankSettings = rerankSettingsFromEnv();
+  const rerank = opts?.rerank === undefined ? rerankerFromEnv({ onCall: opts?.llmCalls?.onCall }) : opts.rerank;
 
-  const { data, error } = await supabase.rpc("match_knowledge_chunks", {
-    query_embedding: embedding,
-    match_count: matchCount,
-    // keep these optional if your RPC supports them
+  const filters = {
     filter_category: opts?.category ?? null,
     filter_product_tags: opts?.productTags ?? null,
-  });
+    filter_solution_slug: solutionSlugFromFolder(opts?.solutionSlug),
+    filter_membrane: normalizeMembrane(opts?.membrane),
+    filter_audience: opts?.audience ?? null,
+  };
+  // over-fetch so fusion, boosts and the reranker have something to re-order
+  const fetchCount = Math.max(matchCount * 3, rerank ? rerankSettings.topN : 0);
 
-  if (error) {
-    console.error("retrieveKnowledge RPC error:", error);
-    return [];
-  }
+  const [vectorHits, keywordHits] = await Promise.all([
+    embed(q).then((embedding) =>
+      match({
+        ...filters,
+        query_embedding: embedding,
+        match_count: fetchCount,
+        // mid re-embed, chunks still on the previous model aren't comparable with this query vector
+        filter_embedding_model: opts?.embed ? null : embeddingModelId(),
+      })
+    ),
+    keyword ? keyword({ ...filters, query_text: q, match_count: fetchCount }) : Promise.resolve([]),
+  ]);
+
+  let ranked = fuseChunks(vectorHits, keywordHits, {
+    solutionSlug: opts?.solutionSlug,
+    series: opts?.series,
+    membrane: opts?.membrane,
+    minSimilarity: opts?.minSimilarity,
+    sources: keyword ? 2 : 1,
+  });
+  if (rerank) ranked = await rerankHead(q, ranked, rerank, rerankSettings);
 
-  return (data || []) as RetrievedChunk[];
+  return ranked.slice(0, matchCount);
 }
 
+/**
+ * Render retrieved chunks as a numbered context block for the model prompt.
+ */
+export function formatKnowledgeContext(chunks: RetrievedChunk[], maxCharsPerChunk = 1200) {
+  if (!chunks.length) return "";
+
+  const lines = chunks.map((c, i) => {
+    const title = (c.title || "Untitled").trim();
+    const body = String(c.content || "").replace(/\s+/g, " ").trim().slice(0, maxCharsPerChunk);
+    return `[${i + 1}] ${title}\n${body}`;
+  });
+
+  return `Approved Anchor knowledge (grounded context):\n${lines.join("\n\n")}`;
+}
@@ -0,0 +1,168 @@
+// src/lib/knowledge/retrieveHarness.ts
+import {
+  retrieveKnowledge,
+  solutionSlugFromFolder,
+  type EmbedFn,
+  type KeywordSearchFn,
+  type MatchFn,
+  type MatchParams,
+  type RetrieveOptions,
+  type RetrievedChunk,
+} from "./retrieve";
+import { localEmbed } from "@/lib/learning/localEmbed";
+
+/**
+ * Offline harness for retrieveKnowledge():
+ * - fakeEmbed: deterministic bag-of-words vectors (no OpenAI call)
+ * - createInMemoryMatcher: mirrors the match_knowledge_chunks RPC filters in memory
+ * - createInMemoryKeywordSearcher: a rough stand-in for search_knowledge_chunks (full-text)
+ *
+ * Lets ranking changes be checked locally without Supabase or an API key; npm run eval:retrieval
+ * runs the filter and boost cases in ./retrievalCorpus through it.
+ */
+
+export type HarnessChunk = {
+  chunk_id: string;
+  document_id: string;
+  title: string | null;
+  content: string;
+  category?: string | null;
+  product_tags?: string[];
+  solution_slug?: string | null;
+  series?: string | null;
+  membrane?: string | null;
+  audience?: "internal" | "external" | "both";
+  /** mirrors status='approved' + allowed + is_indexable on the parent doc */
+  approved?: boolean;
+  /** mirrors knowledge_chunks.is_indexable = false */
+  quarantined?: boolean;
+  feedback_score?: number;
+  downvotes?: number;
+  /** knowledge_chunks.embedding_model; unset matches any model */
+  embedding_model?: string | null;
+};
+
+/** Same vectors as OPENAI_EMBED_MODEL=local (see @/lib/learning/localEmbed). */
+export const fakeEmbed: EmbedFn = localEmbed;
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  if (!na || !nb) return 0;
+  return dot / (Math.sqrt(na) * Math.sqrt(nb));
+}
+
+type FilterParams = Omit<MatchParams, "query_embedding">;
+
+function eligibleChunks(chunks: HarnessChunk[], params: FilterParams) {
+  const slug = params.filter_solution_slug;
+  const membrane = params.filter_membrane;
+
+  return chunks.filter((c) => {
+    if (c.approved === false || c.quarantined) return false;
+    if (params.filter_embedding_model && c.embedding_model && c.embedding_model !== params.filter_embedding_model) {
+      return false;
+    }
+    if (params.filter_audience === "external" && c.audience === "internal") return false;
+    if (params.filter_category && c.category !== params.filter_category) return false;
+    if (
+      params.filter_product_tags?.length &&
+      !params.filter_product_tags.some((t) => (c.product_tags || []).includes(t))
+    ) {
+      return false;
+    }
+    // untagged (general) knowledge always passes the solution/membrane filters
+    if (slug && c.solution_slug && solutionSlugFromFolder(c.solution_slug) !== slug) return false;
+    if (membrane && c.membrane && c.membrane.toLowerCase() !== membrane) return false;
+    return true;
+  });
+}
+
+function toRetrieved(c: HarnessChunk, similarity: number): RetrievedChunk {
+  return {
+    chunk_id: c.chunk_id,
+    document_id: c.document_id,
+    title: c.title,
+    content: c.content,
+    solution_slug: c.solution_slug ?? null,
+    series: c.series ?? null,
+    membrane: c.membrane ?? null,
+    feedback_score: c.feedback_score ?? 0,
+    downvotes: c.downvotes ?? 0,
+    similarity,
+  };
+}
+
+export function createInMemoryMatcher(chunks: HarnessChunk[], embed: EmbedFn = fakeEmbed): MatchFn {
+  const vectors = new Map<string, Promise<number[]>>();
+  const vectorFor = (c: HarnessChunk) => {
+    if (!vectors.has(c.chunk_id)) vectors.set(c.chunk_id, embed(c.content));
+    return vectors.get(c.chunk_id)!;
+  };
+
+  return async (params) => {
+    const scored: RetrievedChunk[] = [];
+    for (const c of eligibleChunks(chunks, params)) {
+      scored.push(toRetrieved(c, cosine(params.query_embedding, await vectorFor(c))));
+    }
+
+    return scored.sort((a, b) => b.similarity - a.similarity).slice(0, params.match_count);
+  };
+}
+
+// the common English stopwords to_tsvector('english') drops, enough for harness queries
+const STOPWORDS = new Set(
+  "a an and are as at be by can do does for from how i in is it my of on or our the this to what when which with you your".split(" ")
+);
+
+function keywordTerms(text: string) {
+  return String(text || "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Mirrors search_knowledge_chunks: any query word matches; title hits weigh more than body hits.
+ * No stemming, so "installs" won't find "install" here (Postgres would).
+ */
+export function createInMemoryKeywordSearcher(chunks: HarnessChunk[]): KeywordSearchFn {
+  return async (params) => {
+    const terms = new Set(keywordTerms(params.query_text));
+    if (!terms.size) return [];
+
+    const hits: RetrievedChunk[] = [];
+    for (const c of eligibleChunks(chunks, { ...params, filter_embedding_model: null })) {
+      const title = keywordTerms(c.title || "");
+      const body = keywordTerms(c.content);
+      const raw = title.filter((t) => terms.has(t)).length * 2 + body.filter((t) => terms.has(t)).length;
+      if (raw) hits.push({ ...toRetrieved(c, 0), keyword_rank: raw / (raw + 1) });
+    }
+
+    return hits.sort((a, b) => (b.keyword_rank ?? 0) - (a.keyword_rank ?? 0)).slice(0, params.match_count);
+  };
+}
+
+/**
+ * One-call offline retrieval: embed + match + keyword search + fusion entirely in memory
+ * (no reranker unless one is passed).
+ */
+export async function retrieveFromMemory(
+  chunks: HarnessChunk[],
+  query: string,
+  opts?: Omit<RetrieveOptions, "embed" | "match" | "keyword">
+) {
+  return retrieveKnowledge(null, query, {
+    rerank: null,
+    ...opts,
+    embed: fakeEmbed,
+    match: createInMemoryMatcher(chunks),
+    keyword: createInMemoryKeywordSearcher(chunks),
+  });
+}
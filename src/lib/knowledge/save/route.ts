@@ -1,7 +1,10 @@
 // src/lib/knowledge/save/route.ts
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/server";
-import { embedText } from "@/lib/learning/embeddings";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { chunkSettingsFromEnv, chunkText } from "@/lib/learning/chunk";
+import { embeddingModelId, embedTexts } from "@/lib/learning/embeddings";
+import { createLLMCallLog } from "@/lib/llm/telemetry";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,39 +18,6 @@ type Body = {
   source_type?: "chat" | "upload" | "manual_entry";
 };
 
-function chunkText(input: string, maxChars = 1200) {
-  const text = (input || "").trim();
-  if (!text) return [];
-
-  const parts = text.split(/\n\s*\n+/).map((p) => p.trim()).filter(Boolean);
-
-  const chunks: string[] = [];
-  let buf = "";
-
-  for (const p of parts) {
-    const next = buf ? `${buf}\n\n${p}` : p;
-
-    if (next.length <= maxChars) {
-      buf = next;
-      continue;
-    }
-
-    if (buf) chunks.push(buf);
-
-    if (p.length > maxChars) {
-      for (let i = 0; i < p.length; i += maxChars) {
-        chunks.push(p.slice(i, i + maxChars));
-      }
-      buf = "";
-    } else {
-      buf = p;
-    }
-  }
-
-  if (buf) chunks.push(buf);
-  return chunks;
-}
-
 export async function POST(req: Request) {
   try {
     const supabase = await supabaseRoute(); // ✅ 0 args + await
@@ -98,21 +68,27 @@ export async function POST(req: Request) {
     }
 
     // 2) chunk + embed + insert chunks
-    const chunks = chunkText(content, 1200);
+    const chunks = chunkText(content, chunkSettingsFromEnv());
 
     const rows: any[] = [];
-    for (let i = 0; i < chunks.length; i++) {
-      const c = chunks[i];
-      const embedding = await embedText(c);
-
-      rows.push({
-        document_id: doc.id,
-        chunk_index: i,
-        content: c,
-        embedding,
-        product_tags: Array.isArray(body.product_tags) ? body.product_tags : [],
-        token_count: null,
+    const llmCalls = createLLMCallLog();
+    try {
+      const embeddings = await embedTexts(chunks.map((c) => c.content), { log: llmCalls });
+      const embeddingModel = embeddingModelId();
+
+      chunks.forEach((c, i) => {
+        rows.push({
+          document_id: doc.id,
+          chunk_index: c.index,
+          content: c.content,
+          embedding: embeddings[i],
+          embedding_model: embeddingModel,
+          product_tags: Array.isArray(body.product_tags) ? body.product_tags : [],
+          token_count: c.tokenCount,
+        });
       });
+    } finally {
+      await llmCalls.flush(supabaseAdmin, { userId: user.id });
     }
 
     const { error: chunkErr } = await supabase.from("knowledge_chunks").insert(rows);
@@ -0,0 +1,99 @@
+// src/lib/knowledge/taxonomy.ts
+import type { AnchorType, Membrane } from "@/lib/solutions/canonicalSolutions";
+import { getSolutionRows, type SolutionRow } from "@/lib/solutions/catalog";
+import { extractAnchorType, extractMembrane } from "@/lib/solutions/intake";
+import { isInternalPath } from "@/lib/docs/knowledgeDocs";
+
+/**
+ * Retrieval metadata for a file in the "knowledge" bucket, read from its folders:
+ *   solutions/pipe-frame/attached/tpo/sales-sheet.pdf   → solution "pipe-frame/attached", membrane "tpo", series "3000"
+ *   anchor/u-anchors/u2400/epdm/install-manual.pdf      → model "u2400", series "2000", membrane "epdm"
+ * Only what the path says; anything it doesn't say stays null (untagged docs are general knowledge).
+ */
+
+export type DocTaxonomy = {
+  /** catalog route without the bucket prefix, same as knowledge_documents.solution_slug */
+  solution_slug: string | null;
+  series: Exclude<AnchorType, "unknown"> | null;
+  membrane: Membrane;
+  /** U-anchor model ("u2400") */
+  model: string | null;
+  audience: "internal" | "both";
+};
+
+/** folder names that spell a membrane out (the text extractor misses "mod-bit" and bare "app") */
+const MEMBRANE_FOLDERS: Record<string, Exclude<Membrane, null>> = {
+  tpo: "tpo",
+  pvc: "pvc",
+  epdm: "epdm",
+  kee: "kee",
+  sbs: "sbs",
+  "sbs-torch": "sbs-torch",
+  app: "app",
+  "modified-bitumen": "modified-bitumen",
+  "mod-bit": "modified-bitumen",
+  modbit: "modified-bitumen",
+  coatings: "coatings",
+  coating: "coatings",
+};
+
+const MODEL_RE = /^u-?(\d{3,4})$/;
+
+function cleanPrefix(p: string) {
+  return String(p || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^\/+|\/+$/g, "");
+}
+
+/** Longest folder prefix wins, so "solutions/pipe-frame/attached" beats a legacy "attached". */
+function matchSolution(path: string, rows: SolutionRow[]) {
+  let best: { row: SolutionRow; len: number } | null = null;
+
+  for (const row of rows) {
+    for (const prefix of [row.storage_folder || "", ...(row.extra_prefixes || [])].map(cleanPrefix)) {
+      if (!prefix || !path.startsWith(`${prefix}/`)) continue;
+      if (!best || prefix.length > best.len) best = { row, len: prefix.length };
+    }
+  }
+
+  return best?.row ?? null;
+}
+
+function membraneFromSegments(folders: string[], file: string): Membrane {
+  for (const seg of folders) {
+    const m = MEMBRANE_FOLDERS[seg];
+    if (m) return m;
+  }
+  return extractMembrane(file.replace(/\.[a-z0-9]+$/, "").replace(/[-_]+/g, " "));
+}
+
+/** U-anchor models are numbered by series: u2xxx → 2000, u3xxx → 3000. */
+function seriesFromModel(model: string | null): DocTaxonomy["series"] {
+  const digit = model?.match(/^u(\d)/)?.[1];
+  if (digit === "2") return "2000";
+  if (digit === "3") return "3000";
+  return null;
+}
+
+export function deriveTaxonomy(path: string, rows: SolutionRow[] = getSolutionRows()): DocTaxonomy {
+  const p = cleanPrefix(path);
+  const segments = p.split("/").filter(Boolean);
+  const file = segments.pop() || "";
+
+  const row = matchSolution(p, rows);
+
+  const modelSeg = segments.find((s) => MODEL_RE.test(s));
+  const model = modelSeg ? `u${modelSeg.match(MODEL_RE)![1]}` : null;
+
+  const explicitSeries = segments.map((s) => extractAnchorType(s.replace(/_/g, "-"))).find((t) => t && t !== "unknown");
+  const rowSeries = row && row.anchor_type !== "unknown" ? row.anchor_type : null;
+
+  return {
+    solution_slug: row ? row.securing : null,
+    series: (explicitSeries as DocTaxonomy["series"]) ?? seriesFromModel(model) ?? rowSeries,
+    membrane: membraneFromSegments(segments, file),
+    model,
+    audience: isInternalPath(p) ? "internal" : "both",
+  };
+}
@@ -1,21 +1,361 @@
-export function chunkText(text: string, maxChars = 900): string[] {
-  const cleaned = (text || "").replace(/\r/g, "").trim();
-  if (!cleaned) return [];
-  const parts: string[] = [];
+// src/lib/learning/chunk.ts
+import { estimateTokens } from "@/lib/chat/context";
+
+/**
+ * The one chunker for knowledge_chunks (chat cards, /api/knowledge/save, bucket ingestion).
+ *
+ * - measured in tokens (estimateTokens, same as the chat context budget), recorded as token_count
+ * - headings (markdown, numbered "2.1 Layout", ALL CAPS, short title lines) are never left at the end
+ *   of a chunk: every chunk starts with the heading path of the section it came from
+ * - bullets and "Label: value" spec lines split between items, tables (tab-separated cells, as
+ *   extracted from PDFs) split between rows and repeat their header row in the next chunk
+ * - consecutive chunks of one section overlap by up to overlapTokens
+ * - nothing is dropped: an oversized sentence / row is split on words, and there's no chunk cap
+ */
+
+export type TextChunk = {
+  index: number;
+  content: string;
+  tokenCount: number;
+  /** heading path of the section the chunk starts in ("Installation › Fastening") */
+  heading: string | null;
+};
+
+export type ChunkOptions = {
+  maxTokens?: number;
+  overlapTokens?: number;
+  /** a new section starts a new chunk once the current one has at least this many tokens */
+  minTokens?: number;
+};
+
+export const DEFAULT_CHUNK_MAX_TOKENS = 300;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 40;
+/** long heading paths keep their last levels */
+const MAX_HEADING_TOKENS = 30;
+
+export function chunkSettingsFromEnv(): Required<Pick<ChunkOptions, "maxTokens" | "overlapTokens">> {
+  // CHUNK_OVERLAP_TOKENS=0 turns overlap off
+  const overlap = Number(process.env.CHUNK_OVERLAP_TOKENS);
+  return {
+    maxTokens: Number(process.env.CHUNK_MAX_TOKENS) || DEFAULT_CHUNK_MAX_TOKENS,
+    overlapTokens: process.env.CHUNK_OVERLAP_TOKENS && Number.isFinite(overlap) ? overlap : DEFAULT_CHUNK_OVERLAP_TOKENS,
+  };
+}
+
+/* ---------------------------------------------
+   Blocks
+--------------------------------------------- */
+
+type Block =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "table"; rows: string[] };
+
+const MD_HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*$/;
+const NUMBERED_HEADING_RE = /^(\d+(?:\.\d+)*)\.?\s+(\S.*)$/;
+const BULLET_RE = /^(?:[-*•●▪◦‣–·]|\(?\d{1,2}[.)]|\(?[a-z][.)])\s+/;
+const SPEC_LINE_RE = /^[A-Za-z][\w ()/#&.,'+-]{0,40}:\s+\S/;
+
+function wordCount(s: string) {
+  return s.split(/\s+/).filter(Boolean).length;
+}
+
+function isTableRow(line: string) {
+  return line.includes("\t") || (line.startsWith("|") && line.endsWith("|"));
+}
+
+function tableCells(line: string) {
+  const cells = line.includes("\t") ? line.split("\t") : line.replace(/^\||\|$/g, "").split("|");
+  return cells.map((c) => c.trim());
+}
+
+/** markdown table separator rows ("|---|:--:|") carry no text */
+function isTableRule(line: string) {
+  return /^\|?[\s:|-]+\|?$/.test(line) && line.includes("-");
+}
+
+function isCapsHeading(line: string) {
+  const letters = line.replace(/[^A-Za-z]/g, "");
+  return letters.length >= 3 && letters === letters.toUpperCase() && wordCount(line) <= 8 && !/[.,;!?]$/.test(line);
+}
+
+/** A short line standing alone, with no sentence punctuation: "Installation Instructions", "Features:" */
+function isTitleLine(line: string) {
+  if (line.length > 80 || wordCount(line) > 8) return false;
+  if (/[.,;!?]$/.test(line)) return false;
+  return /^[A-Z0-9]/.test(line);
+}
+
+function headingOf(line: string, alone: boolean, next: string | undefined): { level: number; text: string } | null {
+  const md = line.match(MD_HEADING_RE);
+  if (md) return { level: md[1].length, text: md[2] };
+
+  // below a markdown title: ALL CAPS and "2" sections, then "2.1", then short title lines and lead-ins.
+  // PDFs rarely leave a blank line under a heading, so numbered and ALL CAPS ones are taken as is
+  const numbered = line.match(NUMBERED_HEADING_RE);
+  if (numbered && isTitleLine(numbered[2]) && (alone || (next && !NUMBERED_HEADING_RE.test(next)))) {
+    return { level: numbered[1].split(".").length + 1, text: line };
+  }
+  if (isCapsHeading(line) && (alone || next)) return { level: 2, text: line };
+
+  if (alone && isTitleLine(line)) return { level: 4, text: line.replace(/:$/, "") };
+  if (next && isListLine(next) && /:$/.test(line) && isTitleLine(line.slice(0, -1))) {
+    return { level: 5, text: line.slice(0, -1) };
+  }
+
+  return null;
+}
+
+function isListLine(line: string) {
+  return BULLET_RE.test(line) || SPEC_LINE_RE.test(line) || isTableRow(line);
+}
+
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+
+  for (const group of text.split(/\n\s*\n/)) {
+    const lines = group
+      .split("\n")
+      .map((l) => l.trim())
+      .filter(Boolean);
+
+    const headingAt = (i: number) => (BULLET_RE.test(lines[i]) ? null : headingOf(lines[i], lines.length === 1, lines[i + 1]));
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (isTableRow(line)) {
+        const rows: string[] = [];
+        for (; i < lines.length && isTableRow(lines[i]); i++) {
+          if (!isTableRule(lines[i])) rows.push(tableCells(lines[i]).filter(Boolean).join(" | "));
+        }
+        if (rows.length) blocks.push({ kind: "table", rows });
+        continue;
+      }
+
+      const heading = headingAt(i);
+      if (heading) {
+        blocks.push({ kind: "heading", ...heading });
+        i++;
+        continue;
+      }
+
+      // bullets (continuation lines fold into their item) and runs of "Label: value" spec lines
+      const spec = SPEC_LINE_RE.test(line) && i + 1 < lines.length && SPEC_LINE_RE.test(lines[i + 1]);
+      if (BULLET_RE.test(line) || spec) {
+        const items: string[] = [];
+        for (; i < lines.length && !isTableRow(lines[i]); i++) {
+          const l = lines[i];
+          if (BULLET_RE.test(l) || SPEC_LINE_RE.test(l)) items.push(l.replace(/^[*•●▪◦‣–·]\s+/, "- "));
+          else if (items.length && !spec && !headingAt(i)) items[items.length - 1] += ` ${l}`;
+          else break;
+        }
+        blocks.push({ kind: "list", items });
+        continue;
+      }
+
+      // prose: PDF line wraps are not paragraph breaks
+      const prose: string[] = [line];
+      for (i++; i < lines.length; i++) {
+        const l = lines[i];
+        if (isTableRow(l) || BULLET_RE.test(l) || headingAt(i)) break;
+        prose.push(l);
+      }
+      blocks.push({ kind: "paragraph", text: prose.join(" ") });
+    }
+  }
+
+  // a heading with nothing under it (end of text, or straight into a sibling) is content, not a title
+  return blocks.map((b, i) => {
+    if (b.kind !== "heading") return b;
+    const next = blocks[i + 1];
+    const empty = !next || (next.kind === "heading" && next.level <= b.level);
+    return empty ? { kind: "paragraph", text: b.text } : b;
+  });
+}
+
+/* ---------------------------------------------
+   Units (the pieces a chunk boundary may fall between)
+--------------------------------------------- */
+
+type Unit = {
+  text: string;
+  tokens: number;
+  section: string | null;
+  block: number;
+  /** joins this unit to the previous one of the same block */
+  joiner: string;
+  /** prepended when a chunk starts in the middle of the block (a table's header row) */
+  carry: string | null;
+};
+
+function splitWords(text: string, maxTokens: number) {
+  const out: string[] = [];
   let buf = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = buf ? `${buf} ${word}` : word;
+    if (buf && estimateTokens(next) > maxTokens) {
+      out.push(buf);
+      buf = word;
+    } else {
+      buf = next;
+    }
+  }
+  if (buf) out.push(buf);
+
+  // a single "word" longer than the budget (a URL, a run of digits) is cut by characters
+  return out.flatMap((piece) => {
+    if (estimateTokens(piece) <= maxTokens) return [piece];
+    const parts: string[] = [];
+    for (let i = 0; i < piece.length; i += maxTokens * 4) parts.push(piece.slice(i, i + maxTokens * 4));
+    return parts;
+  });
+}
 
-  for (const para of cleaned.split("\n\n")) {
-    const p = para.trim();
-    if (!p) continue;
+function splitSentences(text: string) {
+  return text.split(/(?<=[.!?])\s+(?=[A-Z0-9("“])/).filter(Boolean);
+}
+
+/** Break a piece of text into units no larger than maxTokens, preferring sentence boundaries. */
+function fitUnits(text: string, maxTokens: number) {
+  if (estimateTokens(text) <= maxTokens) return [text];
+  return splitSentences(text).flatMap((s) => (estimateTokens(s) <= maxTokens ? [s] : splitWords(s, maxTokens)));
+}
+
+function clipHeading(path: string[]) {
+  const parts = [...path];
+  while (parts.length > 1 && estimateTokens(parts.join(" › ")) > MAX_HEADING_TOKENS) parts.shift();
+  const text = parts.join(" › ");
+  return estimateTokens(text) > MAX_HEADING_TOKENS ? splitWords(text, MAX_HEADING_TOKENS)[0] : text;
+}
 
-    if ((buf + "\n\n" + p).length > maxChars) {
-      if (buf) parts.push(buf);
-      buf = p;
+function toUnits(blocks: Block[], unitMax: number): Unit[] {
+  const units: Unit[] = [];
+  const path: { level: number; text: string }[] = [];
+  let section: string | null = null;
+
+  blocks.forEach((b, block) => {
+    if (b.kind === "heading") {
+      while (path.length && path[path.length - 1].level >= b.level) path.pop();
+      path.push({ level: b.level, text: b.text });
+      section = clipHeading(path.map((p) => p.text));
+      return;
+    }
+
+    const push = (text: string, joiner: string, carry: string | null = null) =>
+      units.push({ text, tokens: estimateTokens(text), section, block, joiner, carry });
+
+    if (b.kind === "paragraph") {
+      for (const piece of fitUnits(b.text, unitMax)) push(piece, " ");
+    } else if (b.kind === "list") {
+      for (const item of b.items) fitUnits(item, unitMax).forEach((piece, i) => push(piece, i ? " " : "\n"));
     } else {
-      buf = buf ? buf + "\n\n" + p : p;
+      const header = b.rows.length > 1 && estimateTokens(b.rows[0]) <= unitMax / 2 ? b.rows[0] : null;
+      b.rows.forEach((row, r) => {
+        fitUnits(row, unitMax).forEach((piece, i) => push(piece, i ? " " : "\n", r && header ? header : null));
+      });
+    }
+  });
+
+  return units;
+}
+
+/* ---------------------------------------------
+   Packing
+--------------------------------------------- */
+
+export function chunkText(text: string, opts: ChunkOptions = {}): TextChunk[] {
+  const cleaned = (text || "").replace(/\r\n?/g, "\n").trim();
+  if (!cleaned) return [];
+
+  const maxTokens = Math.max(32, opts.maxTokens ?? DEFAULT_CHUNK_MAX_TOKENS);
+  const overlapTokens = Math.min(Math.max(0, opts.overlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS), Math.floor(maxTokens / 4));
+  const minTokens = opts.minTokens ?? Math.floor(maxTokens / 2);
+
+  // heading + overlap + any one unit always fit in a fresh chunk
+  const unitMax = Math.max(16, maxTokens - MAX_HEADING_TOKENS - overlapTokens - 4);
+  const units = toUnits(parseBlocks(cleaned), unitMax);
+
+  const chunks: TextChunk[] = [];
+  let body = "";
+  let heading: string | null = null;
+  let taken: Unit[] = [];
+
+  const render = (h: string | null, b: string) => (h && b ? `${h}\n\n${b}` : b);
+  const flush = () => {
+    if (!body.trim()) return;
+    const content = render(heading, body.trim());
+    chunks.push({ index: chunks.length, content, tokenCount: estimateTokens(content), heading });
+  };
+
+  const append = (u: Unit, prev: Unit | undefined) => {
+    let sep = "";
+    if (body) {
+      if (prev && prev.block === u.block) sep = u.joiner;
+      else if (prev && prev.section !== u.section && u.section) sep = `\n\n${u.section}\n\n`;
+      else sep = "\n\n";
     }
+    body += sep + u.text;
+    taken.push(u);
+  };
+
+  /** trailing units of the chunk just flushed (or the tail of its last sentence), same section only */
+  const overlapFor = (u: Unit) => {
+    const out: Unit[] = [];
+    let used = 0;
+    for (let i = taken.length - 1; i >= 0 && overlapTokens > 0; i--) {
+      const t = taken[i];
+      if (t.section !== u.section || used + t.tokens > overlapTokens) break;
+      out.unshift(t);
+      used += t.tokens;
+    }
+
+    const last = taken[taken.length - 1];
+    if (!out.length && overlapTokens > 0 && last?.section === u.section) {
+      const words = last.text.split(/\s+/);
+      let tail = "";
+      for (let i = words.length - 1; i > 0; i--) {
+        const next = tail ? `${words[i]} ${tail}` : words[i];
+        if (estimateTokens(next) > overlapTokens) break;
+        tail = next;
+      }
+      if (tail) out.push({ ...last, text: `…${tail}`, tokens: estimateTokens(tail) + 1 });
+    }
+    return out;
+  };
+
+  for (const u of units) {
+    const prev = taken[taken.length - 1];
+    const newSection = !!prev && prev.section !== u.section;
+    const headingCost = newSection && u.section ? estimateTokens(u.section) + 1 : 0;
+    const bodyTokens = estimateTokens(render(heading, body));
+
+    const full = bodyTokens + headingCost + u.tokens + 1 > maxTokens;
+    const sectionBreak = newSection && bodyTokens >= minTokens;
+
+    if (body && (full || sectionBreak)) {
+      flush();
+      // a table continued from the previous chunk gets its header row instead of an overlap
+      const overlap = sectionBreak || u.carry ? [] : overlapFor(u);
+      heading = u.section;
+      body = u.carry ?? "";
+      taken = [];
+
+      let last: Unit | undefined = u.carry ? u : undefined;
+      for (const o of overlap) {
+        append(o, last);
+        last = o;
+      }
+      append(u, last);
+      continue;
+    }
+
+    if (!body) heading = u.section;
+    append(u, prev);
   }
-  if (buf) parts.push(buf);
+  flush();
 
-  return parts.slice(0, 24);
+  return chunks;
 }
@@ -1,12 +1,223 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import OpenAI from "openai";
+import { createHash } from "node:crypto";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { classifyLLMError, type LLMErrorKind } from "@/lib/llm/client";
+import type { LLMCallLog } from "@/lib/llm/telemetry";
+import { LOCAL_EMBED_MODEL, localEmbedSync } from "./localEmbed";
 
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+/**
+ * Embedding service behind every knowledge vector (chunks at index time, queries at retrieval time):
+ * - batches: one API call per `batchSize` inputs instead of one per text
+ * - cache: public.embedding_cache keyed by (content hash, model id), so unchanged text is never re-embedded
+ * - retries: timeout / rate_limit / server / network failures back off and retry; each attempt is logged
+ * - OPENAI_EMBED_MODEL=local: deterministic offline vectors (see ./localEmbed), no API key or cache
+ *
+ * Swapping the model: change OPENAI_EMBED_MODEL (and OPENAI_EMBED_DIMENSIONS), then let the re-embed job
+ * (src/lib/knowledge/reembed.ts) move knowledge_chunks over in the background.
+ */
 
-export async function embedText(text: string): Promise<number[]> {
-  const model = process.env.OPENAI_EMBED_MODEL || "text-embedding-3-small";
-  const resp = await client.embeddings.create({
-    model,
-    input: text.slice(0, 8000),
+export const DEFAULT_EMBED_MODEL = "text-embedding-3-small";
+export const DEFAULT_EMBED_BATCH_SIZE = 96;
+export const DEFAULT_EMBED_MAX_RETRIES = 3;
+
+const MAX_INPUT_CHARS = 8000;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 8000;
+const RETRYABLE: LLMErrorKind[] = ["timeout", "rate_limit", "server", "network"];
+// keeps the .in() filter well under PostgREST's URL limit
+const CACHE_LOOKUP_SIZE = 100;
+
+export type EmbeddingSettings = {
+  model: string;
+  /** text-embedding-3-* can shorten vectors; null keeps the model's native size */
+  dimensions: number | null;
+  batchSize: number;
+  maxRetries: number;
+};
+
+export type EmbedOptions = {
+  /** request call log, so the tokens are counted in llm_calls (purpose "embedding") */
+  log?: LLMCallLog;
+  settings?: EmbeddingSettings;
+  /** client for public.embedding_cache (service role); false skips the cache */
+  cache?: SupabaseClient | false;
+};
+
+export function embeddingSettingsFromEnv(): EmbeddingSettings {
+  const dimensions = Number(process.env.OPENAI_EMBED_DIMENSIONS);
+  const maxRetries = Number(process.env.EMBED_MAX_RETRIES);
+  return {
+    model: process.env.OPENAI_EMBED_MODEL || DEFAULT_EMBED_MODEL,
+    dimensions: Number.isInteger(dimensions) && dimensions > 0 ? dimensions : null,
+    batchSize: Number(process.env.EMBED_BATCH_SIZE) || DEFAULT_EMBED_BATCH_SIZE,
+    // EMBED_MAX_RETRIES=0 turns retries off
+    maxRetries: process.env.EMBED_MAX_RETRIES && Number.isFinite(maxRetries) ? maxRetries : DEFAULT_EMBED_MAX_RETRIES,
+  };
+}
+
+/**
+ * What embedding_cache.model and knowledge_chunks.embedding_model record: the model plus any dimension
+ * override, since the same model at two sizes produces incompatible vectors.
+ */
+export function embeddingModelId(settings: EmbeddingSettings = embeddingSettingsFromEnv()) {
+  return settings.dimensions ? `${settings.model}@${settings.dimensions}` : settings.model;
+}
+
+let openai: OpenAI | null = null;
+
+function openaiClient() {
+  // retries are handled below so every attempt shows up in llm_calls
+  openai ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY!, maxRetries: 0 });
+  return openai;
+}
+
+function hashInput(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function parseVector(v: unknown): number[] | null {
+  // PostgREST returns pgvector columns as "[0.1,0.2,…]"
+  const arr = typeof v === "string" ? JSON.parse(v) : v;
+  return Array.isArray(arr) && arr.length ? arr.map(Number) : null;
+}
+
+function backoffMs(attempt: number) {
+  const ms = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  return ms / 2 + Math.random() * (ms / 2);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function readCache(cache: SupabaseClient, modelId: string, hashes: string[]) {
+  const found = new Map<string, number[]>();
+  for (let i = 0; i < hashes.length; i += CACHE_LOOKUP_SIZE) {
+    const { data, error } = await cache
+      .from("embedding_cache")
+      .select("content_hash,embedding")
+      .eq("model", modelId)
+      .in("content_hash", hashes.slice(i, i + CACHE_LOOKUP_SIZE));
+    if (error) {
+      // a cold cache only costs API calls
+      console.error("EMBEDDING_CACHE_READ_ERROR:", error);
+      return found;
+    }
+    for (const row of (data || []) as { content_hash: string; embedding: unknown }[]) {
+      const vector = parseVector(row.embedding);
+      if (vector) found.set(row.content_hash, vector);
+    }
+  }
+  return found;
+}
+
+async function writeCache(cache: SupabaseClient, modelId: string, entries: { hash: string; vector: number[] }[]) {
+  if (!entries.length) return;
+  const { error } = await cache.from("embedding_cache").upsert(
+    entries.map((e) => ({ content_hash: e.hash, model: modelId, embedding: e.vector, dims: e.vector.length })),
+    { onConflict: "content_hash,model", ignoreDuplicates: true }
+  );
+  if (error) console.error("EMBEDDING_CACHE_WRITE_ERROR:", error);
+}
+
+/**
+ * One embeddings request for up to `batchSize` inputs, retried with exponential backoff (plus jitter)
+ * on transient failures. auth / bad_request errors are thrown right away.
+ */
+async function requestBatch(inputs: string[], settings: EmbeddingSettings, log?: LLMCallLog): Promise<number[][]> {
+  const base = {
+    purpose: "embedding" as const,
+    provider: "openai",
+    model: settings.model,
+    fallbackUsed: false,
+    streamed: false,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    const started = Date.now();
+    let resp: OpenAI.CreateEmbeddingResponse;
+    try {
+      resp = await openaiClient().embeddings.create({
+        model: settings.model,
+        input: inputs,
+        ...(settings.dimensions ? { dimensions: settings.dimensions } : {}),
+      });
+    } catch (e) {
+      const err = classifyLLMError(e, { provider: "openai", model: settings.model });
+      log?.onCall({
+        ...base,
+        attempt,
+        ok: false,
+        errorKind: err.kind,
+        errorMessage: err.message.slice(0, 500),
+        latencyMs: Date.now() - started,
+        inputTokens: null,
+        outputTokens: null,
+      });
+      if (attempt >= settings.maxRetries || !RETRYABLE.includes(err.kind)) throw e;
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+
+    log?.onCall({
+      ...base,
+      attempt,
+      ok: true,
+      errorKind: null,
+      errorMessage: null,
+      latencyMs: Date.now() - started,
+      inputTokens: resp.usage?.prompt_tokens ?? null,
+      outputTokens: 0,
+    });
+
+    const vectors = new Array<number[]>(inputs.length);
+    for (const d of resp.data) vectors[d.index] = d.embedding;
+    if (vectors.findIndex((v) => !v) !== -1) throw new Error(`Embedding response is missing inputs (${resp.data.length}/${inputs.length})`);
+    return vectors;
+  }
+}
+
+/**
+ * Embed many texts; the result is in input order. Duplicates are embedded once, cached vectors are
+ * reused, and the rest go out in batches.
+ */
+export async function embedTexts(texts: string[], opts: EmbedOptions = {}): Promise<number[][]> {
+  const settings = opts.settings ?? embeddingSettingsFromEnv();
+  const inputs = texts.map((t) => String(t || "").slice(0, MAX_INPUT_CHARS));
+  if (!inputs.length) return [];
+
+  if (settings.model === LOCAL_EMBED_MODEL) {
+    return inputs.map((t) => localEmbedSync(t, settings.dimensions ?? undefined));
+  }
+
+  const modelId = embeddingModelId(settings);
+  const hashes = inputs.map(hashInput);
+  const cache = opts.cache === undefined ? supabaseAdmin : opts.cache;
+  const vectors = cache ? await readCache(cache, modelId, [...new Set(hashes)]) : new Map<string, number[]>();
+
+  const missing: { hash: string; input: string }[] = [];
+  const queued = new Set<string>();
+  hashes.forEach((hash, i) => {
+    if (vectors.has(hash) || queued.has(hash)) return;
+    queued.add(hash);
+    missing.push({ hash, input: inputs[i] });
   });
-  return resp.data[0].embedding;
+
+  const batchSize = Math.max(1, settings.batchSize);
+  for (let i = 0; i < missing.length; i += batchSize) {
+    const batch = missing.slice(i, i + batchSize);
+    const embedded = await requestBatch(batch.map((m) => m.input), settings, opts.log);
+    const entries = batch.map((m, j) => ({ hash: m.hash, vector: embedded[j] }));
+    for (const e of entries) vectors.set(e.hash, e.vector);
+    if (cache) await writeCache(cache, modelId, entries);
+  }
+
+  return hashes.map((h) => vectors.get(h)!);
+}
+
+/**
+ * Embed one text (a query, usually). Pass the request's call log so the tokens are counted in llm_calls.
+ */
+export async function embedText(text: string, opts: EmbedOptions = {}): Promise<number[]> {
+  const [vector] = await embedTexts([text], opts);
+  return vector;
 }
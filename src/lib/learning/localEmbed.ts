@@ -0,0 +1,37 @@
+// src/lib/learning/localEmbed.ts
+
+/**
+ * Deterministic local embedder: hashed bag-of-words vectors, no network and no API key.
+ * Used by the retrieval harness and selected with OPENAI_EMBED_MODEL=local for tests and offline dev.
+ * Only useful for lexical overlap; never mix its vectors with a real model's.
+ */
+
+export const LOCAL_EMBED_MODEL = "local";
+export const LOCAL_EMBED_DIMS = 256;
+
+function hashToken(token: string, dims: number) {
+  // FNV-1a, good enough to spread tokens across dimensions
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) % dims;
+}
+
+export function localEmbedSync(text: string, dims = LOCAL_EMBED_DIMS): number[] {
+  const v = new Array<number>(dims).fill(0);
+  const tokens = String(text || "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1);
+
+  for (const t of tokens) v[hashToken(t, dims)] += 1;
+
+  const norm = Math.sqrt(v.reduce((acc, x) => acc + x * x, 0)) || 1;
+  return v.map((x) => x / norm);
+}
+
+export async function localEmbed(text: string): Promise<number[]> {
+  return localEmbedSync(text);
+}
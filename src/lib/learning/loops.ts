@@ -1,12 +1,27 @@
 // src/lib/learning/loops.ts
-import OpenAI from "openai";
-import { chunkText } from "./chunk";
-import { embedText } from "./embeddings";
-
-const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { LLMRequest } from "@/lib/llm/client";
+import { llmChainFromEnv } from "@/lib/llm/chain";
+import { createLLMCallLog, type LLMCallLog } from "@/lib/llm/telemetry";
+import { contextSettingsFromEnv } from "@/lib/chat/context";
+import { chunkSettingsFromEnv, chunkText } from "./chunk";
+import { embeddingModelId, embedText, embedTexts } from "./embeddings";
 
 type Supa = any;
 
+/**
+ * Summaries and knowledge extraction run on the same provider chain as the chat;
+ * their attempts are logged to llm_calls under the session owner.
+ */
+async function completeLoopPrompt(userId: string, req: LLMRequest, calls: LLMCallLog = createLLMCallLog()) {
+  try {
+    const result = await llmChainFromEnv({ onCall: calls.onCall }).complete({ maxOutputTokens: 1200, ...req });
+    return result.text;
+  } finally {
+    await calls.flush(supabaseAdmin, { userId });
+  }
+}
+
 type KnowledgeDocInsert = {
   title: string;
   source_type: string; // enum in DB (knowledge_source_type)
@@ -37,6 +52,7 @@ type KnowledgeChunkInsert = {
   audience?: "internal" | "external" | "both";
   content: string;
   embedding: number[];
+  embedding_model?: string | null;
   chunk_index: number;
   product_tags?: string[];
   token_count?: number | null;
@@ -56,10 +72,15 @@ type KnowledgeCard = {
 
 const SOURCE_TYPE: string = "anchor"; // ✅ MUST exist in knowledge_source_type enum
 
+// fold at least this many turns at once (fewer LLM calls), at most this many per run (backlogs catch up over turns)
+const SUMMARY_FOLD_MIN = 6;
+const SUMMARY_FOLD_MAX = 40;
+
 export async function ensureChatSession(
   supabase: Supa,
   userId: string,
-  sessionId?: string | null
+  sessionId?: string | null,
+  conversationId?: string | null
 ) {
   if (sessionId) {
     const { data } = await supabase
@@ -71,9 +92,22 @@ export async function ensureChatSession(
     if (data?.id) return data.id as string;
   }
 
+  // one learning session per conversation, so reloads keep summarizing the same thread
+  if (conversationId) {
+    const { data } = await supabase
+      .from("chat_sessions")
+      .select("id")
+      .eq("conversation_id", conversationId)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (data?.id) return data.id as string;
+  }
+
   const { data: created, error } = await supabase
     .from("chat_sessions")
-    .insert({ user_id: userId, title: "New session" })
+    .insert({ user_id: userId, title: "New session", conversation_id: conversationId ?? null })
     .select("id")
     .single();
 
@@ -86,70 +120,78 @@ export async function writeChatMessage(
   userId: string,
   sessionId: string,
   role: "user" | "assistant",
-  content: string
+  content: string,
+  meta?: Record<string, unknown>
 ) {
   const { error } = await supabase.from("chat_messages").insert({
     user_id: userId,
     session_id: sessionId,
     role,
     content,
+    meta: meta ?? {},
   });
   if (error) console.error("CHAT_MESSAGE_INSERT_ERROR:", error);
 }
 
+/**
+ * Rolling summary behind the chat context window (src/lib/chat/context): once SUMMARY_FOLD_MIN turns sit
+ * outside the verbatim window, fold the oldest of them into chat_summaries and advance last_message_at.
+ */
 export async function maybeSummarizeSession(
   supabase: Supa,
   userId: string,
   sessionId: string
 ) {
-  // summarize when message count is a multiple of 8
-  const { count } = await supabase
-    .from("chat_messages")
-    .select("*", { count: "exact", head: true })
-    .eq("user_id", userId)
-    .eq("session_id", sessionId);
+  const { keepTurns } = contextSettingsFromEnv();
 
-  const n = Number(count || 0);
-  if (n < 8 || n % 8 !== 0) return;
-
-  const { data: msgs } = await supabase
-    .from("chat_messages")
-    .select("role,content,created_at")
-    .eq("user_id", userId)
+  const { data: prev, error: prevErr } = await supabase
+    .from("chat_summaries")
+    .select("summary,bullets,extracted_fields,last_message_at")
     .eq("session_id", sessionId)
-    .order("created_at", { ascending: false })
-    .limit(18);
+    .maybeSingle();
+  if (prevErr) throw new Error(prevErr.message);
 
-  const ordered = (msgs || []).reverse();
+  // turns after the last fold
+  const unfolded = (columns: string, opts?: { count: "exact"; head: true }) => {
+    const q = supabase.from("chat_messages").select(columns, opts).eq("user_id", userId).eq("session_id", sessionId);
+    return prev?.last_message_at ? q.gt("created_at", prev.last_message_at) : q;
+  };
+
+  const { count } = await unfolded("*", { count: "exact", head: true });
+  const foldable = Number(count || 0) - keepTurns;
+  if (foldable < SUMMARY_FOLD_MIN) return;
+
+  const { data: msgs } = await unfolded("role,content,created_at")
+    .order("created_at", { ascending: true })
+    .limit(Math.min(foldable, SUMMARY_FOLD_MAX));
+
+  const ordered = msgs || [];
+  if (!ordered.length) return;
   const transcript = ordered
     .map((m: any) => `${String(m.role).toUpperCase()}: ${m.content}`)
     .join("\n");
 
-  const model = process.env.OPENAI_MODEL || "gpt-5-mini";
-
-  const resp = await client.responses.create({
-    model,
-    input: [
-      {
-        role: "system",
-        content:
-          "Summarize this sales training chat for future retrieval. Keep it factual. Output JSON only.",
-      },
-      {
-        role: "user",
-        content:
-          `Return JSON with keys: summary (string), bullets (string[]), extracted_fields (object with keys like membrane, series, mounting, constraints, next_questions). ` +
-          `Chat:\n\n${transcript}`,
-      },
-    ],
-  });
-
-  const txt = resp.output_text || "{}";
-  let parsed: any = {};
+  const previous = prev?.summary
+    ? `${prev.summary}\n${(Array.isArray(prev.bullets) ? prev.bullets : []).map((b: string) => `• ${b}`).join("\n")}`
+    : "(none yet)";
+
+  const txt =
+    (await completeLoopPrompt(userId, {
+      purpose: "summary",
+      system:
+        "Maintain a running summary of this sales chat so it can continue without the full transcript. Keep it factual. Output JSON only.",
+      user:
+        `Return JSON with keys: summary (string, under 1200 characters), bullets (string[], at most 8), extracted_fields (object with keys like membrane, series, mounting, constraints, next_questions). ` +
+        `Merge the previous summary with the new turns: keep what the rep confirmed, the recommendation given and open questions; drop small talk.\n\n` +
+        `Previous summary:\n${previous}\n\nNew turns:\n${transcript}`,
+    })) || "{}";
+  let parsed: any;
   try {
     parsed = JSON.parse(txt);
   } catch {
-    parsed = { summary: txt.slice(0, 1200), bullets: [], extracted_fields: {} };
+    // leave last_message_at alone so the next turn retries the same fold
+    console.error("CHAT_SUMMARY_PARSE_ERROR:", txt.slice(0, 200));
+    return;
   }
 
   const now = new Date().toISOString();
@@ -160,9 +202,9 @@ export async function maybeSummarizeSession(
       {
         user_id: userId,
         session_id: sessionId,
-        summary: String(parsed.summary || "").slice(0, 4000),
-        bullets: Array.isArray(parsed.bullets) ? parsed.bullets : [],
-        extracted_fields: parsed.extracted_fields || {},
+        summary: String(parsed.summary || prev?.summary || "").slice(0, 4000),
+        bullets: Array.isArray(parsed.bullets) ? parsed.bullets.slice(0, 8) : [],
+        extracted_fields: { ...(prev?.extracted_fields || {}), ...(parsed.extracted_fields || {}) },
         last_message_at: ordered.at(-1)?.created_at ?? now,
         updated_at: now,
       },
@@ -200,27 +242,18 @@ export async function maybeExtractKnowledge(
     .map((m: any) => `${String(m.role).toUpperCase()}: ${m.content}`)
     .join("\n");
 
-  const model = process.env.OPENAI_MODEL || "gpt-5-mini";
-
-  const resp = await client.responses.create({
-    model,
-    input: [
-      {
-        role: "system",
-        content:
-          "Extract reusable Anchor Products sales knowledge from this chat. No guessing. Output JSON only.",
-      },
-      {
-        role: "user",
-        content:
-          `Create 0-4 knowledge cards. Return JSON array. ` +
-          `Each item keys: title (string), raw_text (string fact-only), category (string optional), audience (internal|external|both optional), series (string optional), membrane (string optional), solution_slug (string optional), product_tags (string[] optional). ` +
-          `Avoid spec numbers unless explicitly stated in the chat.\n\nChat:\n${transcript}`,
-      },
-    ],
-  });
-
-  const txt = resp.output_text || "[]";
+  // the chunk embeddings below are logged alongside the extraction call
+  const calls = createLLMCallLog();
+  const extractReq: LLMRequest = {
+    purpose: "knowledge_extraction",
+    system: "Extract reusable Anchor Products sales knowledge from this chat. No guessing. Output JSON only.",
+    user:
+      `Create 0-4 knowledge cards. Return JSON array. ` +
+      `Each item keys: title (string), raw_text (string fact-only), category (string optional), audience (internal|external|both optional), series (string optional), membrane (string optional), solution_slug (string optional), product_tags (string[] optional). ` +
+      `Avoid spec numbers unless explicitly stated in the chat.\n\nChat:\n${transcript}`,
+  };
+
+  const txt = (await completeLoopPrompt(userId, extractReq, calls)) || "[]";
   let cards: KnowledgeCard[] = [];
   try {
     cards = JSON.parse(txt);
@@ -228,66 +261,70 @@ export async function maybeExtractKnowledge(
     cards = [];
   }
 
-  for (const card of cards.slice(0, 4)) {
-    const title = (card.title || "").trim();
-    const raw = (card.raw_text || "").trim();
-    if (!title || !raw) continue;
-
-    const now = new Date().toISOString();
-
-    // ✅ Insert into YOUR knowledge_documents schema
-    const docRow: KnowledgeDocInsert = {
-      title,
-      source_type: SOURCE_TYPE,
-      audience: (card.audience || "both") as any, // default matches DB default
-      allowed: true,
-      category: (card.category || null) as any,
-      series: (card.series ?? null) as any,
-      membrane: (card.membrane ?? null) as any,
-      solution_slug: (card.solution_slug ?? null) as any,
-      product_tags: Array.isArray(card.product_tags) ? card.product_tags : [],
-      created_by: userId,
-      source_session_id: sessionId,
-      is_indexable: true,
-      status: "draft", // your default is draft; explicitly set is fine
-      updated_at: now,
-    };
-
-    const { data: doc, error: docErr } = await supabase
-      .from("knowledge_documents")
-      .insert(docRow)
-      .select("id")
-      .single();
+  try {
+    for (const card of cards.slice(0, 4)) {
+      const title = (card.title || "").trim();
+      const raw = (card.raw_text || "").trim();
+      if (!title || !raw) continue;
 
-    if (docErr || !doc?.id) {
-      console.error("KNOWLEDGE_DOC_INSERT_ERROR:", docErr);
-      continue;
-    }
+      const now = new Date().toISOString();
 
-    // ✅ Chunk + embed => insert into knowledge_chunks schema
-    const chunks = chunkText(raw, 900);
+      // ✅ Insert into YOUR knowledge_documents schema
+      const docRow: KnowledgeDocInsert = {
+        title,
+        source_type: SOURCE_TYPE,
+        audience: (card.audience || "both") as any, // default matches DB default
+        allowed: true,
+        category: (card.category || null) as any,
+        series: (card.series ?? null) as any,
+        membrane: (card.membrane ?? null) as any,
+        solution_slug: (card.solution_slug ?? null) as any,
+        product_tags: Array.isArray(card.product_tags) ? card.product_tags : [],
+        created_by: userId,
+        source_session_id: sessionId,
+        is_indexable: true,
+        status: "draft", // your default is draft; explicitly set is fine
+        updated_at: now,
+      };
+
+      const { data: doc, error: docErr } = await supabase
+        .from("knowledge_documents")
+        .insert(docRow)
+        .select("id")
+        .single();
 
-    for (let i = 0; i < chunks.length; i++) {
-      const content = chunks[i];
-      const embedding = await embedText(content);
+      if (docErr || !doc?.id) {
+        console.error("KNOWLEDGE_DOC_INSERT_ERROR:", docErr);
+        continue;
+      }
 
-      const chunkRow: KnowledgeChunkInsert = {
+      // ✅ Chunk + embed => insert into knowledge_chunks schema
+      const chunks = chunkText(raw, chunkSettingsFromEnv());
+      if (!chunks.length) continue;
+
+      const embeddings = await embedTexts(chunks.map((c) => c.content), { log: calls });
+      const embeddingModel = embeddingModelId();
+
+      const chunkRows: KnowledgeChunkInsert[] = chunks.map((chunk, i) => ({
         document_id: doc.id,
         source_type: SOURCE_TYPE,
         audience: (docRow.audience || "both") as any,
-        content,
-        embedding,
-        chunk_index: i,
+        content: chunk.content,
+        embedding: embeddings[i],
+        embedding_model: embeddingModel,
+        chunk_index: chunk.index,
         product_tags: docRow.product_tags || [],
-        token_count: null,
-      };
+        token_count: chunk.tokenCount,
+      }));
 
       const { error: chunkErr } = await supabase
         .from("knowledge_chunks")
-        .insert(chunkRow);
+        .insert(chunkRows);
 
       if (chunkErr) console.error("KNOWLEDGE_CHUNK_INSERT_ERROR:", chunkErr);
     }
+  } finally {
+    await calls.flush(supabaseAdmin, { userId });
   }
 }
 
@@ -308,6 +345,7 @@ export async function retrieveApprovedKnowledge(
   const { data, error } = await supabase.rpc("match_knowledge_chunks", {
     query_embedding: embedding,
     match_count: matchCount,
+    filter_embedding_model: embeddingModelId(),
   });
 
   if (error) {
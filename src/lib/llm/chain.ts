@@ -0,0 +1,171 @@
+// src/lib/llm/chain.ts
+import { classifyLLMError, LLMError, type LLMClient, type LLMErrorKind, type LLMPurpose } from "./client";
+import { createProvider } from "./providers";
+
+/**
+ * Fallback chain: try each step in order until one returns non-empty text.
+ *
+ * - timeout / rate_limit / server / network / empty / unknown → next step
+ * - bad_request → next step (a different model may accept what this one rejected)
+ * - auth        → skip the remaining steps on the same provider
+ * - aborted     → the caller cancelled; stop
+ *
+ * When streaming, a step that fails after emitting tokens hands over to the next step without
+ * streaming, so the caller must swap in the final text (the chat route sends a "replace" frame).
+ */
+
+export const DEFAULT_LLM_TIMEOUT_MS = 30_000;
+
+export type ChainStep = {
+  client: LLMClient;
+  timeoutMs?: number;
+};
+
+/** One attempt (success or failure) of one step; the telemetry row behind llm_calls. */
+export type LLMCallRecord = {
+  purpose: LLMPurpose;
+  provider: string;
+  model: string;
+  ok: boolean;
+  errorKind: LLMErrorKind | null;
+  errorMessage: string | null;
+  latencyMs: number;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  /** 0-based chain position */
+  attempt: number;
+  fallbackUsed: boolean;
+  streamed: boolean;
+};
+
+export type ChainOptions = {
+  onCall?: (record: LLMCallRecord) => void;
+};
+
+export function createFallbackChain(steps: ChainStep[], opts: ChainOptions = {}): LLMClient {
+  if (!steps.length) throw new Error("LLM chain needs at least one step");
+
+  return {
+    name: `chain(${steps.map((s) => s.client.name).join(" → ")})`,
+    provider: steps[0].client.provider,
+    model: steps[0].client.model,
+    async complete(req, callOpts = {}) {
+      const skipProviders = new Set<string>();
+      let emitted = false;
+      let lastError: LLMError | null = null;
+
+      for (let attempt = 0; attempt < steps.length; attempt++) {
+        const { client, timeoutMs = DEFAULT_LLM_TIMEOUT_MS } = steps[attempt];
+        if (skipProviders.has(client.provider)) continue;
+
+        const at = { provider: client.provider, model: client.model };
+        const timer = new AbortController();
+        const timeout = setTimeout(() => timer.abort(), timeoutMs);
+        const signal = callOpts.signal ? AbortSignal.any([callOpts.signal, timer.signal]) : timer.signal;
+        const streaming = !!callOpts.onDelta && !emitted;
+        const started = Date.now();
+
+        const record = (fields: Partial<LLMCallRecord>) =>
+          opts.onCall?.({
+            purpose: req.purpose,
+            provider: client.provider,
+            model: client.model,
+            ok: false,
+            errorKind: null,
+            errorMessage: null,
+            latencyMs: Date.now() - started,
+            inputTokens: null,
+            outputTokens: null,
+            attempt,
+            fallbackUsed: attempt > 0,
+            streamed: streaming,
+            ...fields,
+          });
+
+        try {
+          const result = await client.complete(req, {
+            signal,
+            onDelta: streaming
+              ? (text) => {
+                  emitted = true;
+                  callOpts.onDelta!(text);
+                }
+              : undefined,
+          });
+
+          if (!result.text.trim()) throw new LLMError("empty", "Model returned no text", at);
+
+          record({
+            ok: true,
+            latencyMs: result.latencyMs,
+            inputTokens: result.usage.inputTokens,
+            outputTokens: result.usage.outputTokens,
+          });
+          return { ...result, fallbackUsed: attempt > 0 };
+        } catch (e) {
+          let err = classifyLLMError(e, at);
+          // our own timer fired, not the caller's signal
+          if (err.kind === "aborted" && timer.signal.aborted && !callOpts.signal?.aborted) {
+            err = new LLMError("timeout", `Timed out after ${timeoutMs}ms`, { ...at, cause: e });
+          }
+
+          record({ errorKind: err.kind, errorMessage: err.message.slice(0, 500) });
+          if (err.kind === "aborted") throw err;
+          if (err.kind === "auth") skipProviders.add(client.provider);
+
+          console.warn("[llm] step failed", { step: client.name, kind: err.kind, message: err.message });
+          lastError = err;
+        } finally {
+          clearTimeout(timeout);
+        }
+      }
+
+      throw lastError ?? new LLMError("unknown", "No LLM step could run");
+    },
+  };
+}
+
+/**
+ * "openai:gpt-5-mini@20000, openai:gpt-4.1-mini, local:llama3.1:8b" → steps.
+ * An optional "@<ms>" suffix overrides the default timeout for that step.
+ */
+export function parseChainSpec(spec: string, defaultTimeoutMs = DEFAULT_LLM_TIMEOUT_MS): ChainStep[] {
+  return spec
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => {
+      const m = /^(.*)@(\d+)$/.exec(s);
+      return { client: createProvider(m ? m[1] : s), timeoutMs: m ? Number(m[2]) : defaultTimeoutMs };
+    });
+}
+
+function chainSpecFromEnv() {
+  const primary = process.env.OPENAI_MODEL || "gpt-5-mini";
+  const fallback = process.env.OPENAI_FALLBACK_MODEL || "gpt-4.1-mini";
+  return process.env.LLM_CHAIN || `openai:${primary},openai:${fallback}`;
+}
+
+/**
+ * Chain from the environment. LLM_CHAIN wins; otherwise the legacy OPENAI_MODEL → OPENAI_FALLBACK_MODEL pair.
+ */
+export function llmChainFromEnv(opts: ChainOptions = {}): LLMClient {
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_LLM_TIMEOUT_MS;
+  return createFallbackChain(parseChainSpec(chainSpecFromEnv(), timeoutMs), opts);
+}
+
+/** Providers llmChainFromEnv() would call, so callers can check only the credentials those need. */
+export function llmChainProvidersFromEnv() {
+  return Array.from(new Set(parseChainSpec(chainSpecFromEnv()).map((s) => s.client.provider)));
+}
+
+/**
+ * Chain for photo understanding. LLM_VISION_CHAIN when the text chain has steps that can't read images
+ * (a local llama); otherwise the same chain as text.
+ */
+export function visionChainFromEnv(opts: ChainOptions = {}): LLMClient {
+  const spec = process.env.LLM_VISION_CHAIN;
+  if (!spec) return llmChainFromEnv(opts);
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_LLM_TIMEOUT_MS;
+  return createFallbackChain(parseChainSpec(spec, timeoutMs), opts);
+}
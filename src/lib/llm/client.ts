@@ -0,0 +1,148 @@
+// src/lib/llm/client.ts
+import { APIConnectionError, APIConnectionTimeoutError, APIUserAbortError } from "openai";
+
+/**
+ * Provider-neutral text generation. Providers (./providers) implement LLMClient; the fallback
+ * chain (./chain) is itself an LLMClient, so callers never care which model answered.
+ */
+
+export type LLMPurpose =
+  | "chat"
+  | "chat_recovery"
+  | "summary"
+  | "knowledge_extraction"
+  | "fact_extraction"
+  | "vision"
+  | "transcription"
+  | "speech"
+  | "embedding"
+  | "rerank"
+  | "eval";
+
+/** Structured output: with format "json", providers constrain the reply to this schema (strict mode). */
+export type LLMJsonSchema = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+/** An image sent with the user message: an https URL (e.g. a signed storage URL) or a data: URL. */
+export type LLMImage = {
+  url: string;
+  detail?: "low" | "high" | "auto";
+};
+
+export type LLMRequest = {
+  system: string;
+  user: string;
+  /** photos for vision-capable models; providers without vision ignore them */
+  images?: LLMImage[];
+  /** "json" asks for a single JSON value (loops parse it); default "text" */
+  format?: "text" | "json";
+  /** only with format "json"; without it the model is just asked for some JSON object */
+  jsonSchema?: LLMJsonSchema;
+  maxOutputTokens?: number;
+  /** what the call is for (telemetry) */
+  purpose: LLMPurpose;
+};
+
+export type LLMUsage = {
+  inputTokens: number | null;
+  outputTokens: number | null;
+};
+
+export type LLMResult = {
+  text: string;
+  /** registry name of the provider that answered ("openai", "local", "mock") */
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+  /** true when an earlier chain step failed and a later one answered */
+  fallbackUsed: boolean;
+};
+
+export type LLMCallOptions = {
+  signal?: AbortSignal;
+  /** stream tokens: called with each text delta as it arrives */
+  onDelta?: (text: string) => void;
+};
+
+export type LLMClient = {
+  /** "<provider>:<model>" for single providers, "chain(<steps>)" for the fallback chain */
+  name: string;
+  provider: string;
+  /** the model asked first (a chain may answer with a later one; see LLMResult.model) */
+  model: string;
+  complete: (req: LLMRequest, opts?: LLMCallOptions) => Promise<LLMResult>;
+};
+
+export type LLMErrorKind =
+  | "timeout"
+  | "rate_limit"
+  | "auth"
+  | "bad_request"
+  | "server"
+  | "network"
+  | "empty"
+  | "aborted"
+  | "unknown";
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly provider: string | null;
+  readonly model: string | null;
+  readonly status: number | null;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    details: { provider?: string | null; model?: string | null; status?: number | null; cause?: unknown } = {}
+  ) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = "LLMError";
+    this.kind = kind;
+    this.provider = details.provider ?? null;
+    this.model = details.model ?? null;
+    this.status = details.status ?? null;
+  }
+}
+
+/**
+ * Map whatever a provider threw (OpenAI SDK errors, fetch failures, AbortError…) to an LLMError.
+ * Both HTTP providers go through the OpenAI SDK, so its error classes cover most cases.
+ */
+export function classifyLLMError(e: unknown, at: { provider: string; model: string }): LLMError {
+  if (e instanceof LLMError) return e;
+
+  const err = (e && typeof e === "object" ? e : {}) as {
+    message?: unknown;
+    status?: unknown;
+    response?: { status?: unknown };
+    name?: unknown;
+    code?: unknown;
+    cause?: { code?: unknown };
+  };
+  const message = String(err.message || e || "Unknown LLM error");
+  const status = Number(err.status ?? err.response?.status);
+  const name = String(err.name || "");
+  const code = String(err.code || err.cause?.code || "");
+
+  const make = (kind: LLMErrorKind) =>
+    new LLMError(kind, message, { ...at, status: Number.isFinite(status) ? status : null, cause: e });
+
+  if (e instanceof APIUserAbortError || name === "AbortError") return make("aborted");
+  if (e instanceof APIConnectionTimeoutError || /timed? ?out/i.test(message)) return make("timeout");
+  if (status === 408) return make("timeout");
+  if (status === 429) return make("rate_limit");
+  if (status === 401 || status === 403) return make("auth");
+  if (status === 400 || status === 404 || status === 422) return make("bad_request");
+  if (status >= 500) return make("server");
+  if (
+    e instanceof APIConnectionError ||
+    /ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|UND_ERR/.test(code) ||
+    /fetch failed|network/i.test(message)
+  ) {
+    return make("network");
+  }
+  return make("unknown");
+}
@@ -0,0 +1,240 @@
+// src/lib/llm/providers.ts
+import OpenAI from "openai";
+import { answerRequest, extractResponsesText } from "@/lib/chat/responses";
+import { classifyLLMError, LLMError, type LLMClient, type LLMRequest, type LLMResult, type LLMUsage } from "./client";
+
+/**
+ * Provider registry: "<provider>:<model>" specs (LLM_CHAIN, eval flags) resolve to LLMClients.
+ *
+ * - openai  → OpenAI Responses API (OPENAI_API_KEY)
+ * - local   → any OpenAI-compatible /v1/chat/completions server: Ollama, llama.cpp, vLLM
+ *             (LOCAL_LLM_BASE_URL, default Ollama on localhost; LOCAL_LLM_API_KEY if it wants one)
+ * - mock    → deterministic, no network; models: echo (default), empty, error, slow
+ */
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 650;
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+type ProviderFactory = (model: string) => LLMClient;
+
+function usageOf(inputTokens: unknown, outputTokens: unknown): LLMUsage {
+  const n = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : null);
+  return { inputTokens: n(inputTokens), outputTokens: n(outputTokens) };
+}
+
+function result(provider: string, model: string, text: string, usage: LLMUsage, started: number): LLMResult {
+  return { text, provider, model, usage, latencyMs: Date.now() - started, fallbackUsed: false };
+}
+
+export function openaiProvider(params: { apiKey?: string; model: string }): LLMClient {
+  const { model } = params;
+  // one quick SDK retry for blips; anything longer is the chain's job
+  const openai = params.apiKey ? new OpenAI({ apiKey: params.apiKey, maxRetries: 1 }) : null;
+
+  return {
+    name: `openai:${model}`,
+    provider: "openai",
+    model,
+    async complete(req, opts = {}) {
+      if (!openai) throw new LLMError("auth", "OPENAI_API_KEY is missing", { provider: "openai", model });
+
+      const started = Date.now();
+      const body = answerRequest(model, req.system, req.user, {
+        maxOutputTokens: req.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        format: req.format,
+        jsonSchema: req.jsonSchema,
+        images: req.images,
+      });
+
+      try {
+        if (!opts.onDelta) {
+          const resp = await openai.responses.create(body, { signal: opts.signal });
+          return result(
+            "openai",
+            model,
+            extractResponsesText(resp),
+            usageOf(resp.usage?.input_tokens, resp.usage?.output_tokens),
+            started
+          );
+        }
+
+        const events = await openai.responses.create({ ...body, stream: true }, { signal: opts.signal });
+        let text = "";
+        let final: OpenAI.Responses.Response | null = null;
+        for await (const ev of events) {
+          if ((ev.type === "response.output_text.delta" || ev.type === "response.refusal.delta") && ev.delta) {
+            text += ev.delta;
+            opts.onDelta(ev.delta);
+          } else if (ev.type === "response.completed") {
+            final = ev.response;
+          }
+        }
+
+        return result(
+          "openai",
+          model,
+          text.trim() ? text : extractResponsesText(final),
+          usageOf(final?.usage?.input_tokens, final?.usage?.output_tokens),
+          started
+        );
+      } catch (e) {
+        throw classifyLLMError(e, { provider: "openai", model });
+      }
+    },
+  };
+}
+
+export function openaiCompatibleProvider(params: { baseURL: string; apiKey?: string; model: string }): LLMClient {
+  const { model } = params;
+  // local servers ignore the key but the SDK requires one
+  const openai = new OpenAI({ baseURL: params.baseURL, apiKey: params.apiKey || "local", maxRetries: 0 });
+
+  return {
+    name: `local:${model}`,
+    provider: "local",
+    model,
+    async complete(req, opts = {}) {
+      const started = Date.now();
+      const body = {
+        model,
+        max_tokens: req.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        messages: [
+          { role: "system" as const, content: req.system },
+          {
+            role: "user" as const,
+            content: req.images?.length
+              ? [
+                  { type: "text" as const, text: req.user },
+                  ...req.images.map((img) => ({
+                    type: "image_url" as const,
+                    image_url: { url: img.url, detail: img.detail ?? ("auto" as const) },
+                  })),
+                ]
+              : req.user,
+          },
+        ],
+        ...(req.format === "json"
+          ? {
+              response_format: req.jsonSchema
+                ? {
+                    type: "json_schema" as const,
+                    json_schema: { name: req.jsonSchema.name, schema: req.jsonSchema.schema, strict: true },
+                  }
+                : { type: "json_object" as const },
+            }
+          : {}),
+      };
+
+      try {
+        if (!opts.onDelta) {
+          const resp = await openai.chat.completions.create(body, { signal: opts.signal });
+          return result(
+            "local",
+            model,
+            String(resp.choices?.[0]?.message?.content ?? ""),
+            usageOf(resp.usage?.prompt_tokens, resp.usage?.completion_tokens),
+            started
+          );
+        }
+
+        const chunks = await openai.chat.completions.create(
+          { ...body, stream: true, stream_options: { include_usage: true } },
+          { signal: opts.signal }
+        );
+        let text = "";
+        let usage = usageOf(null, null);
+        for await (const chunk of chunks) {
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            opts.onDelta(delta);
+          }
+          if (chunk.usage) usage = usageOf(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+        }
+
+        return result("local", model, text, usage, started);
+      } catch (e) {
+        throw classifyLLMError(e, { provider: "local", model });
+      }
+    },
+  };
+}
+
+function roughTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function lastUserLine(req: LLMRequest) {
+  const lines = req.user.split("\n").map((l) => l.trim()).filter(Boolean);
+  const asked = [...lines].reverse().find((l) => /^user:/i.test(l));
+  return (asked ?? lines.at(-1) ?? "").replace(/^user:\s*/i, "").slice(0, 160);
+}
+
+/**
+ * Deterministic provider for tests, evals and local development without a model.
+ * The model name picks the behaviour so failure modes can be put in a chain (LLM_CHAIN=mock:error,mock:echo).
+ */
+export function mockProvider(params: { model?: string; respond?: (req: LLMRequest) => string } = {}): LLMClient {
+  const model = params.model || "echo";
+
+  return {
+    name: `mock:${model}`,
+    provider: "mock",
+    model,
+    async complete(req, opts = {}) {
+      const started = Date.now();
+      const at = { provider: "mock", model };
+
+      if (model === "error") throw new LLMError("server", "mock provider error", { ...at, status: 500 });
+      if (model === "slow") {
+        // never answers; only the chain timeout (or the caller's signal) ends it
+        await new Promise((_, reject) => {
+          const abort = () => reject(new LLMError("aborted", "mock provider aborted", at));
+          if (opts.signal?.aborted) abort();
+          opts.signal?.addEventListener("abort", abort, { once: true });
+        });
+      }
+
+      const text =
+        model === "empty"
+          ? ""
+          : params.respond
+            ? params.respond(req)
+            : req.format === "json"
+              ? "{}"
+              : `Mock answer for: ${lastUserLine(req)}`;
+
+      if (text) opts.onDelta?.(text);
+      return result("mock", model, text, usageOf(roughTokens(req.system + req.user), roughTokens(text)), started);
+    },
+  };
+}
+
+export const LLM_PROVIDERS: Record<string, ProviderFactory> = {
+  openai: (model) => openaiProvider({ apiKey: process.env.OPENAI_API_KEY, model }),
+  local: (model) =>
+    openaiCompatibleProvider({
+      baseURL: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      model,
+    }),
+  mock: (model) => mockProvider({ model }),
+};
+
+/** "openai:gpt-5-mini" → { provider: "openai", model: "gpt-5-mini" }; the model may itself contain ":" (llama3.1:8b). */
+export function parseProviderSpec(spec: string) {
+  const trimmed = spec.trim();
+  const i = trimmed.indexOf(":");
+  const provider = (i < 0 ? trimmed : trimmed.slice(0, i)).trim().toLowerCase();
+  const model = i < 0 ? "" : trimmed.slice(i + 1).trim();
+  if (!LLM_PROVIDERS[provider]) {
+    throw new Error(`Unknown LLM provider "${provider}" (${Object.keys(LLM_PROVIDERS).join(" | ")})`);
+  }
+  if (!model && provider !== "mock") throw new Error(`LLM spec "${spec}" needs a model (${provider}:<model>)`);
+  return { provider, model };
+}
+
+export function createProvider(spec: string): LLMClient {
+  const { provider, model } = parseProviderSpec(spec);
+  return LLM_PROVIDERS[provider](model);
+}
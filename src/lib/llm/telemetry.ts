@@ -0,0 +1,48 @@
+// src/lib/llm/telemetry.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LLMCallRecord } from "./chain";
+import { costUsd, loadLLMPrices, priceFor } from "./usage";
+
+/**
+ * Collects a request's per-attempt records (pass `onCall` to the chain, the log to embedText) and
+ * writes them to public.llm_calls in one insert, priced from llm_prices.
+ * Best-effort: telemetry never fails a request.
+ */
+export function createLLMCallLog() {
+  const records: LLMCallRecord[] = [];
+
+  return {
+    records,
+    onCall: (record: LLMCallRecord) => {
+      records.push(record);
+    },
+    async flush(supabase: SupabaseClient, ctx: { userId?: string | null; conversationId?: string | null } = {}) {
+      const batch = records.splice(0, records.length);
+      if (!batch.length) return;
+
+      const prices = await loadLLMPrices(supabase);
+      const { error } = await supabase.from("llm_calls").insert(
+        batch.map((r) => ({
+          purpose: r.purpose,
+          provider: r.provider,
+          model: r.model,
+          ok: r.ok,
+          error_kind: r.errorKind,
+          error_message: r.errorMessage,
+          latency_ms: Math.round(r.latencyMs),
+          input_tokens: r.inputTokens,
+          output_tokens: r.outputTokens,
+          cost_usd: costUsd(priceFor(prices, r.provider, r.model), r.inputTokens, r.outputTokens),
+          attempt: r.attempt,
+          fallback_used: r.fallbackUsed,
+          streamed: r.streamed,
+          user_id: ctx.userId ?? null,
+          conversation_id: ctx.conversationId ?? null,
+        }))
+      );
+      if (error) console.error("LLM_CALLS_INSERT_ERROR:", error);
+    },
+  };
+}
+
+export type LLMCallLog = ReturnType<typeof createLLMCallLog>;
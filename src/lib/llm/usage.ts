@@ -0,0 +1,148 @@
+// src/lib/llm/usage.ts
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Token → cost accounting and per-role daily quotas.
+ *
+ * - llm_prices: USD per million tokens by provider + model (admin-editable; DEFAULT_LLM_PRICES until edited).
+ *   Calls are priced when they are written to llm_calls, so later price edits don't rewrite history.
+ * - llm_quotas: optional daily token / cost caps per profile role, enforced by /api/chat.
+ */
+
+export type LLMPriceRow = {
+  provider: string;
+  model: string;
+  input_per_mtok: number;
+  output_per_mtok: number;
+};
+
+export type LLMQuotaRow = {
+  role: string;
+  daily_tokens: number | null;
+  daily_cost_usd: number | null;
+  active: boolean;
+};
+
+export const LLM_PRICE_COLUMNS = "provider,model,input_per_mtok,output_per_mtok";
+export const LLM_QUOTA_COLUMNS = "role,daily_tokens,daily_cost_usd,active";
+
+const CACHE_TTL_MS = 60_000;
+
+export const DEFAULT_LLM_PRICES: LLMPriceRow[] = [
+  { provider: "openai", model: "gpt-5-mini", input_per_mtok: 0.25, output_per_mtok: 2 },
+  { provider: "openai", model: "gpt-5", input_per_mtok: 1.25, output_per_mtok: 10 },
+  { provider: "openai", model: "gpt-4.1-mini", input_per_mtok: 0.4, output_per_mtok: 1.6 },
+  { provider: "openai", model: "text-embedding-3-small", input_per_mtok: 0.02, output_per_mtok: 0 },
+  { provider: "openai", model: "text-embedding-3-large", input_per_mtok: 0.13, output_per_mtok: 0 },
+  // self-hosted and test providers cost nothing per token
+  { provider: "local", model: "*", input_per_mtok: 0, output_per_mtok: 0 },
+  { provider: "mock", model: "*", input_per_mtok: 0, output_per_mtok: 0 },
+];
+
+/* ---------------------------------------------
+   Prices
+--------------------------------------------- */
+
+let prices: { rows: LLMPriceRow[]; loadedAt: number } = { rows: DEFAULT_LLM_PRICES, loadedAt: 0 };
+
+/** Read every price row; falls back to the defaults when the table is empty or the read fails. */
+export async function fetchLLMPrices(supabase: SupabaseClient): Promise<LLMPriceRow[]> {
+  const { data, error } = await supabase.from("llm_prices").select(LLM_PRICE_COLUMNS);
+
+  if (error) {
+    console.error("LLM_PRICES_LOAD_ERROR:", error);
+    return DEFAULT_LLM_PRICES;
+  }
+
+  const rows = ((data || []) as LLMPriceRow[]).map((r) => ({
+    ...r,
+    input_per_mtok: Number(r.input_per_mtok) || 0,
+    output_per_mtok: Number(r.output_per_mtok) || 0,
+  }));
+  return rows.length ? rows : DEFAULT_LLM_PRICES;
+}
+
+/** Refresh the price table at most once per CACHE_TTL_MS (or immediately with force). */
+export async function loadLLMPrices(supabase: SupabaseClient, opts: { force?: boolean } = {}) {
+  if (!opts.force && prices.loadedAt && Date.now() - prices.loadedAt < CACHE_TTL_MS) return prices.rows;
+
+  prices = { rows: await fetchLLMPrices(supabase), loadedAt: Date.now() };
+  return prices.rows;
+}
+
+/**
+ * Exact model match first, then a dated snapshot of a listed model (gpt-5-mini-2025-08-07 → gpt-5-mini),
+ * then the provider's "*" row. Null when the model is unpriced.
+ */
+export function priceFor(rows: LLMPriceRow[], provider: string, model: string): LLMPriceRow | null {
+  const own = rows.filter((r) => r.provider === provider);
+  const exact = own.find((r) => r.model === model);
+  if (exact) return exact;
+
+  const snapshot = own
+    .filter((r) => r.model !== "*" && model.startsWith(`${r.model}-`) && /^\d/.test(model.slice(r.model.length + 1)))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+  return snapshot ?? own.find((r) => r.model === "*") ?? null;
+}
+
+export function costUsd(price: LLMPriceRow | null, inputTokens: number | null, outputTokens: number | null) {
+  if (!price) return null;
+  const cost = ((inputTokens ?? 0) * price.input_per_mtok + (outputTokens ?? 0) * price.output_per_mtok) / 1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+/* ---------------------------------------------
+   Quotas
+--------------------------------------------- */
+
+export function startOfUtcDay(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export type QuotaCheck = {
+  allowed: boolean;
+  role: string | null;
+  quota: LLMQuotaRow | null;
+  usedTokens: number;
+  usedCostUsd: number;
+};
+
+/**
+ * Compare the user's usage since 00:00 UTC with their role's quota. No quota row (or an inactive one)
+ * means unlimited. Fails open: a broken lookup never blocks the chat.
+ */
+export async function checkDailyQuota(supabase: SupabaseClient, userId: string): Promise<QuotaCheck> {
+  const open: QuotaCheck = { allowed: true, role: null, quota: null, usedTokens: 0, usedCostUsd: 0 };
+
+  try {
+    const { data: profile } = await supabase.from("profiles").select("role").eq("id", userId).maybeSingle();
+    const role = String(profile?.role || "");
+    if (!role) return open;
+
+    const { data: quota, error: quotaErr } = await supabase
+      .from("llm_quotas")
+      .select(LLM_QUOTA_COLUMNS)
+      .eq("role", role)
+      .maybeSingle();
+    if (quotaErr) throw quotaErr;
+    if (!quota?.active || (quota.daily_tokens == null && quota.daily_cost_usd == null)) return { ...open, role };
+
+    const { data: usage, error: usageErr } = await supabase.rpc("llm_user_usage", {
+      p_user_id: userId,
+      p_since: startOfUtcDay().toISOString(),
+    });
+    if (usageErr) throw usageErr;
+
+    const row = Array.isArray(usage) ? usage[0] : usage;
+    const usedTokens = Number(row?.tokens) || 0;
+    const usedCostUsd = Number(row?.cost_usd) || 0;
+    const overTokens = quota.daily_tokens != null && usedTokens >= Number(quota.daily_tokens);
+    const overCost = quota.daily_cost_usd != null && usedCostUsd >= Number(quota.daily_cost_usd);
+
+    return { allowed: !overTokens && !overCost, role, quota: quota as LLMQuotaRow, usedTokens, usedCostUsd };
+  } catch (e) {
+    console.error("LLM_QUOTA_CHECK_ERROR:", e);
+    return open;
+  }
+}
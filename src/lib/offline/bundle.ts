@@ -0,0 +1,139 @@
+// src/lib/offline/bundle.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchSolutionRows } from "@/lib/solutions/catalog";
+import type { OfflineBundle, OfflineConversation, OfflineDoc } from "@/lib/offline/types";
+
+/**
+ * What a rep carries onto a roof: the docs they open most (favorites) and last (recent) from
+ * doc_events, the active solution catalog and their latest conversations.
+ */
+
+const EVENT_WINDOW_DAYS = 90;
+const EVENT_SCAN_LIMIT = 500;
+const MAX_FAVORITE_DOCS = 8;
+const MAX_RECENT_DOCS = 8;
+/** one open is a visit; a favorite is something they keep coming back to */
+const FAVORITE_MIN_OPENS = 2;
+const MAX_CONVERSATIONS = 10;
+const MAX_MESSAGES_PER_CONVERSATION = 60;
+
+type DocEventRow = {
+  doc_path: string;
+  doc_title: string | null;
+  doc_type: string | null;
+  created_at: string;
+};
+
+function titleOf(row: DocEventRow) {
+  return (row.doc_title || "").trim() || row.doc_path.split("/").pop() || row.doc_path;
+}
+
+/** Events arrive newest first; favorites by open count, then recent fills in what's left. */
+export function pickOfflineDocs(events: DocEventRow[]): OfflineDoc[] {
+  const byPath = new Map<string, OfflineDoc>();
+
+  for (const e of events) {
+    const path = String(e.doc_path || "").trim();
+    if (!path) continue;
+    const seen = byPath.get(path);
+    if (seen) {
+      seen.opens += 1;
+      continue;
+    }
+    byPath.set(path, {
+      path,
+      title: titleOf(e),
+      docType: e.doc_type || null,
+      reason: "recent",
+      opens: 1,
+      lastOpenedAt: e.created_at,
+    });
+  }
+
+  const all = [...byPath.values()];
+  const favorites = all
+    .filter((d) => d.opens >= FAVORITE_MIN_OPENS)
+    .sort((a, b) => b.opens - a.opens || b.lastOpenedAt.localeCompare(a.lastOpenedAt))
+    .slice(0, MAX_FAVORITE_DOCS)
+    .map((d) => ({ ...d, reason: "favorite" as const }));
+
+  const taken = new Set(favorites.map((d) => d.path));
+  const recent = all.filter((d) => !taken.has(d.path)).slice(0, MAX_RECENT_DOCS);
+
+  return [...favorites, ...recent];
+}
+
+async function loadOfflineDocs(supabase: SupabaseClient, userId: string) {
+  const since = new Date(Date.now() - EVENT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("doc_events")
+    .select("doc_path,doc_title,doc_type,created_at")
+    .eq("user_id", userId)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(EVENT_SCAN_LIMIT);
+
+  if (error) {
+    console.error("OFFLINE_DOCS_LOAD_ERROR:", error);
+    return [];
+  }
+  return pickOfflineDocs((data || []) as DocEventRow[]);
+}
+
+async function loadOfflineConversations(supabase: SupabaseClient, userId: string): Promise<OfflineConversation[]> {
+  const { data: convs, error } = await supabase
+    .from("conversations")
+    .select("id,title,updated_at")
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("updated_at", { ascending: false })
+    .limit(MAX_CONVERSATIONS);
+
+  if (error) {
+    console.error("OFFLINE_CONVERSATIONS_LOAD_ERROR:", error);
+    return [];
+  }
+
+  return Promise.all(
+    ((convs || []) as Array<{ id: string; title: string | null; updated_at: string }>).map(async (c) => {
+      const { data: rows, error: msgErr } = await supabase
+        .from("messages")
+        .select("role,content,created_at")
+        .eq("conversation_id", c.id)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(MAX_MESSAGES_PER_CONVERSATION);
+
+      if (msgErr) console.error("OFFLINE_MESSAGES_LOAD_ERROR:", msgErr);
+
+      const messages = ((rows || []) as OfflineConversation["messages"])
+        .filter((m) => (m.role === "user" || m.role === "assistant") && String(m.content || "").trim())
+        .reverse();
+
+      return { id: c.id, title: (c.title || "").trim() || "New chat", updated_at: c.updated_at, messages };
+    })
+  );
+}
+
+export async function buildOfflineBundle(supabase: SupabaseClient, userId: string): Promise<OfflineBundle> {
+  const [docs, rows, conversations] = await Promise.all([
+    loadOfflineDocs(supabase, userId),
+    fetchSolutionRows(supabase),
+    loadOfflineConversations(supabase, userId),
+  ]);
+
+  const catalog = rows.map((r) => ({
+    key: r.key,
+    label: r.label,
+    family: r.family,
+    securing: r.securing,
+    storage_folder: r.storage_folder,
+    summary: r.summary,
+    aliases: r.aliases,
+    anchor_type: r.anchor_type,
+    components: r.components,
+    product_names: r.product_names,
+  }));
+
+  return { userId, docs, catalog, conversations, syncedAt: new Date().toISOString() };
+}
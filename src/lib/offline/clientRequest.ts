@@ -0,0 +1,47 @@
+// src/lib/offline/clientRequest.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { CLIENT_REQUEST_ID_HEADER } from "@/lib/offline/types";
+
+/**
+ * Idempotent replay for the offline outbox. A write queued on a roof may have reached the server
+ * before the signal dropped, so the outbox replays it with the same X-Client-Request-Id; routes store
+ * it (client_request_id, unique per user) and answer 409 { code: "duplicate", id } the second time.
+ */
+
+const CLIENT_REQUEST_ID_RE = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function clientRequestId(req: Request) {
+  const raw = (req.headers.get(CLIENT_REQUEST_ID_HEADER) || "").trim();
+  return CLIENT_REQUEST_ID_RE.test(raw) ? raw : null;
+}
+
+export function duplicateRequestResponse(id: string | null) {
+  return NextResponse.json({ error: "Already submitted.", code: "duplicate", id }, { status: 409 });
+}
+
+/** Id of the row this request already wrote, if any. */
+export async function findClientRequest(
+  supabase: SupabaseClient,
+  table: string,
+  owner: { column: string; id: string },
+  requestId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select("id")
+    .eq(owner.column, owner.id)
+    .eq("client_request_id", requestId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("CLIENT_REQUEST_LOOKUP_ERROR:", error);
+    return null;
+  }
+  return (data?.id as string) ?? null;
+}
+
+/** Two replays racing past the lookup: the unique index rejects the second. */
+export function isUniqueViolation(error: { code?: string } | null) {
+  return error?.code === "23505";
+}
@@ -0,0 +1,132 @@
+// src/lib/offline/db.ts
+import type { OfflineCatalogEntry, OfflineConversation, OfflineDoc, OutboxItem } from "@/lib/offline/types";
+
+/**
+ * IndexedDB for offline use (browser only). Stores:
+ * - docs / catalog / conversations: the last /api/offline/bundle, replaced wholesale on each sync
+ * - outbox: queued writes, replayed by lib/offline/outbox
+ * - meta: sync bookkeeping (owner, syncedAt)
+ */
+
+const DB_NAME = "anchor-copilot-offline";
+const DB_VERSION = 1;
+
+type StoreMap = {
+  docs: OfflineDoc;
+  catalog: OfflineCatalogEntry;
+  conversations: OfflineConversation;
+  outbox: OutboxItem;
+  meta: { key: string; value: unknown };
+};
+
+export type OfflineStore = keyof StoreMap;
+
+const KEY_PATHS: Record<OfflineStore, string> = {
+  docs: "path",
+  catalog: "key",
+  conversations: "id",
+  outbox: "id",
+  meta: "key",
+};
+
+/** Fired on window after a sync, an enqueue or a replay; offline-aware UI re-reads the stores. */
+export const OFFLINE_CHANGED_EVENT = "copilot:offline-changed";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function offlineDbAvailable() {
+  return typeof indexedDB !== "undefined";
+}
+
+export function notifyOfflineChange(detail?: unknown) {
+  if (typeof window !== "undefined") window.dispatchEvent(new CustomEvent(OFFLINE_CHANGED_EVENT, { detail }));
+}
+
+function openDb() {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const [name, keyPath] of Object.entries(KEY_PATHS)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function result<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function idbAll<S extends OfflineStore>(store: S): Promise<StoreMap[S][]> {
+  const db = await openDb();
+  return result(db.transaction(store).objectStore(store).getAll() as IDBRequest<StoreMap[S][]>);
+}
+
+export async function idbGet<S extends OfflineStore>(store: S, key: string): Promise<StoreMap[S] | null> {
+  const db = await openDb();
+  const row = await result(db.transaction(store).objectStore(store).get(key) as IDBRequest<StoreMap[S] | undefined>);
+  return row ?? null;
+}
+
+export async function idbPut<S extends OfflineStore>(store: S, value: StoreMap[S]) {
+  const db = await openDb();
+  const tx = db.transaction(store, "readwrite");
+  tx.objectStore(store).put(value);
+  await done(tx);
+}
+
+export async function idbDelete(store: OfflineStore, key: string) {
+  const db = await openDb();
+  const tx = db.transaction(store, "readwrite");
+  tx.objectStore(store).delete(key);
+  await done(tx);
+}
+
+/** Swap a store's contents in one transaction, so readers never see a half-written sync. */
+export async function idbReplaceAll<S extends OfflineStore>(store: S, values: StoreMap[S][]) {
+  const db = await openDb();
+  const tx = db.transaction(store, "readwrite");
+  const os = tx.objectStore(store);
+  os.clear();
+  for (const v of values) os.put(v);
+  await done(tx);
+}
+
+export async function getMeta<T>(key: string): Promise<T | null> {
+  const row = await idbGet("meta", key);
+  return (row?.value as T) ?? null;
+}
+
+export function setMeta(key: string, value: unknown) {
+  return idbPut("meta", { key, value });
+}
+
+/** Signing out on a shared device shouldn't leave the last rep's chats behind. */
+export async function clearOfflineData() {
+  const db = await openDb();
+  const stores: OfflineStore[] = ["docs", "catalog", "conversations", "outbox", "meta"];
+  const tx = db.transaction(stores, "readwrite");
+  for (const s of stores) tx.objectStore(s).clear();
+  await done(tx);
+}
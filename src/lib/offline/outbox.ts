@@ -0,0 +1,314 @@
+// src/lib/offline/outbox.ts
+import { idbAll, idbDelete, idbGet, idbPut, notifyOfflineChange } from "@/lib/offline/db";
+import {
+  CLIENT_REQUEST_ID_HEADER,
+  type OfflineConversation,
+  type OfflineMessage,
+  type OutboxBody,
+  type OutboxItem,
+  type OutboxKind,
+  type ReplaySummary,
+} from "@/lib/offline/types";
+import { errorMessage } from "@/lib/errors";
+
+/**
+ * Outbox for writes made without signal (browser only): chat questions, feedback/corrections and leads.
+ * Each item keeps its id as X-Client-Request-Id across attempts, so a write that landed just before the
+ * connection dropped comes back 409 "duplicate" instead of being stored twice.
+ *
+ * Replay (on reconnect, oldest first, one tab at a time):
+ * - 2xx → done; chat answers are appended to the cached conversation
+ * - 409 duplicate → conflict (server already has it; nothing to do)
+ * - chat: the thread is re-read from the server first, so turns made on another device come before the
+ *   queued question; a conversation deleted meanwhile gets a new one (the chat route opens it)
+ * - 401 / 429 / 5xx / network → stays queued; replay stops and tries again on the next reconnect
+ * - other 4xx → failed (kept with the error until the rep retries or discards it)
+ */
+
+const OUTBOX_LOCK = "anchor-copilot-outbox";
+/** finished items stay visible for a day so the rep can see what went out */
+const FINISHED_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** chat items carry { text } as a json body; the thread is rebuilt from the server at replay */
+type EnqueueInput = {
+  kind: OutboxKind;
+  url: string;
+  body: OutboxBody;
+  label: string;
+  conversationId?: string | null;
+};
+
+export type SubmitResult = { queued: true; item: OutboxItem } | { queued: false; res: Response };
+
+export function newRequestId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export function isOffline() {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+/** fetch rejects with a TypeError only when the request never got an answer */
+export function isNetworkError(e: unknown) {
+  return e instanceof TypeError;
+}
+
+export function formBody(fd: FormData): OutboxBody {
+  const entries: Array<[string, string | Blob, string?]> = [];
+  fd.forEach((value, name) => {
+    entries.push(typeof value === "string" ? [name, value] : [name, value, (value as File).name]);
+  });
+  return { type: "form", entries };
+}
+
+function requestInit(body: OutboxBody, requestId: string): RequestInit {
+  if (body.type === "json") {
+    return {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [CLIENT_REQUEST_ID_HEADER]: requestId },
+      body: JSON.stringify(body.value),
+    };
+  }
+
+  const fd = new FormData();
+  for (const [name, value, filename] of body.entries) {
+    if (typeof value === "string") fd.append(name, value);
+    else fd.append(name, value, filename);
+  }
+  return { method: "POST", headers: { [CLIENT_REQUEST_ID_HEADER]: requestId }, body: fd };
+}
+
+export async function enqueueOutbox(input: EnqueueInput, id = newRequestId()) {
+  const item: OutboxItem = {
+    id,
+    kind: input.kind,
+    url: input.url,
+    body: input.body,
+    label: input.label.slice(0, 120),
+    conversationId: input.conversationId ?? null,
+    status: "queued",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await idbPut("outbox", item);
+  notifyOfflineChange({ outbox: "queued" });
+  return item;
+}
+
+/**
+ * Send now, or queue when there's no signal. The request id is fixed before the first attempt,
+ * so a request that reached the server but lost its response replays as a duplicate.
+ */
+export async function submitOrQueue(input: EnqueueInput): Promise<SubmitResult> {
+  const id = newRequestId();
+  if (isOffline()) return { queued: true, item: await enqueueOutbox(input, id) };
+
+  try {
+    return { queued: false, res: await fetch(input.url, requestInit(input.body, id)) };
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    return { queued: true, item: await enqueueOutbox(input, id) };
+  }
+}
+
+export async function listOutbox() {
+  const items = await idbAll("outbox");
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function pendingOutboxCount() {
+  return (await idbAll("outbox")).filter((i) => i.status === "queued" || i.status === "sending").length;
+}
+
+export async function discardOutboxItem(id: string) {
+  await idbDelete("outbox", id);
+  notifyOfflineChange({ outbox: "discarded" });
+}
+
+export async function retryOutboxItem(id: string) {
+  const item = await idbGet("outbox", id);
+  if (!item) return;
+  await idbPut("outbox", { ...item, status: "queued", error: null });
+  notifyOfflineChange({ outbox: "queued" });
+}
+
+async function readJson(res: Response) {
+  const text = await res.text().catch(() => "");
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function serverThread(conversationId: string): Promise<OfflineMessage[] | null> {
+  const res = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/messages`, { cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data = await readJson(res);
+  return Array.isArray(data?.messages) ? (data.messages as OfflineMessage[]) : [];
+}
+
+/** Keep the cached copy of the conversation in step with what the replay just wrote. */
+async function cacheChatTurn(conversationId: string, question: string, answer: string, at: string) {
+  const cached = await idbGet("conversations", conversationId);
+  const convo: OfflineConversation = cached ?? { id: conversationId, title: question.slice(0, 48), updated_at: at, messages: [] };
+  await idbPut("conversations", {
+    ...convo,
+    updated_at: at,
+    messages: [
+      ...convo.messages,
+      { role: "user", content: question, created_at: at },
+      { role: "assistant", content: answer, created_at: at },
+    ],
+  });
+}
+
+type Outcome =
+  | { kind: "done"; result?: string | null; note?: string | null; conversationId?: string | null }
+  | { kind: "conflict"; note: string }
+  | { kind: "failed"; error: string }
+  | { kind: "retry"; error: string };
+
+function outcomeFor(res: Response, data: { code?: string; error?: string } | null): Outcome | null {
+  if (res.status === 409 && data?.code === "duplicate") return { kind: "conflict", note: "Already on the server." };
+  if (res.status === 401) return { kind: "retry", error: "Sign in to send queued items." };
+  if (res.status === 429 || res.status >= 500) return { kind: "retry", error: data?.error || `HTTP ${res.status}` };
+  if (!res.ok) return { kind: "failed", error: data?.error || `HTTP ${res.status}` };
+  return null;
+}
+
+async function replayChat(item: OutboxItem): Promise<Outcome> {
+  const question = String((item.body as { value?: { text?: string } }).value?.text || "").trim();
+  if (!question) return { kind: "failed", error: "Empty question." };
+
+  const conversationId = item.conversationId ?? null;
+  let note: string | null = null;
+  let thread: OfflineMessage[] = [];
+
+  if (conversationId) {
+    thread = (await serverThread(conversationId)) ?? [];
+    const newer = thread.filter((m) => m.created_at > item.createdAt).length;
+    if (newer) note = `Asked after ${newer} newer message${newer === 1 ? "" : "s"} from another device.`;
+  }
+
+  const res = await fetch(
+    item.url,
+    requestInit(
+      {
+        type: "json",
+        value: {
+          messages: [...thread.map((m) => ({ role: m.role, content: m.content })), { role: "user", content: question }],
+          conversationId,
+          stream: false,
+        },
+      },
+      item.id
+    )
+  );
+  const data = await readJson(res);
+  const failed = outcomeFor(res, data);
+  if (failed) return failed;
+
+  const answer = String(data?.answer || "").trim();
+  const landedIn = String(data?.conversationId || conversationId || "") || null;
+  // the chat route opens a new conversation when the original is gone (deleted on another device)
+  if (conversationId && landedIn && landedIn !== conversationId) note = "Asked in a new chat: the original was deleted.";
+  if (landedIn && answer) await cacheChatTurn(landedIn, question, answer, new Date().toISOString());
+
+  return { kind: "done", result: answer || null, note, conversationId: landedIn };
+}
+
+async function replayWrite(item: OutboxItem): Promise<Outcome> {
+  const res = await fetch(item.url, requestInit(item.body, item.id));
+  const data = await readJson(res);
+  return outcomeFor(res, data) ?? { kind: "done", result: data?.id ?? null };
+}
+
+async function replayAll(): Promise<ReplaySummary> {
+  const summary: ReplaySummary = { sent: 0, conflicts: 0, failed: 0, remaining: 0, conversationIds: [] };
+  const now = Date.now();
+
+  for (const item of await listOutbox()) {
+    const finished = item.status === "done" || item.status === "conflict";
+    if (finished && now - Date.parse(item.lastAttemptAt || item.createdAt) > FINISHED_TTL_MS) {
+      await idbDelete("outbox", item.id);
+    }
+  }
+
+  const queue = (await listOutbox()).filter((i) => i.status === "queued" || i.status === "sending");
+
+  for (let i = 0; i < queue.length; i++) {
+    if (isOffline()) {
+      summary.remaining = queue.length - i;
+      break;
+    }
+
+    const item = queue[i];
+    const attempt = { ...item, status: "sending" as const, attempts: item.attempts + 1, lastAttemptAt: new Date().toISOString() };
+    await idbPut("outbox", attempt);
+
+    let outcome: Outcome;
+    try {
+      outcome = item.kind === "chat" ? await replayChat(item) : await replayWrite(item);
+    } catch (e) {
+      outcome = { kind: "retry", error: isNetworkError(e) ? "No connection." : errorMessage(e, "Replay failed.") };
+    }
+
+    if (outcome.kind === "retry") {
+      await idbPut("outbox", { ...attempt, status: "queued", error: outcome.error });
+      summary.remaining = queue.length - i;
+      break;
+    }
+
+    if (outcome.kind === "done") {
+      summary.sent += 1;
+      if (outcome.conversationId) summary.conversationIds.push(outcome.conversationId);
+      await idbPut("outbox", {
+        ...attempt,
+        status: "done",
+        error: null,
+        note: outcome.note ?? null,
+        result: outcome.result ?? null,
+        conversationId: outcome.conversationId ?? item.conversationId ?? null,
+      });
+    } else if (outcome.kind === "conflict") {
+      summary.conflicts += 1;
+      // a chat that landed before the signal dropped has its answer on the server now
+      if (item.kind === "chat" && item.conversationId) summary.conversationIds.push(item.conversationId);
+      await idbPut("outbox", { ...attempt, status: "conflict", error: null, note: outcome.note });
+    } else {
+      summary.failed += 1;
+      await idbPut("outbox", { ...attempt, status: "failed", error: outcome.error });
+    }
+  }
+
+  summary.conversationIds = [...new Set(summary.conversationIds)];
+  return summary;
+}
+
+let replaying: Promise<ReplaySummary> | null = null;
+
+async function replayLocked(): Promise<ReplaySummary> {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (!locks) return replayAll();
+
+  const empty: ReplaySummary = { sent: 0, conflicts: 0, failed: 0, remaining: 0, conversationIds: [] };
+  return locks.request(OUTBOX_LOCK, { ifAvailable: true }, async (lock) => (lock ? replayAll() : empty));
+}
+
+/** Replay queued items; concurrent calls (and other tabs, via Web Locks) share one run. */
+export function replayOutbox(): Promise<ReplaySummary> {
+  if (replaying) return replaying;
+
+  const run = replayLocked().then((summary) => {
+    if (summary.sent || summary.conflicts || summary.failed) notifyOfflineChange({ replay: summary });
+    return summary;
+  });
+
+  replaying = run.finally(() => {
+    replaying = null;
+  });
+  return run;
+}
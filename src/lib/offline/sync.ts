@@ -0,0 +1,114 @@
+// src/lib/offline/sync.ts
+import { clearOfflineData, getMeta, idbReplaceAll, notifyOfflineChange, setMeta } from "@/lib/offline/db";
+import { OFFLINE_DOCS_CACHE, type OfflineBundle, type OfflineDoc } from "@/lib/offline/types";
+
+/**
+ * Pull /api/offline/bundle into IndexedDB and the doc bytes into Cache Storage (browser only).
+ * The service worker answers /api/doc-open from OFFLINE_DOCS_CACHE when the network fails, so the
+ * same doc links keep working on a roof.
+ */
+
+/** a rep's phone, not a file server: skip anything bigger */
+const MAX_OFFLINE_DOC_BYTES = 25 * 1024 * 1024;
+/** docs rarely change; re-download a cached copy after a week */
+const DOC_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHED_AT_HEADER = "X-Offline-Cached-At";
+
+/** Cache key the service worker looks up (it drops token/download params the same way). */
+export function offlineDocUrl(path: string) {
+  return `/api/doc-open?path=${encodeURIComponent(path)}`;
+}
+
+async function precacheDocs(docs: OfflineDoc[]) {
+  if (typeof caches === "undefined") return { cached: 0, skipped: docs.length };
+
+  const cache = await caches.open(OFFLINE_DOCS_CACHE);
+  const keep = new Set(docs.map((d) => offlineDocUrl(d.path)));
+
+  // docs that fell out of favorites/recent free their space
+  for (const req of await cache.keys()) {
+    const url = new URL(req.url);
+    if (!keep.has(`${url.pathname}${url.search}`)) await cache.delete(req);
+  }
+
+  let cached = 0;
+  let skipped = 0;
+
+  for (const doc of docs) {
+    const key = offlineDocUrl(doc.path);
+    const hit = await cache.match(key);
+    const cachedAt = Date.parse(hit?.headers.get(CACHED_AT_HEADER) || "");
+    if (hit && Number.isFinite(cachedAt) && Date.now() - cachedAt < DOC_REFRESH_MS) {
+      cached += 1;
+      continue;
+    }
+
+    try {
+      const res = await fetch(`${key}&download=1`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const blob = await res.blob();
+      if (blob.size > MAX_OFFLINE_DOC_BYTES) {
+        skipped += 1;
+        continue;
+      }
+
+      // stored inline (no attachment disposition) so an offline tap opens it in the viewer
+      await cache.put(
+        key,
+        new Response(blob, {
+          headers: {
+            "Content-Type": res.headers.get("Content-Type") || "application/octet-stream",
+            [CACHED_AT_HEADER]: new Date().toISOString(),
+          },
+        })
+      );
+      cached += 1;
+    } catch (e) {
+      console.error("OFFLINE_DOC_CACHE_ERROR:", doc.path, e);
+      skipped += 1;
+    }
+  }
+
+  return { cached, skipped };
+}
+
+export async function cachedDocPaths() {
+  if (typeof caches === "undefined") return new Set<string>();
+  const cache = await caches.open(OFFLINE_DOCS_CACHE);
+  const keys = await cache.keys();
+  return new Set(keys.map((req) => new URL(req.url).searchParams.get("path") || "").filter(Boolean));
+}
+
+export async function lastOfflineSync() {
+  return getMeta<string>("syncedAt");
+}
+
+/**
+ * Refresh the offline copy. Returns null when signed out (nothing cached for nobody).
+ * A different rep signing in on the same device starts from an empty store, outbox included.
+ */
+export async function syncOfflineBundle(): Promise<(OfflineBundle & { docsCached: number }) | null> {
+  const res = await fetch("/api/offline/bundle", { cache: "no-store" });
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`Offline sync failed (HTTP ${res.status})`);
+
+  const bundle = (await res.json()) as OfflineBundle;
+
+  const owner = await getMeta<string>("owner");
+  if (owner && owner !== bundle.userId) {
+    await clearOfflineData();
+    if (typeof caches !== "undefined") await caches.delete(OFFLINE_DOCS_CACHE);
+  }
+
+  await idbReplaceAll("docs", bundle.docs);
+  await idbReplaceAll("catalog", bundle.catalog);
+  await idbReplaceAll("conversations", bundle.conversations);
+  await setMeta("owner", bundle.userId);
+  await setMeta("syncedAt", bundle.syncedAt);
+  notifyOfflineChange({ sync: "data" });
+
+  const { cached } = await precacheDocs(bundle.docs);
+  notifyOfflineChange({ sync: "docs" });
+
+  return { ...bundle, docsCached: cached };
+}
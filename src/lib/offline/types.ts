@@ -0,0 +1,102 @@
+// src/lib/offline/types.ts
+import type { SolutionRow } from "@/lib/solutions/catalog";
+
+/**
+ * Shapes shared by /api/offline/bundle, the IndexedDB store and the outbox (no server imports:
+ * this file is bundled into the client).
+ */
+
+/** Replayed writes carry this header; routes answer 409 { code: "duplicate" } when they already have it. */
+export const CLIENT_REQUEST_ID_HEADER = "x-client-request-id";
+
+/** Cache Storage bucket the service worker reads /api/doc-open from when there's no signal. */
+export const OFFLINE_DOCS_CACHE = "offline-docs";
+
+export type OfflineDocReason = "favorite" | "recent";
+
+export type OfflineDoc = {
+  path: string;
+  title: string;
+  docType: string | null;
+  reason: OfflineDocReason;
+  opens: number;
+  lastOpenedAt: string;
+};
+
+export type OfflineCatalogEntry = Pick<
+  SolutionRow,
+  | "key"
+  | "label"
+  | "family"
+  | "securing"
+  | "storage_folder"
+  | "summary"
+  | "aliases"
+  | "anchor_type"
+  | "components"
+  | "product_names"
+>;
+
+export type OfflineMessage = {
+  role: "user" | "assistant";
+  content: string;
+  created_at: string;
+};
+
+export type OfflineConversation = {
+  id: string;
+  title: string;
+  updated_at: string;
+  messages: OfflineMessage[];
+};
+
+export type OfflineBundle = {
+  userId: string;
+  docs: OfflineDoc[];
+  catalog: OfflineCatalogEntry[];
+  conversations: OfflineConversation[];
+  syncedAt: string;
+};
+
+export type OutboxKind = "chat" | "feedback" | "lead";
+
+/** FormData can't go into IndexedDB; its entries (strings + Files) can. */
+export type OutboxBody =
+  | { type: "json"; value: unknown }
+  | { type: "form"; entries: Array<[string, string | Blob, string?]> };
+
+/**
+ * queued → (replay) → done, or
+ *   conflict: the server already had it (409) or the thread moved on; kept so the rep sees what happened
+ *   failed:   rejected (4xx); kept until the rep retries or discards it
+ */
+export type OutboxStatus = "queued" | "sending" | "done" | "conflict" | "failed";
+
+export type OutboxItem = {
+  id: string;
+  kind: OutboxKind;
+  url: string;
+  body: OutboxBody;
+  /** shown in the queue ("RTU on TPO?", "Lead: Acme Roofing") */
+  label: string;
+  /** chat only: the conversation it was asked in */
+  conversationId?: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string | null;
+  error?: string | null;
+  /** how a conflict was settled ("Asked in a new chat: the original was deleted") */
+  note?: string | null;
+  /** what the server answered (chat: the answer text, others: the new row id) */
+  result?: string | null;
+};
+
+export type ReplaySummary = {
+  sent: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+  /** conversations that got new turns (the open chat reloads when it's one of them) */
+  conversationIds: string[];
+};
@@ -0,0 +1,160 @@
+// src/lib/ratelimit/policy.ts
+import { NextResponse } from "next/server";
+import { createMemoryStore, type BucketRule, type RateLimitStore, type TakeResult } from "./tokenBucket";
+
+/**
+ * Which routes are limited and how hard. Every request takes one token from the caller's user bucket
+ * (when signed in) and one from their IP bucket; either running dry → 429.
+ * Applied by the root middleware; counters land in rate_limit_buckets (/admin/rate-limits).
+ */
+
+export type RateLimitPolicyName = "chat" | "photos" | "docs" | "leads" | "feedback" | "voice";
+
+export type RateLimitPolicy = {
+  name: RateLimitPolicyName;
+  label: string;
+  /** shown on the admin page */
+  routes: string;
+  user: BucketRule;
+  ip: BucketRule;
+};
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // every turn spends model tokens: ~10/min sustained, bursts of 20
+  chat: {
+    name: "chat",
+    label: "Chat",
+    routes: "POST /api/chat",
+    user: { capacity: 20, refillPerSec: 1 / 6 },
+    ip: { capacity: 40, refillPerSec: 1 / 3 },
+  },
+  // one upload per photo message, which then goes through /api/chat: its own bucket so a photo
+  // question costs one chat token, not two
+  photos: {
+    name: "photos",
+    label: "Chat photos",
+    routes: "POST /api/chat/photos",
+    user: { capacity: 20, refillPerSec: 1 / 6 },
+    ip: { capacity: 40, refillPerSec: 1 / 3 },
+  },
+  docs: {
+    name: "docs",
+    label: "Docs",
+    routes: "GET /api/docs, /api/doc-open",
+    user: { capacity: 120, refillPerSec: 2 },
+    ip: { capacity: 240, refillPerSec: 4 },
+  },
+  leads: {
+    name: "leads",
+    label: "Leads",
+    routes: "POST /api/leads, PATCH /api/leads/:id",
+    user: { capacity: 10, refillPerSec: 1 / 30 },
+    ip: { capacity: 30, refillPerSec: 1 / 10 },
+  },
+  feedback: {
+    name: "feedback",
+    label: "Feedback",
+    routes: "POST /api/feedback",
+    user: { capacity: 30, refillPerSec: 1 / 2 },
+    ip: { capacity: 60, refillPerSec: 1 },
+  },
+  // transcription + read-aloud: a dictated question and its answer per chat turn, a little slack on top
+  voice: {
+    name: "voice",
+    label: "Voice",
+    routes: "POST /api/voice/transcribe, /api/voice/speech",
+    user: { capacity: 40, refillPerSec: 1 / 3 },
+    ip: { capacity: 80, refillPerSec: 2 / 3 },
+  },
+};
+
+/** Policy for a request, or null when the route isn't limited (reads like GET /api/leads stay free). */
+export function policyFor(pathname: string, method: string): RateLimitPolicy | null {
+  const m = method.toUpperCase();
+  const p = pathname.replace(/\/+$/, "");
+
+  if (p === "/api/chat" && m === "POST") return RATE_LIMIT_POLICIES.chat;
+  if (p === "/api/chat/photos" && m === "POST") return RATE_LIMIT_POLICIES.photos;
+  if ((p === "/api/docs" || p === "/api/doc-open") && m === "GET") return RATE_LIMIT_POLICIES.docs;
+  if (p === "/api/leads" && m === "POST") return RATE_LIMIT_POLICIES.leads;
+  if (p.startsWith("/api/leads/") && m === "PATCH") return RATE_LIMIT_POLICIES.leads;
+  if (p === "/api/feedback" && m === "POST") return RATE_LIMIT_POLICIES.feedback;
+  if (p.startsWith("/api/voice/") && m === "POST") return RATE_LIMIT_POLICIES.voice;
+  return null;
+}
+
+/** First hop of x-forwarded-for (set by the platform proxy), then x-real-ip. */
+export function clientIp(headers: Headers) {
+  const forwarded = (headers.get("x-forwarded-for") || "").split(",")[0]?.trim();
+  return forwarded || headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+export type RateLimitDecision = TakeResult & {
+  policy: RateLimitPolicyName;
+  /** the bucket that refused (or the last one checked) */
+  scope: "user" | "ip";
+};
+
+// shared per process; also catches requests while the Postgres store is failing
+const memoryStore = createMemoryStore();
+
+export function memoryRateLimitStore() {
+  return memoryStore;
+}
+
+async function take(store: RateLimitStore, ...args: Parameters<RateLimitStore["take"]>) {
+  try {
+    return await store.take(...args);
+  } catch (e) {
+    console.error("RATE_LIMIT_STORE_ERROR:", e);
+    return memoryStore.take(...args);
+  }
+}
+
+/**
+ * Take one token from the user bucket (if signed in), then the IP bucket. Stops at the first refusal,
+ * so a blocked request doesn't also drain the other bucket.
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  policy: RateLimitPolicy,
+  who: { userId?: string | null; ip: string }
+): Promise<RateLimitDecision> {
+  let decision: RateLimitDecision | null = null;
+
+  if (who.userId) {
+    const r = await take(store, { policy: policy.name, scope: "user", subject: who.userId }, policy.user);
+    decision = { ...r, policy: policy.name, scope: "user" };
+    if (!r.allowed) return decision;
+  }
+
+  const r = await take(store, { policy: policy.name, scope: "ip", subject: who.ip }, policy.ip);
+  // report the tighter of the two buckets
+  if (!r.allowed || !decision || r.remaining < decision.remaining) {
+    decision = { ...r, policy: policy.name, scope: "ip" };
+  }
+  return decision;
+}
+
+export function rateLimitHeaders(d: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(d.limit),
+    "X-RateLimit-Remaining": String(d.remaining),
+  };
+  if (!d.allowed) headers["Retry-After"] = String(Math.max(1, Math.ceil(d.retryAfterMs / 1000)));
+  return headers;
+}
+
+export function rateLimitResponse(d: RateLimitDecision) {
+  const seconds = Math.max(1, Math.ceil(d.retryAfterMs / 1000));
+  return NextResponse.json(
+    {
+      // clients show `error` as-is, so it carries the readable message
+      error: `Too many requests. Try again in ${seconds} second${seconds === 1 ? "" : "s"}.`,
+      code: "rate_limited",
+      policy: d.policy,
+      retryAfterMs: d.retryAfterMs,
+    },
+    { status: 429, headers: rateLimitHeaders(d) }
+  );
+}
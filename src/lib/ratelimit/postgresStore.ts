@@ -0,0 +1,35 @@
+// src/lib/ratelimit/postgresStore.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { bucketKey, type BucketKey, type BucketRule, type RateLimitStore, type TakeResult } from "./tokenBucket";
+
+/**
+ * Buckets in public.rate_limit_buckets, shared by every instance. rate_limit_take() refills and takes
+ * under a row lock, so concurrent requests can't both spend the last token. Needs the service role.
+ */
+export function createPostgresStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    name: "postgres",
+    async take(key: BucketKey, rule: BucketRule, cost = 1): Promise<TakeResult> {
+      const { data, error } = await supabase.rpc("rate_limit_take", {
+        p_key: bucketKey(key),
+        p_policy: key.policy,
+        p_scope: key.scope,
+        p_subject: key.subject,
+        p_capacity: rule.capacity,
+        p_refill_per_sec: rule.refillPerSec,
+        p_cost: cost,
+      });
+      if (error) throw new Error(error.message);
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) throw new Error("rate_limit_take returned no row");
+
+      return {
+        allowed: !!row.allowed,
+        remaining: Math.max(0, Math.floor(Number(row.remaining) || 0)),
+        limit: rule.capacity,
+        retryAfterMs: Math.max(0, Number(row.retry_after_ms) || 0),
+      };
+    },
+  };
+}
@@ -0,0 +1,221 @@
+// src/lib/ratelimit/rateLimitCorpus.ts
+import {
+  RATE_LIMIT_POLICIES,
+  checkRateLimit,
+  policyFor,
+  rateLimitHeaders,
+  type RateLimitPolicy,
+  type RateLimitPolicyName,
+} from "./policy";
+import { bucketKey, createMemoryStore, type BucketRule, type BucketScope, type TakeResult } from "./tokenBucket";
+
+/**
+ * Offline regression guard for rate limiting (npm run eval:ratelimit): token bucket burst, refill and
+ * retry-after arithmetic, user-then-IP ordering in checkRateLimit, and which routes map to which policy.
+ * Buckets run in createMemoryStore() against a fake clock; `at` is milliseconds since the first step.
+ */
+
+type Expect = Partial<Pick<TakeResult, "allowed" | "remaining" | "retryAfterMs">> & {
+  /** Retry-After header value */
+  retryAfter?: string | null;
+};
+
+export type BucketCase = {
+  id: string;
+  rule: BucketRule;
+  steps: (Expect & { at: number; cost?: number })[];
+};
+
+export type PolicyCase = {
+  id: string;
+  policy: RateLimitPolicy;
+  steps: (Expect & { at: number; who: { userId?: string | null; ip: string }; scope?: BucketScope })[];
+  /** counters after the last step, by "scope:subject" */
+  hits?: Record<string, number>;
+};
+
+export type RouteCase = {
+  method: string;
+  path: string;
+  policy: RateLimitPolicyName | null;
+};
+
+const BURST: BucketRule = { capacity: 3, refillPerSec: 1 };
+const TIGHT_USER: RateLimitPolicy = {
+  ...RATE_LIMIT_POLICIES.chat,
+  user: { capacity: 2, refillPerSec: 1 / 10 },
+  ip: { capacity: 5, refillPerSec: 1 / 10 },
+};
+
+export const BUCKET_CASES: BucketCase[] = [
+  {
+    id: "burst-to-capacity",
+    rule: BURST,
+    steps: [
+      { at: 0, allowed: true, remaining: 2, retryAfter: null },
+      { at: 0, allowed: true, remaining: 1 },
+      { at: 0, allowed: true, remaining: 0 },
+      { at: 0, allowed: false, remaining: 0, retryAfterMs: 1000, retryAfter: "1" },
+    ],
+  },
+  {
+    id: "refill-over-time",
+    rule: BURST,
+    steps: [
+      { at: 0, cost: 3, allowed: true, remaining: 0 },
+      { at: 500, allowed: false, retryAfterMs: 500 },
+      { at: 1500, allowed: true, remaining: 0 },
+      { at: 1500, allowed: false, retryAfterMs: 500, retryAfter: "1" },
+      { at: 3500, allowed: true, remaining: 1 },
+    ],
+  },
+  {
+    id: "refill-capped-at-capacity",
+    rule: BURST,
+    steps: [
+      { at: 0, cost: 3, allowed: true, remaining: 0 },
+      { at: 600_000, allowed: true, remaining: 2 },
+    ],
+  },
+  {
+    id: "retry-after-slow-refill",
+    rule: { capacity: 1, refillPerSec: 1 / 4 },
+    steps: [
+      { at: 0, allowed: true, remaining: 0 },
+      { at: 1000, allowed: false, retryAfterMs: 3000, retryAfter: "3" },
+      { at: 4000, allowed: true },
+    ],
+  },
+  {
+    id: "retry-after-cost",
+    rule: BURST,
+    steps: [
+      { at: 0, cost: 2, allowed: true, remaining: 1 },
+      { at: 0, cost: 2, allowed: false, remaining: 1, retryAfterMs: 1000 },
+    ],
+  },
+  {
+    id: "retry-after-no-refill",
+    rule: { capacity: 1, refillPerSec: 0 },
+    steps: [
+      { at: 0, allowed: true },
+      { at: 1000, allowed: false, retryAfterMs: 60_000, retryAfter: "60" },
+    ],
+  },
+];
+
+export const POLICY_CASES: PolicyCase[] = [
+  {
+    id: "user-bucket-refuses-first",
+    policy: TIGHT_USER,
+    steps: [
+      { at: 0, who: { userId: "u1", ip: "1.1.1.1" }, allowed: true, scope: "user", remaining: 1 },
+      { at: 0, who: { userId: "u1", ip: "1.1.1.1" }, allowed: true, scope: "user", remaining: 0 },
+      { at: 0, who: { userId: "u1", ip: "1.1.1.1" }, allowed: false, scope: "user", retryAfterMs: 10_000 },
+    ],
+    // the refused request does not also drain the IP bucket
+    hits: { "user:u1": 2, "ip:1.1.1.1": 2 },
+  },
+  {
+    id: "ip-bucket-for-anonymous",
+    policy: TIGHT_USER,
+    steps: [
+      ...[4, 3, 2, 1, 0].map((remaining) => ({ at: 0, who: { ip: "2.2.2.2" }, allowed: true, scope: "ip" as const, remaining })),
+      { at: 0, who: { ip: "2.2.2.2" }, allowed: false, scope: "ip", retryAfter: "10" },
+    ],
+  },
+  {
+    id: "shared-ip-refuses-signed-in-user",
+    policy: TIGHT_USER,
+    steps: [
+      ...[4, 3, 2, 1, 0].map(() => ({ at: 0, who: { ip: "3.3.3.3" }, allowed: true })),
+      { at: 0, who: { userId: "u2", ip: "3.3.3.3" }, allowed: false, scope: "ip" },
+    ],
+  },
+];
+
+export const ROUTE_CASES: RouteCase[] = [
+  { method: "POST", path: "/api/chat", policy: "chat" },
+  { method: "POST", path: "/api/chat/photos", policy: "photos" },
+  { method: "GET", path: "/api/chat", policy: null },
+  { method: "GET", path: "/api/docs/", policy: "docs" },
+  { method: "GET", path: "/api/doc-open", policy: "docs" },
+  { method: "POST", path: "/api/leads", policy: "leads" },
+  { method: "PATCH", path: "/api/leads/42", policy: "leads" },
+  { method: "GET", path: "/api/leads", policy: null },
+  { method: "POST", path: "/api/feedback", policy: "feedback" },
+  { method: "POST", path: "/api/voice/transcribe", policy: "voice" },
+  { method: "POST", path: "/api/admin/solutions", policy: null },
+];
+
+export type RateLimitCaseResult = {
+  id: string;
+  pass: boolean;
+  problems: string[];
+};
+
+function compare(step: number, got: TakeResult & { scope?: BucketScope }, want: Expect & { scope?: BucketScope }) {
+  const headers = rateLimitHeaders({ ...got, policy: "chat", scope: got.scope ?? "user" });
+  const actual: Record<string, unknown> = { ...got, retryAfter: headers["Retry-After"] ?? null };
+  return Object.entries(want)
+    .filter(([k]) => k !== "at" && k !== "cost" && k !== "who")
+    .filter(([k, v]) => actual[k] !== v)
+    .map(([k, v]) => `step ${step}: expected ${k} ${JSON.stringify(v)}, got ${JSON.stringify(actual[k])}`);
+}
+
+function fakeClock() {
+  const clock = { at: 0 };
+  return { clock, store: createMemoryStore({ now: () => clock.at }) };
+}
+
+async function runBucketCase(c: BucketCase): Promise<string[]> {
+  const { clock, store } = fakeClock();
+  const key = { policy: "eval", scope: "user" as const, subject: c.id };
+  const problems: string[] = [];
+  for (const [i, step] of c.steps.entries()) {
+    clock.at = step.at;
+    problems.push(...compare(i + 1, await store.take(key, c.rule, step.cost), step));
+  }
+  return problems;
+}
+
+async function runPolicyCase(c: PolicyCase): Promise<string[]> {
+  const { clock, store } = fakeClock();
+  const problems: string[] = [];
+  for (const [i, step] of c.steps.entries()) {
+    clock.at = step.at;
+    problems.push(...compare(i + 1, await checkRateLimit(store, c.policy, step.who), step));
+  }
+
+  const rows = store.snapshot();
+  for (const [bucket, hits] of Object.entries(c.hits || {})) {
+    const [scope, subject] = bucket.split(":") as [BucketScope, string];
+    const row = rows.find((r) => r.key === bucketKey({ policy: c.policy.name, scope, subject }));
+    if ((row?.hits ?? 0) !== hits) problems.push(`expected ${hits} hits on ${bucket}, got ${row?.hits ?? 0}`);
+  }
+  return problems;
+}
+
+export async function runRateLimitCorpus() {
+  const results: RateLimitCaseResult[] = [];
+
+  for (const c of BUCKET_CASES) {
+    const problems = await runBucketCase(c);
+    results.push({ id: c.id, pass: !problems.length, problems });
+  }
+  for (const c of POLICY_CASES) {
+    const problems = await runPolicyCase(c);
+    results.push({ id: c.id, pass: !problems.length, problems });
+  }
+  for (const c of ROUTE_CASES) {
+    const got = policyFor(c.path, c.method)?.name ?? null;
+    const problems = got === c.policy ? [] : [`expected ${c.policy ?? "no policy"}, got ${got ?? "no policy"}`];
+    results.push({ id: `route ${c.method} ${c.path}`, pass: !problems.length, problems });
+  }
+
+  return {
+    results,
+    passed: results.filter((r) => r.pass).length,
+    failed: results.filter((r) => !r.pass).length,
+  };
+}
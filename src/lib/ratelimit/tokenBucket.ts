@@ -0,0 +1,127 @@
+// src/lib/ratelimit/tokenBucket.ts
+
+/**
+ * Token bucket rate limiting. A bucket holds up to `capacity` tokens and refills at `refillPerSec`;
+ * each request takes `cost` tokens or is refused with the time until enough have refilled.
+ *
+ * Stores implement the same take() contract: ./postgresStore (shared across instances, the default)
+ * and createMemoryStore() below (single process: local dev, scripts, and the fallback when Postgres errors).
+ */
+
+export type BucketRule = {
+  capacity: number;
+  refillPerSec: number;
+};
+
+export type BucketScope = "user" | "ip";
+
+export type BucketKey = {
+  /** policy name (chat, photos, docs, leads, feedback, voice) */
+  policy: string;
+  scope: BucketScope;
+  /** user id or client IP */
+  subject: string;
+};
+
+export type TakeResult = {
+  allowed: boolean;
+  /** tokens left after this request (floored) */
+  remaining: number;
+  limit: number;
+  /** 0 when allowed */
+  retryAfterMs: number;
+};
+
+/** Counters per bucket; the admin view reads these from rate_limit_buckets. */
+export type RateLimitBucketRow = {
+  key: string;
+  policy: string;
+  scope: BucketScope;
+  subject: string;
+  tokens: number;
+  capacity: number;
+  refill_per_sec: number;
+  hits: number;
+  blocked: number;
+  last_blocked_at: string | null;
+  updated_at: string;
+};
+
+export type RateLimitStore = {
+  name: string;
+  take: (key: BucketKey, rule: BucketRule, cost?: number) => Promise<TakeResult>;
+};
+
+export function bucketKey(key: BucketKey) {
+  return `${key.policy}:${key.scope}:${key.subject}`;
+}
+
+/**
+ * One refill + take step. Pure so both stores (and the SQL function) agree on the arithmetic.
+ */
+export function takeFromBucket(
+  state: { tokens: number; updatedAt: number } | null,
+  rule: BucketRule,
+  cost: number,
+  now: number
+): { tokens: number; result: TakeResult } {
+  const elapsedSec = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state ? Math.min(rule.capacity, state.tokens + elapsedSec * rule.refillPerSec) : rule.capacity;
+
+  if (available >= cost) {
+    const tokens = available - cost;
+    return { tokens, result: { allowed: true, remaining: Math.floor(tokens), limit: rule.capacity, retryAfterMs: 0 } };
+  }
+
+  const retryAfterMs = rule.refillPerSec > 0 ? Math.ceil(((cost - available) / rule.refillPerSec) * 1000) : 60_000;
+  return {
+    tokens: available,
+    result: { allowed: false, remaining: Math.floor(available), limit: rule.capacity, retryAfterMs },
+  };
+}
+
+/**
+ * Process-local store. Buckets live as long as the process, so limits are per instance.
+ */
+export function createMemoryStore(opts: { now?: () => number } = {}) {
+  const now = opts.now ?? Date.now;
+  const buckets = new Map<string, RateLimitBucketRow>();
+
+  return {
+    name: "memory",
+    async take(key: BucketKey, rule: BucketRule, cost = 1): Promise<TakeResult> {
+      const k = bucketKey(key);
+      const at = now();
+      const prev = buckets.get(k);
+      const { tokens, result } = takeFromBucket(
+        prev ? { tokens: prev.tokens, updatedAt: Date.parse(prev.updated_at) } : null,
+        rule,
+        cost,
+        at
+      );
+
+      buckets.set(k, {
+        key: k,
+        ...key,
+        tokens,
+        capacity: rule.capacity,
+        refill_per_sec: rule.refillPerSec,
+        hits: (prev?.hits ?? 0) + (result.allowed ? 1 : 0),
+        blocked: (prev?.blocked ?? 0) + (result.allowed ? 0 : 1),
+        last_blocked_at: result.allowed ? (prev?.last_blocked_at ?? null) : new Date(at).toISOString(),
+        updated_at: new Date(at).toISOString(),
+      });
+      return result;
+    },
+    /** current counters, same shape as rate_limit_buckets rows */
+    snapshot(): RateLimitBucketRow[] {
+      return [...buckets.values()].map((row) => ({ ...row }));
+    },
+    reset(key?: string) {
+      if (key) buckets.delete(key);
+      else buckets.clear();
+    },
+  };
+}
+
+export type MemoryRateLimitStore = ReturnType<typeof createMemoryStore>;
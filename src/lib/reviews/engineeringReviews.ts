@@ -0,0 +1,93 @@
+// src/lib/reviews/engineeringReviews.ts
+
+/**
+ * Engineering review tickets (public.engineering_reviews): raised by a rep from an escalated
+ * chat answer, worked by internal users in /dashboard/reviews.
+ */
+
+export const REVIEW_STATUSES = ["open", "in_review", "needs_info", "answered", "closed"] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const REVIEW_UPLOADS_BUCKET = "engineering-review-uploads";
+export const MAX_REVIEW_PHOTOS = 8;
+export const MAX_REVIEW_PHOTO_BYTES = 8 * 1024 * 1024;
+
+export type ReviewPhoto = {
+  /** storage bucket; absent = REVIEW_UPLOADS_BUCKET (photos from the chat stay in chat-photos) */
+  bucket?: string;
+  path: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+};
+
+export type EngineeringReviewRow = {
+  id: string;
+  status: ReviewStatus;
+  requested_by: string;
+  requested_by_email: string | null;
+  conversation_id: string | null;
+  project_name: string;
+  project_location: string | null;
+  membrane: string | null;
+  solution_key: string | null;
+  solution_label: string | null;
+  storage_folder: string | null;
+  question: string;
+  details: string | null;
+  transcript_excerpt: string;
+  escalation: { outcome?: string; pre?: string[]; post?: string[]; redacted?: number };
+  photos: ReviewPhoto[];
+  assigned_to: string | null;
+  response: string | null;
+  answered_at: string | null;
+  answered_by: string | null;
+  notified_at: string | null;
+  notify_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Columns for queue rows (detail pages select *). */
+export const REVIEW_LIST_COLUMNS =
+  "id,status,project_name,project_location,membrane,solution_label,requested_by_email,assigned_to,created_at,answered_at";
+
+export function isReviewStatus(v: unknown): v is ReviewStatus {
+  return REVIEW_STATUSES.includes(v as ReviewStatus);
+}
+
+export function reviewStatusLabel(status: string) {
+  switch (status) {
+    case "open":
+      return "Open";
+    case "in_review":
+      return "In review";
+    case "needs_info":
+      return "Needs info";
+    case "answered":
+      return "Answered";
+    case "closed":
+      return "Closed";
+    default:
+      return status;
+  }
+}
+
+const EXCERPT_TURNS = 12;
+const EXCERPT_MAX_CHARS = 6000;
+
+/**
+ * The last turns of the conversation as "Rep: …" / "Co-Pilot: …" lines,
+ * trimmed from the front so the escalated exchange is always kept.
+ */
+export function formatTranscriptExcerpt(rows: { role: string; content: string }[]) {
+  const lines = rows
+    .filter((r) => (r.role === "user" || r.role === "assistant") && String(r.content || "").trim())
+    .slice(-EXCERPT_TURNS)
+    .map((r) => `${r.role === "user" ? "Rep" : "Co-Pilot"}: ${String(r.content).trim()}`);
+
+  let text = lines.join("\n\n");
+  if (text.length > EXCERPT_MAX_CHARS) text = `…${text.slice(-EXCERPT_MAX_CHARS)}`;
+  return text;
+}
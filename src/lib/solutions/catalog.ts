@@ -0,0 +1,273 @@
+// src/lib/solutions/catalog.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ASK_ANCHOR_TYPE,
+  ASK_EXISTING,
+  ASK_MEMBRANE,
+  ASK_MOUNT_SURFACE,
+  ASK_WANTS,
+  type AnchorType,
+  type AskStep,
+  type CanonicalSolution,
+  type DocKind,
+  type Securing,
+} from "./canonicalSolutions";
+import { SOLUTION_SEED } from "./catalogSeed";
+
+/**
+ * Solution catalog (public.solutions) — the single source for the product taxonomy:
+ * - CanonicalSolution[] for the resolver / intake engine
+ * - display labels (chat cards)
+ * - the solution mapping section of the chat system prompt
+ * - lead form solution options
+ * - tackle box storage prefixes by product name
+ *
+ * SOLUTION_SEED is the source of the migration seed (npm run catalog:seed-sql) and is used whenever the
+ * table is empty or unreachable.
+ */
+
+export type AskStepKey = AskStep["key"];
+
+export type SolutionRow = {
+  key: string;
+  label: string;
+  /** prompt grouping heading (ex: "Snow Retention"); null = standalone */
+  family: string | null;
+  /** storage route, aligned to the knowledge bucket taxonomy (ex: "pipe-frame/attached") */
+  securing: string;
+  storage_folder: string | null;
+  summary: string;
+  /** sales-language names ("Also called" in the prompt) */
+  aliases: string[];
+  /** case-insensitive regex source used by the resolver; null = not resolvable from chat text */
+  match_pattern: string | null;
+  keywords: string[];
+  anchor_type: AnchorType;
+  /** what the anchors are paired with (ex: "with strut framing") */
+  components: string | null;
+  /** extra prompt bullets (ex: "Typically secured the same way as signage") */
+  prompt_notes: string[];
+  doc_kinds: DocKind[];
+  mount_surface: "roof" | "wall" | null;
+  ask_steps: AskStepKey[];
+  /** shown as a lead form option when set */
+  lead_label: string | null;
+  /** value the lead form submits (leads.solution_key, attachment folder); null = key */
+  lead_key: string | null;
+  /** tackle box product names that open this solution's folder */
+  product_names: string[];
+  /** legacy storage prefixes probed before storage_folder (list storage_folder here to move it up) */
+  extra_prefixes: string[];
+  sort_order: number;
+  active: boolean;
+};
+
+export const SOLUTION_COLUMNS =
+  "key,label,family,securing,storage_folder,summary,aliases,match_pattern,keywords,anchor_type,components,prompt_notes,doc_kinds,mount_surface,ask_steps,lead_label,lead_key,product_names,extra_prefixes,sort_order,active";
+
+export const ASK_STEP_KEYS: AskStepKey[] = ["membrane", "isExisting", "anchorType", "mountSurface", "variant", "wants"];
+
+const ASK_STEPS_BY_KEY: Partial<Record<AskStepKey, AskStep>> = {
+  membrane: ASK_MEMBRANE,
+  isExisting: ASK_EXISTING,
+  anchorType: ASK_ANCHOR_TYPE,
+  mountSurface: ASK_MOUNT_SURFACE,
+  wants: ASK_WANTS,
+};
+
+const CACHE_TTL_MS = 60_000;
+
+/* ---------------------------------------------
+   Row → CanonicalSolution
+--------------------------------------------- */
+
+export function compileMatchPattern(pattern: string | null | undefined) {
+  const src = String(pattern || "").trim();
+  if (!src) return null;
+  try {
+    return new RegExp(src, "i");
+  } catch {
+    return null;
+  }
+}
+
+function childrenOf(row: SolutionRow, rows: SolutionRow[]) {
+  return rows.filter((r) => r.securing.startsWith(`${row.securing}/`));
+}
+
+/** General buckets ask which sub-solution it is, phrased from the children's labels. */
+function variantStep(row: SolutionRow, rows: SolutionRow[]): AskStep | null {
+  const labels = childrenOf(row, rows).map((c) => c.label);
+  if (!labels.length) return null;
+  return {
+    key: "variant",
+    question: `Is this a ${labels.map((l) => l.toLowerCase()).join(" or a ")}?`,
+    options: [...labels, "Not sure"],
+    shouldAsk: (s) => !s.variant,
+  };
+}
+
+export function toCanonicalSolution(row: SolutionRow, rows: SolutionRow[]): CanonicalSolution | null {
+  const match = compileMatchPattern(row.match_pattern);
+  if (!match) return null;
+
+  const ask = (row.ask_steps || [])
+    .map((k) => (k === "variant" ? variantStep(row, rows) : ASK_STEPS_BY_KEY[k] ?? null))
+    .filter((s): s is AskStep => !!s);
+
+  return {
+    key: row.key,
+    match,
+    summary: row.summary,
+    securing: row.securing as Securing,
+    anchorType: row.anchor_type,
+    storageFolder: row.storage_folder || undefined,
+    keywords: row.keywords,
+    ask,
+    recommendedDocKinds: row.doc_kinds?.length ? row.doc_kinds : undefined,
+    mountSurface: row.mount_surface ?? undefined,
+  };
+}
+
+function compile(rows: SolutionRow[]) {
+  const active = rows.filter((r) => r.active !== false).sort((a, b) => a.sort_order - b.sort_order);
+  return {
+    rows: active,
+    solutions: active.map((r) => toCanonicalSolution(r, active)).filter((s): s is CanonicalSolution => !!s),
+  };
+}
+
+/** Static catalog built from the seed (offline / empty-table fallback). */
+export const CANONICAL_SOLUTIONS: CanonicalSolution[] = compile(SOLUTION_SEED).solutions;
+
+/* ---------------------------------------------
+   Active catalog (server cache)
+--------------------------------------------- */
+
+let active: { rows: SolutionRow[]; solutions: CanonicalSolution[]; loadedAt: number } = {
+  ...compile(SOLUTION_SEED),
+  loadedAt: 0,
+};
+
+export function getCanonicalSolutions() {
+  return active.solutions;
+}
+
+export function getSolutionRows() {
+  return active.rows;
+}
+
+/**
+ * Read active rows; falls back to the seed when the table is empty or the read fails.
+ */
+export async function fetchSolutionRows(supabase: SupabaseClient): Promise<SolutionRow[]> {
+  const { data, error } = await supabase
+    .from("solutions")
+    .select(SOLUTION_COLUMNS)
+    .eq("active", true)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    console.error("SOLUTIONS_LOAD_ERROR:", error);
+    return SOLUTION_SEED;
+  }
+
+  const rows = (data || []) as SolutionRow[];
+  return rows.length ? rows : SOLUTION_SEED;
+}
+
+/**
+ * Refresh the active catalog at most once per CACHE_TTL_MS (or immediately with force),
+ * so sync consumers (resolver, intake) see admin edits without a deploy.
+ */
+export async function loadSolutionCatalog(supabase: SupabaseClient, opts: { force?: boolean } = {}) {
+  if (!opts.force && active.loadedAt && Date.now() - active.loadedAt < CACHE_TTL_MS) return active.rows;
+
+  active = { ...compile(await fetchSolutionRows(supabase)), loadedAt: Date.now() };
+  return active.rows;
+}
+
+/* ---------------------------------------------
+   Generated consumers
+--------------------------------------------- */
+
+function findRow(rows: SolutionRow[], folderOrSecuring?: string | null) {
+  const raw = String(folderOrSecuring || "").trim();
+  if (!raw) return null;
+  const clean = raw.replace(/^solutions\//, "");
+  return rows.find((r) => r.storage_folder === raw) || rows.find((r) => r.securing === clean) || null;
+}
+
+export function solutionLabel(folderOrSecuring?: string | null, rows: SolutionRow[] = active.rows) {
+  return findRow(rows, folderOrSecuring)?.label || "rooftop attachment solution";
+}
+
+export function leadSolutionOptions(rows: SolutionRow[]) {
+  return rows
+    .filter((r) => !!r.lead_label)
+    .map((r) => ({ key: r.lead_key || r.key, label: r.lead_label as string }));
+}
+
+/** Product name → storage prefixes to probe (legacy prefixes first, then the canonical folder). */
+export function solutionPrefixesByName(rows: SolutionRow[]) {
+  const out: Record<string, string[]> = {};
+  for (const r of rows) {
+    const folder = r.storage_folder || `solutions/${r.securing}`;
+    for (const name of r.product_names || []) {
+      out[name] = Array.from(new Set([...(r.extra_prefixes || []), folder]));
+    }
+  }
+  return out;
+}
+
+function seriesLine(row: SolutionRow) {
+  if (row.anchor_type === "guy-wire") return "Guy wire kit with 2000-series anchors";
+  if (row.anchor_type === "2000" || row.anchor_type === "3000") {
+    return `${row.anchor_type}-series anchors${row.components ? ` ${row.components}` : ""}`;
+  }
+  return row.components ? `Anchors ${row.components}` : "";
+}
+
+function mappingLines(row: SolutionRow) {
+  return [
+    row.aliases?.length ? `Also called: ${row.aliases.join(", ")}` : "",
+    seriesLine(row),
+    row.anchor_type === "guy-wire" ? "Tie-down solution" : "",
+    ...(row.prompt_notes || []),
+    `Securing: ${row.securing}`,
+  ].filter(Boolean);
+}
+
+/**
+ * "ANCHOR SOLUTION MAPPING" prompt section. Rows sharing a family render as one group
+ * (at the position of its first member); general buckets with sub-solutions are left to their children,
+ * except for their aliases, which head the family group when the bucket's label names the family.
+ */
+export function formatSolutionMapping(rows: SolutionRow[] = active.rows) {
+  const listed = rows.filter((r) => !childrenOf(r, rows).length);
+  const blocks: string[] = [];
+  const seenFamilies = new Set<string>();
+
+  for (const row of listed) {
+    if (!row.family) {
+      blocks.push([row.label, ...mappingLines(row).map((l) => `- ${l}`)].join("\n"));
+      continue;
+    }
+    if (seenFamilies.has(row.family)) continue;
+    seenFamilies.add(row.family);
+
+    const bucket = rows.find((r) => r.label === row.family && childrenOf(r, rows).length);
+    const members = listed.filter((r) => r.family === row.family);
+    blocks.push(
+      [
+        row.family,
+        bucket?.aliases?.length ? `- Also called: ${bucket.aliases.join(", ")}` : "",
+        ...members.flatMap((m) => [`- ${m.label}`, ...mappingLines(m).map((l) => `  - ${l}`)]),
+      ]
+        .filter(Boolean)
+        .join("\n")
+    );
+  }
+
+  return blocks.join("\n\n");
+}
@@ -0,0 +1,590 @@
+// src/lib/solutions/catalogSeed.ts
+import type { SolutionRow } from "./catalog";
+
+/**
+ * Seed rows for public.solutions, and the one source for them: `npm run catalog:seed-sql` renders this list
+ * into the generated block of supabase/migrations/20261019_000010_solutions_catalog.sql.
+ * Also the offline / empty-table fallback.
+ *
+ * Resolvable rows (match_pattern set) keep the resolver's tie-break order: earlier sort_order wins ties.
+ */
+
+type SeedInput = Omit<SolutionRow, "family" | "components" | "prompt_notes" | "mount_surface" | "lead_label" | "lead_key" | "product_names" | "extra_prefixes" | "active" | "storage_folder"> &
+  Partial<Pick<SolutionRow, "family" | "components" | "prompt_notes" | "mount_surface" | "lead_label" | "lead_key" | "product_names" | "extra_prefixes" | "storage_folder">>;
+
+const STANDARD_DOCS: SolutionRow["doc_kinds"] = ["sales_sheet", "data_sheet", "install_sheet"];
+
+function row(input: SeedInput): SolutionRow {
+  return {
+    family: null,
+    components: null,
+    prompt_notes: [],
+    mount_surface: null,
+    lead_label: null,
+    product_names: [],
+    extra_prefixes: [],
+    storage_folder: `solutions/${input.securing}`,
+    active: true,
+    ...input,
+    // lead options submit their key unless the row pins an older value
+    lead_key: input.lead_key ?? (input.lead_label ? input.key : null),
+  };
+}
+
+export const SOLUTION_SEED: SolutionRow[] = [
+  row({
+    key: "solar",
+    label: "Solar Racking",
+    securing: "solar",
+    summary:
+      "Solar racking is typically supported using membrane-compatible rooftop attachments that provide stable connection points without compromising the roof system.",
+    aliases: ["solar", "PV", "photovoltaic", "solar panels", "racking"],
+    match_pattern: /\b(solar|pv|p\.?v\.?|photovoltaic|panel(?:s)?|array(?:s)?|racking|rack(?:s)?|rail(?:s)?)\b/i.source,
+    keywords: ["strut", "rail", "racking", "pv"],
+    anchor_type: "2000",
+    components: "with strut framing",
+    doc_kinds: ["sales_sheet", "data_sheet", "install_sheet", "install_manual", "cad_dwg", "cad_step"],
+    ask_steps: ["membrane", "anchorType", "wants"],
+    lead_label: "Solar / PV Racking",
+    sort_order: 10,
+  }),
+
+  // Snow retention (foldered)
+  row({
+    key: "2-pipe-snow-fence",
+    label: "2-Pipe Snow Fence",
+    family: "Snow Retention",
+    securing: "snow-retention/2-pipe-snow-fence",
+    summary:
+      "2-pipe snow fence systems are typically supported using 2000-series anchors with piping/splices to create a continuous rooftop attachment approach.",
+    aliases: ["two-pipe snow fence"],
+    match_pattern:
+      /\b((2|two)\s*[- ]?\s*pipe\b.*\b(snow\s*(retention|fence)|snow\s*guard|avalanche)\b|\b(snow\s*(retention|fence))\b.*\b(2|two)\s*[- ]?\s*pipe\b)\b/i
+        .source,
+    keywords: ["two-pipe", "snow fence", "pipe", "splices"],
+    anchor_type: "2000",
+    components: "with piping and splices",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    product_names: ["2-Pipe Snow Fence"],
+    sort_order: 20,
+  }),
+  row({
+    key: "unitized-snow-fence",
+    label: "Unitized Snow Fence",
+    family: "Snow Retention",
+    securing: "snow-retention/unitized-snow-fence",
+    summary:
+      "Unitized snow fence systems are commonly supported using rigid framing with 3000-series anchors for new installations.",
+    aliases: ["snow fence panels", "unitized fence"],
+    match_pattern:
+      /\b(unitized|unitised)\b.*\b(snow\s*(retention|fence)|snow\s*guard|avalanche)\b|\b(snow\s*(retention|fence))\b.*\b(unitized|unitised)\b/i
+        .source,
+    keywords: ["unitized", "snow fence"],
+    anchor_type: "3000",
+    components: "with rigid fence panels",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    product_names: ["Unitized Snow Fence"],
+    extra_prefixes: ["2pipe/snow-fence"],
+    sort_order: 30,
+  }),
+  row({
+    key: "snow-retention-general",
+    label: "Snow Retention",
+    securing: "snow-retention",
+    summary:
+      "Snow retention solutions vary by configuration (2-pipe vs unitized). The right docs depend on the fence type and roof conditions.",
+    aliases: ["snow fence", "snow guards"],
+    match_pattern: /\b(snow\s*retention|snow\s*fence(?:s)?)\b/i.source,
+    keywords: ["snow retention", "snow fence", "unitized", "2-pipe", "two-pipe"],
+    anchor_type: "unknown",
+    doc_kinds: [],
+    ask_steps: ["variant", "membrane", "wants"],
+    lead_label: "Snow Retention",
+    // leads created before the catalog stored "snow-retention" (and filed attachments under it)
+    lead_key: "snow-retention",
+    sort_order: 40,
+  }),
+
+  // Pipe frame (attached == roof-mounted H-frame)
+  row({
+    key: "pipe-frame-attached",
+    label: "Roof-Mounted H-Frame",
+    securing: "pipe-frame/attached",
+    summary:
+      "Attached pipe-frame securement (aka roof-mounted H-frame) typically uses rigid framing tied into membrane-compatible rooftop attachments for long-term stability.",
+    aliases: ["attached pipe frame", "roof-mounted H-frame"],
+    match_pattern:
+      /\b(attached\s*pipe[-\s]*frame|pipe[-\s]*frame\s*attached|roof[-\s]*mounted\s*h[-\s]*frame|roof\s*mounted\s*hframe|h[-\s]*frame)\b/i
+        .source,
+    keywords: ["pipe frame", "attached", "roof-mounted h-frame", "h-frame", "strut"],
+    anchor_type: "3000",
+    components: "with strut framing",
+    doc_kinds: ["sales_sheet", "data_sheet", "install_sheet", "cad_dwg", "cad_step", "product_drawing"],
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Attached Pipe-Frame (Roof-Mounted H-Frame)",
+    product_names: ["Attached Pipe Frame"],
+    extra_prefixes: ["pipe-frame/attached", "solutions/pipe-frame/attached", "attached"],
+    sort_order: 50,
+  }),
+  row({
+    key: "pipe-frame-existing",
+    label: "Existing Pipe Frame",
+    securing: "pipe-frame/existing",
+    summary:
+      "Existing pipe-frame securement is typically handled as a re-secure approach (often tie-down style) depending on what’s already installed.",
+    aliases: ["existing frame", "re-secure", "retrofit"],
+    match_pattern:
+      /\b(existing\s*pipe[-\s]*frame|pipe[-\s]*frame\s*existing|existing\s*h[-\s]*frame|retrofit\s*pipe[-\s]*frame)\b/i.source,
+    keywords: ["existing frame", "retrofit", "re-secure", "tie-down", "guy wire"],
+    anchor_type: "guy-wire",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    product_names: ["Existing Pipe Frame"],
+    extra_prefixes: ["solutions/pipe-frame/exisiting"],
+    sort_order: 60,
+  }),
+
+  row({
+    key: "duct-securement",
+    label: "Duct Securement",
+    securing: "duct-securement",
+    summary:
+      "Rooftop ductwork is typically supported using stable, non-penetrating attachment solutions that preserve the roof membrane while controlling movement over time.",
+    aliases: ["duct supports", "ductwork", "rooftop duct"],
+    match_pattern:
+      /\b(duct\s*securement|ductwork\s*securement|duct\s*support(?:s)?|ductwork\s*support(?:s)?|rooftop\s*duct(?:s)?|ductwork)\b/i
+        .source,
+    keywords: ["duct", "ductwork", "support", "framing"],
+    anchor_type: "3000",
+    components: "with strut framing",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Duct Securement",
+    sort_order: 70,
+  }),
+
+  row({
+    key: "hvac-existing-tie-down",
+    label: "Existing Mechanical Tie-Down",
+    securing: "hvac",
+    summary:
+      "HVAC units are typically stabilized using a mechanical tie-down approach with guy wire kits and 2000-series anchors.",
+    aliases: ["HVAC", "RTU", "rooftop unit", "mechanical tie-down"],
+    match_pattern: /\b(hvac|rtu|rooftop\s*unit|air\s*handler|mechanical\s*unit)\b/i.source,
+    keywords: ["hvac", "rtu", "mechanical", "tie-down", "existing"],
+    anchor_type: "guy-wire",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "HVAC / RTU Securement",
+    // leads created before the catalog stored "hvac-securement" (and filed attachments under it)
+    lead_key: "hvac-securement",
+    product_names: ["Existing Mechanical Tie-Down"],
+    sort_order: 80,
+  }),
+
+  // Elevated stack (roof vs wall)
+  row({
+    key: "elevated-stack-roof",
+    label: "Roof-Mounted Elevated Stack",
+    family: "Elevated Stack",
+    securing: "elevated-stack/roof-stack",
+    summary:
+      "Roof-mounted stacks are commonly stabilized using tie-down style securement (not rigid framing), depending on the application.",
+    aliases: ["roof stack", "exhaust stack"],
+    match_pattern: /\b(roof\s*stack|roof[-\s]*mounted\s*stack|roof\s*exhaust\s*stack|exhaust\s*stack)\b/i.source,
+    keywords: ["stack", "exhaust", "tie-down", "guy wire"],
+    anchor_type: "guy-wire",
+    doc_kinds: STANDARD_DOCS,
+    mount_surface: "roof",
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Elevated Stack (Roof-Mounted)",
+    product_names: ["Roof-Mounted Elevated Stack Securement"],
+    sort_order: 90,
+  }),
+  row({
+    key: "elevated-stack-wall",
+    label: "Wall-Mounted Elevated Stack",
+    family: "Elevated Stack",
+    securing: "elevated-stack/wall-stack",
+    summary:
+      "Wall/parapet stacks are typically supported using attachment solutions that stabilize the assembly while preserving roof performance.",
+    aliases: ["wall stack", "parapet stack"],
+    match_pattern: /\b(wall\s*stack|wall[-\s]*mounted\s*stack|parapet\s*stack)\b/i.source,
+    keywords: ["wall", "parapet", "stack"],
+    anchor_type: "2000",
+    components: "with strut framing",
+    doc_kinds: STANDARD_DOCS,
+    mount_surface: "wall",
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Elevated Stack (Wall / Parapet)",
+    product_names: ["Wall-Mounted Elevated Stack Securement"],
+    sort_order: 100,
+  }),
+
+  // Boxes (roof / wall)
+  row({
+    key: "roof-box",
+    label: "Roof-Mounted Box",
+    securing: "roof-box",
+    summary:
+      "Roof-mounted boxes are typically supported using non-penetrating rooftop attachment points and framing while maintaining membrane compatibility.",
+    aliases: ["rooftop enclosure", "equipment box"],
+    match_pattern: /\b(roof\s*box|roof[-\s]*mounted\s*box|rooftop\s*box|roof\s*mounted\s*enclosure)\b/i.source,
+    keywords: ["enclosure", "strut", "box"],
+    anchor_type: "2000",
+    components: "with strut framing",
+    doc_kinds: ["sales_sheet", "data_sheet", "install_sheet", "install_manual"],
+    mount_surface: "roof",
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Roof Box",
+    product_names: ["Roof Mounted Box"],
+    sort_order: 110,
+  }),
+  row({
+    key: "wall-box",
+    label: "Wall-Mounted Box",
+    securing: "wall-box",
+    summary:
+      "Wall/parapet-mounted boxes are typically supported using attachment solutions that stabilize the enclosure at the roof-to-wall interface.",
+    aliases: ["parapet box", "wall enclosure"],
+    match_pattern: /\b(wall\s*box|wall[-\s]*mounted\s*box|wall\s*mounted\s*enclosure|parapet\s*box)\b/i.source,
+    keywords: ["wall", "parapet", "enclosure"],
+    anchor_type: "3000",
+    components: "with strut framing",
+    doc_kinds: STANDARD_DOCS,
+    mount_surface: "wall",
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Wall / Parapet Box",
+    product_names: ["Wall Mounted Box"],
+    sort_order: 120,
+  }),
+
+  // Equipment screen / signage
+  row({
+    key: "equipment-screen",
+    label: "Equipment Screen",
+    securing: "equipment-screen",
+    summary:
+      "Equipment screens are typically secured using 2000-series anchors with strut framing, similar to rooftop signage.",
+    aliases: ["rooftop screen", "visual screen", "windscreen"],
+    match_pattern: /\b(equipment\s*screen|rooftop\s*screen|visual\s*screen|wind\s*screen|windscreen)\b/i.source,
+    keywords: ["equipment screen", "rooftop screen", "visual screen", "windscreen"],
+    anchor_type: "2000",
+    components: "with strut framing",
+    prompt_notes: ["Typically secured the same way as signage"],
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Equipment Screen",
+    sort_order: 130,
+  }),
+  row({
+    key: "signage",
+    label: "Signage",
+    securing: "signage",
+    summary: "Rooftop signage is commonly secured using 2000-series anchors with strut framing.",
+    aliases: ["rooftop sign", "branded signage"],
+    match_pattern: /\b(signage|rooftop\s*sign|roof\s*sign|branded\s*sign)\b/i.source,
+    keywords: ["signage", "rooftop sign", "roof sign"],
+    anchor_type: "2000",
+    prompt_notes: ["Typically secured the same way as equipment screens"],
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Signage",
+    sort_order: 140,
+  }),
+
+  // Light / camera mounts
+  row({
+    key: "light-mount",
+    label: "Light Mount",
+    securing: "light-mount",
+    summary: "Light mounts typically use 3000-series anchors with strut framing for rooftop lighting equipment.",
+    aliases: ["lighting mount", "area light", "flood light"],
+    match_pattern: /\b(light\s*mount|lighting\s*mount|area\s*light|flood\s*light)\b/i.source,
+    keywords: ["light mount", "area light", "flood light"],
+    anchor_type: "3000",
+    prompt_notes: ["Typically secured the same way as camera mounts"],
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Light Mount",
+    sort_order: 150,
+  }),
+  row({
+    key: "camera-mount",
+    label: "Camera Mount",
+    securing: "camera-mount",
+    summary: "Camera mounts typically use 3000-series anchors with strut framing for rooftop surveillance equipment.",
+    aliases: ["security camera", "surveillance camera", "cameras"],
+    match_pattern: /\b(camera\s*mount|camera|cctv|surveillance\s*camera|security\s*camera)\b/i.source,
+    keywords: ["camera mount", "security camera", "surveillance camera", "cctv"],
+    anchor_type: "3000",
+    prompt_notes: ["Typically secured the same way as light mounts"],
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Camera Mount",
+    sort_order: 160,
+  }),
+
+  // Prompt / lead form / tackle box only (no resolver pattern yet)
+  row({
+    key: "electrical-disconnect",
+    label: "Electrical Disconnect",
+    securing: "electrical-disconnect",
+    summary: "Electrical disconnects are typically supported using 2000-series anchors with strut framing.",
+    aliases: ["electrical box", "service disconnect"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "2000",
+    components: "with strut framing",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Electrical Disconnect",
+    sort_order: 170,
+  }),
+  row({
+    key: "roof-pipe",
+    label: "Roof Pipe Securement",
+    securing: "roof-pipe",
+    summary: "Rooftop piping is typically supported using 3000-series anchors with adjustable, single, double, or roller supports.",
+    aliases: ["pipe supports", "rooftop piping"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Roof Pipe Support",
+    sort_order: 180,
+  }),
+  row({
+    key: "roof-pipe-adjustable",
+    label: "Adjustable Roof Pipe Support",
+    family: "Roof Pipe Securement",
+    securing: "roof-pipe/adjustable",
+    summary: "Adjustable roof pipe supports set pipe height on 3000-series anchors.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 181,
+  }),
+  row({
+    key: "roof-pipe-double",
+    label: "Double Roof Pipe Support",
+    family: "Roof Pipe Securement",
+    securing: "roof-pipe/double",
+    summary: "Double roof pipe supports carry two parallel runs on 3000-series anchors.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 182,
+  }),
+  row({
+    key: "roof-pipe-roller",
+    label: "Roller Roof Pipe Support",
+    family: "Roof Pipe Securement",
+    securing: "roof-pipe/roller",
+    summary: "Roller roof pipe supports allow thermal movement on 3000-series anchors.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 183,
+  }),
+  row({
+    key: "roof-pipe-single",
+    label: "Single Roof Pipe Support",
+    family: "Roof Pipe Securement",
+    securing: "roof-pipe/single",
+    summary: "Single roof pipe supports carry one pipe run on 3000-series anchors.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 184,
+  }),
+  row({
+    key: "roof-stairs-walkways",
+    label: "Roof Stairs & Walkways",
+    securing: "roof-stairs-walkways",
+    summary: "Roof stairs and walkways are typically supported using membrane-compatible rooftop attachments.",
+    aliases: ["roof stairs", "crossover stairs", "walkways"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "unknown",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Roof Stairs / Walkways",
+    sort_order: 190,
+  }),
+  row({
+    key: "roof-stairs-double",
+    label: "Double Stair",
+    family: "Roof Stairs & Walkways",
+    securing: "roof-stairs-walkways/double-stair",
+    summary: "Double stairs cross obstructions from both sides using membrane-compatible rooftop attachments.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "unknown",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 191,
+  }),
+  row({
+    key: "roof-stairs-single",
+    label: "Single Stair",
+    family: "Roof Stairs & Walkways",
+    securing: "roof-stairs-walkways/single-stair",
+    summary: "Single stairs step up to a level change using membrane-compatible rooftop attachments.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "unknown",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 192,
+  }),
+  row({
+    key: "roof-walkways",
+    label: "Walkways",
+    family: "Roof Stairs & Walkways",
+    securing: "roof-stairs-walkways/walkways",
+    summary: "Rooftop walkways protect the membrane along traffic paths using membrane-compatible rooftop attachments.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "unknown",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 193,
+  }),
+  row({
+    key: "roof-guardrail",
+    label: "Roof-Mounted Guardrail",
+    family: "Guardrails",
+    securing: "roof-guardrail",
+    summary: "Roof-mounted guardrails are typically secured using 3000-series anchors.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    mount_surface: "roof",
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Roof Guardrail",
+    product_names: ["Roof Mounted Guardrail"],
+    sort_order: 200,
+  }),
+  row({
+    key: "wall-guardrail",
+    label: "Wall-Mounted Guardrail",
+    family: "Guardrails",
+    securing: "wall-guardrail",
+    summary: "Wall-mounted guardrails are typically secured using 3000-series anchors.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    doc_kinds: STANDARD_DOCS,
+    mount_surface: "wall",
+    ask_steps: ["membrane", "wants"],
+    product_names: ["Wall Mounted Guardrail"],
+    sort_order: 210,
+  }),
+  row({
+    key: "roof-ladder",
+    label: "Roof Ladder",
+    securing: "roof-ladder",
+    summary: "Roof ladders are typically secured using 3000-series anchors with an adjustable strut bracket.",
+    aliases: [],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "3000",
+    components: "with adjustable strut bracket",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Roof Ladder",
+    sort_order: 220,
+  }),
+  row({
+    key: "weather-station",
+    label: "Weather Stations",
+    securing: "weather-station",
+    summary: "Weather stations are typically stabilized using guy wire kits with 2000-series anchors.",
+    aliases: ["rooftop sensors", "monitoring stations"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "guy-wire",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Weather Station",
+    product_names: ["Weather Stations"],
+    sort_order: 230,
+  }),
+  row({
+    key: "satellite-dish",
+    label: "Satellite Dish",
+    securing: "satellite-dish",
+    summary: "Satellite dishes are typically secured using 2000-series anchors.",
+    aliases: ["dish", "satellite antenna"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "2000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 240,
+  }),
+  row({
+    key: "antenna",
+    label: "Antenna",
+    securing: "antenna",
+    summary: "Antennas are typically stabilized using guy wire kits with 2000-series anchors.",
+    aliases: ["communication antenna", "RF antenna"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "guy-wire",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 250,
+  }),
+  row({
+    key: "lightning",
+    label: "Lightning Protection",
+    securing: "lightning",
+    summary: "Lightning protection systems are typically secured using 2000-series anchors.",
+    aliases: ["lightning arrestor", "lightning rod system"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "2000",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    sort_order: 260,
+  }),
+  row({
+    key: "guy-wire-kit",
+    label: "Guy Wire Kit",
+    securing: "guy-wire-kit",
+    summary: "Guy wire kits tie down rooftop equipment using 2000-series anchors only.",
+    aliases: ["guy wire", "tie-down kit"],
+    match_pattern: null,
+    keywords: [],
+    anchor_type: "guy-wire",
+    doc_kinds: STANDARD_DOCS,
+    ask_steps: ["membrane", "wants"],
+    lead_label: "Guy Wire Securement",
+    // leads created before the catalog stored "guy-wire" (and filed attachments under it)
+    lead_key: "guy-wire",
+    sort_order: 270,
+  }),
+];
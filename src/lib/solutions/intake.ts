@@ -0,0 +1,318 @@
+// src/lib/solutions/intake.ts
+import {
+  ASK_MOUNT_SURFACE,
+  nextQuestionForSolution,
+  type AnchorType,
+  type AskStep,
+  type CanonicalSolution,
+  type DocKind,
+  type IntakeState,
+  type Membrane,
+} from "./canonicalSolutions";
+import { getCanonicalSolutions } from "./catalog";
+
+/**
+ * Stateful intake engine on top of the canonical catalog:
+ * - folds each user turn into an IntakeState (explicit mentions only, never guesses)
+ * - maps quick-reply answers ("Not sure", "Roof-mounted"…) onto the step we last asked
+ * - picks the next AskStep for the resolved solution
+ *
+ * The state is persisted per conversation (conversations.intake_state) by /api/chat.
+ */
+
+/** AskStep without its predicate, safe to serialize to the client. */
+export type AskPrompt = Pick<AskStep, "key" | "question" | "options">;
+
+const DECLINE_RE = /^\s*(not\s*sure|unsure|no\s*idea|don'?t\s*know|idk|infer\s*it|skip)\s*[.!]?\s*$/i;
+
+/* ---------------------------------------------
+   Slot extractors (explicit user-provided details only)
+--------------------------------------------- */
+
+/** "app" is also just the word app ("the app crashed"): lowercase needs roofing context next to it */
+const APP_MEMBRANE_RE = /\bapp\b(?=[\s-]*(?:mod|modified|membrane|roof|cap|torch|sheet|system))|\b(?:mod(?:ified)?[-\s]*bit\w*|roof(?:ing)?|membrane|torch(?:ed)?)\s+app\b/;
+
+export function extractMembrane(text: string): Membrane {
+  const raw = String(text || "");
+  const t = raw.toLowerCase();
+  if (/\btpo\b/.test(t)) return "tpo";
+  if (/\bpvc\b/.test(t)) return "pvc";
+  if (/\bepdm\b/.test(t)) return "epdm";
+  if (/\bkee\b/.test(t)) return "kee";
+  if (/\bsbs\b.*\btorch|\btorch\w*\b.*\bsbs\b/.test(t)) return "sbs-torch";
+  if (/\bsbs\b/.test(t)) return "sbs";
+  if (/\bAPP\b/.test(raw) || APP_MEMBRANE_RE.test(t)) return "app";
+  if (/\bmod(?:ified)?\s*bit\b|\bmod[-\s]?bit\b/.test(t)) return "modified-bitumen";
+  if (/\b(silicone|acrylic|coating|coated)\b/.test(t)) return "coatings";
+  return null;
+}
+
+export function extractAnchorType(text: string): AnchorType | null {
+  const t = String(text || "").toLowerCase();
+  if (/\bguy[-\s]*wire\b/.test(t)) return "guy-wire";
+  if (/\b2000\s*series\b|\bseries\s*2000\b|\b2000s\b|\b2000-series\b/.test(t)) return "2000";
+  if (/\b3000\s*series\b|\bseries\s*3000\b|\b3000s\b|\b3000-series\b/.test(t)) return "3000";
+  return null;
+}
+
+export function extractAnchorModel(text: string) {
+  const m = String(text || "").toLowerCase().match(/\bu\s?\d{3,4}\b/);
+  return m ? m[0].replace(/\s+/g, "") : null;
+}
+
+export function extractMountSurface(text: string): "roof" | "wall" | null {
+  const t = String(text || "").toLowerCase();
+  const mentionsWall = /\b(wall|parapet|vertical)\b/.test(t);
+  const mentionsRoof = /\b(roof|rooftop)\b/.test(t);
+  if (mentionsWall && !mentionsRoof) return "wall";
+  if (mentionsRoof) return "roof";
+  return null;
+}
+
+export function extractIsExisting(text: string): boolean | null {
+  const t = String(text || "").toLowerCase();
+  if (/\b(existing|retrofit|re[-\s]?secure|re[-\s]?tie|tie[-\s]?down)\b/.test(t)) return true;
+  // "new" on its own, not the start of a place name (New York, New Jersey…)
+  if (/\bnew\b(?!\s+(?:york|jersey|mexico|hampshire|orleans|england|haven|brunswick|braunfels)\b)/.test(t)) return false;
+  return null;
+}
+
+export function extractVariant(text: string): IntakeState["variant"] {
+  const t = String(text || "").toLowerCase();
+  if (/\b(2|two)[-\s]*pipe\b/.test(t)) return "2-pipe";
+  if (/\bunitized|unitised\b/.test(t)) return "unitized";
+  if (/\bdouble[-\s]*stair/.test(t)) return "double-stair";
+  if (/\bsingle[-\s]*stair/.test(t)) return "single-stair";
+  if (/\bwalkway/.test(t)) return "walkways";
+  if (/\broller\b/.test(t)) return "roller";
+  if (/\badjustable\b/.test(t)) return "adjustable";
+  return null;
+}
+
+export function extractWants(text: string): DocKind[] {
+  const t = String(text || "").toLowerCase();
+  const out: DocKind[] = [];
+  if (/\bsales\s*sheet/.test(t)) out.push("sales_sheet");
+  if (/\bproduct\s*data\s*sheet/.test(t)) out.push("product_data_sheet");
+  else if (/\bdata\s*sheet|\bspec\s*sheet/.test(t)) out.push("data_sheet");
+  if (/\binstall(ation)?\s*manual/.test(t)) out.push("install_manual");
+  if (/\binstall(ation)?\s*sheet/.test(t)) out.push("install_sheet");
+  if (/\binstall(ation)?\s*video|\bvideo\b/.test(t)) out.push("install_video");
+  if (/\bcad\b|\bdwg\b/.test(t)) out.push("cad_dwg");
+  if (/\bcad\b|\bstep\s*files?\b|\bstp\b/.test(t)) out.push("cad_step");
+  if (/\bproduct\s*drawings?\b/.test(t)) out.push("product_drawing");
+  if (/\bproduct\s*(images?|photos?)\b|\bimages\s*\/\s*renders\b/.test(t)) out.push("product_image");
+  if (/\brenders?\b/.test(t)) out.push("render");
+  return Array.from(new Set(out));
+}
+
+/* ---------------------------------------------
+   Quick-reply answers → slots
+--------------------------------------------- */
+
+function applyAnswerToLastAsked(state: IntakeState, text: string): IntakeState {
+  const key = state.lastAsked;
+  if (!key) return state;
+
+  if (DECLINE_RE.test(text)) {
+    const declined = Array.from(new Set([...(state.declined ?? []), key]));
+    const next: IntakeState = { ...state, declined };
+    if (key === "mountSurface") next.mountSurface = "unknown";
+    if (key === "anchorType") next.anchorType = "unknown";
+    return next;
+  }
+
+  const t = text.trim().toLowerCase();
+  switch (key) {
+    case "isExisting":
+      if (/^new/.test(t)) return { ...state, isExisting: false };
+      if (/^(existing|re-?secure)/.test(t)) return { ...state, isExisting: true };
+      return state;
+    case "mountSurface":
+      if (/^roof/.test(t)) return { ...state, mountSurface: "roof" };
+      if (/^(wall|parapet)/.test(t)) return { ...state, mountSurface: "wall" };
+      return state;
+    default:
+      // membrane / anchorType / variant / wants answers are covered by the extractors
+      return state;
+  }
+}
+
+/* ---------------------------------------------
+   Securing resolution
+--------------------------------------------- */
+
+export function findSolutionBySecuring(securing?: string | null): CanonicalSolution | null {
+  if (!securing) return null;
+  const clean = String(securing).replace(/^solutions\//, "").trim();
+  const solutions = getCanonicalSolutions();
+  return (
+    solutions.find((s) => s.storageFolder === securing) ||
+    solutions.find((s) => s.securing === clean) ||
+    null
+  );
+}
+
+/**
+ * General buckets (snow-retention, elevated-stack…) narrow to a subfolder
+ * once the variant or mount surface is known.
+ */
+function refineSecuring(state: IntakeState): IntakeState {
+  const sol = findSolutionBySecuring(state.securing);
+  if (!sol) return state;
+
+  const children = getCanonicalSolutions().filter((s) => s.securing.startsWith(`${sol.securing}/`));
+  if (!children.length) return state;
+
+  const byVariant = state.variant
+    ? children.find((c) => c.securing.split("/").pop()!.startsWith(state.variant!))
+    : undefined;
+  const bySurface =
+    state.mountSurface === "roof" || state.mountSurface === "wall"
+      ? children.find(
+          (c) =>
+            c.mountSurface === state.mountSurface ||
+            c.securing.split("/").pop()!.startsWith(`${state.mountSurface}-`)
+        )
+      : undefined;
+
+  const pick = byVariant || bySurface;
+  return pick ? { ...state, securing: pick.securing } : state;
+}
+
+/* ---------------------------------------------
+   Public API
+--------------------------------------------- */
+
+/**
+ * Fold one user turn into the intake state.
+ * Later explicit mentions override earlier ones; missing mentions never clear a slot.
+ * With `facts: false` the project facts (membrane, anchor, surface, new vs existing) are left to the
+ * caller's ProjectProfile and only quick replies, variant and wants are read from the text.
+ */
+export function applyUserTurn(
+  prior: IntakeState | null,
+  text: string,
+  opts: { facts?: boolean } = {}
+): IntakeState {
+  let state: IntakeState = applyAnswerToLastAsked({ ...(prior ?? {}) }, String(text || ""));
+
+  if (opts.facts !== false) {
+    const membrane = extractMembrane(text);
+    const anchorType = extractAnchorType(text);
+    const anchorModel = extractAnchorModel(text);
+    const mountSurface = extractMountSurface(text);
+    const isExisting = extractIsExisting(text);
+
+    if (membrane) state.membrane = membrane;
+    if (anchorType) state.anchorType = anchorType;
+    if (anchorModel) state.anchorModel = anchorModel;
+    if (mountSurface) state.mountSurface = mountSurface;
+    if (isExisting !== null) state.isExisting = isExisting;
+  }
+
+  const variant = extractVariant(text);
+  const wants = extractWants(text);
+  if (variant) state.variant = variant;
+  if (wants.length) state.wants = Array.from(new Set([...(state.wants ?? []), ...wants]));
+
+  state = { ...state, lastAsked: null };
+  return state;
+}
+
+/**
+ * Build the state for this request.
+ * With a persisted state only the newest user turn is applied; otherwise every user turn is replayed.
+ * `folderHint` is the resolver's pick over the whole conversation and wins when present.
+ * `facts` (the conversation's ProjectProfile) fills the slots it knows instead of the regex extractors.
+ */
+export function buildIntakeState(params: {
+  prior: IntakeState | null;
+  userTurns: string[];
+  folderHint?: string | null;
+  facts?: Partial<IntakeState> | null;
+}): IntakeState {
+  const turns = params.userTurns.filter((t) => String(t || "").trim());
+
+  let state: IntakeState = params.prior ? { ...params.prior } : {};
+  const toApply = params.prior ? turns.slice(-1) : turns;
+  for (const t of toApply) state = applyUserTurn(state, t, { facts: !params.facts });
+
+  const facts = Object.entries(params.facts ?? {}).filter(([, value]) => value !== null && typeof value !== "undefined");
+  state = { ...state, ...(Object.fromEntries(facts) as Partial<IntakeState>) };
+
+  const sol = findSolutionBySecuring(params.folderHint);
+  if (sol) {
+    // keep a more specific subfolder we already narrowed to
+    const keepRefined = state.securing?.startsWith(`${sol.securing}/`);
+    if (!keepRefined) state.securing = sol.securing;
+  }
+
+  return refineSecuring(state);
+}
+
+/**
+ * The next question worth asking, or null when every slot that matters is filled.
+ */
+export function nextIntakeStep(state: IntakeState): AskStep | null {
+  const declined = new Set(state.declined ?? []);
+  if (!declined.has("mountSurface") && ASK_MOUNT_SURFACE.shouldAsk(state)) return ASK_MOUNT_SURFACE;
+
+  const sol = findSolutionBySecuring(state.securing);
+  if (!sol) return null;
+  return nextQuestionForSolution(sol, state);
+}
+
+export function toAskPrompt(step: AskStep | null): AskPrompt | null {
+  if (!step) return null;
+  return { key: step.key, question: step.question, options: step.options };
+}
+
+/** Remember what we offered so the next quick-reply answer maps to that slot. */
+export function markAsked(state: IntakeState, step: AskStep | null): IntakeState {
+  return { ...state, lastAsked: step?.key ?? null };
+}
+
+function describeSlot(key: string, value: unknown) {
+  if (Array.isArray(value)) return value.join(", ");
+  if (key === "membrane" && typeof value === "string") return value.toUpperCase();
+  if (key === "isExisting") return value ? "existing / re-secure" : "new install";
+  if (key === "anchorType" && value !== "guy-wire") return `${value}-series`;
+  return String(value);
+}
+
+/**
+ * Prompt block telling the model which slots are settled and which single question to ask next.
+ */
+export function formatIntakeBlock(state: IntakeState, step: AskStep | null) {
+  const slots: [string, unknown][] = [
+    ["securing", state.securing],
+    ["membrane", state.membrane],
+    ["anchorType", state.anchorType && state.anchorType !== "unknown" ? state.anchorType : null],
+    ["anchorModel", state.anchorModel],
+    ["isExisting", state.isExisting],
+    ["mountSurface", state.mountSurface && state.mountSurface !== "unknown" ? state.mountSurface : null],
+    ["variant", state.variant],
+    ["wants", state.wants?.length ? state.wants : null],
+  ];
+
+  const filled = slots
+    .filter(([, v]) => v !== null && typeof v !== "undefined")
+    .map(([k, v]) => `- ${k}: ${describeSlot(k, v)}`);
+
+  const lines: string[] = [];
+  if (filled.length) {
+    lines.push(`Intake slots (confirmed by the user; do not re-ask):\n${filled.join("\n")}`);
+  }
+  if (state.declined?.length) {
+    lines.push(`User is not sure about: ${state.declined.join(", ")} (do not ask again; use the typical Anchor default).`);
+  }
+  if (step) {
+    lines.push(
+      `If a clarifying question is needed, ask only this one: "${step.question}"` +
+        (step.options?.length ? ` (quick replies shown to the user: ${step.options.join(" / ")})` : "")
+    );
+  }
+
+  return lines.join("\n");
+}
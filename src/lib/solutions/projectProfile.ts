@@ -0,0 +1,407 @@
+// src/lib/solutions/projectProfile.ts
+import type { LLMClient, LLMJsonSchema } from "@/lib/llm/client";
+import type { AnchorType, IntakeState, Membrane } from "./canonicalSolutions";
+import {
+  extractAnchorModel,
+  extractAnchorType,
+  extractIsExisting,
+  extractMembrane,
+  extractMountSurface,
+} from "./intake";
+import { errorMessage } from "@/lib/errors";
+
+/**
+ * Project facts for a conversation (conversations.project_profile): what the rep has told us about
+ * the job, kept as typed fields instead of re-running regexes over the transcript every turn.
+ *
+ * Each turn the model reads the recent user messages and returns the facts as schema-constrained JSON;
+ * when no model answers (offline, timeout, unparseable reply) the regex extractors fill in instead.
+ * Facts the rep edited in the "Project facts" panel are marked source "user" and never overwritten.
+ */
+
+export type ProjectFacts = {
+  membrane: Membrane;
+  roofBrand: string | null;
+  anchorSeries: Exclude<AnchorType, "unknown"> | null;
+  anchorModel: string | null;
+  equipment: string | null;
+  mountSurface: "roof" | "wall" | null;
+  /** true = existing equipment being re-secured, false = new install */
+  isExisting: boolean | null;
+  location: string | null;
+};
+
+export type ProjectFactKey = keyof ProjectFacts;
+
+/** llm / regex = extracted from the conversation; user = edited in the panel (locked) */
+export type ProjectFactSource = "llm" | "regex" | "user";
+
+export type ProjectProfile = {
+  facts: ProjectFacts;
+  sources: Partial<Record<ProjectFactKey, ProjectFactSource>>;
+  updatedAt: string | null;
+};
+
+export const PROJECT_FACT_KEYS: ProjectFactKey[] = [
+  "membrane",
+  "roofBrand",
+  "anchorSeries",
+  "anchorModel",
+  "equipment",
+  "mountSurface",
+  "isExisting",
+  "location",
+];
+
+const MEMBRANES: Exclude<Membrane, null>[] = [
+  "tpo",
+  "pvc",
+  "epdm",
+  "sbs",
+  "sbs-torch",
+  "app",
+  "kee",
+  "modified-bitumen",
+  "coatings",
+];
+const ANCHOR_SERIES: Exclude<AnchorType, "unknown">[] = ["2000", "3000", "guy-wire"];
+const MAX_FACT_CHARS = 80;
+
+/** user turns the model reads per extraction; older facts are already in the stored profile */
+const EXTRACTION_TURNS = 6;
+/** extraction runs before the answer, so it gets a short leash before falling back to regex */
+const DEFAULT_EXTRACTION_TIMEOUT_MS = 8_000;
+
+export function emptyProjectFacts(): ProjectFacts {
+  return {
+    membrane: null,
+    roofBrand: null,
+    anchorSeries: null,
+    anchorModel: null,
+    equipment: null,
+    mountSurface: null,
+    isExisting: null,
+    location: null,
+  };
+}
+
+export function emptyProjectProfile(): ProjectProfile {
+  return { facts: emptyProjectFacts(), sources: {}, updatedAt: null };
+}
+
+const nullableString = (description: string) => ({ type: ["string", "null"], description });
+
+/** Strict structured-output schema: every key present, null when the user hasn't said. */
+export const PROJECT_FACTS_SCHEMA: LLMJsonSchema = {
+  name: "project_facts",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: PROJECT_FACT_KEYS,
+    properties: {
+      membrane: {
+        type: ["string", "null"],
+        enum: [...MEMBRANES, null],
+        description: "Roof membrane / roof system the equipment sits on",
+      },
+      roofBrand: nullableString("Roofing manufacturer (Carlisle, GAF, Firestone, Johns Manville…)"),
+      anchorSeries: {
+        type: ["string", "null"],
+        enum: [...ANCHOR_SERIES, null],
+        description: "Anchor Products series the user named: 2000-series, 3000-series or guy wire kit",
+      },
+      anchorModel: nullableString("Specific Anchor model number, e.g. U2400"),
+      equipment: nullableString("What is being secured (RTU, condenser, gas line, solar array…), in a few words"),
+      mountSurface: {
+        type: ["string", "null"],
+        enum: ["roof", "wall", null],
+        description: "Mounted on the roof deck or on a wall / parapet",
+      },
+      isExisting: {
+        type: ["boolean", "null"],
+        description: "true when existing equipment is being re-secured or retrofitted, false for a new install",
+      },
+      location: nullableString("Job site city / state"),
+    },
+  },
+};
+
+const FACT_EXTRACTION_SYSTEM = `
+You extract project facts from a commercial roofing sales conversation for Anchor Products.
+Only record facts the user actually stated. Never guess, infer defaults, or copy example values.
+Use null for anything the messages don't say. When the user corrects themselves, use the latest value.
+"app" means an APP modified-bitumen membrane only when it is about the roof, never a software app.
+Return only the JSON object.
+`.trim();
+
+/* ---------------------------------------------
+   Normalization (model output, panel edits, stored rows)
+--------------------------------------------- */
+
+function cleanString(v: unknown) {
+  if (typeof v !== "string") return null;
+  const s = v.replace(/\s+/g, " ").trim().slice(0, MAX_FACT_CHARS);
+  return s && !/^(null|none|unknown|n\/a)$/i.test(s) ? s : null;
+}
+
+function cleanFact<K extends ProjectFactKey>(key: K, v: unknown): ProjectFacts[K] {
+  switch (key) {
+    case "membrane": {
+      const m = cleanString(v)?.toLowerCase();
+      return (MEMBRANES as string[]).includes(m ?? "") ? (m as ProjectFacts[K]) : (null as ProjectFacts[K]);
+    }
+    case "anchorSeries": {
+      const a = cleanString(typeof v === "number" ? String(v) : v)?.toLowerCase().replace(/[-\s]*series$/, "");
+      return (ANCHOR_SERIES as string[]).includes(a ?? "") ? (a as ProjectFacts[K]) : (null as ProjectFacts[K]);
+    }
+    case "anchorModel":
+      // same shape extractAnchorModel produces ("u2400")
+      return (cleanString(v)?.toLowerCase().replace(/\s+/g, "") ?? null) as ProjectFacts[K];
+    case "mountSurface": {
+      const s = cleanString(v)?.toLowerCase();
+      return (s === "roof" || s === "wall" ? s : null) as ProjectFacts[K];
+    }
+    case "isExisting":
+      return (typeof v === "boolean" ? v : null) as ProjectFacts[K];
+    default:
+      return cleanString(v) as ProjectFacts[K];
+  }
+}
+
+function setFact<K extends ProjectFactKey>(facts: ProjectFacts, key: K, value: ProjectFacts[K]) {
+  facts[key] = value;
+}
+
+/** Keep only known keys with valid values; anything else becomes null. */
+export function normalizeProjectFacts(raw: unknown): ProjectFacts {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const facts = emptyProjectFacts();
+  for (const key of PROJECT_FACT_KEYS) setFact(facts, key, cleanFact(key, obj[key]));
+  return facts;
+}
+
+/** conversations.project_profile → ProjectProfile ('{}' before the first turn). */
+export function normalizeProjectProfile(raw: unknown): ProjectProfile {
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const rawSources = (obj.sources && typeof obj.sources === "object" ? obj.sources : {}) as Record<string, unknown>;
+  const sources: ProjectProfile["sources"] = {};
+  for (const key of PROJECT_FACT_KEYS) {
+    const s = rawSources[key];
+    if (s === "llm" || s === "regex" || s === "user") sources[key] = s;
+  }
+  return {
+    facts: normalizeProjectFacts(obj.facts),
+    sources,
+    updatedAt: typeof obj.updatedAt === "string" ? obj.updatedAt : null,
+  };
+}
+
+/* ---------------------------------------------
+   Regex fallback (offline)
+--------------------------------------------- */
+
+const ROOF_BRANDS: [RegExp, string][] = [
+  [/\bcarlisle\b/, "Carlisle"],
+  [/\bgaf\b/, "GAF"],
+  [/\bfirestone\b/, "Firestone"],
+  [/\bholcim\b|\belevate\b/, "Holcim Elevate"],
+  [/\bjohns[-\s]*manville\b|\bjm\s+(?:tpo|pvc|epdm)\b/, "Johns Manville"],
+  [/\bversico\b/, "Versico"],
+  [/\bsarnafil\b|\bsika\b/, "Sika Sarnafil"],
+  [/\bduro[-\s]*last\b/, "Duro-Last"],
+  [/\bmule[-\s]*hide\b/, "Mule-Hide"],
+  [/\bib\s*roof/, "IB Roof Systems"],
+  [/\btremco\b/, "Tremco"],
+  [/\bsiplast\b/, "Siplast"],
+  [/\bpolyglass\b/, "Polyglass"],
+  [/\bsoprema\b/, "Soprema"],
+  [/\bfiber[-\s]*tite\b/, "FiberTite"],
+  [/\bgenflex\b/, "GenFlex"],
+];
+
+const EQUIPMENT: [RegExp, string][] = [
+  [/\brtus?\b|\brooftop\s+units?\b|\bhvac\b|\bair\s+handlers?\b/, "HVAC / RTU"],
+  [/\bcondens(?:er|ing\s+units?)s?\b/, "condenser"],
+  [/\bsolar\b|\bpv\s+(?:array|panels?|modules?)\b/, "solar array"],
+  [/\bgas\s+(?:lines?|pipes?|piping)\b/, "gas line"],
+  [/\bconduit\b/, "conduit"],
+  [/\bduct(?:work|s)?\b/, "ductwork"],
+  [/\bsnow\s+(?:fence|guards?|retention)\b/, "snow retention"],
+  [/\bsatellite\s+dish\b|\bdish\b/, "satellite dish"],
+  [/\bantennas?\b/, "antenna"],
+  [/\bexhaust\s+fans?\b/, "exhaust fan"],
+  [/\bgenerators?\b/, "generator"],
+  [/\blightning\s+protection\b/, "lightning protection"],
+  [/\bsigns?\b|\bsignage\b/, "signage"],
+  [/\bcameras?\b/, "camera"],
+  [/\b(?:light|lighting)\s+(?:poles?|fixtures?|mounts?)\b/, "light mount"],
+  [/\bstacks?\b|\bexhaust\s+vents?\b/, "stack / vent"],
+  [/\bwalkways?\b|\broof\s+stairs?\b|\bcrossovers?\b/, "stairs / walkway"],
+  [/\bguardrails?\b|\bladders?\b/, "guardrail / ladder"],
+  [/\bpipes?\b|\bpiping\b/, "piping"],
+];
+
+export function extractRoofBrand(text: string) {
+  const t = String(text || "").toLowerCase();
+  return ROOF_BRANDS.find(([re]) => re.test(t))?.[1] ?? null;
+}
+
+export function extractEquipment(text: string) {
+  const t = String(text || "").toLowerCase();
+  return EQUIPMENT.find(([re]) => re.test(t))?.[1] ?? null;
+}
+
+/** "in Denver, CO" / "job in Austin, Texas" (case matters: place names are capitalized) */
+export function extractLocation(text: string) {
+  const m = String(text || "").match(
+    /\b(?:in|at|near|for)\s+((?:[A-Z][A-Za-z.'-]+\s+){0,2}[A-Z][A-Za-z.'-]+,\s*(?:[A-Z]{2}\b|[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?))/
+  );
+  return m ? cleanString(m[1]) : null;
+}
+
+/** Replay the regex extractors over the user's turns; later mentions win. */
+export function regexProjectFacts(userTurns: string[]): ProjectFacts {
+  const facts = emptyProjectFacts();
+  for (const text of userTurns) {
+    const found: Partial<ProjectFacts> = {
+      membrane: extractMembrane(text),
+      roofBrand: extractRoofBrand(text),
+      anchorSeries: extractAnchorType(text) as ProjectFacts["anchorSeries"],
+      anchorModel: extractAnchorModel(text),
+      equipment: extractEquipment(text),
+      mountSurface: extractMountSurface(text),
+      isExisting: extractIsExisting(text),
+      location: extractLocation(text),
+    };
+    for (const key of PROJECT_FACT_KEYS) {
+      const value = found[key];
+      if (value !== null && typeof value !== "undefined") setFact(facts, key, value);
+    }
+  }
+  return facts;
+}
+
+/* ---------------------------------------------
+   Extraction + merge
+--------------------------------------------- */
+
+function parseFactsJson(text: string): ProjectFacts | null {
+  try {
+    const parsed = JSON.parse(String(text || "").trim());
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? normalizeProjectFacts(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Facts stated in the recent user turns. The model answers first (schema-constrained JSON);
+ * a failed call, timeout or unparseable reply falls back to the regex extractors.
+ * PROJECT_FACTS_EXTRACTION=regex skips the model entirely.
+ */
+export async function extractProjectFacts(
+  llm: LLMClient | null,
+  userTurns: string[]
+): Promise<{ facts: ProjectFacts; source: "llm" | "regex" }> {
+  const turns = userTurns.map((t) => String(t || "").trim()).filter(Boolean).slice(-EXTRACTION_TURNS);
+  const offline = () => ({ facts: regexProjectFacts(turns), source: "regex" as const });
+
+  if (!llm || !turns.length || process.env.PROJECT_FACTS_EXTRACTION === "regex") return offline();
+
+  try {
+    const res = await llm.complete(
+      {
+        system: FACT_EXTRACTION_SYSTEM,
+        user: `User messages (oldest first):\n${turns.map((t) => `- ${t.slice(0, 1000)}`).join("\n")}`,
+        format: "json",
+        jsonSchema: PROJECT_FACTS_SCHEMA,
+        maxOutputTokens: 300,
+        purpose: "fact_extraction",
+      },
+      {
+        signal: AbortSignal.timeout(
+          Number(process.env.PROJECT_FACTS_TIMEOUT_MS) || DEFAULT_EXTRACTION_TIMEOUT_MS
+        ),
+      }
+    );
+
+    const facts = parseFactsJson(res.text);
+    if (facts) return { facts, source: "llm" };
+    console.warn("[facts] unparseable extraction reply; using regex", res.text.slice(0, 200));
+  } catch (e) {
+    console.warn("[facts] extraction failed; using regex", errorMessage(e, String(e)));
+  }
+  return offline();
+}
+
+/**
+ * Fold newly extracted facts into the stored profile. Null never clears a fact (the user just didn't
+ * repeat it) and facts the rep edited stay as they are.
+ */
+export function mergeProjectFacts(
+  profile: ProjectProfile,
+  facts: ProjectFacts,
+  source: Exclude<ProjectFactSource, "user">
+): ProjectProfile {
+  const next: ProjectProfile = { facts: { ...profile.facts }, sources: { ...profile.sources }, updatedAt: profile.updatedAt };
+  let changed = false;
+
+  for (const key of PROJECT_FACT_KEYS) {
+    const value = facts[key];
+    if (value === null || next.sources[key] === "user" || next.facts[key] === value) continue;
+    setFact(next.facts, key, value);
+    next.sources[key] = source;
+    changed = true;
+  }
+
+  if (changed) next.updatedAt = new Date().toISOString();
+  return next;
+}
+
+/**
+ * Apply the rep's edits from the panel. Edited facts are locked against extraction, including
+ * ones cleared to null; `unlock` hands a fact back to extraction.
+ */
+export function editProjectFacts(
+  profile: ProjectProfile,
+  patch: Partial<Record<ProjectFactKey, unknown>>,
+  unlock: ProjectFactKey[] = []
+): ProjectProfile {
+  const next: ProjectProfile = { facts: { ...profile.facts }, sources: { ...profile.sources }, updatedAt: profile.updatedAt };
+
+  for (const key of PROJECT_FACT_KEYS) {
+    if (!(key in patch)) continue;
+    setFact(next.facts, key, cleanFact(key, patch[key]));
+    next.sources[key] = "user";
+  }
+  for (const key of unlock) {
+    if (next.sources[key] === "user") delete next.sources[key];
+  }
+
+  next.updatedAt = new Date().toISOString();
+  return next;
+}
+
+/** The intake slots the profile owns (see buildIntakeState `facts`). */
+export function profileIntakeFacts(profile: ProjectProfile): Partial<IntakeState> {
+  const f = profile.facts;
+  return {
+    membrane: f.membrane,
+    anchorType: f.anchorSeries,
+    anchorModel: f.anchorModel,
+    mountSurface: f.mountSurface,
+    isExisting: f.isExisting,
+  };
+}
+
+/** Prompt block for the facts the intake block doesn't carry. */
+export function formatProjectFactsBlock(profile: ProjectProfile) {
+  const f = profile.facts;
+  const lines = [
+    f.equipment ? `- equipment: ${f.equipment}` : "",
+    f.roofBrand ? `- roof brand: ${f.roofBrand}` : "",
+    f.location ? `- job location: ${f.location}` : "",
+  ].filter(Boolean);
+
+  return lines.length ? `Project facts (from the user; do not re-ask):\n${lines.join("\n")}` : "";
+}
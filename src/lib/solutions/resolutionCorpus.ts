@@ -0,0 +1,97 @@
+// src/lib/solutions/resolutionCorpus.ts
+import { explainCanonicalResolution, type ResolutionCandidate } from "./resolveCanonicalSolution";
+
+/**
+ * Real rep phrasings → the folder resolveCanonicalSolution must pick.
+ * Table-driven regression guard: add a row whenever a phrasing resolves wrong in the field,
+ * then tune aliases / keywords / bonuses until every row passes (see /admin/resolver).
+ *
+ * `expected: null` rows are off-topic messages that must NOT resolve to a solution.
+ */
+export type ResolutionCase = {
+  text: string;
+  expected: string | null;
+};
+
+export const RESOLUTION_CORPUS: ResolutionCase[] = [
+  // HVAC / mechanical tie-down
+  { text: "existing mechanical tie down", expected: "solutions/hvac" },
+  { text: "mechanical tie-down on a TPO roof", expected: "solutions/hvac" },
+  { text: "tie down an existing RTU", expected: "solutions/hvac" },
+  { text: "need to secure an air handler", expected: "solutions/hvac" },
+
+  // Boxes
+  { text: "parapet box", expected: "solutions/wall-box" },
+  { text: "wall mounted enclosure on the parapet", expected: "solutions/wall-box" },
+  { text: "roof box on EPDM", expected: "solutions/roof-box" },
+  { text: "rooftop box for a disconnect", expected: "solutions/roof-box" },
+
+  // Snow retention
+  { text: "snow guards on PVC", expected: "solutions/snow-retention" },
+  { text: "snow fence", expected: "solutions/snow-retention" },
+  { text: "two pipe snow fence", expected: "solutions/snow-retention/2-pipe-snow-fence" },
+  { text: "2-pipe snow retention on TPO", expected: "solutions/snow-retention/2-pipe-snow-fence" },
+  { text: "unitized fence", expected: "solutions/snow-retention/unitized-snow-fence" },
+  { text: "fence panels for snow", expected: "solutions/snow-retention/unitized-snow-fence" },
+
+  // Pipe frame
+  { text: "roof mounted h-frame", expected: "solutions/pipe-frame/attached" },
+  { text: "attached pipe frame", expected: "solutions/pipe-frame/attached" },
+  { text: "h frame for conduit", expected: "solutions/pipe-frame/attached" },
+  { text: "retrofit existing frame", expected: "solutions/pipe-frame/existing" },
+  { text: "existing pipe frame re-secure", expected: "solutions/pipe-frame/existing" },
+  { text: "existing h frame", expected: "solutions/pipe-frame/existing" },
+
+  // Elevated stacks
+  { text: "wall stack", expected: "solutions/elevated-stack/wall-stack" },
+  { text: "parapet stack", expected: "solutions/elevated-stack/wall-stack" },
+  { text: "exhaust stack on roof", expected: "solutions/elevated-stack/roof-stack" },
+  { text: "roof stack on PVC", expected: "solutions/elevated-stack/roof-stack" },
+
+  // Duct
+  { text: "duct support", expected: "solutions/duct-securement" },
+  { text: "ductwork securement on TPO", expected: "solutions/duct-securement" },
+  { text: "rooftop duct", expected: "solutions/duct-securement" },
+
+  // Screens / signage
+  { text: "rooftop screen", expected: "solutions/equipment-screen" },
+  { text: "equipment screen on TPO", expected: "solutions/equipment-screen" },
+  { text: "windscreen", expected: "solutions/equipment-screen" },
+  { text: "signage", expected: "solutions/signage" },
+  { text: "rooftop sign on the parapet", expected: "solutions/signage" },
+
+  // Light / camera
+  { text: "light mount", expected: "solutions/light-mount" },
+  { text: "flood light on the roof", expected: "solutions/light-mount" },
+  { text: "security camera on parapet", expected: "solutions/camera-mount" },
+  { text: "cctv mount", expected: "solutions/camera-mount" },
+
+  // Solar
+  { text: "solar racking", expected: "solutions/solar" },
+  { text: "PV array on TPO", expected: "solutions/solar" },
+  { text: "photovoltaic panels", expected: "solutions/solar" },
+
+  // Off-topic
+  { text: "what's the lead time", expected: null },
+  { text: "hello", expected: null },
+];
+
+export type ResolutionCaseResult = ResolutionCase & {
+  actual: string | null;
+  pass: boolean;
+  winner: ResolutionCandidate | null;
+};
+
+export function runResolutionCorpus(cases: ResolutionCase[] = RESOLUTION_CORPUS) {
+  const results: ResolutionCaseResult[] = cases.map((c) => {
+    const { winner } = explainCanonicalResolution(c.text);
+    const actual = winner?.folder ?? null;
+    return { ...c, actual, pass: actual === c.expected, winner };
+  });
+
+  return {
+    results,
+    passed: results.filter((r) => r.pass).length,
+    failed: results.filter((r) => !r.pass).length,
+  };
+}
@@ -1,5 +1,5 @@
 // src/lib/solutions/resolveCanonicalSolution.ts
-import { CANONICAL_SOLUTIONS } from "./canonicalSolutions";
+import { getCanonicalSolutions } from "./catalog";
 
 /**
  * TEXT-ONLY resolver that behaves like a “Custom GPT parameter picker”.
@@ -17,30 +17,72 @@ import { CANONICAL_SOLUTIONS } from "./canonicalSolutions";
  * Examples:
  * - "light mount" -> "solutions/light-mount"
  * - "roof mounted h-frame" -> "solutions/pipe-frame/attached"
- * - "existing mechanical tie down" -> "solutions/pipe-frame/existing"
+ * - "existing mechanical tie down" -> "solutions/hvac"
  */
 export function resolveCanonicalSolution(text: string): string | null {
-  const raw = String(text || "").trim();
-  if (!raw) return null;
-
-  const t = normalizeIntentText(raw);
+  return explainCanonicalResolution(text).winner?.folder ?? null;
+}
 
-  // “GPT parameters” (used only for tie-breaking)
-  const wantsExisting = /\b(existing|retrofit|re[-\s]?secure|re[-\s]?tie|tie[-\s]?down)\b/i.test(t);
+/** Lightweight “GPT parameters” read from the text (tie-breakers only). */
+export type ResolutionSignals = {
+  wantsExisting: boolean;
+  wantsWall: boolean;
+  wantsRoof: boolean;
+  mentionsGuyWire: boolean;
+  mentionsBox: boolean;
+  mentionsStack: boolean;
+};
+
+export type ResolutionCandidate = {
+  key: string;
+  folder: string;
+  /** text the solution's regex matched (after normalization) */
+  matchText: string;
+  score: number;
+  breakdown: {
+    matchLen: number;
+    keywords: number;
+    keywordHits: string[];
+    storageFolder: number;
+    generalPenalty: number;
+    intent: number;
+    /** human-readable reasons behind `intent` (ex: "existing → /existing +14") */
+    intentReasons: string[];
+  };
+};
+
+export type ResolutionExplanation = {
+  input: string;
+  normalized: string;
+  signals: ResolutionSignals;
+  /** every solution whose regex matched, best first (ties keep catalog order, like the resolver) */
+  candidates: ResolutionCandidate[];
+  winner: ResolutionCandidate | null;
+};
 
-  const wantsWall =
-    /\b(wall|parapet|vertical)\b/i.test(t) && !/\b(roof|rooftop)\b/i.test(t);
+/**
+ * Same scoring as resolveCanonicalSolution, but returns every matching candidate
+ * with its score breakdown so a wrong pick can be traced back to the term that caused it.
+ */
+export function explainCanonicalResolution(text: string): ResolutionExplanation {
+  const raw = String(text || "").trim();
 
-  const wantsRoof = /\b(roof|rooftop)\b/i.test(t);
+  const t = raw ? normalizeIntentText(raw) : "";
 
-  // Some intent hints (optional tie-breakers)
-  const mentionsGuyWire = /\b(guy\s*wire|guy-wire|tie[-\s]?down)\b/i.test(t);
-  const mentionsBox = /\bbox|enclosure|disconnect\b/i.test(t);
-  const mentionsStack = /\b(stack|exhaust)\b/i.test(t);
+  const signals: ResolutionSignals = {
+    // Existing vs new
+    wantsExisting: /\b(existing|retrofit|re[-\s]?secure|re[-\s]?tie|tie[-\s]?down)\b/i.test(t),
+    wantsWall: /\b(wall|parapet|vertical)\b/i.test(t) && !/\b(roof|rooftop)\b/i.test(t),
+    wantsRoof: /\b(roof|rooftop)\b/i.test(t),
+    // Some intent hints (optional tie-breakers)
+    mentionsGuyWire: /\b(guy\s*wire|guy-wire|tie[-\s]?down)\b/i.test(t),
+    mentionsBox: /\bbox|enclosure|disconnect\b/i.test(t),
+    mentionsStack: /\b(stack|exhaust)\b/i.test(t),
+  };
 
-  let best: { folder: string; score: number } | null = null;
+  const candidates: ResolutionCandidate[] = [];
 
-  for (const sol of CANONICAL_SOLUTIONS) {
+  for (const sol of t ? getCanonicalSolutions() : []) {
     // defensive reset in case regex gets a global flag later
     sol.match.lastIndex = 0;
 
@@ -48,13 +90,12 @@ export function resolveCanonicalSolution(text: string): string | null {
     if (!m) continue;
 
     const matchText = String(m[0] || "").toLowerCase();
-    const matchLenScore = Math.min(34, matchText.length); // longer == more specific (capped)
+    const matchLen = Math.min(34, matchText.length); // longer == more specific (capped)
 
-    const keywordScore = (sol.keywords || []).reduce((acc, kw) => {
-      const k = String(kw || "").toLowerCase().trim();
-      if (!k) return acc;
-      return t.includes(k) ? acc + 6 : acc;
-    }, 0);
+    const keywordHits = (sol.keywords || [])
+      .map((kw) => String(kw || "").toLowerCase().trim())
+      .filter((k) => k && t.includes(k));
+    const keywords = keywordHits.length * 6;
 
     const folder = String(sol.storageFolder || "").trim();
     const securing = String(sol.securing || "").trim();
@@ -63,7 +104,7 @@ export function resolveCanonicalSolution(text: string): string | null {
     const candidate = folder || (securing ? `solutions/${securing}` : "");
     if (!candidate) continue;
 
-    const hasStorageFolderBonus = folder ? 14 : 0;
+    const storageFolder = folder ? 14 : 0;
 
     // Penalize “general buckets” so specifics win when both match
     const isGeneralBucket =
@@ -71,54 +112,73 @@ export function resolveCanonicalSolution(text: string): string | null {
 
     const generalPenalty = isGeneralBucket ? -12 : 0;
 
-    // Tie-breaker intent bonuses (small + only when relevant)
-    let intentBonus = 0;
-
-    // Existing vs new (stronger because it changes solutions, esp tie-down vs frame)
-    if (wantsExisting) {
-      if (candidate.includes("/existing")) intentBonus += 14;
-      if (candidate.includes("/attached")) intentBonus -= 6;
-    } else {
-      // If NOT existing, slightly prefer attached over existing when both match
-      if (candidate.includes("/attached")) intentBonus += 4;
-      if (candidate.includes("/existing")) intentBonus -= 2;
-    }
-
-    // Roof vs wall (matters for stacks + boxes + guardrails)
-    if (wantsWall) {
-      if (candidate.includes("/wall-") || candidate.includes("wall-box") || candidate.includes("wall-guardrail"))
-        intentBonus += 12;
-      if (candidate.includes("/roof-") || candidate.includes("roof-box") || candidate.includes("roof-guardrail"))
-        intentBonus -= 3;
-    }
-
-    if (wantsRoof) {
-      if (candidate.includes("/roof-") || candidate.includes("roof-box") || candidate.includes("roof-guardrail"))
-        intentBonus += 7;
-    }
-
-    // Guy-wire hint (tie-down solutions; your rule: guy wire kits → 2000 series tie-down)
-    if (mentionsGuyWire) {
-      if (candidate.includes("guy-wire") || candidate.includes("/existing") || candidate.includes("elevated-stack/roof-stack"))
-        intentBonus += 10;
-    }
-
-    // Box / stack hint (nudges only—don’t override a clear regex match)
-    if (mentionsBox) {
-      if (candidate.includes("roof-box") || candidate.includes("wall-box") || candidate.includes("electrical-disconnect"))
-        intentBonus += 6;
-    }
-    if (mentionsStack) {
-      if (candidate.includes("elevated-stack")) intentBonus += 6;
-    }
-
-    const score =
-      matchLenScore + keywordScore + hasStorageFolderBonus + intentBonus + generalPenalty;
-
-    if (!best || score > best.score) best = { folder: candidate, score };
+    const { intent, intentReasons } = intentBonusFor(candidate, signals);
+
+    candidates.push({
+      key: sol.key,
+      folder: candidate,
+      matchText,
+      score: matchLen + keywords + storageFolder + intent + generalPenalty,
+      breakdown: { matchLen, keywords, keywordHits, storageFolder, generalPenalty, intent, intentReasons },
+    });
+  }
+
+  // stable sort: equal scores keep catalog order, so the first-best still wins
+  candidates.sort((a, b) => b.score - a.score);
+
+  return { input: raw, normalized: t, signals, candidates, winner: candidates[0] ?? null };
+}
+
+/**
+ * Tie-breaker intent bonuses (small + only when relevant).
+ */
+function intentBonusFor(candidate: string, s: ResolutionSignals) {
+  let intent = 0;
+  const intentReasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    intent += points;
+    intentReasons.push(`${reason} ${points > 0 ? "+" : ""}${points}`);
+  };
+
+  // Existing vs new (stronger because it changes solutions, esp tie-down vs frame)
+  if (s.wantsExisting) {
+    if (candidate.includes("/existing")) add(14, "existing → /existing");
+    if (candidate.includes("/attached")) add(-6, "existing → /attached");
+  } else {
+    // If NOT existing, slightly prefer attached over existing when both match
+    if (candidate.includes("/attached")) add(4, "new → /attached");
+    if (candidate.includes("/existing")) add(-2, "new → /existing");
+  }
+
+  // Roof vs wall (matters for stacks + boxes + guardrails)
+  if (s.wantsWall) {
+    if (candidate.includes("/wall-") || candidate.includes("wall-box") || candidate.includes("wall-guardrail"))
+      add(12, "wall → wall variant");
+    if (candidate.includes("/roof-") || candidate.includes("roof-box") || candidate.includes("roof-guardrail"))
+      add(-3, "wall → roof variant");
+  }
+
+  if (s.wantsRoof) {
+    if (candidate.includes("/roof-") || candidate.includes("roof-box") || candidate.includes("roof-guardrail"))
+      add(7, "roof → roof variant");
+  }
+
+  // Guy-wire hint (tie-down solutions; your rule: guy wire kits → 2000 series tie-down)
+  if (s.mentionsGuyWire) {
+    if (candidate.includes("guy-wire") || candidate.includes("/existing") || candidate.includes("elevated-stack/roof-stack"))
+      add(10, "guy wire / tie-down");
+  }
+
+  // Box / stack hint (nudges only—don’t override a clear regex match)
+  if (s.mentionsBox) {
+    if (candidate.includes("roof-box") || candidate.includes("wall-box") || candidate.includes("electrical-disconnect"))
+      add(6, "box mention");
+  }
+  if (s.mentionsStack) {
+    if (candidate.includes("elevated-stack")) add(6, "stack mention");
   }
 
-  return best?.folder ?? null;
+  return { intent, intentReasons };
 }
 
 /**
@@ -144,7 +204,7 @@ function normalizeIntentText(input: string) {
   t = t.replace(/\broof\s*mounted\s*h[-\s]*frame\b/g, "pipe frame attached");
   t = t.replace(/\battached\s*pipe[-\s]*frame\b/g, "pipe frame attached");
   t = t.replace(/\bpipe[-\s]*frame\s*attached\b/g, "pipe frame attached");
-  t = t.replace(/\bh[-\s]*frame\b/g, "pipe frame"); // generic
+  t = t.replace(/\bh[-\s]*frame\b/g, "h-frame pipe frame"); // generic (keep "h-frame" so the solution regexes still see it)
 
   // Snow retention
   t = t.replace(/\bsnow\s*fence\b/g, "snow retention snow fence");
@@ -160,8 +220,9 @@ function normalizeIntentText(input: string) {
   t = t.replace(/\bretro[-\s]?fit\b/g, "existing");
   t = t.replace(/\bre[-\s]?secure\b/g, "existing");
   t = t.replace(/\bre[-\s]?tie\b/g, "existing tie-down");
-  t = t.replace(/\btie[-\s]?down\b/g, "existing tie-down");
+  // must run before the generic tie-down alias, which would split "mechanical … tie-down"
   t = t.replace(/\bmechanical\s*tie[-\s]?down\b/g, "hvac existing tie-down"); // common sales phrasing
+  t = t.replace(/(?<!existing )\btie[-\s]?down\b/g, "existing tie-down");
 
   // Guy wire kit naming
   t = t.replace(/\bguy[-\s]*wire\s*kit\b/g, "guy wire");
@@ -0,0 +1,81 @@
+// src/lib/voice/playback.ts
+
+/**
+ * Browser side of voice: recording support checks and read-aloud playback.
+ * Read-aloud asks /api/voice/speech first and falls back to the device's speechSynthesis when the
+ * server has no TTS (501), errors, or the network is gone.
+ */
+
+export const READ_ALOUD_STORAGE_KEY = "copilot:readAloud";
+
+let current: HTMLAudioElement | null = null;
+let currentUrl: string | null = null;
+
+export function canRecordAudio() {
+  return typeof window !== "undefined" && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== "undefined";
+}
+
+/** First container the browser can record (Safari only does mp4). */
+export function recordingMimeType() {
+  if (typeof MediaRecorder === "undefined") return "";
+  return ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"].find((t) =>
+    MediaRecorder.isTypeSupported(t)
+  ) ?? "";
+}
+
+export function stopSpeaking() {
+  if (current) {
+    current.pause();
+    current = null;
+  }
+  if (currentUrl) {
+    URL.revokeObjectURL(currentUrl);
+    currentUrl = null;
+  }
+  if (typeof window !== "undefined" && window.speechSynthesis) window.speechSynthesis.cancel();
+}
+
+function speakWithBrowser(text: string) {
+  return new Promise<void>((resolve) => {
+    if (typeof window === "undefined" || !window.speechSynthesis) return resolve();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+/** Read text aloud; resolves when playback ends (or is stopped). */
+export async function speakText(text: string) {
+  stopSpeaking();
+  const clean = String(text || "").trim();
+  if (!clean) return;
+
+  let audio: Blob | null = null;
+  try {
+    const res = await fetch("/api/voice/speech", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: clean }),
+    });
+    if (res.ok) audio = await res.blob();
+  } catch {
+    // offline: the device voice still works
+  }
+
+  if (!audio) return speakWithBrowser(clean);
+
+  const url = URL.createObjectURL(audio);
+  const el = new Audio(url);
+  current = el;
+  currentUrl = url;
+
+  await new Promise<void>((resolve) => {
+    el.onended = () => resolve();
+    el.onerror = () => resolve();
+    el.onpause = () => resolve();
+    el.play().catch(() => resolve());
+  });
+
+  if (current === el) stopSpeaking();
+}
@@ -0,0 +1,214 @@
+// src/lib/voice/providers.ts
+import OpenAI, { toFile } from "openai";
+import { classifyLLMError, LLMError } from "@/lib/llm/client";
+import type { LLMCallLog } from "@/lib/llm/telemetry";
+
+/**
+ * Speech-to-text and text-to-speech for hands-free chat. Same "<provider>:<model>" specs as the LLM registry:
+ *
+ * - VOICE_TRANSCRIBE (default openai:gpt-4o-mini-transcribe)
+ *     openai → OpenAI /v1/audio/transcriptions
+ *     local  → any Whisper-compatible server with the same endpoint (faster-whisper-server, speaches,
+ *              whisper.cpp --server): LOCAL_WHISPER_BASE_URL, default localhost:8000
+ *     mock   → fixed transcript, no network
+ * - VOICE_TTS (default openai:gpt-4o-mini-tts; "browser" leaves read-aloud to the device's speechSynthesis)
+ *     openai / local (LOCAL_TTS_BASE_URL, OpenAI-compatible /v1/audio/speech) / mock (silent wav)
+ *
+ * Calls land in llm_calls (purpose transcription / speech) like every other model call.
+ */
+
+const DEFAULT_TRANSCRIBE_SPEC = "openai:gpt-4o-mini-transcribe";
+const DEFAULT_TTS_SPEC = "openai:gpt-4o-mini-tts";
+const DEFAULT_LOCAL_WHISPER_BASE_URL = "http://localhost:8000/v1";
+const DEFAULT_VOICE = "alloy";
+/** what a rep dictates in one push; longer clips are refused before they cost anything */
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+/** answers are short; this caps a runaway one */
+export const MAX_SPEECH_CHARS = 4000;
+
+export type TranscribeResult = {
+  text: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+};
+
+export type SpeechResult = {
+  audio: ArrayBuffer;
+  contentType: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+};
+
+export type Transcriber = {
+  name: string;
+  provider: string;
+  model: string;
+  transcribe: (audio: Blob, opts?: { filename?: string; prompt?: string; signal?: AbortSignal }) => Promise<TranscribeResult>;
+};
+
+export type SpeechSynth = {
+  name: string;
+  provider: string;
+  model: string;
+  speak: (text: string, opts?: { voice?: string; signal?: AbortSignal }) => Promise<SpeechResult>;
+};
+
+/** Domain words Whisper otherwise mangles ("you 2400", "TPO" → "teepee-o"). */
+export const TRANSCRIBE_PROMPT =
+  "Anchor Products rooftop attachment: U2400, U3600, 2000-series, 3000-series, guy wire kit, TPO, PVC, EPDM, SBS, APP, KEE, mod bit, RTU, HVAC, pipe frame, H-frame, snow fence, parapet.";
+
+function parseSpec(spec: string, known: string[]) {
+  const trimmed = spec.trim();
+  const i = trimmed.indexOf(":");
+  const provider = (i < 0 ? trimmed : trimmed.slice(0, i)).trim().toLowerCase();
+  const model = i < 0 ? "" : trimmed.slice(i + 1).trim();
+  if (!known.includes(provider)) throw new Error(`Unknown voice provider "${provider}" (${known.join(" | ")})`);
+  return { provider, model };
+}
+
+function openaiClient(provider: string, model: string) {
+  if (provider === "local") {
+    return new OpenAI({
+      baseURL: process.env.LOCAL_WHISPER_BASE_URL || DEFAULT_LOCAL_WHISPER_BASE_URL,
+      apiKey: process.env.LOCAL_WHISPER_API_KEY || "local",
+      maxRetries: 0,
+    });
+  }
+  if (!process.env.OPENAI_API_KEY) throw new LLMError("auth", "OPENAI_API_KEY is missing", { provider, model });
+  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 1 });
+}
+
+function speechClient(provider: string, model: string) {
+  if (provider === "local") {
+    return new OpenAI({
+      baseURL: process.env.LOCAL_TTS_BASE_URL || process.env.LOCAL_WHISPER_BASE_URL || DEFAULT_LOCAL_WHISPER_BASE_URL,
+      apiKey: process.env.LOCAL_TTS_API_KEY || "local",
+      maxRetries: 0,
+    });
+  }
+  return openaiClient(provider, model);
+}
+
+export function createTranscriber(spec: string): Transcriber {
+  const { provider, model: rawModel } = parseSpec(spec, ["openai", "local", "mock"]);
+  const model = rawModel || (provider === "mock" ? "fixed" : "whisper-1");
+
+  return {
+    name: `${provider}:${model}`,
+    provider,
+    model,
+    async transcribe(audio, opts = {}) {
+      const started = Date.now();
+      if (provider === "mock") {
+        return { text: "Mock transcript: securing an RTU on a TPO roof", provider, model, latencyMs: 0 };
+      }
+
+      try {
+        const file = await toFile(audio, opts.filename || "speech.webm", { type: audio.type || "audio/webm" });
+        const resp = await openaiClient(provider, model).audio.transcriptions.create(
+          { file, model, prompt: opts.prompt, response_format: "json" },
+          { signal: opts.signal }
+        );
+        return { text: String(resp.text || "").trim(), provider, model, latencyMs: Date.now() - started };
+      } catch (e) {
+        throw classifyLLMError(e, { provider, model });
+      }
+    },
+  };
+}
+
+/** 0.1s of silence: enough for the client to exercise playback without a model. */
+function silentWav() {
+  const samples = 800;
+  const buf = Buffer.alloc(44 + samples * 2);
+  buf.write("RIFF", 0);
+  buf.writeUInt32LE(36 + samples * 2, 4);
+  buf.write("WAVEfmt ", 8);
+  buf.writeUInt32LE(16, 16);
+  buf.writeUInt16LE(1, 20);
+  buf.writeUInt16LE(1, 22);
+  buf.writeUInt32LE(8000, 24);
+  buf.writeUInt32LE(16000, 28);
+  buf.writeUInt16LE(2, 32);
+  buf.writeUInt16LE(16, 34);
+  buf.write("data", 36);
+  buf.writeUInt32LE(samples * 2, 40);
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
+}
+
+export function createSpeechSynth(spec: string): SpeechSynth {
+  const { provider, model: rawModel } = parseSpec(spec, ["openai", "local", "mock"]);
+  const model = rawModel || (provider === "mock" ? "silence" : "tts-1");
+
+  return {
+    name: `${provider}:${model}`,
+    provider,
+    model,
+    async speak(text, opts = {}) {
+      const started = Date.now();
+      if (provider === "mock") {
+        return { audio: silentWav(), contentType: "audio/wav", provider, model, latencyMs: 0 };
+      }
+
+      try {
+        const resp = await speechClient(provider, model).audio.speech.create(
+          {
+            model,
+            voice: opts.voice || process.env.VOICE_TTS_VOICE || DEFAULT_VOICE,
+            input: text.slice(0, MAX_SPEECH_CHARS),
+            response_format: "mp3",
+          },
+          { signal: opts.signal }
+        );
+        return {
+          audio: await resp.arrayBuffer(),
+          contentType: "audio/mpeg",
+          provider,
+          model,
+          latencyMs: Date.now() - started,
+        };
+      } catch (e) {
+        throw classifyLLMError(e, { provider, model });
+      }
+    },
+  };
+}
+
+export function transcriberFromEnv(): Transcriber {
+  return createTranscriber(process.env.VOICE_TRANSCRIBE || DEFAULT_TRANSCRIBE_SPEC);
+}
+
+/** null when VOICE_TTS=browser: the client reads answers with the device's own voice. */
+export function speechSynthFromEnv(): SpeechSynth | null {
+  const spec = (process.env.VOICE_TTS || DEFAULT_TTS_SPEC).trim();
+  return spec.toLowerCase() === "browser" ? null : createSpeechSynth(spec);
+}
+
+/** One llm_calls row per voice call (no tokens; latency + outcome only). */
+export function recordVoiceCall(
+  log: LLMCallLog,
+  params: {
+    purpose: "transcription" | "speech";
+    provider: string;
+    model: string;
+    started: number;
+    error?: LLMError | null;
+  }
+) {
+  log.onCall({
+    purpose: params.purpose,
+    provider: params.provider,
+    model: params.model,
+    ok: !params.error,
+    errorKind: params.error?.kind ?? null,
+    errorMessage: params.error ? params.error.message.slice(0, 500) : null,
+    latencyMs: Date.now() - params.started,
+    inputTokens: null,
+    outputTokens: null,
+    attempt: 0,
+    fallbackUsed: false,
+    streamed: false,
+  });
+}
@@ -0,0 +1,88 @@
+-- match_knowledge_chunks: approved-only retrieval with solution / membrane / audience filters
+-- Untagged documents (null solution_slug / membrane) stay eligible as general knowledge.
+
+-- Audience the caller may read. Only the service role and internal profiles get their requested
+-- audience (null = no restriction); everyone else is held to external, whatever they pass.
+create or replace function public.knowledge_caller_audience(requested text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when coalesce(auth.role(), '') = 'service_role'
+      or exists (select 1 from public.profiles p where p.id = auth.uid() and p.user_type = 'internal')
+      then coalesce(requested, 'internal')
+    else 'external'
+  end;
+$$;
+
+revoke execute on function public.knowledge_caller_audience(text) from public, anon;
+grant execute on function public.knowledge_caller_audience(text) to authenticated, service_role;
+
+drop function if exists public.match_knowledge_chunks(vector, integer, text, text[]);
+
+create or replace function public.match_knowledge_chunks(
+  query_embedding vector,
+  match_count integer default 8,
+  filter_category text default null,
+  filter_product_tags text[] default null,
+  filter_solution_slug text default null,
+  filter_membrane text default null,
+  filter_audience text default null
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  title text,
+  content text,
+  similarity double precision,
+  solution_slug text,
+  membrane text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id as chunk_id,
+    c.document_id,
+    d.title,
+    c.content,
+    1 - (c.embedding <=> query_embedding) as similarity,
+    d.solution_slug,
+    d.membrane
+  from public.knowledge_chunks c
+  join public.knowledge_documents d on d.id = c.document_id
+  where d.status = 'approved'
+    and coalesce(d.allowed, true)
+    and coalesce(d.is_indexable, true)
+    and c.embedding is not null
+    and (filter_category is null or d.category = filter_category)
+    and (
+      filter_product_tags is null
+      or cardinality(filter_product_tags) = 0
+      or c.product_tags && filter_product_tags
+    )
+    and (
+      filter_solution_slug is null
+      or d.solution_slug is null
+      or lower(regexp_replace(d.solution_slug, '^solutions/', '')) = lower(filter_solution_slug)
+    )
+    and (
+      filter_membrane is null
+      or d.membrane is null
+      or lower(d.membrane) = lower(filter_membrane)
+    )
+    and (
+      (select public.knowledge_caller_audience(filter_audience)) = 'internal'
+      or coalesce(d.audience, 'both') in ('external', 'both')
+    )
+  order by c.embedding <=> query_embedding
+  limit greatest(match_count, 1);
+$$;
+
+grant execute on function public.match_knowledge_chunks(vector, integer, text, text[], text, text, text)
+  to authenticated, service_role;
@@ -0,0 +1,14 @@
+-- Server-side chat persistence: /api/chat writes both the UI thread (messages)
+-- and the learning transcript (chat_messages), and links sessions to conversations.
+
+alter table public.messages
+  add column if not exists meta jsonb not null default '{}'::jsonb;
+
+alter table public.chat_messages
+  add column if not exists meta jsonb not null default '{}'::jsonb;
+
+alter table public.chat_sessions
+  add column if not exists conversation_id uuid references public.conversations(id) on delete set null;
+
+create index if not exists chat_sessions_conversation_idx on public.chat_sessions (conversation_id);
+create index if not exists messages_conversation_created_idx on public.messages (conversation_id, created_at);
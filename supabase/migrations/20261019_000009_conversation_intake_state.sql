@@ -0,0 +1,4 @@
+-- Per-conversation intake slots (securing, membrane, mount surface…) for the chat intake engine.
+
+alter table public.conversations
+  add column if not exists intake_state jsonb not null default '{}'::jsonb;
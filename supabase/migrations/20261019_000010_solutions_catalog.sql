@@ -0,0 +1,817 @@
+-- Solution catalog: one row per Anchor solution. Drives the chat resolver / intake engine,
+-- the system prompt's solution mapping, lead form options and tackle box storage prefixes.
+-- Edited from /admin/solutions; the seed below is generated from src/lib/solutions/catalogSeed.ts.
+
+create table if not exists public.solutions (
+  key text primary key,
+  label text not null,
+  family text,
+  securing text not null,
+  storage_folder text,
+  summary text not null default '',
+  aliases text[] not null default '{}',
+  match_pattern text,
+  keywords text[] not null default '{}',
+  anchor_type text not null default 'unknown',
+  components text,
+  prompt_notes text[] not null default '{}',
+  doc_kinds text[] not null default '{}',
+  mount_surface text,
+  ask_steps text[] not null default '{}',
+  lead_label text,
+  lead_key text,
+  product_names text[] not null default '{}',
+  extra_prefixes text[] not null default '{}',
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  constraint solutions_anchor_type_check check (anchor_type in ('2000','3000','guy-wire','unknown')),
+  constraint solutions_mount_surface_check check (mount_surface is null or mount_surface in ('roof','wall'))
+);
+
+create index if not exists solutions_active_sort_idx on public.solutions (active, sort_order);
+
+alter table public.solutions enable row level security;
+
+-- Everyone signed in reads the catalog (chat, lead form, tackle box)
+create policy solutions_select_authenticated
+  on public.solutions
+  for select
+  to authenticated
+  using (true);
+
+-- Admins edit it
+create policy solutions_admin_write
+  on public.solutions
+  for all
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
+
+-- BEGIN GENERATED SEED
+-- from src/lib/solutions/catalogSeed.ts (npm run catalog:seed-sql); edit the TS seed, not this block.
+insert into public.solutions (
+  key, label, family, securing, storage_folder, summary, aliases, match_pattern, keywords, anchor_type, components, prompt_notes, doc_kinds, mount_surface, ask_steps, lead_label, lead_key, product_names, extra_prefixes, sort_order
+)
+values
+  (
+    'solar',
+    'Solar Racking',
+    null,
+    'solar',
+    'solutions/solar',
+    'Solar racking is typically supported using membrane-compatible rooftop attachments that provide stable connection points without compromising the roof system.',
+    array['solar', 'PV', 'photovoltaic', 'solar panels', 'racking'],
+    '\b(solar|pv|p\.?v\.?|photovoltaic|panel(?:s)?|array(?:s)?|racking|rack(?:s)?|rail(?:s)?)\b',
+    array['strut', 'rail', 'racking', 'pv'],
+    '2000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet', 'install_manual', 'cad_dwg', 'cad_step'],
+    null,
+    array['membrane', 'anchorType', 'wants'],
+    'Solar / PV Racking',
+    'solar',
+    '{}',
+    '{}',
+    10
+  ),
+  (
+    '2-pipe-snow-fence',
+    '2-Pipe Snow Fence',
+    'Snow Retention',
+    'snow-retention/2-pipe-snow-fence',
+    'solutions/snow-retention/2-pipe-snow-fence',
+    '2-pipe snow fence systems are typically supported using 2000-series anchors with piping/splices to create a continuous rooftop attachment approach.',
+    array['two-pipe snow fence'],
+    '\b((2|two)\s*[- ]?\s*pipe\b.*\b(snow\s*(retention|fence)|snow\s*guard|avalanche)\b|\b(snow\s*(retention|fence))\b.*\b(2|two)\s*[- ]?\s*pipe\b)\b',
+    array['two-pipe', 'snow fence', 'pipe', 'splices'],
+    '2000',
+    'with piping and splices',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    array['2-Pipe Snow Fence'],
+    '{}',
+    20
+  ),
+  (
+    'unitized-snow-fence',
+    'Unitized Snow Fence',
+    'Snow Retention',
+    'snow-retention/unitized-snow-fence',
+    'solutions/snow-retention/unitized-snow-fence',
+    'Unitized snow fence systems are commonly supported using rigid framing with 3000-series anchors for new installations.',
+    array['snow fence panels', 'unitized fence'],
+    '\b(unitized|unitised)\b.*\b(snow\s*(retention|fence)|snow\s*guard|avalanche)\b|\b(snow\s*(retention|fence))\b.*\b(unitized|unitised)\b',
+    array['unitized', 'snow fence'],
+    '3000',
+    'with rigid fence panels',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    array['Unitized Snow Fence'],
+    array['2pipe/snow-fence'],
+    30
+  ),
+  (
+    'snow-retention-general',
+    'Snow Retention',
+    null,
+    'snow-retention',
+    'solutions/snow-retention',
+    'Snow retention solutions vary by configuration (2-pipe vs unitized). The right docs depend on the fence type and roof conditions.',
+    array['snow fence', 'snow guards'],
+    '\b(snow\s*retention|snow\s*fence(?:s)?)\b',
+    array['snow retention', 'snow fence', 'unitized', '2-pipe', 'two-pipe'],
+    'unknown',
+    null,
+    '{}',
+    '{}',
+    null,
+    array['variant', 'membrane', 'wants'],
+    'Snow Retention',
+    'snow-retention',
+    '{}',
+    '{}',
+    40
+  ),
+  (
+    'pipe-frame-attached',
+    'Roof-Mounted H-Frame',
+    null,
+    'pipe-frame/attached',
+    'solutions/pipe-frame/attached',
+    'Attached pipe-frame securement (aka roof-mounted H-frame) typically uses rigid framing tied into membrane-compatible rooftop attachments for long-term stability.',
+    array['attached pipe frame', 'roof-mounted H-frame'],
+    '\b(attached\s*pipe[-\s]*frame|pipe[-\s]*frame\s*attached|roof[-\s]*mounted\s*h[-\s]*frame|roof\s*mounted\s*hframe|h[-\s]*frame)\b',
+    array['pipe frame', 'attached', 'roof-mounted h-frame', 'h-frame', 'strut'],
+    '3000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet', 'cad_dwg', 'cad_step', 'product_drawing'],
+    null,
+    array['membrane', 'wants'],
+    'Attached Pipe-Frame (Roof-Mounted H-Frame)',
+    'pipe-frame-attached',
+    array['Attached Pipe Frame'],
+    array['pipe-frame/attached', 'solutions/pipe-frame/attached', 'attached'],
+    50
+  ),
+  (
+    'pipe-frame-existing',
+    'Existing Pipe Frame',
+    null,
+    'pipe-frame/existing',
+    'solutions/pipe-frame/existing',
+    'Existing pipe-frame securement is typically handled as a re-secure approach (often tie-down style) depending on what’s already installed.',
+    array['existing frame', 're-secure', 'retrofit'],
+    '\b(existing\s*pipe[-\s]*frame|pipe[-\s]*frame\s*existing|existing\s*h[-\s]*frame|retrofit\s*pipe[-\s]*frame)\b',
+    array['existing frame', 'retrofit', 're-secure', 'tie-down', 'guy wire'],
+    'guy-wire',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    array['Existing Pipe Frame'],
+    array['solutions/pipe-frame/exisiting'],
+    60
+  ),
+  (
+    'duct-securement',
+    'Duct Securement',
+    null,
+    'duct-securement',
+    'solutions/duct-securement',
+    'Rooftop ductwork is typically supported using stable, non-penetrating attachment solutions that preserve the roof membrane while controlling movement over time.',
+    array['duct supports', 'ductwork', 'rooftop duct'],
+    '\b(duct\s*securement|ductwork\s*securement|duct\s*support(?:s)?|ductwork\s*support(?:s)?|rooftop\s*duct(?:s)?|ductwork)\b',
+    array['duct', 'ductwork', 'support', 'framing'],
+    '3000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Duct Securement',
+    'duct-securement',
+    '{}',
+    '{}',
+    70
+  ),
+  (
+    'hvac-existing-tie-down',
+    'Existing Mechanical Tie-Down',
+    null,
+    'hvac',
+    'solutions/hvac',
+    'HVAC units are typically stabilized using a mechanical tie-down approach with guy wire kits and 2000-series anchors.',
+    array['HVAC', 'RTU', 'rooftop unit', 'mechanical tie-down'],
+    '\b(hvac|rtu|rooftop\s*unit|air\s*handler|mechanical\s*unit)\b',
+    array['hvac', 'rtu', 'mechanical', 'tie-down', 'existing'],
+    'guy-wire',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'HVAC / RTU Securement',
+    'hvac-securement',
+    array['Existing Mechanical Tie-Down'],
+    '{}',
+    80
+  ),
+  (
+    'elevated-stack-roof',
+    'Roof-Mounted Elevated Stack',
+    'Elevated Stack',
+    'elevated-stack/roof-stack',
+    'solutions/elevated-stack/roof-stack',
+    'Roof-mounted stacks are commonly stabilized using tie-down style securement (not rigid framing), depending on the application.',
+    array['roof stack', 'exhaust stack'],
+    '\b(roof\s*stack|roof[-\s]*mounted\s*stack|roof\s*exhaust\s*stack|exhaust\s*stack)\b',
+    array['stack', 'exhaust', 'tie-down', 'guy wire'],
+    'guy-wire',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    'roof',
+    array['membrane', 'wants'],
+    'Elevated Stack (Roof-Mounted)',
+    'elevated-stack-roof',
+    array['Roof-Mounted Elevated Stack Securement'],
+    '{}',
+    90
+  ),
+  (
+    'elevated-stack-wall',
+    'Wall-Mounted Elevated Stack',
+    'Elevated Stack',
+    'elevated-stack/wall-stack',
+    'solutions/elevated-stack/wall-stack',
+    'Wall/parapet stacks are typically supported using attachment solutions that stabilize the assembly while preserving roof performance.',
+    array['wall stack', 'parapet stack'],
+    '\b(wall\s*stack|wall[-\s]*mounted\s*stack|parapet\s*stack)\b',
+    array['wall', 'parapet', 'stack'],
+    '2000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    'wall',
+    array['membrane', 'wants'],
+    'Elevated Stack (Wall / Parapet)',
+    'elevated-stack-wall',
+    array['Wall-Mounted Elevated Stack Securement'],
+    '{}',
+    100
+  ),
+  (
+    'roof-box',
+    'Roof-Mounted Box',
+    null,
+    'roof-box',
+    'solutions/roof-box',
+    'Roof-mounted boxes are typically supported using non-penetrating rooftop attachment points and framing while maintaining membrane compatibility.',
+    array['rooftop enclosure', 'equipment box'],
+    '\b(roof\s*box|roof[-\s]*mounted\s*box|rooftop\s*box|roof\s*mounted\s*enclosure)\b',
+    array['enclosure', 'strut', 'box'],
+    '2000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet', 'install_manual'],
+    'roof',
+    array['membrane', 'wants'],
+    'Roof Box',
+    'roof-box',
+    array['Roof Mounted Box'],
+    '{}',
+    110
+  ),
+  (
+    'wall-box',
+    'Wall-Mounted Box',
+    null,
+    'wall-box',
+    'solutions/wall-box',
+    'Wall/parapet-mounted boxes are typically supported using attachment solutions that stabilize the enclosure at the roof-to-wall interface.',
+    array['parapet box', 'wall enclosure'],
+    '\b(wall\s*box|wall[-\s]*mounted\s*box|wall\s*mounted\s*enclosure|parapet\s*box)\b',
+    array['wall', 'parapet', 'enclosure'],
+    '3000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    'wall',
+    array['membrane', 'wants'],
+    'Wall / Parapet Box',
+    'wall-box',
+    array['Wall Mounted Box'],
+    '{}',
+    120
+  ),
+  (
+    'equipment-screen',
+    'Equipment Screen',
+    null,
+    'equipment-screen',
+    'solutions/equipment-screen',
+    'Equipment screens are typically secured using 2000-series anchors with strut framing, similar to rooftop signage.',
+    array['rooftop screen', 'visual screen', 'windscreen'],
+    '\b(equipment\s*screen|rooftop\s*screen|visual\s*screen|wind\s*screen|windscreen)\b',
+    array['equipment screen', 'rooftop screen', 'visual screen', 'windscreen'],
+    '2000',
+    'with strut framing',
+    array['Typically secured the same way as signage'],
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Equipment Screen',
+    'equipment-screen',
+    '{}',
+    '{}',
+    130
+  ),
+  (
+    'signage',
+    'Signage',
+    null,
+    'signage',
+    'solutions/signage',
+    'Rooftop signage is commonly secured using 2000-series anchors with strut framing.',
+    array['rooftop sign', 'branded signage'],
+    '\b(signage|rooftop\s*sign|roof\s*sign|branded\s*sign)\b',
+    array['signage', 'rooftop sign', 'roof sign'],
+    '2000',
+    null,
+    array['Typically secured the same way as equipment screens'],
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Signage',
+    'signage',
+    '{}',
+    '{}',
+    140
+  ),
+  (
+    'light-mount',
+    'Light Mount',
+    null,
+    'light-mount',
+    'solutions/light-mount',
+    'Light mounts typically use 3000-series anchors with strut framing for rooftop lighting equipment.',
+    array['lighting mount', 'area light', 'flood light'],
+    '\b(light\s*mount|lighting\s*mount|area\s*light|flood\s*light)\b',
+    array['light mount', 'area light', 'flood light'],
+    '3000',
+    null,
+    array['Typically secured the same way as camera mounts'],
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Light Mount',
+    'light-mount',
+    '{}',
+    '{}',
+    150
+  ),
+  (
+    'camera-mount',
+    'Camera Mount',
+    null,
+    'camera-mount',
+    'solutions/camera-mount',
+    'Camera mounts typically use 3000-series anchors with strut framing for rooftop surveillance equipment.',
+    array['security camera', 'surveillance camera', 'cameras'],
+    '\b(camera\s*mount|camera|cctv|surveillance\s*camera|security\s*camera)\b',
+    array['camera mount', 'security camera', 'surveillance camera', 'cctv'],
+    '3000',
+    null,
+    array['Typically secured the same way as light mounts'],
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Camera Mount',
+    'camera-mount',
+    '{}',
+    '{}',
+    160
+  ),
+  (
+    'electrical-disconnect',
+    'Electrical Disconnect',
+    null,
+    'electrical-disconnect',
+    'solutions/electrical-disconnect',
+    'Electrical disconnects are typically supported using 2000-series anchors with strut framing.',
+    array['electrical box', 'service disconnect'],
+    null,
+    '{}',
+    '2000',
+    'with strut framing',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Electrical Disconnect',
+    'electrical-disconnect',
+    '{}',
+    '{}',
+    170
+  ),
+  (
+    'roof-pipe',
+    'Roof Pipe Securement',
+    null,
+    'roof-pipe',
+    'solutions/roof-pipe',
+    'Rooftop piping is typically supported using 3000-series anchors with adjustable, single, double, or roller supports.',
+    array['pipe supports', 'rooftop piping'],
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Roof Pipe Support',
+    'roof-pipe',
+    '{}',
+    '{}',
+    180
+  ),
+  (
+    'roof-pipe-adjustable',
+    'Adjustable Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/adjustable',
+    'solutions/roof-pipe/adjustable',
+    'Adjustable roof pipe supports set pipe height on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    181
+  ),
+  (
+    'roof-pipe-double',
+    'Double Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/double',
+    'solutions/roof-pipe/double',
+    'Double roof pipe supports carry two parallel runs on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    182
+  ),
+  (
+    'roof-pipe-roller',
+    'Roller Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/roller',
+    'solutions/roof-pipe/roller',
+    'Roller roof pipe supports allow thermal movement on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    183
+  ),
+  (
+    'roof-pipe-single',
+    'Single Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/single',
+    'solutions/roof-pipe/single',
+    'Single roof pipe supports carry one pipe run on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    184
+  ),
+  (
+    'roof-stairs-walkways',
+    'Roof Stairs & Walkways',
+    null,
+    'roof-stairs-walkways',
+    'solutions/roof-stairs-walkways',
+    'Roof stairs and walkways are typically supported using membrane-compatible rooftop attachments.',
+    array['roof stairs', 'crossover stairs', 'walkways'],
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Roof Stairs / Walkways',
+    'roof-stairs-walkways',
+    '{}',
+    '{}',
+    190
+  ),
+  (
+    'roof-stairs-double',
+    'Double Stair',
+    'Roof Stairs & Walkways',
+    'roof-stairs-walkways/double-stair',
+    'solutions/roof-stairs-walkways/double-stair',
+    'Double stairs cross obstructions from both sides using membrane-compatible rooftop attachments.',
+    '{}',
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    191
+  ),
+  (
+    'roof-stairs-single',
+    'Single Stair',
+    'Roof Stairs & Walkways',
+    'roof-stairs-walkways/single-stair',
+    'solutions/roof-stairs-walkways/single-stair',
+    'Single stairs step up to a level change using membrane-compatible rooftop attachments.',
+    '{}',
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    192
+  ),
+  (
+    'roof-walkways',
+    'Walkways',
+    'Roof Stairs & Walkways',
+    'roof-stairs-walkways/walkways',
+    'solutions/roof-stairs-walkways/walkways',
+    'Rooftop walkways protect the membrane along traffic paths using membrane-compatible rooftop attachments.',
+    '{}',
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    193
+  ),
+  (
+    'roof-guardrail',
+    'Roof-Mounted Guardrail',
+    'Guardrails',
+    'roof-guardrail',
+    'solutions/roof-guardrail',
+    'Roof-mounted guardrails are typically secured using 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    'roof',
+    array['membrane', 'wants'],
+    'Roof Guardrail',
+    'roof-guardrail',
+    array['Roof Mounted Guardrail'],
+    '{}',
+    200
+  ),
+  (
+    'wall-guardrail',
+    'Wall-Mounted Guardrail',
+    'Guardrails',
+    'wall-guardrail',
+    'solutions/wall-guardrail',
+    'Wall-mounted guardrails are typically secured using 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    'wall',
+    array['membrane', 'wants'],
+    null,
+    null,
+    array['Wall Mounted Guardrail'],
+    '{}',
+    210
+  ),
+  (
+    'roof-ladder',
+    'Roof Ladder',
+    null,
+    'roof-ladder',
+    'solutions/roof-ladder',
+    'Roof ladders are typically secured using 3000-series anchors with an adjustable strut bracket.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    'with adjustable strut bracket',
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Roof Ladder',
+    'roof-ladder',
+    '{}',
+    '{}',
+    220
+  ),
+  (
+    'weather-station',
+    'Weather Stations',
+    null,
+    'weather-station',
+    'solutions/weather-station',
+    'Weather stations are typically stabilized using guy wire kits with 2000-series anchors.',
+    array['rooftop sensors', 'monitoring stations'],
+    null,
+    '{}',
+    'guy-wire',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Weather Station',
+    'weather-station',
+    array['Weather Stations'],
+    '{}',
+    230
+  ),
+  (
+    'satellite-dish',
+    'Satellite Dish',
+    null,
+    'satellite-dish',
+    'solutions/satellite-dish',
+    'Satellite dishes are typically secured using 2000-series anchors.',
+    array['dish', 'satellite antenna'],
+    null,
+    '{}',
+    '2000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    240
+  ),
+  (
+    'antenna',
+    'Antenna',
+    null,
+    'antenna',
+    'solutions/antenna',
+    'Antennas are typically stabilized using guy wire kits with 2000-series anchors.',
+    array['communication antenna', 'RF antenna'],
+    null,
+    '{}',
+    'guy-wire',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    250
+  ),
+  (
+    'lightning',
+    'Lightning Protection',
+    null,
+    'lightning',
+    'solutions/lightning',
+    'Lightning protection systems are typically secured using 2000-series anchors.',
+    array['lightning arrestor', 'lightning rod system'],
+    null,
+    '{}',
+    '2000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    null,
+    '{}',
+    '{}',
+    260
+  ),
+  (
+    'guy-wire-kit',
+    'Guy Wire Kit',
+    null,
+    'guy-wire-kit',
+    'solutions/guy-wire-kit',
+    'Guy wire kits tie down rooftop equipment using 2000-series anchors only.',
+    array['guy wire', 'tie-down kit'],
+    null,
+    '{}',
+    'guy-wire',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    'Guy Wire Securement',
+    'guy-wire',
+    '{}',
+    '{}',
+    270
+  )
+on conflict (key) do nothing;
+-- END GENERATED SEED
@@ -0,0 +1,167 @@
+-- System prompt versions: assistant messages record meta.promptVersion (src/lib/chat/prompt.ts);
+-- index it so answers / feedback can be compared across prompt revisions.
+
+create index if not exists messages_prompt_version_idx
+  on public.messages ((meta->>'promptVersion'), created_at)
+  where role = 'assistant';
+
+-- The prompt mapping is generated from the catalog: list the roof pipe + roof stairs variants
+-- as their own rows instead of a free-text note.
+
+update public.solutions
+  set prompt_notes = '{}', updated_at = now()
+  where key = 'roof-pipe'
+    and prompt_notes = array['Variants: adjustable, single, double, or roller'];
+
+insert into public.solutions (
+  key, label, family, securing, storage_folder, summary, aliases, match_pattern, keywords, anchor_type, components, prompt_notes, doc_kinds, mount_surface, ask_steps, lead_label, product_names, extra_prefixes, sort_order
+)
+values
+  (
+    'roof-pipe-adjustable',
+    'Adjustable Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/adjustable',
+    'solutions/roof-pipe/adjustable',
+    'Adjustable roof pipe supports set pipe height on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    181
+  ),
+  (
+    'roof-pipe-double',
+    'Double Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/double',
+    'solutions/roof-pipe/double',
+    'Double roof pipe supports carry two parallel runs on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    182
+  ),
+  (
+    'roof-pipe-roller',
+    'Roller Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/roller',
+    'solutions/roof-pipe/roller',
+    'Roller roof pipe supports allow thermal movement on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    183
+  ),
+  (
+    'roof-pipe-single',
+    'Single Roof Pipe Support',
+    'Roof Pipe Securement',
+    'roof-pipe/single',
+    'solutions/roof-pipe/single',
+    'Single roof pipe supports carry one pipe run on 3000-series anchors.',
+    '{}',
+    null,
+    '{}',
+    '3000',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    184
+  ),
+  (
+    'roof-stairs-double',
+    'Double Stair',
+    'Roof Stairs & Walkways',
+    'roof-stairs-walkways/double-stair',
+    'solutions/roof-stairs-walkways/double-stair',
+    'Double stairs cross obstructions from both sides using membrane-compatible rooftop attachments.',
+    '{}',
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    191
+  ),
+  (
+    'roof-stairs-single',
+    'Single Stair',
+    'Roof Stairs & Walkways',
+    'roof-stairs-walkways/single-stair',
+    'solutions/roof-stairs-walkways/single-stair',
+    'Single stairs step up to a level change using membrane-compatible rooftop attachments.',
+    '{}',
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    192
+  ),
+  (
+    'roof-walkways',
+    'Walkways',
+    'Roof Stairs & Walkways',
+    'roof-stairs-walkways/walkways',
+    'solutions/roof-stairs-walkways/walkways',
+    'Rooftop walkways protect the membrane along traffic paths using membrane-compatible rooftop attachments.',
+    '{}',
+    null,
+    '{}',
+    'unknown',
+    null,
+    '{}',
+    array['sales_sheet', 'data_sheet', 'install_sheet'],
+    null,
+    array['membrane', 'wants'],
+    null,
+    '{}',
+    '{}',
+    193
+  )
+on conflict (key) do nothing;
@@ -0,0 +1,89 @@
+-- Engineering-escalation policy: admin-editable rules for the chat's pre-check (user message)
+-- and post-check (answer sentences), plus an audit log of every non-"allow" decision.
+-- Edited from /admin/escalation; DEFAULT_ESCALATION_RULES in src/lib/chat/escalationPolicy.ts
+-- mirrors the seed below.
+
+create table if not exists public.escalation_rules (
+  id text primary key,
+  stage text not null,
+  pattern text not null,
+  requires_pattern text,
+  action text not null,
+  reason text not null default '',
+  priority integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  constraint escalation_rules_stage_check check (stage in ('pre','post')),
+  constraint escalation_rules_action_check check (action in ('escalate','redact'))
+);
+
+alter table public.escalation_rules enable row level security;
+
+-- The chat reads rules with the signed-in user's client
+create policy escalation_rules_select_authenticated
+  on public.escalation_rules
+  for select
+  to authenticated
+  using (true);
+
+create policy escalation_rules_admin_write
+  on public.escalation_rules
+  for all
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
+
+insert into public.escalation_rules (id, stage, pattern, requires_pattern, action, reason, priority)
+values
+  ('pre.code-compliance', 'pre', '\b(code|ibc|asce|fm|ul)\b', null, 'escalate', 'Asks about code compliance or approvals', 10),
+  ('pre.load-calc', 'pre', '\b(wind|uplift|load|seismic)\b', '\b(calc|calculate|calculation|rating|psf|kpa|mph|pressure)\b', 'escalate', 'Asks for a load calculation or rating', 20),
+  ('pre.load-design', 'pre', '\b(wind|uplift|load|seismic)\b', '\bdesign\b', 'redact', 'Mentions loads in a design context', 30),
+  ('pre.layout', 'pre', '\b(spacing|layout|pattern)\b', null, 'redact', 'Asks for spacing or layout', 40),
+  ('pre.quantity', 'pre', '\bhow many\b', null, 'redact', 'Asks for anchor quantities', 50),
+  ('pre.torque-fastening', 'pre', '\b(torque|fasteners?|fastening)\b', null, 'redact', 'Asks for torque or fastening details', 60),
+  ('post.fastening-schedule', 'post', '\b(fastener\s*schedule|fastening\s*schedule|o\.?c\.?|on center)\b', null, 'redact', 'Answer gives a fastening schedule or on-center spacing', 110),
+  ('post.engineering-values', 'post', '\b(spacing|space|apart|layout|pattern|torque|fastener|schedule|design|pressure|uplift|seismic|wind)\b', '\b\d+(\.\d+)?\s*(psf|kpa|mph|lb|lbs|lbf|ft\.?|feet|in\.?|inch|inches|mm|cm)\b', 'redact', 'Answer gives engineering values with units', 120),
+  ('post.torque-values', 'post', '\b\d+(\.\d+)?\s*(ft[-\s]?lbs?|in[-\s]?lbs?|n[·\s-]?m)\b', null, 'redact', 'Answer gives a torque value', 130)
+on conflict (id) do nothing;
+
+-- Audit log: written by /api/chat with the service role (signed-out turns included)
+create table if not exists public.escalation_events (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid references auth.users(id) on delete set null,
+  conversation_id uuid references public.conversations(id) on delete set null,
+  outcome text not null,
+  rule_ids text[] not null default '{}',
+  -- [{ ruleId, stage, action, reason, excerpt }]
+  matches jsonb not null default '[]'::jsonb,
+  redacted_count integer not null default 0,
+  question text,
+  streamed boolean not null default false,
+  constraint escalation_events_outcome_check check (outcome in ('partial','escalate'))
+);
+
+create index if not exists escalation_events_created_idx on public.escalation_events (created_at desc);
+create index if not exists escalation_events_rule_ids_idx on public.escalation_events using gin (rule_ids);
+
+alter table public.escalation_events enable row level security;
+
+create policy escalation_events_admin_select
+  on public.escalation_events
+  for select
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
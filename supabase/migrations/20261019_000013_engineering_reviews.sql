@@ -0,0 +1,79 @@
+-- Engineering review tickets raised from escalated chat answers.
+-- Reps create them from the chat; internal users work them from /dashboard/reviews and the
+-- requesting rep is emailed (Resend) when a review is answered.
+
+create table if not exists public.engineering_reviews (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'open',
+  requested_by uuid not null references auth.users(id) on delete cascade,
+  requested_by_email text,
+  conversation_id uuid references public.conversations(id) on delete set null,
+  project_name text not null,
+  project_location text,
+  membrane text,
+  solution_key text,
+  solution_label text,
+  storage_folder text,
+  question text not null,
+  details text,
+  -- last turns of the conversation, captured when the ticket is created
+  transcript_excerpt text not null default '',
+  -- { outcome, pre, post, redacted } from the escalated assistant message
+  escalation jsonb not null default '{}'::jsonb,
+  -- [{ path, filename, contentType, size, uploadedAt }] in the engineering-review-uploads bucket
+  photos jsonb not null default '[]'::jsonb,
+  assigned_to uuid references public.profiles(id) on delete set null,
+  response text,
+  answered_at timestamptz,
+  answered_by uuid references auth.users(id) on delete set null,
+  notified_at timestamptz,
+  notify_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint engineering_reviews_status_check
+    check (status in ('open','in_review','needs_info','answered','closed'))
+);
+
+create index if not exists engineering_reviews_status_idx on public.engineering_reviews (status, created_at desc);
+create index if not exists engineering_reviews_requested_by_idx on public.engineering_reviews (requested_by);
+create index if not exists engineering_reviews_conversation_idx on public.engineering_reviews (conversation_id);
+
+alter table public.engineering_reviews enable row level security;
+
+-- Reps: read their own tickets (writes go through /api/engineering-reviews)
+create policy engineering_reviews_select_own
+  on public.engineering_reviews
+  for select
+  using (requested_by = auth.uid());
+
+-- Internal users: read/update the whole queue
+create policy engineering_reviews_internal_select_all
+  on public.engineering_reviews
+  for select
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role in ('admin','anchor_rep')
+    )
+  );
+
+create policy engineering_reviews_internal_update_all
+  on public.engineering_reviews
+  for update
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role in ('admin','anchor_rep')
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role in ('admin','anchor_rep')
+    )
+  );
+
+-- Private bucket for ticket photos; the API signs urls with the service role
+insert into storage.buckets (id, name, public)
+values ('engineering-review-uploads', 'engineering-review-uploads', false)
+on conflict (id) do nothing;
@@ -0,0 +1,39 @@
+-- Per-attempt LLM telemetry written by src/lib/llm/telemetry (service role).
+-- One row per chain step tried: the answering step has ok = true, failed steps carry error_kind.
+
+create table if not exists public.llm_calls (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  purpose text not null,
+  provider text not null,
+  model text not null,
+  ok boolean not null,
+  -- timeout | rate_limit | auth | bad_request | server | network | empty | aborted | unknown
+  error_kind text,
+  error_message text,
+  latency_ms integer not null default 0,
+  input_tokens integer,
+  output_tokens integer,
+  -- 0-based position in the fallback chain
+  attempt integer not null default 0,
+  fallback_used boolean not null default false,
+  streamed boolean not null default false,
+  user_id uuid references auth.users(id) on delete set null,
+  conversation_id uuid references public.conversations(id) on delete set null
+);
+
+create index if not exists llm_calls_created_idx on public.llm_calls (created_at desc);
+create index if not exists llm_calls_purpose_idx on public.llm_calls (purpose, created_at desc);
+create index if not exists llm_calls_failures_idx on public.llm_calls (created_at desc) where not ok;
+
+alter table public.llm_calls enable row level security;
+
+create policy llm_calls_admin_select
+  on public.llm_calls
+  for select
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
@@ -0,0 +1,121 @@
+-- Token / cost accounting on top of llm_calls (src/lib/llm/usage).
+-- Calls are priced when written, so editing llm_prices only affects new rows.
+
+alter table public.llm_calls add column if not exists cost_usd numeric(12, 6);
+
+create index if not exists llm_calls_user_idx on public.llm_calls (user_id, created_at desc);
+
+-- USD per million tokens; model "*" prices every model of a provider.
+create table if not exists public.llm_prices (
+  provider text not null,
+  model text not null,
+  input_per_mtok numeric(10, 4) not null default 0,
+  output_per_mtok numeric(10, 4) not null default 0,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  primary key (provider, model)
+);
+
+insert into public.llm_prices (provider, model, input_per_mtok, output_per_mtok) values
+  ('openai', 'gpt-5-mini', 0.25, 2),
+  ('openai', 'gpt-5', 1.25, 10),
+  ('openai', 'gpt-4.1-mini', 0.4, 1.6),
+  ('openai', 'text-embedding-3-small', 0.02, 0),
+  ('openai', 'text-embedding-3-large', 0.13, 0),
+  ('local', '*', 0, 0),
+  ('mock', '*', 0, 0)
+on conflict (provider, model) do nothing;
+
+-- Daily caps per profile role (UTC day). Null cap = unlimited on that axis.
+create table if not exists public.llm_quotas (
+  role text primary key check (role in ('admin', 'anchor_rep', 'external_rep')),
+  daily_tokens bigint check (daily_tokens is null or daily_tokens > 0),
+  daily_cost_usd numeric(10, 4) check (daily_cost_usd is null or daily_cost_usd > 0),
+  active boolean not null default true,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null
+);
+
+alter table public.llm_prices enable row level security;
+alter table public.llm_quotas enable row level security;
+
+create policy llm_prices_admin_all
+  on public.llm_prices
+  for all
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
+
+create policy llm_quotas_admin_all
+  on public.llm_quotas
+  for all
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
+
+-- Both functions run as the caller, so llm_calls RLS still limits them to admins (and the service role).
+
+-- One user's usage since a point in time (the quota check).
+create or replace function public.llm_user_usage(p_user_id uuid, p_since timestamptz)
+returns table (tokens bigint, cost_usd numeric)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(coalesce(c.input_tokens, 0) + coalesce(c.output_tokens, 0)), 0)::bigint,
+    coalesce(sum(c.cost_usd), 0)
+  from public.llm_calls c
+  where c.user_id = p_user_id and c.created_at >= p_since;
+$$;
+
+-- Usage rolled up per UTC day × user × purpose × provider × model (the admin dashboard).
+create or replace function public.llm_usage_daily(p_since timestamptz)
+returns table (
+  day date,
+  user_id uuid,
+  purpose text,
+  provider text,
+  model text,
+  calls bigint,
+  failed bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  cost_usd numeric
+)
+language sql
+stable
+as $$
+  select
+    (c.created_at at time zone 'utc')::date,
+    c.user_id,
+    c.purpose,
+    c.provider,
+    c.model,
+    count(*)::bigint,
+    count(*) filter (where not c.ok)::bigint,
+    coalesce(sum(c.input_tokens), 0)::bigint,
+    coalesce(sum(c.output_tokens), 0)::bigint,
+    coalesce(sum(c.cost_usd), 0)
+  from public.llm_calls c
+  where c.created_at >= p_since
+  group by 1, 2, 3, 4, 5
+  order by 1 desc;
+$$;
@@ -0,0 +1,115 @@
+-- Token buckets for the API rate limiter (src/lib/ratelimit). Written only through rate_limit_take()
+-- with the service role; admins read the counters on /admin/rate-limits.
+
+create table if not exists public.rate_limit_buckets (
+  -- "<policy>:<scope>:<subject>", ex: chat:user:<uuid>, docs:ip:203.0.113.7
+  key text primary key,
+  policy text not null,
+  scope text not null check (scope in ('user', 'ip')),
+  subject text not null,
+  tokens double precision not null,
+  capacity integer not null,
+  refill_per_sec double precision not null,
+  hits bigint not null default 0,
+  blocked bigint not null default 0,
+  last_blocked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_buckets_policy_idx on public.rate_limit_buckets (policy, updated_at desc);
+create index if not exists rate_limit_buckets_blocked_idx
+  on public.rate_limit_buckets (last_blocked_at desc)
+  where blocked > 0;
+
+alter table public.rate_limit_buckets enable row level security;
+
+create policy rate_limit_buckets_admin_select
+  on public.rate_limit_buckets
+  for select
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
+
+create policy rate_limit_buckets_admin_delete
+  on public.rate_limit_buckets
+  for delete
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role = 'admin'
+    )
+  );
+
+-- Per-policy counters for the admin page (runs as the caller, so the select policy above applies).
+create or replace view public.rate_limit_policy_totals
+with (security_invoker = true) as
+select
+  policy,
+  count(*)::bigint as buckets,
+  coalesce(sum(hits), 0)::bigint as hits,
+  coalesce(sum(blocked), 0)::bigint as blocked,
+  max(last_blocked_at) as last_blocked_at
+from public.rate_limit_buckets
+group by policy;
+
+-- Refill + take under a row lock (same arithmetic as takeFromBucket in tokenBucket.ts).
+create or replace function public.rate_limit_take(
+  p_key text,
+  p_policy text,
+  p_scope text,
+  p_subject text,
+  p_capacity integer,
+  p_refill_per_sec double precision,
+  p_cost integer default 1
+)
+returns table (allowed boolean, remaining double precision, retry_after_ms integer)
+language plpgsql
+as $$
+declare
+  b public.rate_limit_buckets%rowtype;
+  v_tokens double precision;
+  v_allowed boolean;
+begin
+  insert into public.rate_limit_buckets (key, policy, scope, subject, tokens, capacity, refill_per_sec)
+  values (p_key, p_policy, p_scope, p_subject, p_capacity, p_capacity, p_refill_per_sec)
+  on conflict (key) do nothing;
+
+  select * into b from public.rate_limit_buckets where key = p_key for update;
+
+  v_tokens := least(
+    p_capacity::double precision,
+    b.tokens + greatest(0, extract(epoch from (now() - b.updated_at))) * p_refill_per_sec
+  );
+  v_allowed := v_tokens >= p_cost;
+  if v_allowed then
+    v_tokens := v_tokens - p_cost;
+  end if;
+
+  update public.rate_limit_buckets
+  set tokens = v_tokens,
+      capacity = p_capacity,
+      refill_per_sec = p_refill_per_sec,
+      hits = hits + case when v_allowed then 1 else 0 end,
+      blocked = blocked + case when v_allowed then 0 else 1 end,
+      last_blocked_at = case when v_allowed then last_blocked_at else now() end,
+      updated_at = now()
+  where key = p_key;
+
+  return query select
+    v_allowed,
+    v_tokens,
+    case
+      when v_allowed then 0
+      when p_refill_per_sec <= 0 then 60000
+      else ceil((p_cost - v_tokens) / p_refill_per_sec * 1000)::integer
+    end;
+end;
+$$;
+
+-- only the service role may spend (or probe) other people's buckets
+revoke execute on function public.rate_limit_take(text, text, text, text, integer, double precision, integer)
+  from public, anon, authenticated;
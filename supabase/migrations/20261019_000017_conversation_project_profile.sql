@@ -0,0 +1,6 @@
+-- Per-conversation project facts (membrane, roof brand, anchor series, equipment, mount surface,
+-- new vs existing, location) extracted each turn and editable in the chat's "Project facts" panel.
+-- Shape: { facts: {...}, sources: { <fact>: "llm" | "regex" | "user" }, updatedAt }
+
+alter table public.conversations
+  add column if not exists project_profile jsonb not null default '{}'::jsonb;
@@ -0,0 +1,6 @@
+-- Photos attached to chat messages (messages.meta.photos), stored under <user id>/<conversation id>/.
+-- Private bucket: uploads and signed urls go through /api/chat/photos with the service role.
+
+insert into storage.buckets (id, name, public)
+values ('chat-photos', 'chat-photos', false)
+on conflict (id) do nothing;
@@ -0,0 +1,29 @@
+-- Offline outbox replay: chat messages, feedback, corrections and leads queued on a device with no
+-- signal are replayed on reconnect with an X-Client-Request-Id. Rows keep it so a replay of something
+-- that already landed answers 409 { code: "duplicate" } instead of writing it twice.
+-- (Chat keeps it in messages.meta->>'clientRequestId'.)
+
+alter table public.leads
+  add column if not exists client_request_id text;
+
+create unique index if not exists leads_client_request_id_key
+  on public.leads (created_by, client_request_id)
+  where client_request_id is not null;
+
+alter table public.knowledge_feedback
+  add column if not exists client_request_id text;
+
+create unique index if not exists knowledge_feedback_client_request_id_key
+  on public.knowledge_feedback (user_id, client_request_id)
+  where client_request_id is not null;
+
+alter table public.knowledge_corrections
+  add column if not exists client_request_id text;
+
+create unique index if not exists knowledge_corrections_client_request_id_key
+  on public.knowledge_corrections (user_id, client_request_id)
+  where client_request_id is not null;
+
+create index if not exists messages_client_request_id_idx
+  on public.messages (conversation_id, ((meta->>'clientRequestId')))
+  where meta ? 'clientRequestId';
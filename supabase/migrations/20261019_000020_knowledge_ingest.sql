@@ -0,0 +1,47 @@
+-- Knowledge bucket ingestion (src/lib/knowledge/ingest.ts): every supported file in the "knowledge"
+-- storage bucket becomes one knowledge_documents row (keyed by storage_path) and its chunks.
+-- content_hash is the sha256 of the file bytes; an unchanged file is never re-chunked, and chunks keep
+-- their own content_hash so an edited file only re-embeds the passages that changed.
+--
+-- To index uploads as they land, add a database webhook on storage.objects (insert, update, delete)
+-- pointing at /api/ingest/webhook?secret=<INGEST_WEBHOOK_SECRET>.
+
+alter table public.knowledge_documents
+  add column if not exists content_hash text,
+  add column if not exists source_updated_at timestamptz,
+  add column if not exists indexed_at timestamptz,
+  add column if not exists chunk_count integer,
+  add column if not exists ingest_error text;
+
+-- ingested rows only: chat cards and corrections may share a storage_path
+create unique index if not exists knowledge_documents_ingested_path_key
+  on public.knowledge_documents (storage_path)
+  where content_hash is not null;
+
+alter table public.knowledge_chunks
+  add column if not exists content_hash text;
+
+create index if not exists knowledge_chunks_content_hash_idx
+  on public.knowledge_chunks (document_id, content_hash);
+
+-- Every object in the bucket (or under a prefix) with its last change, for the staleness check.
+create or replace function public.list_knowledge_objects_for_ingest(p_prefix text default null)
+returns table (name text, updated_at timestamptz, size bigint)
+language sql
+stable
+security definer
+set search_path = public, storage
+as $$
+  select
+    o.name,
+    coalesce(o.updated_at, o.created_at),
+    coalesce((o.metadata->>'size')::bigint, 0)
+  from storage.objects o
+  where o.bucket_id = 'knowledge'
+    and o.name not like '%.emptyFolderPlaceholder'
+    and (p_prefix is null or o.name like p_prefix || '%')
+  order by o.name;
+$$;
+
+revoke execute on function public.list_knowledge_objects_for_ingest(text) from public, anon, authenticated;
+grant execute on function public.list_knowledge_objects_for_ingest(text) to service_role;
@@ -0,0 +1,7 @@
+-- knowledge_chunks.token_count is now written by the shared chunker (src/lib/learning/chunk.ts).
+-- Backfill older rows with the same estimate it uses (estimateTokens: ~4 characters per token).
+
+update public.knowledge_chunks
+  set token_count = ceil(char_length(content) / 4.0)::integer
+  where token_count is null
+    and content is not null;
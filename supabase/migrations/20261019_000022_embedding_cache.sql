@@ -0,0 +1,118 @@
+-- Embedding service (src/lib/learning/embeddings.ts): vectors are cached by the sha256 of the embedded
+-- text and the model id ("text-embedding-3-small", or "model@dims" with OPENAI_EMBED_DIMENSIONS), so
+-- re-indexing unchanged text, or the same passage in two documents, never calls the API twice.
+--
+-- knowledge_chunks.embedding_model records which model produced each vector. After changing
+-- OPENAI_EMBED_MODEL, the re-embed job (src/lib/knowledge/reembed.ts, /api/knowledge/reembed cron or
+-- `npm run knowledge:reindex -- --reembed`) moves the chunks over in batches. Until it finishes, retrieval
+-- only matches chunks already on the current model: vectors from two models can't be compared.
+
+create table if not exists public.embedding_cache (
+  content_hash text not null,
+  model text not null,
+  embedding vector not null,
+  dims integer not null,
+  created_at timestamptz not null default now(),
+  primary key (content_hash, model)
+);
+
+-- service role only
+alter table public.embedding_cache enable row level security;
+
+alter table public.knowledge_chunks
+  add column if not exists embedding_model text;
+
+-- everything embedded so far used the default model
+update public.knowledge_chunks
+  set embedding_model = 'text-embedding-3-small'
+  where embedding_model is null
+    and embedding is not null;
+
+create index if not exists knowledge_chunks_embedding_model_idx
+  on public.knowledge_chunks (embedding_model);
+
+-- match_knowledge_chunks gains filter_embedding_model (null = any model, for older callers)
+drop function if exists public.match_knowledge_chunks(vector, integer, text, text[], text, text, text);
+
+create or replace function public.match_knowledge_chunks(
+  query_embedding vector,
+  match_count integer default 8,
+  filter_category text default null,
+  filter_product_tags text[] default null,
+  filter_solution_slug text default null,
+  filter_membrane text default null,
+  filter_audience text default null,
+  filter_embedding_model text default null
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  title text,
+  content text,
+  similarity double precision,
+  solution_slug text,
+  membrane text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id as chunk_id,
+    c.document_id,
+    d.title,
+    c.content,
+    1 - (c.embedding <=> query_embedding) as similarity,
+    d.solution_slug,
+    d.membrane
+  from public.knowledge_chunks c
+  join public.knowledge_documents d on d.id = c.document_id
+  where d.status = 'approved'
+    and coalesce(d.allowed, true)
+    and coalesce(d.is_indexable, true)
+    and c.embedding is not null
+    and (filter_embedding_model is null or c.embedding_model = filter_embedding_model)
+    and (filter_category is null or d.category = filter_category)
+    and (
+      filter_product_tags is null
+      or cardinality(filter_product_tags) = 0
+      or c.product_tags && filter_product_tags
+    )
+    and (
+      filter_solution_slug is null
+      or d.solution_slug is null
+      or lower(regexp_replace(d.solution_slug, '^solutions/', '')) = lower(filter_solution_slug)
+    )
+    and (
+      filter_membrane is null
+      or d.membrane is null
+      or lower(d.membrane) = lower(filter_membrane)
+    )
+    and (
+      (select public.knowledge_caller_audience(filter_audience)) = 'internal'
+      or coalesce(d.audience, 'both') in ('external', 'both')
+    )
+  order by c.embedding <=> query_embedding
+  limit greatest(match_count, 1);
+$$;
+
+grant execute on function public.match_knowledge_chunks(vector, integer, text, text[], text, text, text, text)
+  to authenticated, service_role;
+
+-- Chunks per embedding model, for the re-embed progress line.
+create or replace function public.knowledge_chunk_embedding_models()
+returns table (embedding_model text, chunks bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.embedding_model, count(*)
+  from public.knowledge_chunks c
+  group by c.embedding_model
+  order by count(*) desc;
+$$;
+
+revoke execute on function public.knowledge_chunk_embedding_models() from public, anon, authenticated;
+grant execute on function public.knowledge_chunk_embedding_models() to service_role;
@@ -0,0 +1,162 @@
+-- Hybrid retrieval (src/lib/knowledge/retrieve.ts): full-text search over chunk content and document
+-- titles runs next to the vector match, and the two rankings are fused. Exact product codes ("U2400",
+-- "U3600 SBS Torch") that embeddings blur together are matched as plain lexemes.
+--
+-- Both RPCs now return the document's series so retrieval can boost on it.
+
+alter table public.knowledge_chunks
+  add column if not exists fts tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists knowledge_chunks_fts_idx
+  on public.knowledge_chunks using gin (fts);
+
+alter table public.knowledge_documents
+  add column if not exists title_fts tsvector
+  generated always as (to_tsvector('english', coalesce(title, ''))) stored;
+
+create index if not exists knowledge_documents_title_fts_idx
+  on public.knowledge_documents using gin (title_fts);
+
+-- Any-word query: chat questions are long, so requiring every word (websearch_to_tsquery) finds nothing.
+-- Title hits weigh more than body hits.
+create or replace function public.search_knowledge_chunks(
+  query_text text,
+  match_count integer default 24,
+  filter_category text default null,
+  filter_product_tags text[] default null,
+  filter_solution_slug text default null,
+  filter_membrane text default null,
+  filter_audience text default null
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  title text,
+  content text,
+  keyword_rank real,
+  solution_slug text,
+  series text,
+  membrane text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select nullif(replace(plainto_tsquery('english', coalesce(query_text, ''))::text, ' & ', ' | '), '')::tsquery as query
+  )
+  select
+    c.id as chunk_id,
+    c.document_id,
+    d.title,
+    c.content,
+    ts_rank_cd(setweight(coalesce(d.title_fts, ''::tsvector), 'A') || c.fts, q.query, 32) as keyword_rank,
+    d.solution_slug,
+    d.series,
+    d.membrane
+  from q
+  join public.knowledge_chunks c on q.query is not null
+  join public.knowledge_documents d on d.id = c.document_id
+  where (c.fts @@ q.query or d.title_fts @@ q.query)
+    and d.status = 'approved'
+    and coalesce(d.allowed, true)
+    and coalesce(d.is_indexable, true)
+    and (filter_category is null or d.category = filter_category)
+    and (
+      filter_product_tags is null
+      or cardinality(filter_product_tags) = 0
+      or c.product_tags && filter_product_tags
+    )
+    and (
+      filter_solution_slug is null
+      or d.solution_slug is null
+      or lower(regexp_replace(d.solution_slug, '^solutions/', '')) = lower(filter_solution_slug)
+    )
+    and (
+      filter_membrane is null
+      or d.membrane is null
+      or lower(d.membrane) = lower(filter_membrane)
+    )
+    and (
+      (select public.knowledge_caller_audience(filter_audience)) = 'internal'
+      or coalesce(d.audience, 'both') in ('external', 'both')
+    )
+  order by keyword_rank desc
+  limit greatest(match_count, 1);
+$$;
+
+grant execute on function public.search_knowledge_chunks(text, integer, text, text[], text, text, text)
+  to authenticated, service_role;
+
+-- match_knowledge_chunks: same filters as 20261019_000022, plus series in the result
+drop function if exists public.match_knowledge_chunks(vector, integer, text, text[], text, text, text, text);
+
+create or replace function public.match_knowledge_chunks(
+  query_embedding vector,
+  match_count integer default 8,
+  filter_category text default null,
+  filter_product_tags text[] default null,
+  filter_solution_slug text default null,
+  filter_membrane text default null,
+  filter_audience text default null,
+  filter_embedding_model text default null
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  title text,
+  content text,
+  similarity double precision,
+  solution_slug text,
+  series text,
+  membrane text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id as chunk_id,
+    c.document_id,
+    d.title,
+    c.content,
+    1 - (c.embedding <=> query_embedding) as similarity,
+    d.solution_slug,
+    d.series,
+    d.membrane
+  from public.knowledge_chunks c
+  join public.knowledge_documents d on d.id = c.document_id
+  where d.status = 'approved'
+    and coalesce(d.allowed, true)
+    and coalesce(d.is_indexable, true)
+    and c.embedding is not null
+    and (filter_embedding_model is null or c.embedding_model = filter_embedding_model)
+    and (filter_category is null or d.category = filter_category)
+    and (
+      filter_product_tags is null
+      or cardinality(filter_product_tags) = 0
+      or c.product_tags && filter_product_tags
+    )
+    and (
+      filter_solution_slug is null
+      or d.solution_slug is null
+      or lower(regexp_replace(d.solution_slug, '^solutions/', '')) = lower(filter_solution_slug)
+    )
+    and (
+      filter_membrane is null
+      or d.membrane is null
+      or lower(d.membrane) = lower(filter_membrane)
+    )
+    and (
+      (select public.knowledge_caller_audience(filter_audience)) = 'internal'
+      or coalesce(d.audience, 'both') in ('external', 'both')
+    )
+  order by c.embedding <=> query_embedding
+  limit greatest(match_count, 1);
+$$;
+
+grant execute on function public.match_knowledge_chunks(vector, integer, text, text[], text, text, text, text)
+  to authenticated, service_role;
@@ -0,0 +1,223 @@
+-- Feedback-weighted retrieval (src/lib/knowledge/retrieve.ts, src/lib/knowledge/quarantine.ts).
+-- Chat ratings in knowledge_feedback (1–5 per chunk) now feed back into ranking:
+-- - both retrieval RPCs return feedback_score (smoothed mean rating mapped to -1..1) and downvotes
+-- - a chunk downvoted by KNOWLEDGE_QUARANTINE_DOWNVOTES distinct users is quarantined: is_indexable=false
+--   until an admin restores it from the knowledge admin page
+-- Only feedback newer than the last restore counts, so a restored chunk starts clean.
+
+alter table public.knowledge_chunks
+  add column if not exists is_indexable boolean not null default true,
+  add column if not exists quarantined_at timestamptz,
+  add column if not exists quarantine_reason text,
+  add column if not exists restored_at timestamptz,
+  add column if not exists restored_by uuid;
+
+create index if not exists knowledge_chunks_quarantined_idx
+  on public.knowledge_chunks (quarantined_at desc)
+  where quarantined_at is not null;
+
+create index if not exists knowledge_feedback_chunk_idx
+  on public.knowledge_feedback (chunk_id, created_at desc)
+  where chunk_id is not null;
+
+-- Ratings since the chunk was last restored, one vote per user (their mean rating), counted the same
+-- way as chunkVotes() in quarantine.ts. 3 is neutral; the +3 prior keeps a single user from swinging
+-- the score (one 1-star → -0.25, five users → -0.625).
+create or replace function public.knowledge_chunk_feedback(p_chunk_id uuid, p_since timestamptz)
+returns table (feedback_score double precision, upvotes integer, downvotes integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with per_user as (
+    select
+      avg(f.rating) as rating,
+      bool_or(f.rating >= 4) as up,
+      bool_or(f.rating <= 2) as down
+    from public.knowledge_feedback f
+    where f.chunk_id = p_chunk_id
+      and f.rating is not null
+      and f.user_id is not null
+      and f.created_at > coalesce(p_since, '-infinity'::timestamptz)
+    group by f.user_id
+  )
+  select
+    (coalesce(sum((u.rating - 3) / 2.0), 0) / (count(*) + 3))::double precision,
+    count(*) filter (where u.up)::integer,
+    count(*) filter (where u.down)::integer
+  from per_user u;
+$$;
+
+revoke execute on function public.knowledge_chunk_feedback(uuid, timestamptz) from public, anon, authenticated;
+grant execute on function public.knowledge_chunk_feedback(uuid, timestamptz) to service_role;
+
+-- match_knowledge_chunks: as in 20261019_000023, minus quarantined chunks, plus feedback
+drop function if exists public.match_knowledge_chunks(vector, integer, text, text[], text, text, text, text);
+
+create or replace function public.match_knowledge_chunks(
+  query_embedding vector,
+  match_count integer default 8,
+  filter_category text default null,
+  filter_product_tags text[] default null,
+  filter_solution_slug text default null,
+  filter_membrane text default null,
+  filter_audience text default null,
+  filter_embedding_model text default null
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  title text,
+  content text,
+  similarity double precision,
+  solution_slug text,
+  series text,
+  membrane text,
+  feedback_score double precision,
+  downvotes integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with hits as (
+    select
+      c.id as chunk_id,
+      c.document_id,
+      d.title,
+      c.content,
+      1 - (c.embedding <=> query_embedding) as similarity,
+      d.solution_slug,
+      d.series,
+      d.membrane,
+      c.restored_at
+    from public.knowledge_chunks c
+    join public.knowledge_documents d on d.id = c.document_id
+    where d.status = 'approved'
+      and coalesce(d.allowed, true)
+      and coalesce(d.is_indexable, true)
+      and c.is_indexable
+      and c.embedding is not null
+      and (filter_embedding_model is null or c.embedding_model = filter_embedding_model)
+      and (filter_category is null or d.category = filter_category)
+      and (
+        filter_product_tags is null
+        or cardinality(filter_product_tags) = 0
+        or c.product_tags && filter_product_tags
+      )
+      and (
+        filter_solution_slug is null
+        or d.solution_slug is null
+        or lower(regexp_replace(d.solution_slug, '^solutions/', '')) = lower(filter_solution_slug)
+      )
+      and (
+        filter_membrane is null
+        or d.membrane is null
+        or lower(d.membrane) = lower(filter_membrane)
+      )
+      and (
+        (select public.knowledge_caller_audience(filter_audience)) = 'internal'
+        or coalesce(d.audience, 'both') in ('external', 'both')
+      )
+    order by c.embedding <=> query_embedding
+    limit greatest(match_count, 1)
+  )
+  select
+    h.chunk_id, h.document_id, h.title, h.content, h.similarity,
+    h.solution_slug, h.series, h.membrane,
+    fb.feedback_score, fb.downvotes
+  from hits h
+  cross join lateral public.knowledge_chunk_feedback(h.chunk_id, h.restored_at) fb
+  order by h.similarity desc;
+$$;
+
+grant execute on function public.match_knowledge_chunks(vector, integer, text, text[], text, text, text, text)
+  to authenticated, service_role;
+
+-- search_knowledge_chunks: as in 20261019_000023, minus quarantined chunks, plus feedback
+drop function if exists public.search_knowledge_chunks(text, integer, text, text[], text, text, text);
+
+create or replace function public.search_knowledge_chunks(
+  query_text text,
+  match_count integer default 24,
+  filter_category text default null,
+  filter_product_tags text[] default null,
+  filter_solution_slug text default null,
+  filter_membrane text default null,
+  filter_audience text default null
+)
+returns table (
+  chunk_id uuid,
+  document_id uuid,
+  title text,
+  content text,
+  keyword_rank real,
+  solution_slug text,
+  series text,
+  membrane text,
+  feedback_score double precision,
+  downvotes integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with q as (
+    select nullif(replace(plainto_tsquery('english', coalesce(query_text, ''))::text, ' & ', ' | '), '')::tsquery as query
+  ),
+  hits as (
+    select
+      c.id as chunk_id,
+      c.document_id,
+      d.title,
+      c.content,
+      ts_rank_cd(setweight(coalesce(d.title_fts, ''::tsvector), 'A') || c.fts, q.query, 32) as keyword_rank,
+      d.solution_slug,
+      d.series,
+      d.membrane,
+      c.restored_at
+    from q
+    join public.knowledge_chunks c on q.query is not null
+    join public.knowledge_documents d on d.id = c.document_id
+    where (c.fts @@ q.query or d.title_fts @@ q.query)
+      and d.status = 'approved'
+      and coalesce(d.allowed, true)
+      and coalesce(d.is_indexable, true)
+      and c.is_indexable
+      and (filter_category is null or d.category = filter_category)
+      and (
+        filter_product_tags is null
+        or cardinality(filter_product_tags) = 0
+        or c.product_tags && filter_product_tags
+      )
+      and (
+        filter_solution_slug is null
+        or d.solution_slug is null
+        or lower(regexp_replace(d.solution_slug, '^solutions/', '')) = lower(filter_solution_slug)
+      )
+      and (
+        filter_membrane is null
+        or d.membrane is null
+        or lower(d.membrane) = lower(filter_membrane)
+      )
+      and (
+        (select public.knowledge_caller_audience(filter_audience)) = 'internal'
+        or coalesce(d.audience, 'both') in ('external', 'both')
+      )
+    order by keyword_rank desc
+    limit greatest(match_count, 1)
+  )
+  select
+    h.chunk_id, h.document_id, h.title, h.content, h.keyword_rank,
+    h.solution_slug, h.series, h.membrane,
+    fb.feedback_score, fb.downvotes
+  from hits h
+  cross join lateral public.knowledge_chunk_feedback(h.chunk_id, h.restored_at) fb
+  order by h.keyword_rank desc;
+$$;
+
+grant execute on function public.search_knowledge_chunks(text, integer, text, text[], text, text, text)
+  to authenticated, service_role;
@@ -0,0 +1,21 @@
+-- Lead form values come from the catalog (src/lib/solutions/catalog.ts leadSolutionOptions): lead_key is what
+-- a lead stores as solution_key and names its attachment folder (leads/{id}/{solution_key}/). Null = key.
+-- Three rows keep the values the lead form used before the catalog, so existing leads still line up.
+
+alter table public.solutions
+  add column if not exists lead_key text;
+
+update public.solutions
+  set lead_key = case key
+      when 'snow-retention-general' then 'snow-retention'
+      when 'hvac-existing-tie-down' then 'hvac-securement'
+      when 'guy-wire-kit' then 'guy-wire'
+      else key
+    end,
+    updated_at = now()
+  where lead_label is not null
+    and lead_key is null;
+
+create unique index if not exists solutions_lead_key_idx
+  on public.solutions (lead_key)
+  where lead_key is not null;
@@ -0,0 +1,8 @@
+-- Escalation audit log (src/lib/chat/escalationPolicy.ts recordEscalationDecision): every chat decision is
+-- logged, "allow" included, so the log shows how often the rules pass a question as well as when they fire.
+
+alter table public.escalation_events
+  drop constraint if exists escalation_events_outcome_check;
+
+alter table public.escalation_events
+  add constraint escalation_events_outcome_check check (outcome in ('allow','partial','escalate'));